@@ -0,0 +1,45 @@
+-- ============================================================================
+-- Migration: Server-side AI proxy usage log and quotas
+-- Run this SQL in your Supabase SQL Editor
+-- 1. Log every AI call made by the ai-proxy edge function
+-- 2. Give each restaurant a monthly AI quota
+-- Deploy the function with: supabase functions deploy ai-proxy
+-- and set OPENAI_API_KEY (or AI_PROVIDER=anthropic and ANTHROPIC_API_KEY) as secrets.
+-- ============================================================================
+
+ALTER TABLE restaurants
+ADD COLUMN IF NOT EXISTS ai_monthly_quota integer NOT NULL DEFAULT 2000;
+
+CREATE TABLE IF NOT EXISTS ai_usage_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid REFERENCES restaurants(id) ON DELETE SET NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  task text NOT NULL,
+  provider text NOT NULL,
+  model text,
+  status text NOT NULL CHECK (status IN ('ok', 'invalid_response', 'provider_error')),
+  input_tokens integer,
+  output_tokens integer,
+  duration_ms integer,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Rate limit and quota checks count recent rows per restaurant or per user
+CREATE INDEX IF NOT EXISTS idx_ai_usage_log_restaurant_created ON ai_usage_log(restaurant_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_log_user_created ON ai_usage_log(user_id, created_at);
+
+-- Rows are written by the edge function with the service role; owners can only read theirs
+ALTER TABLE ai_usage_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Restaurant owners can view own AI usage" ON ai_usage_log;
+CREATE POLICY "Restaurant owners can view own AI usage"
+  ON ai_usage_log FOR SELECT
+  TO authenticated
+  USING (
+    user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM restaurants
+      WHERE restaurants.id = ai_usage_log.restaurant_id
+      AND restaurants.owner_id = auth.uid()
+    )
+  );
@@ -0,0 +1,9 @@
+-- ============================================================================
+-- Migration: AI repair attempts
+-- Run this SQL in your Supabase SQL Editor
+-- The ai-proxy edge function re-prompts the model when a reply fails validation
+-- and retries vendor outages; each call is logged with its attempt number.
+-- ============================================================================
+
+ALTER TABLE ai_usage_log
+ADD COLUMN IF NOT EXISTS attempt integer NOT NULL DEFAULT 1;
@@ -0,0 +1,278 @@
+-- ============================================================================
+-- Migration: Allergen change alerts
+-- Run this SQL in your Supabase SQL Editor
+-- Requires database_migration_menu_item_revisions.sql
+-- 1. menu_items.allergens_changed_at / allergens_added record when a published
+--    dish last gained an allergen and which ones it gained
+-- 2. menu_item_allergens() returns every allergen a guest is exposed to when
+--    ordering the dish unmodified
+-- 3. save_menu_item() compares the allergens before and after each save and
+--    stamps the dish when a published one gained any
+-- ============================================================================
+
+ALTER TABLE menu_items ADD COLUMN IF NOT EXISTS allergens_changed_at timestamptz;
+ALTER TABLE menu_items ADD COLUMN IF NOT EXISTS allergens_added text[] NOT NULL DEFAULT '{}';
+
+-- Ingredients, cross-contact risks from the cooking steps and allergens named in
+-- the description. Substitutes are left out: a guest only gets them on request.
+CREATE OR REPLACE FUNCTION menu_item_allergens(p_menu_item_id uuid)
+RETURNS text[] AS $$
+  SELECT coalesce(array_agg(DISTINCT a ORDER BY a), '{}')
+  FROM (
+    SELECT unnest(description_allergens) AS a FROM menu_items WHERE id = p_menu_item_id
+    UNION ALL
+    SELECT unnest(i.contains_allergens)
+    FROM menu_item_ingredients mii
+    JOIN ingredients i ON i.id = mii.ingredient_id
+    WHERE mii.menu_item_id = p_menu_item_id
+    UNION ALL
+    SELECT unnest(cross_contact_risk) FROM cooking_steps WHERE menu_item_id = p_menu_item_id
+  ) allergens;
+$$ LANGUAGE sql STABLE;
+
+-- Same as in database_migration_menu_item_revisions.sql, plus the allergen comparison
+CREATE OR REPLACE FUNCTION save_menu_item(
+  p_restaurant_id uuid,
+  p_menu_item_id uuid,
+  p_item jsonb,
+  p_ingredients jsonb,
+  p_steps jsonb,
+  p_restored_from uuid DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_menu_item_id uuid := p_menu_item_id;
+  v_ingredient jsonb;
+  v_substitute jsonb;
+  v_step jsonb;
+  v_ingredient_id uuid;
+  v_substitute_id uuid;
+  v_link_id uuid;
+  v_was_active boolean := false;
+  v_allergens_before text[] := '{}';
+  v_allergens_added text[];
+BEGIN
+  -- Validate everything before writing anything
+  IF NOT EXISTS (
+    SELECT 1 FROM restaurants WHERE id = p_restaurant_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You can only edit menus of your own restaurant' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_menu_item_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM menu_items WHERE id = p_menu_item_id AND restaurant_id = p_restaurant_id
+  ) THEN
+    RAISE EXCEPTION 'Menu item % was not found', p_menu_item_id USING ERRCODE = '22023';
+  END IF;
+
+  IF p_menu_item_id IS NULL OR p_item ? 'name' THEN
+    IF coalesce(trim(p_item->>'name'), '') = '' THEN
+      RAISE EXCEPTION 'Dish name is required' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  IF jsonb_typeof(p_ingredients) <> 'array' OR jsonb_typeof(p_steps) <> 'array' THEN
+    RAISE EXCEPTION 'Ingredients and cooking steps must be lists' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_ingredient IN SELECT * FROM jsonb_array_elements(p_ingredients) LOOP
+    IF coalesce(trim(v_ingredient->>'name'), '') = '' THEN
+      RAISE EXCEPTION 'Every ingredient needs a name' USING ERRCODE = '22023';
+    END IF;
+    IF jsonb_typeof(v_ingredient->'allergens') IS DISTINCT FROM 'array' THEN
+      RAISE EXCEPTION 'Allergens for "%" must be a list', v_ingredient->>'name' USING ERRCODE = '22023';
+    END IF;
+    IF (v_ingredient->>'amount_value')::numeric <= 0 THEN
+      RAISE EXCEPTION 'Amount for "%" must be greater than zero', v_ingredient->>'name' USING ERRCODE = '22023';
+    END IF;
+    IF v_ingredient->>'ingredient_id' IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM ingredients
+      WHERE id = (v_ingredient->>'ingredient_id')::uuid AND restaurant_id = p_restaurant_id
+    ) THEN
+      RAISE EXCEPTION 'Ingredient "%" does not belong to this restaurant', v_ingredient->>'name' USING ERRCODE = '22023';
+    END IF;
+
+    FOR v_substitute IN SELECT * FROM jsonb_array_elements(coalesce(v_ingredient->'substitutes', '[]'::jsonb)) LOOP
+      IF coalesce(trim(v_substitute->>'name'), '') = '' THEN
+        RAISE EXCEPTION 'Every substitute for "%" needs a name', v_ingredient->>'name' USING ERRCODE = '22023';
+      END IF;
+      IF v_substitute->>'ingredient_id' IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM ingredients
+        WHERE id = (v_substitute->>'ingredient_id')::uuid AND restaurant_id = p_restaurant_id
+      ) THEN
+        RAISE EXCEPTION 'Substitute "%" does not belong to this restaurant', v_substitute->>'name' USING ERRCODE = '22023';
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_steps) s WHERE coalesce(trim(s->>'description'), '') = ''
+  ) THEN
+    RAISE EXCEPTION 'Every cooking step needs a description' USING ERRCODE = '22023';
+  END IF;
+
+  IF (SELECT count(*) <> count(DISTINCT (s->>'step_number')::integer) FROM jsonb_array_elements(p_steps) s) THEN
+    RAISE EXCEPTION 'Cooking step numbers must be unique' USING ERRCODE = '22023';
+  END IF;
+
+  -- Menu item
+  IF v_menu_item_id IS NULL THEN
+    INSERT INTO menu_items (
+      restaurant_id, name, description, description_allergens, preparation, category, price,
+      calories, protein_g, carbs_g, carbs_fiber_g, carbs_sugar_g, carbs_added_sugar_g,
+      fat_g, fat_saturated_g, fat_trans_g, fat_polyunsaturated_g, fat_monounsaturated_g,
+      sodium_mg, cholesterol_mg, nutrition_source, photo_url, modification_policy, is_active
+    )
+    SELECT
+      p_restaurant_id, trim(r.name), r.description, coalesce(r.description_allergens, '{}'), r.preparation, r.category, r.price,
+      r.calories, r.protein_g, r.carbs_g, r.carbs_fiber_g, r.carbs_sugar_g, r.carbs_added_sugar_g,
+      r.fat_g, r.fat_saturated_g, r.fat_trans_g, r.fat_polyunsaturated_g, r.fat_monounsaturated_g,
+      r.sodium_mg, r.cholesterol_mg, r.nutrition_source, r.photo_url,
+      coalesce(r.modification_policy, 'Please inform your server of any dietary restrictions.'),
+      coalesce(r.is_active, true)
+    FROM jsonb_populate_record(NULL::menu_items, p_item) r
+    RETURNING id INTO v_menu_item_id;
+  ELSE
+    SELECT is_active INTO v_was_active FROM menu_items WHERE id = v_menu_item_id;
+    v_allergens_before := menu_item_allergens(v_menu_item_id);
+
+    UPDATE menu_items m
+    SET (
+      name, description, description_allergens, preparation, category, price,
+      calories, protein_g, carbs_g, carbs_fiber_g, carbs_sugar_g, carbs_added_sugar_g,
+      fat_g, fat_saturated_g, fat_trans_g, fat_polyunsaturated_g, fat_monounsaturated_g,
+      sodium_mg, cholesterol_mg, nutrition_source, photo_url, modification_policy, is_active
+    ) = (
+      SELECT
+        trim(r.name), r.description, r.description_allergens, r.preparation, r.category, r.price,
+        r.calories, r.protein_g, r.carbs_g, r.carbs_fiber_g, r.carbs_sugar_g, r.carbs_added_sugar_g,
+        r.fat_g, r.fat_saturated_g, r.fat_trans_g, r.fat_polyunsaturated_g, r.fat_monounsaturated_g,
+        r.sodium_mg, r.cholesterol_mg, r.nutrition_source, r.photo_url, r.modification_policy, r.is_active
+      FROM jsonb_populate_record(m, p_item) r
+    )
+    WHERE m.id = v_menu_item_id;
+
+    DELETE FROM menu_item_ingredients WHERE menu_item_id = v_menu_item_id;
+    DELETE FROM cooking_steps WHERE menu_item_id = v_menu_item_id;
+  END IF;
+
+  -- Ingredients, with their allergens kept in sync on the shared ingredient row
+  FOR v_ingredient IN SELECT * FROM jsonb_array_elements(p_ingredients) LOOP
+    v_ingredient_id := (v_ingredient->>'ingredient_id')::uuid;
+
+    IF v_ingredient_id IS NULL THEN
+      SELECT id INTO v_ingredient_id
+      FROM ingredients
+      WHERE restaurant_id = p_restaurant_id AND lower(name) = lower(trim(v_ingredient->>'name'))
+      LIMIT 1;
+    END IF;
+
+    IF v_ingredient_id IS NULL THEN
+      INSERT INTO ingredients (restaurant_id, name, contains_allergens)
+      VALUES (
+        p_restaurant_id,
+        trim(v_ingredient->>'name'),
+        ARRAY(SELECT jsonb_array_elements_text(v_ingredient->'allergens'))
+      )
+      RETURNING id INTO v_ingredient_id;
+    ELSE
+      UPDATE ingredients
+      SET contains_allergens = ARRAY(SELECT jsonb_array_elements_text(v_ingredient->'allergens'))
+      WHERE id = v_ingredient_id;
+    END IF;
+
+    INSERT INTO menu_item_ingredients (
+      menu_item_id, ingredient_id, amount_value, amount_unit, is_removable, is_substitutable
+    )
+    VALUES (
+      v_menu_item_id,
+      v_ingredient_id,
+      (v_ingredient->>'amount_value')::numeric,
+      v_ingredient->>'amount_unit',
+      coalesce((v_ingredient->>'is_removable')::boolean, false),
+      coalesce((v_ingredient->>'is_substitutable')::boolean, false)
+    )
+    RETURNING id INTO v_link_id;
+
+    IF coalesce((v_ingredient->>'is_substitutable')::boolean, false) THEN
+      FOR v_substitute IN SELECT * FROM jsonb_array_elements(coalesce(v_ingredient->'substitutes', '[]'::jsonb)) LOOP
+        v_substitute_id := (v_substitute->>'ingredient_id')::uuid;
+
+        IF v_substitute_id IS NULL THEN
+          SELECT id INTO v_substitute_id
+          FROM ingredients
+          WHERE restaurant_id = p_restaurant_id AND lower(name) = lower(trim(v_substitute->>'name'))
+          LIMIT 1;
+        END IF;
+
+        IF v_substitute_id IS NULL THEN
+          INSERT INTO ingredients (restaurant_id, name, contains_allergens)
+          VALUES (
+            p_restaurant_id,
+            trim(v_substitute->>'name'),
+            ARRAY(SELECT jsonb_array_elements_text(coalesce(v_substitute->'allergens', '[]'::jsonb)))
+          )
+          RETURNING id INTO v_substitute_id;
+        END IF;
+
+        INSERT INTO ingredient_substitutes (menu_item_ingredient_id, substitute_ingredient_id)
+        VALUES (v_link_id, v_substitute_id);
+      END LOOP;
+    END IF;
+  END LOOP;
+
+  -- Cooking steps
+  INSERT INTO cooking_steps (
+    menu_item_id, step_number, description, cross_contact_risk,
+    is_modifiable, modifiable_allergens, modification_notes
+  )
+  SELECT
+    v_menu_item_id,
+    (s->>'step_number')::integer,
+    trim(s->>'description'),
+    ARRAY(SELECT jsonb_array_elements_text(coalesce(s->'cross_contact_risk', '[]'::jsonb))),
+    coalesce((s->>'is_modifiable')::boolean, false),
+    ARRAY(SELECT jsonb_array_elements_text(coalesce(s->'modifiable_allergens', '[]'::jsonb))),
+    nullif(trim(s->>'modification_notes'), '')
+  FROM jsonb_array_elements(p_steps) s;
+
+  -- A published dish that gained an allergen is stamped so guests who saw the
+  -- old recipe are told. Earlier additions the dish still contains stay listed.
+  IF v_was_active THEN
+    v_allergens_added := ARRAY(
+      SELECT unnest(menu_item_allergens(v_menu_item_id))
+      EXCEPT
+      SELECT unnest(v_allergens_before)
+    );
+
+    IF cardinality(v_allergens_added) > 0 THEN
+      UPDATE menu_items
+      SET
+        allergens_changed_at = now(),
+        allergens_added = ARRAY(
+          SELECT a FROM (
+            SELECT unnest(v_allergens_added)
+            UNION
+            (SELECT unnest(allergens_added) INTERSECT SELECT unnest(menu_item_allergens(v_menu_item_id)))
+          ) added(a)
+          ORDER BY a
+        )
+      WHERE id = v_menu_item_id;
+    END IF;
+  END IF;
+
+  PERFORM record_menu_item_revision(
+    v_menu_item_id,
+    CASE
+      WHEN p_restored_from IS NOT NULL THEN 'restore'
+      WHEN p_menu_item_id IS NULL THEN 'create'
+      ELSE 'update'
+    END,
+    p_restored_from
+  );
+
+  RETURN v_menu_item_id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION save_menu_item(uuid, uuid, jsonb, jsonb, jsonb, uuid) TO authenticated;
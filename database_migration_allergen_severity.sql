@@ -0,0 +1,10 @@
+-- ============================================================================
+-- Migration: Per-allergen severity on customer profiles
+-- Run this SQL in your Supabase SQL Editor
+-- Maps a dietary restriction name or custom allergen to
+-- 'preference' | 'intolerance' | 'allergy' | 'anaphylactic'.
+-- Missing entries are treated as 'allergy'.
+-- ============================================================================
+
+ALTER TABLE customer_profiles
+ADD COLUMN IF NOT EXISTS allergen_severities jsonb NOT NULL DEFAULT '{}'::jsonb;
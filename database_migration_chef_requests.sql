@@ -0,0 +1,29 @@
+-- ============================================================================
+-- Migration: Guest-initiated chef modification requests
+-- Run this SQL in your Supabase SQL Editor
+-- 1. Store the structured request (removals, swaps, note) alongside request_details
+-- 2. Let guest sessions read back their own requests and the chef's response,
+--    through guest_chef_requests() rather than a table policy
+-- ============================================================================
+
+ALTER TABLE chef_requests
+ADD COLUMN IF NOT EXISTS modifications jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_chef_requests_customer_profile ON chef_requests(customer_profile_id);
+
+-- Guests are anonymous, so an anon SELECT policy can't tell one guest from another.
+-- Drop the one earlier versions of this migration created; a guest reads their own
+-- requests by their session id instead.
+DROP POLICY IF EXISTS "Anyone can view chef requests by profile" ON chef_requests;
+
+CREATE OR REPLACE FUNCTION guest_chef_requests(p_session_id text, p_restaurant_id uuid DEFAULT NULL)
+RETURNS SETOF chef_requests AS $$
+  SELECT cr.*
+  FROM chef_requests cr
+  JOIN customer_profiles cp ON cp.id = cr.customer_profile_id
+  WHERE cp.session_id = p_session_id
+  AND (p_restaurant_id IS NULL OR cr.restaurant_id = p_restaurant_id)
+  ORDER BY cr.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION guest_chef_requests(text, uuid) TO anon, authenticated;
@@ -0,0 +1,16 @@
+-- ============================================================================
+-- Migration: Group dining
+-- Run this SQL in your Supabase SQL Editor
+-- Requires database_migration_restaurant_tables.sql
+-- 1. Companion diners are customer profiles of their own, named and linked to
+--    the guest session that added them (group_session_id)
+-- 2. The guest's own profile keeps group_session_id NULL
+-- ============================================================================
+
+ALTER TABLE customer_profiles
+ADD COLUMN IF NOT EXISTS diner_name text;
+
+ALTER TABLE customer_profiles
+ADD COLUMN IF NOT EXISTS group_session_id text;
+
+CREATE INDEX IF NOT EXISTS idx_customer_profiles_group_session ON customer_profiles(group_session_id);
@@ -0,0 +1,476 @@
+-- ============================================================================
+-- Migration: Shared kitchen equipment
+-- Run this SQL in your Supabase SQL Editor
+-- Requires database_migration_allergen_change_alerts.sql
+-- 1. One row per fryer, grill, wok or prep station, with the allergens it is
+--    exposed to (what else goes through the fryer, what else is cut on the board)
+-- 2. cooking_steps.equipment_ids lists the equipment a step uses; the step's
+--    cross-contact risks are its own cross_contact_risk plus the allergens of its
+--    equipment, so editing a fryer updates every dish fried in it
+-- 3. menu_item_allergens(), menu_item_snapshot() and save_menu_item() include
+--    the equipment; snapshots keep each piece's name and allergens at the time
+-- 4. Editing a piece of equipment stamps the published dishes that gained an
+--    allergen through it and records a revision of every dish that uses it
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS kitchen_equipment (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid REFERENCES restaurants(id) ON DELETE CASCADE NOT NULL,
+  -- As the kitchen calls it, e.g. 'Fryer 2' or 'Allergen-free prep board'
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  kind text NOT NULL DEFAULT 'other' CHECK (kind IN ('fryer', 'grill', 'wok', 'prep_station', 'other')),
+  exposed_allergens text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (restaurant_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_kitchen_equipment_restaurant ON kitchen_equipment(restaurant_id);
+
+-- An array rather than a join table: save_menu_item replaces a dish's steps on every
+-- save, and the ids travel with the step through snapshots and restores
+ALTER TABLE cooking_steps ADD COLUMN IF NOT EXISTS equipment_ids uuid[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_cooking_steps_equipment ON cooking_steps USING gin (equipment_ids);
+
+-- Arrays can't hold foreign keys, so deleted equipment is taken off its steps here
+CREATE OR REPLACE FUNCTION remove_deleted_kitchen_equipment()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE cooking_steps
+  SET equipment_ids = array_remove(equipment_ids, OLD.id)
+  WHERE equipment_ids @> ARRAY[OLD.id];
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS kitchen_equipment_deleted ON kitchen_equipment;
+CREATE TRIGGER kitchen_equipment_deleted
+  AFTER DELETE ON kitchen_equipment
+  FOR EACH ROW
+  EXECUTE FUNCTION remove_deleted_kitchen_equipment();
+
+ALTER TABLE kitchen_equipment ENABLE ROW LEVEL SECURITY;
+
+-- Guests' safety analysis reads the equipment behind each step
+DROP POLICY IF EXISTS "Anyone can view kitchen equipment" ON kitchen_equipment;
+CREATE POLICY "Anyone can view kitchen equipment"
+  ON kitchen_equipment FOR SELECT
+  TO anon
+  USING (true);
+
+DROP POLICY IF EXISTS "Restaurant owners can manage kitchen equipment" ON kitchen_equipment;
+CREATE POLICY "Restaurant owners can manage kitchen equipment"
+  ON kitchen_equipment FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM restaurants
+      WHERE restaurants.id = kitchen_equipment.restaurant_id
+      AND restaurants.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM restaurants
+      WHERE restaurants.id = kitchen_equipment.restaurant_id
+      AND restaurants.owner_id = auth.uid()
+    )
+  );
+
+-- Same as in database_migration_allergen_change_alerts.sql, plus equipment allergens.
+-- p_without_equipment leaves one piece of equipment out, for working out what an
+-- edit to it added.
+DROP FUNCTION IF EXISTS menu_item_allergens(uuid);
+
+CREATE OR REPLACE FUNCTION menu_item_allergens(p_menu_item_id uuid, p_without_equipment uuid DEFAULT NULL)
+RETURNS text[] AS $$
+  SELECT coalesce(array_agg(DISTINCT a ORDER BY a), '{}')
+  FROM (
+    SELECT unnest(description_allergens) AS a FROM menu_items WHERE id = p_menu_item_id
+    UNION ALL
+    SELECT unnest(i.contains_allergens)
+    FROM menu_item_ingredients mii
+    JOIN ingredients i ON i.id = mii.ingredient_id
+    WHERE mii.menu_item_id = p_menu_item_id
+    UNION ALL
+    SELECT unnest(cross_contact_risk) FROM cooking_steps WHERE menu_item_id = p_menu_item_id
+    UNION ALL
+    SELECT unnest(e.exposed_allergens)
+    FROM cooking_steps cs
+    JOIN kitchen_equipment e ON e.id = ANY (cs.equipment_ids)
+    WHERE cs.menu_item_id = p_menu_item_id
+    AND e.id IS DISTINCT FROM p_without_equipment
+  ) allergens;
+$$ LANGUAGE sql STABLE;
+
+-- Same as in database_migration_menu_item_revisions.sql, plus each step's equipment.
+-- equipment_ids is what save_menu_item takes back on a restore; equipment records
+-- what it was called and exposed to when the revision was saved.
+CREATE OR REPLACE FUNCTION menu_item_snapshot(p_menu_item_id uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'item', to_jsonb(m) - 'id' - 'restaurant_id' - 'created_at' - 'updated_at',
+    'ingredients', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'ingredient_id', i.id,
+        'name', i.name,
+        'allergens', to_jsonb(coalesce(i.contains_allergens, '{}')),
+        'amount_value', mii.amount_value,
+        'amount_unit', mii.amount_unit,
+        'is_removable', mii.is_removable,
+        'is_substitutable', mii.is_substitutable,
+        'substitutes', coalesce((
+          SELECT jsonb_agg(jsonb_build_object(
+            'ingredient_id', si.id,
+            'name', si.name,
+            'allergens', to_jsonb(coalesce(si.contains_allergens, '{}'))
+          ) ORDER BY s.created_at)
+          FROM ingredient_substitutes s
+          JOIN ingredients si ON si.id = s.substitute_ingredient_id
+          WHERE s.menu_item_ingredient_id = mii.id
+        ), '[]'::jsonb)
+      ) ORDER BY mii.created_at)
+      FROM menu_item_ingredients mii
+      JOIN ingredients i ON i.id = mii.ingredient_id
+      WHERE mii.menu_item_id = m.id
+    ), '[]'::jsonb),
+    'steps', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'step_number', cs.step_number,
+        'description', cs.description,
+        'cross_contact_risk', to_jsonb(coalesce(cs.cross_contact_risk, '{}')),
+        'is_modifiable', cs.is_modifiable,
+        'modifiable_allergens', to_jsonb(coalesce(cs.modifiable_allergens, '{}')),
+        'modification_notes', cs.modification_notes,
+        'equipment_ids', to_jsonb(coalesce(cs.equipment_ids, '{}')),
+        'equipment', coalesce((
+          SELECT jsonb_agg(jsonb_build_object(
+            'id', e.id,
+            'name', e.name,
+            'exposed_allergens', to_jsonb(e.exposed_allergens)
+          ) ORDER BY ids.n)
+          FROM unnest(cs.equipment_ids) WITH ORDINALITY AS ids(id, n)
+          JOIN kitchen_equipment e ON e.id = ids.id
+        ), '[]'::jsonb)
+      ) ORDER BY cs.step_number)
+      FROM cooking_steps cs
+      WHERE cs.menu_item_id = m.id
+    ), '[]'::jsonb)
+  )
+  FROM menu_items m
+  WHERE m.id = p_menu_item_id;
+$$ LANGUAGE sql STABLE;
+
+-- Same as in database_migration_allergen_change_alerts.sql, plus steps' equipment_ids
+CREATE OR REPLACE FUNCTION save_menu_item(
+  p_restaurant_id uuid,
+  p_menu_item_id uuid,
+  p_item jsonb,
+  p_ingredients jsonb,
+  p_steps jsonb,
+  p_restored_from uuid DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_menu_item_id uuid := p_menu_item_id;
+  v_ingredient jsonb;
+  v_substitute jsonb;
+  v_step jsonb;
+  v_ingredient_id uuid;
+  v_substitute_id uuid;
+  v_link_id uuid;
+  v_was_active boolean := false;
+  v_allergens_before text[] := '{}';
+  v_allergens_added text[];
+BEGIN
+  -- Validate everything before writing anything
+  IF NOT EXISTS (
+    SELECT 1 FROM restaurants WHERE id = p_restaurant_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You can only edit menus of your own restaurant' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_menu_item_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM menu_items WHERE id = p_menu_item_id AND restaurant_id = p_restaurant_id
+  ) THEN
+    RAISE EXCEPTION 'Menu item % was not found', p_menu_item_id USING ERRCODE = '22023';
+  END IF;
+
+  IF p_menu_item_id IS NULL OR p_item ? 'name' THEN
+    IF coalesce(trim(p_item->>'name'), '') = '' THEN
+      RAISE EXCEPTION 'Dish name is required' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  IF jsonb_typeof(p_ingredients) <> 'array' OR jsonb_typeof(p_steps) <> 'array' THEN
+    RAISE EXCEPTION 'Ingredients and cooking steps must be lists' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_ingredient IN SELECT * FROM jsonb_array_elements(p_ingredients) LOOP
+    IF coalesce(trim(v_ingredient->>'name'), '') = '' THEN
+      RAISE EXCEPTION 'Every ingredient needs a name' USING ERRCODE = '22023';
+    END IF;
+    IF jsonb_typeof(v_ingredient->'allergens') IS DISTINCT FROM 'array' THEN
+      RAISE EXCEPTION 'Allergens for "%" must be a list', v_ingredient->>'name' USING ERRCODE = '22023';
+    END IF;
+    IF (v_ingredient->>'amount_value')::numeric <= 0 THEN
+      RAISE EXCEPTION 'Amount for "%" must be greater than zero', v_ingredient->>'name' USING ERRCODE = '22023';
+    END IF;
+    IF v_ingredient->>'ingredient_id' IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM ingredients
+      WHERE id = (v_ingredient->>'ingredient_id')::uuid AND restaurant_id = p_restaurant_id
+    ) THEN
+      RAISE EXCEPTION 'Ingredient "%" does not belong to this restaurant', v_ingredient->>'name' USING ERRCODE = '22023';
+    END IF;
+
+    FOR v_substitute IN SELECT * FROM jsonb_array_elements(coalesce(v_ingredient->'substitutes', '[]'::jsonb)) LOOP
+      IF coalesce(trim(v_substitute->>'name'), '') = '' THEN
+        RAISE EXCEPTION 'Every substitute for "%" needs a name', v_ingredient->>'name' USING ERRCODE = '22023';
+      END IF;
+      IF v_substitute->>'ingredient_id' IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM ingredients
+        WHERE id = (v_substitute->>'ingredient_id')::uuid AND restaurant_id = p_restaurant_id
+      ) THEN
+        RAISE EXCEPTION 'Substitute "%" does not belong to this restaurant', v_substitute->>'name' USING ERRCODE = '22023';
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_steps) s WHERE coalesce(trim(s->>'description'), '') = ''
+  ) THEN
+    RAISE EXCEPTION 'Every cooking step needs a description' USING ERRCODE = '22023';
+  END IF;
+
+  IF (SELECT count(*) <> count(DISTINCT (s->>'step_number')::integer) FROM jsonb_array_elements(p_steps) s) THEN
+    RAISE EXCEPTION 'Cooking step numbers must be unique' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_steps) s
+    WHERE jsonb_typeof(coalesce(s->'equipment_ids', '[]'::jsonb)) <> 'array'
+  ) THEN
+    RAISE EXCEPTION 'Equipment for a cooking step must be a list' USING ERRCODE = '22023';
+  END IF;
+
+  -- Menu item
+  IF v_menu_item_id IS NULL THEN
+    INSERT INTO menu_items (
+      restaurant_id, name, description, description_allergens, preparation, category, price,
+      calories, protein_g, carbs_g, carbs_fiber_g, carbs_sugar_g, carbs_added_sugar_g,
+      fat_g, fat_saturated_g, fat_trans_g, fat_polyunsaturated_g, fat_monounsaturated_g,
+      sodium_mg, cholesterol_mg, nutrition_source, photo_url, modification_policy, is_active
+    )
+    SELECT
+      p_restaurant_id, trim(r.name), r.description, coalesce(r.description_allergens, '{}'), r.preparation, r.category, r.price,
+      r.calories, r.protein_g, r.carbs_g, r.carbs_fiber_g, r.carbs_sugar_g, r.carbs_added_sugar_g,
+      r.fat_g, r.fat_saturated_g, r.fat_trans_g, r.fat_polyunsaturated_g, r.fat_monounsaturated_g,
+      r.sodium_mg, r.cholesterol_mg, r.nutrition_source, r.photo_url,
+      coalesce(r.modification_policy, 'Please inform your server of any dietary restrictions.'),
+      coalesce(r.is_active, true)
+    FROM jsonb_populate_record(NULL::menu_items, p_item) r
+    RETURNING id INTO v_menu_item_id;
+  ELSE
+    SELECT is_active INTO v_was_active FROM menu_items WHERE id = v_menu_item_id;
+    v_allergens_before := menu_item_allergens(v_menu_item_id);
+
+    UPDATE menu_items m
+    SET (
+      name, description, description_allergens, preparation, category, price,
+      calories, protein_g, carbs_g, carbs_fiber_g, carbs_sugar_g, carbs_added_sugar_g,
+      fat_g, fat_saturated_g, fat_trans_g, fat_polyunsaturated_g, fat_monounsaturated_g,
+      sodium_mg, cholesterol_mg, nutrition_source, photo_url, modification_policy, is_active
+    ) = (
+      SELECT
+        trim(r.name), r.description, r.description_allergens, r.preparation, r.category, r.price,
+        r.calories, r.protein_g, r.carbs_g, r.carbs_fiber_g, r.carbs_sugar_g, r.carbs_added_sugar_g,
+        r.fat_g, r.fat_saturated_g, r.fat_trans_g, r.fat_polyunsaturated_g, r.fat_monounsaturated_g,
+        r.sodium_mg, r.cholesterol_mg, r.nutrition_source, r.photo_url, r.modification_policy, r.is_active
+      FROM jsonb_populate_record(m, p_item) r
+    )
+    WHERE m.id = v_menu_item_id;
+
+    DELETE FROM menu_item_ingredients WHERE menu_item_id = v_menu_item_id;
+    DELETE FROM cooking_steps WHERE menu_item_id = v_menu_item_id;
+  END IF;
+
+  -- Ingredients, with their allergens kept in sync on the shared ingredient row
+  FOR v_ingredient IN SELECT * FROM jsonb_array_elements(p_ingredients) LOOP
+    v_ingredient_id := (v_ingredient->>'ingredient_id')::uuid;
+
+    IF v_ingredient_id IS NULL THEN
+      SELECT id INTO v_ingredient_id
+      FROM ingredients
+      WHERE restaurant_id = p_restaurant_id AND lower(name) = lower(trim(v_ingredient->>'name'))
+      LIMIT 1;
+    END IF;
+
+    IF v_ingredient_id IS NULL THEN
+      INSERT INTO ingredients (restaurant_id, name, contains_allergens)
+      VALUES (
+        p_restaurant_id,
+        trim(v_ingredient->>'name'),
+        ARRAY(SELECT jsonb_array_elements_text(v_ingredient->'allergens'))
+      )
+      RETURNING id INTO v_ingredient_id;
+    ELSE
+      UPDATE ingredients
+      SET contains_allergens = ARRAY(SELECT jsonb_array_elements_text(v_ingredient->'allergens'))
+      WHERE id = v_ingredient_id;
+    END IF;
+
+    INSERT INTO menu_item_ingredients (
+      menu_item_id, ingredient_id, amount_value, amount_unit, is_removable, is_substitutable
+    )
+    VALUES (
+      v_menu_item_id,
+      v_ingredient_id,
+      (v_ingredient->>'amount_value')::numeric,
+      v_ingredient->>'amount_unit',
+      coalesce((v_ingredient->>'is_removable')::boolean, false),
+      coalesce((v_ingredient->>'is_substitutable')::boolean, false)
+    )
+    RETURNING id INTO v_link_id;
+
+    IF coalesce((v_ingredient->>'is_substitutable')::boolean, false) THEN
+      FOR v_substitute IN SELECT * FROM jsonb_array_elements(coalesce(v_ingredient->'substitutes', '[]'::jsonb)) LOOP
+        v_substitute_id := (v_substitute->>'ingredient_id')::uuid;
+
+        IF v_substitute_id IS NULL THEN
+          SELECT id INTO v_substitute_id
+          FROM ingredients
+          WHERE restaurant_id = p_restaurant_id AND lower(name) = lower(trim(v_substitute->>'name'))
+          LIMIT 1;
+        END IF;
+
+        IF v_substitute_id IS NULL THEN
+          INSERT INTO ingredients (restaurant_id, name, contains_allergens)
+          VALUES (
+            p_restaurant_id,
+            trim(v_substitute->>'name'),
+            ARRAY(SELECT jsonb_array_elements_text(coalesce(v_substitute->'allergens', '[]'::jsonb)))
+          )
+          RETURNING id INTO v_substitute_id;
+        END IF;
+
+        INSERT INTO ingredient_substitutes (menu_item_ingredient_id, substitute_ingredient_id)
+        VALUES (v_link_id, v_substitute_id);
+      END LOOP;
+    END IF;
+  END LOOP;
+
+  -- Cooking steps. Equipment ids that aren't this restaurant's are dropped rather than
+  -- rejected, so restoring a revision still works after equipment was deleted.
+  INSERT INTO cooking_steps (
+    menu_item_id, step_number, description, cross_contact_risk,
+    is_modifiable, modifiable_allergens, modification_notes, equipment_ids
+  )
+  SELECT
+    v_menu_item_id,
+    (s->>'step_number')::integer,
+    trim(s->>'description'),
+    ARRAY(SELECT jsonb_array_elements_text(coalesce(s->'cross_contact_risk', '[]'::jsonb))),
+    coalesce((s->>'is_modifiable')::boolean, false),
+    ARRAY(SELECT jsonb_array_elements_text(coalesce(s->'modifiable_allergens', '[]'::jsonb))),
+    nullif(trim(s->>'modification_notes'), ''),
+    ARRAY(
+      SELECT e.id
+      FROM jsonb_array_elements_text(coalesce(s->'equipment_ids', '[]'::jsonb)) WITH ORDINALITY AS ids(id, n)
+      JOIN kitchen_equipment e ON e.id::text = ids.id AND e.restaurant_id = p_restaurant_id
+      ORDER BY ids.n
+    )
+  FROM jsonb_array_elements(p_steps) s;
+
+  -- A published dish that gained an allergen is stamped so guests who saw the
+  -- old recipe are told. Earlier additions the dish still contains stay listed.
+  IF v_was_active THEN
+    v_allergens_added := ARRAY(
+      SELECT unnest(menu_item_allergens(v_menu_item_id))
+      EXCEPT
+      SELECT unnest(v_allergens_before)
+    );
+
+    IF cardinality(v_allergens_added) > 0 THEN
+      UPDATE menu_items
+      SET
+        allergens_changed_at = now(),
+        allergens_added = ARRAY(
+          SELECT a FROM (
+            SELECT unnest(v_allergens_added)
+            UNION
+            (SELECT unnest(allergens_added) INTERSECT SELECT unnest(menu_item_allergens(v_menu_item_id)))
+          ) added(a)
+          ORDER BY a
+        )
+      WHERE id = v_menu_item_id;
+    END IF;
+  END IF;
+
+  PERFORM record_menu_item_revision(
+    v_menu_item_id,
+    CASE
+      WHEN p_restored_from IS NOT NULL THEN 'restore'
+      WHEN p_menu_item_id IS NULL THEN 'create'
+      ELSE 'update'
+    END,
+    p_restored_from
+  );
+
+  RETURN v_menu_item_id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION save_menu_item(uuid, uuid, jsonb, jsonb, jsonb, uuid) TO authenticated;
+
+-- Editing equipment changes every dish cooked with it without going through
+-- save_menu_item, so do here what save_menu_item does after a save: stamp published
+-- dishes that gained an allergen for the guest alert, and record a revision
+CREATE OR REPLACE FUNCTION kitchen_equipment_changed()
+RETURNS trigger AS $$
+DECLARE
+  v_dish record;
+  v_allergens_added text[];
+BEGIN
+  FOR v_dish IN
+    SELECT DISTINCT m.id, m.is_active
+    FROM menu_items m
+    JOIN cooking_steps cs ON cs.menu_item_id = m.id
+    WHERE cs.equipment_ids @> ARRAY[NEW.id]
+  LOOP
+    IF v_dish.is_active THEN
+      -- Before the edit the dish had its other allergens plus the old exposures
+      v_allergens_added := ARRAY(
+        SELECT unnest(menu_item_allergens(v_dish.id))
+        EXCEPT
+        SELECT unnest(menu_item_allergens(v_dish.id, NEW.id) || OLD.exposed_allergens)
+      );
+
+      IF cardinality(v_allergens_added) > 0 THEN
+        UPDATE menu_items
+        SET
+          allergens_changed_at = now(),
+          allergens_added = ARRAY(
+            SELECT a FROM (
+              SELECT unnest(v_allergens_added)
+              UNION
+              (SELECT unnest(allergens_added) INTERSECT SELECT unnest(menu_item_allergens(v_dish.id)))
+            ) added(a)
+            ORDER BY a
+          )
+        WHERE id = v_dish.id;
+      END IF;
+    END IF;
+
+    PERFORM record_menu_item_revision(v_dish.id, 'update');
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS kitchen_equipment_updated ON kitchen_equipment;
+CREATE TRIGGER kitchen_equipment_updated
+  AFTER UPDATE ON kitchen_equipment
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name OR OLD.exposed_allergens IS DISTINCT FROM NEW.exposed_allergens)
+  EXECUTE FUNCTION kitchen_equipment_changed();
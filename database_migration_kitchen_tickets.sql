@@ -0,0 +1,18 @@
+-- ============================================================================
+-- Migration: Kitchen tickets for allergy orders
+-- Run this SQL in your Supabase SQL Editor
+-- Requires database_migration_chef_requests.sql
+-- 1. Record which table a chef request belongs to
+-- 2. Record when the kitchen confirmed the dish was prepared allergen-safe
+-- ============================================================================
+
+ALTER TABLE chef_requests
+ADD COLUMN IF NOT EXISTS table_label text;
+
+ALTER TABLE chef_requests
+ADD COLUMN IF NOT EXISTS prepared_at timestamptz;
+
+-- The kitchen display lists a restaurant's requests that haven't been prepared yet
+CREATE INDEX IF NOT EXISTS idx_chef_requests_open_tickets
+  ON chef_requests(restaurant_id, created_at)
+  WHERE prepared_at IS NULL;
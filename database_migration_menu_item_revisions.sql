@@ -0,0 +1,422 @@
+-- ============================================================================
+-- Migration: Menu item revision history
+-- Run this SQL in your Supabase SQL Editor
+-- Requires database_migration_save_menu_item.sql
+-- 1. Keep an append-only log of every saved version of a dish: the item, its
+--    ingredients with their allergens and substitutes, and its cooking steps
+-- 2. save_menu_item() records a revision in the same transaction as the save
+-- 3. restore_menu_item_revision() saves an old snapshot as the new version
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS menu_item_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- No foreign key: the history outlives a deleted dish
+  menu_item_id uuid NOT NULL,
+  restaurant_id uuid REFERENCES restaurants(id) ON DELETE CASCADE NOT NULL,
+  revision_number integer NOT NULL,
+  action text NOT NULL CHECK (action IN ('create', 'update', 'restore')),
+  restored_from uuid REFERENCES menu_item_revisions(id),
+  -- Same shape as save_menu_item's input: { item, ingredients, steps }
+  snapshot jsonb NOT NULL,
+  changed_by uuid,
+  changed_by_email text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (menu_item_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_menu_item_revisions_restaurant ON menu_item_revisions(restaurant_id);
+
+-- Owners can read their history; rows are only written by record_menu_item_revision()
+-- and there are no update or delete policies
+ALTER TABLE menu_item_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Restaurant owners can view menu item revisions" ON menu_item_revisions;
+CREATE POLICY "Restaurant owners can view menu item revisions"
+  ON menu_item_revisions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM restaurants
+      WHERE restaurants.id = menu_item_revisions.restaurant_id
+      AND restaurants.owner_id = auth.uid()
+    )
+  );
+
+-- Revisions are evidence if a guest reaction is disputed, so not even the service
+-- role may edit or delete one. The only deletes let through are the cascade from
+-- deleting the whole restaurant, which runs after the restaurant row is gone.
+CREATE OR REPLACE FUNCTION prevent_menu_item_revision_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM restaurants WHERE id = OLD.restaurant_id) THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'Menu item revisions cannot be changed' USING ERRCODE = '42501';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS menu_item_revisions_immutable ON menu_item_revisions;
+CREATE TRIGGER menu_item_revisions_immutable
+  BEFORE UPDATE OR DELETE ON menu_item_revisions
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_menu_item_revision_update();
+
+-- Row triggers don't fire on TRUNCATE
+DROP TRIGGER IF EXISTS menu_item_revisions_no_truncate ON menu_item_revisions;
+CREATE TRIGGER menu_item_revisions_no_truncate
+  BEFORE TRUNCATE ON menu_item_revisions
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION prevent_menu_item_revision_update();
+
+REVOKE UPDATE, DELETE, TRUNCATE ON menu_item_revisions FROM anon, authenticated;
+
+-- The dish as stored right now, in save_menu_item's input shape
+CREATE OR REPLACE FUNCTION menu_item_snapshot(p_menu_item_id uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'item', to_jsonb(m) - 'id' - 'restaurant_id' - 'created_at' - 'updated_at',
+    'ingredients', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'ingredient_id', i.id,
+        'name', i.name,
+        'allergens', to_jsonb(coalesce(i.contains_allergens, '{}')),
+        'amount_value', mii.amount_value,
+        'amount_unit', mii.amount_unit,
+        'is_removable', mii.is_removable,
+        'is_substitutable', mii.is_substitutable,
+        'substitutes', coalesce((
+          SELECT jsonb_agg(jsonb_build_object(
+            'ingredient_id', si.id,
+            'name', si.name,
+            'allergens', to_jsonb(coalesce(si.contains_allergens, '{}'))
+          ) ORDER BY s.created_at)
+          FROM ingredient_substitutes s
+          JOIN ingredients si ON si.id = s.substitute_ingredient_id
+          WHERE s.menu_item_ingredient_id = mii.id
+        ), '[]'::jsonb)
+      ) ORDER BY mii.created_at)
+      FROM menu_item_ingredients mii
+      JOIN ingredients i ON i.id = mii.ingredient_id
+      WHERE mii.menu_item_id = m.id
+    ), '[]'::jsonb),
+    'steps', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'step_number', cs.step_number,
+        'description', cs.description,
+        'cross_contact_risk', to_jsonb(coalesce(cs.cross_contact_risk, '{}')),
+        'is_modifiable', cs.is_modifiable,
+        'modifiable_allergens', to_jsonb(coalesce(cs.modifiable_allergens, '{}')),
+        'modification_notes', cs.modification_notes
+      ) ORDER BY cs.step_number)
+      FROM cooking_steps cs
+      WHERE cs.menu_item_id = m.id
+    ), '[]'::jsonb)
+  )
+  FROM menu_items m
+  WHERE m.id = p_menu_item_id;
+$$ LANGUAGE sql STABLE;
+
+-- Runs as the function owner so the snapshot is always read from the tables
+-- rather than supplied by the caller
+CREATE OR REPLACE FUNCTION record_menu_item_revision(
+  p_menu_item_id uuid,
+  p_action text,
+  p_restored_from uuid DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_restaurant_id uuid;
+  v_revision_id uuid;
+BEGIN
+  SELECT m.restaurant_id INTO v_restaurant_id
+  FROM menu_items m
+  JOIN restaurants r ON r.id = m.restaurant_id
+  WHERE m.id = p_menu_item_id AND r.owner_id = auth.uid();
+
+  IF v_restaurant_id IS NULL THEN
+    RAISE EXCEPTION 'You can only record revisions for your own menu' USING ERRCODE = '42501';
+  END IF;
+
+  -- Serialize concurrent saves of the same dish so revision numbers stay unique
+  PERFORM pg_advisory_xact_lock(hashtext(p_menu_item_id::text));
+
+  INSERT INTO menu_item_revisions (
+    menu_item_id, restaurant_id, revision_number, action, restored_from,
+    snapshot, changed_by, changed_by_email
+  )
+  SELECT
+    p_menu_item_id,
+    v_restaurant_id,
+    coalesce(max(revision_number), 0) + 1,
+    p_action,
+    p_restored_from,
+    menu_item_snapshot(p_menu_item_id),
+    auth.uid(),
+    auth.jwt() ->> 'email'
+  FROM menu_item_revisions
+  WHERE menu_item_id = p_menu_item_id
+  RETURNING id INTO v_revision_id;
+
+  RETURN v_revision_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION record_menu_item_revision(uuid, text, uuid) TO authenticated;
+
+-- save_menu_item gains p_restored_from and now records a revision after each save
+DROP FUNCTION IF EXISTS save_menu_item(uuid, uuid, jsonb, jsonb, jsonb);
+
+CREATE OR REPLACE FUNCTION save_menu_item(
+  p_restaurant_id uuid,
+  p_menu_item_id uuid,
+  p_item jsonb,
+  p_ingredients jsonb,
+  p_steps jsonb,
+  p_restored_from uuid DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_menu_item_id uuid := p_menu_item_id;
+  v_ingredient jsonb;
+  v_substitute jsonb;
+  v_step jsonb;
+  v_ingredient_id uuid;
+  v_substitute_id uuid;
+  v_link_id uuid;
+BEGIN
+  -- Validate everything before writing anything
+  IF NOT EXISTS (
+    SELECT 1 FROM restaurants WHERE id = p_restaurant_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You can only edit menus of your own restaurant' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_menu_item_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM menu_items WHERE id = p_menu_item_id AND restaurant_id = p_restaurant_id
+  ) THEN
+    RAISE EXCEPTION 'Menu item % was not found', p_menu_item_id USING ERRCODE = '22023';
+  END IF;
+
+  IF p_menu_item_id IS NULL OR p_item ? 'name' THEN
+    IF coalesce(trim(p_item->>'name'), '') = '' THEN
+      RAISE EXCEPTION 'Dish name is required' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  IF jsonb_typeof(p_ingredients) <> 'array' OR jsonb_typeof(p_steps) <> 'array' THEN
+    RAISE EXCEPTION 'Ingredients and cooking steps must be lists' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_ingredient IN SELECT * FROM jsonb_array_elements(p_ingredients) LOOP
+    IF coalesce(trim(v_ingredient->>'name'), '') = '' THEN
+      RAISE EXCEPTION 'Every ingredient needs a name' USING ERRCODE = '22023';
+    END IF;
+    IF jsonb_typeof(v_ingredient->'allergens') IS DISTINCT FROM 'array' THEN
+      RAISE EXCEPTION 'Allergens for "%" must be a list', v_ingredient->>'name' USING ERRCODE = '22023';
+    END IF;
+    IF (v_ingredient->>'amount_value')::numeric <= 0 THEN
+      RAISE EXCEPTION 'Amount for "%" must be greater than zero', v_ingredient->>'name' USING ERRCODE = '22023';
+    END IF;
+    IF v_ingredient->>'ingredient_id' IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM ingredients
+      WHERE id = (v_ingredient->>'ingredient_id')::uuid AND restaurant_id = p_restaurant_id
+    ) THEN
+      RAISE EXCEPTION 'Ingredient "%" does not belong to this restaurant', v_ingredient->>'name' USING ERRCODE = '22023';
+    END IF;
+
+    FOR v_substitute IN SELECT * FROM jsonb_array_elements(coalesce(v_ingredient->'substitutes', '[]'::jsonb)) LOOP
+      IF coalesce(trim(v_substitute->>'name'), '') = '' THEN
+        RAISE EXCEPTION 'Every substitute for "%" needs a name', v_ingredient->>'name' USING ERRCODE = '22023';
+      END IF;
+      IF v_substitute->>'ingredient_id' IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM ingredients
+        WHERE id = (v_substitute->>'ingredient_id')::uuid AND restaurant_id = p_restaurant_id
+      ) THEN
+        RAISE EXCEPTION 'Substitute "%" does not belong to this restaurant', v_substitute->>'name' USING ERRCODE = '22023';
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_steps) s WHERE coalesce(trim(s->>'description'), '') = ''
+  ) THEN
+    RAISE EXCEPTION 'Every cooking step needs a description' USING ERRCODE = '22023';
+  END IF;
+
+  IF (SELECT count(*) <> count(DISTINCT (s->>'step_number')::integer) FROM jsonb_array_elements(p_steps) s) THEN
+    RAISE EXCEPTION 'Cooking step numbers must be unique' USING ERRCODE = '22023';
+  END IF;
+
+  -- Menu item
+  IF v_menu_item_id IS NULL THEN
+    INSERT INTO menu_items (
+      restaurant_id, name, description, description_allergens, preparation, category, price,
+      calories, protein_g, carbs_g, carbs_fiber_g, carbs_sugar_g, carbs_added_sugar_g,
+      fat_g, fat_saturated_g, fat_trans_g, fat_polyunsaturated_g, fat_monounsaturated_g,
+      sodium_mg, cholesterol_mg, nutrition_source, photo_url, modification_policy, is_active
+    )
+    SELECT
+      p_restaurant_id, trim(r.name), r.description, coalesce(r.description_allergens, '{}'), r.preparation, r.category, r.price,
+      r.calories, r.protein_g, r.carbs_g, r.carbs_fiber_g, r.carbs_sugar_g, r.carbs_added_sugar_g,
+      r.fat_g, r.fat_saturated_g, r.fat_trans_g, r.fat_polyunsaturated_g, r.fat_monounsaturated_g,
+      r.sodium_mg, r.cholesterol_mg, r.nutrition_source, r.photo_url,
+      coalesce(r.modification_policy, 'Please inform your server of any dietary restrictions.'),
+      coalesce(r.is_active, true)
+    FROM jsonb_populate_record(NULL::menu_items, p_item) r
+    RETURNING id INTO v_menu_item_id;
+  ELSE
+    UPDATE menu_items m
+    SET (
+      name, description, description_allergens, preparation, category, price,
+      calories, protein_g, carbs_g, carbs_fiber_g, carbs_sugar_g, carbs_added_sugar_g,
+      fat_g, fat_saturated_g, fat_trans_g, fat_polyunsaturated_g, fat_monounsaturated_g,
+      sodium_mg, cholesterol_mg, nutrition_source, photo_url, modification_policy, is_active
+    ) = (
+      SELECT
+        trim(r.name), r.description, r.description_allergens, r.preparation, r.category, r.price,
+        r.calories, r.protein_g, r.carbs_g, r.carbs_fiber_g, r.carbs_sugar_g, r.carbs_added_sugar_g,
+        r.fat_g, r.fat_saturated_g, r.fat_trans_g, r.fat_polyunsaturated_g, r.fat_monounsaturated_g,
+        r.sodium_mg, r.cholesterol_mg, r.nutrition_source, r.photo_url, r.modification_policy, r.is_active
+      FROM jsonb_populate_record(m, p_item) r
+    )
+    WHERE m.id = v_menu_item_id;
+
+    DELETE FROM menu_item_ingredients WHERE menu_item_id = v_menu_item_id;
+    DELETE FROM cooking_steps WHERE menu_item_id = v_menu_item_id;
+  END IF;
+
+  -- Ingredients, with their allergens kept in sync on the shared ingredient row
+  FOR v_ingredient IN SELECT * FROM jsonb_array_elements(p_ingredients) LOOP
+    v_ingredient_id := (v_ingredient->>'ingredient_id')::uuid;
+
+    IF v_ingredient_id IS NULL THEN
+      SELECT id INTO v_ingredient_id
+      FROM ingredients
+      WHERE restaurant_id = p_restaurant_id AND lower(name) = lower(trim(v_ingredient->>'name'))
+      LIMIT 1;
+    END IF;
+
+    IF v_ingredient_id IS NULL THEN
+      INSERT INTO ingredients (restaurant_id, name, contains_allergens)
+      VALUES (
+        p_restaurant_id,
+        trim(v_ingredient->>'name'),
+        ARRAY(SELECT jsonb_array_elements_text(v_ingredient->'allergens'))
+      )
+      RETURNING id INTO v_ingredient_id;
+    ELSE
+      UPDATE ingredients
+      SET contains_allergens = ARRAY(SELECT jsonb_array_elements_text(v_ingredient->'allergens'))
+      WHERE id = v_ingredient_id;
+    END IF;
+
+    INSERT INTO menu_item_ingredients (
+      menu_item_id, ingredient_id, amount_value, amount_unit, is_removable, is_substitutable
+    )
+    VALUES (
+      v_menu_item_id,
+      v_ingredient_id,
+      (v_ingredient->>'amount_value')::numeric,
+      v_ingredient->>'amount_unit',
+      coalesce((v_ingredient->>'is_removable')::boolean, false),
+      coalesce((v_ingredient->>'is_substitutable')::boolean, false)
+    )
+    RETURNING id INTO v_link_id;
+
+    IF coalesce((v_ingredient->>'is_substitutable')::boolean, false) THEN
+      FOR v_substitute IN SELECT * FROM jsonb_array_elements(coalesce(v_ingredient->'substitutes', '[]'::jsonb)) LOOP
+        v_substitute_id := (v_substitute->>'ingredient_id')::uuid;
+
+        IF v_substitute_id IS NULL THEN
+          SELECT id INTO v_substitute_id
+          FROM ingredients
+          WHERE restaurant_id = p_restaurant_id AND lower(name) = lower(trim(v_substitute->>'name'))
+          LIMIT 1;
+        END IF;
+
+        IF v_substitute_id IS NULL THEN
+          INSERT INTO ingredients (restaurant_id, name, contains_allergens)
+          VALUES (
+            p_restaurant_id,
+            trim(v_substitute->>'name'),
+            ARRAY(SELECT jsonb_array_elements_text(coalesce(v_substitute->'allergens', '[]'::jsonb)))
+          )
+          RETURNING id INTO v_substitute_id;
+        END IF;
+
+        INSERT INTO ingredient_substitutes (menu_item_ingredient_id, substitute_ingredient_id)
+        VALUES (v_link_id, v_substitute_id);
+      END LOOP;
+    END IF;
+  END LOOP;
+
+  -- Cooking steps
+  INSERT INTO cooking_steps (
+    menu_item_id, step_number, description, cross_contact_risk,
+    is_modifiable, modifiable_allergens, modification_notes
+  )
+  SELECT
+    v_menu_item_id,
+    (s->>'step_number')::integer,
+    trim(s->>'description'),
+    ARRAY(SELECT jsonb_array_elements_text(coalesce(s->'cross_contact_risk', '[]'::jsonb))),
+    coalesce((s->>'is_modifiable')::boolean, false),
+    ARRAY(SELECT jsonb_array_elements_text(coalesce(s->'modifiable_allergens', '[]'::jsonb))),
+    nullif(trim(s->>'modification_notes'), '')
+  FROM jsonb_array_elements(p_steps) s;
+
+  PERFORM record_menu_item_revision(
+    v_menu_item_id,
+    CASE
+      WHEN p_restored_from IS NOT NULL THEN 'restore'
+      WHEN p_menu_item_id IS NULL THEN 'create'
+      ELSE 'update'
+    END,
+    p_restored_from
+  );
+
+  RETURN v_menu_item_id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION save_menu_item(uuid, uuid, jsonb, jsonb, jsonb, uuid) TO authenticated;
+
+-- Save an old snapshot as the dish's newest version. Ingredient ids are dropped so
+-- ingredients deleted since are recreated by name.
+CREATE OR REPLACE FUNCTION restore_menu_item_revision(p_revision_id uuid)
+RETURNS uuid AS $$
+DECLARE
+  v_revision menu_item_revisions%ROWTYPE;
+  v_ingredients jsonb;
+  v_menu_item_id uuid;
+BEGIN
+  SELECT * INTO v_revision FROM menu_item_revisions WHERE id = p_revision_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision % was not found', p_revision_id USING ERRCODE = '22023';
+  END IF;
+
+  SELECT coalesce(jsonb_agg(
+    (i - 'ingredient_id') || jsonb_build_object('substitutes', (
+      SELECT coalesce(jsonb_agg(s - 'ingredient_id' ORDER BY so), '[]'::jsonb)
+      FROM jsonb_array_elements(coalesce(i->'substitutes', '[]'::jsonb)) WITH ORDINALITY AS u(s, so)
+    ))
+    ORDER BY io
+  ), '[]'::jsonb)
+  INTO v_ingredients
+  FROM jsonb_array_elements(v_revision.snapshot->'ingredients') WITH ORDINALITY AS t(i, io);
+
+  -- A dish deleted since is recreated; its history stays under the old id
+  SELECT id INTO v_menu_item_id FROM menu_items WHERE id = v_revision.menu_item_id;
+
+  RETURN save_menu_item(
+    v_revision.restaurant_id,
+    v_menu_item_id,
+    v_revision.snapshot->'item',
+    v_ingredients,
+    v_revision.snapshot->'steps',
+    p_revision_id
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION restore_menu_item_revision(uuid) TO authenticated;
@@ -0,0 +1,60 @@
+-- ============================================================================
+-- Migration: Translated dish names and descriptions
+-- Run this SQL in your Supabase SQL Editor
+-- 1. One row per dish and language with the owner's translated name and
+--    description; English stays on menu_items itself
+-- 2. Guests can read translations of active dishes, owners manage their own
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS menu_item_translations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_item_id uuid REFERENCES menu_items(id) ON DELETE CASCADE NOT NULL,
+  -- ISO 639-1 code, e.g. 'de'
+  language text NOT NULL CHECK (language ~ '^[a-z]{2}$' AND language <> 'en'),
+  name text NOT NULL,
+  description text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (menu_item_id, language)
+);
+
+DROP TRIGGER IF EXISTS update_menu_item_translations_updated_at ON menu_item_translations;
+CREATE TRIGGER update_menu_item_translations_updated_at
+  BEFORE UPDATE ON menu_item_translations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE menu_item_translations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view menu item translations" ON menu_item_translations;
+CREATE POLICY "Anyone can view menu item translations"
+  ON menu_item_translations FOR SELECT
+  TO anon
+  USING (
+    EXISTS (
+      SELECT 1 FROM menu_items
+      WHERE menu_items.id = menu_item_translations.menu_item_id
+      AND menu_items.is_active = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Restaurant owners can manage menu item translations" ON menu_item_translations;
+CREATE POLICY "Restaurant owners can manage menu item translations"
+  ON menu_item_translations FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM menu_items mi
+      JOIN restaurants r ON r.id = mi.restaurant_id
+      WHERE mi.id = menu_item_translations.menu_item_id
+      AND r.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM menu_items mi
+      JOIN restaurants r ON r.id = mi.restaurant_id
+      WHERE mi.id = menu_item_translations.menu_item_id
+      AND r.owner_id = auth.uid()
+    )
+  );
@@ -0,0 +1,14 @@
+-- ============================================================================
+-- Migration: Record where a dish's nutrition values came from
+-- Run this SQL in your Supabase SQL Editor
+-- 'calculated': summed from the bundled nutrient database
+-- 'estimated':  includes AI estimates for ingredients the database does not cover
+-- ============================================================================
+
+ALTER TABLE menu_items
+ADD COLUMN IF NOT EXISTS nutrition_source text;
+
+ALTER TABLE menu_items DROP CONSTRAINT IF EXISTS menu_items_nutrition_source_check;
+ALTER TABLE menu_items
+ADD CONSTRAINT menu_items_nutrition_source_check
+CHECK (nutrition_source IS NULL OR nutrition_source IN ('calculated', 'estimated'));
@@ -0,0 +1,22 @@
+-- ============================================================================
+-- Migration: Realtime updates for chef requests
+-- Run this SQL in your Supabase SQL Editor
+-- Adds chef_requests to the supabase_realtime publication so new requests reach
+-- the admin inbox and status changes reach the guest's open menu.
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'chef_requests'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE chef_requests;
+  END IF;
+END $$;
+
+-- Send the full old row on UPDATE/DELETE so subscribers filtered by
+-- restaurant_id or customer_profile_id still receive those events
+ALTER TABLE chef_requests REPLICA IDENTITY FULL;
@@ -0,0 +1,50 @@
+-- ============================================================================
+-- Migration: Tables and per-table QR codes
+-- Run this SQL in your Supabase SQL Editor
+-- Requires database_migration_kitchen_tickets.sql
+-- 1. One row per table; its QR code opens the menu with the table label attached
+-- 2. Guest profiles record the table they sat down at, so one table can hold
+--    several diners' profiles
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS restaurant_tables (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid REFERENCES restaurants(id) ON DELETE CASCADE NOT NULL,
+  -- As printed on the table, e.g. '12' or 'Terrace 3'
+  label text NOT NULL CHECK (length(trim(label)) > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (restaurant_id, label)
+);
+
+ALTER TABLE customer_profiles
+ADD COLUMN IF NOT EXISTS table_id uuid REFERENCES restaurant_tables(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_customer_profiles_table ON customer_profiles(table_id);
+
+ALTER TABLE restaurant_tables ENABLE ROW LEVEL SECURITY;
+
+-- Guests look up the table from the label in the QR link
+DROP POLICY IF EXISTS "Anyone can view restaurant tables" ON restaurant_tables;
+CREATE POLICY "Anyone can view restaurant tables"
+  ON restaurant_tables FOR SELECT
+  TO anon
+  USING (true);
+
+DROP POLICY IF EXISTS "Restaurant owners can manage tables" ON restaurant_tables;
+CREATE POLICY "Restaurant owners can manage tables"
+  ON restaurant_tables FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM restaurants
+      WHERE restaurants.id = restaurant_tables.restaurant_id
+      AND restaurants.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM restaurants
+      WHERE restaurants.id = restaurant_tables.restaurant_id
+      AND restaurants.owner_id = auth.uid()
+    )
+  );
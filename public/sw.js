@@ -0,0 +1,75 @@
+// Service worker for the guest menu. Keeps the app shell available offline; the menu
+// data itself is cached in IndexedDB by src/lib/offlineMenu.ts.
+//
+// - Page loads: network first, falling back to the cached index.html so /menu/CODE
+//   still opens without signal
+// - Built assets (/assets/*, hashed by Vite) and dish photos: cache first
+// - Everything else, including Supabase API calls, goes straight to the network
+
+const CACHE_NAME = 'safe-dining-v1';
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icon.svg'];
+
+// Scripts and styles referenced by index.html, so the first visit already caches them
+async function precacheShell(cache) {
+  await cache.addAll(SHELL_URLS);
+  const response = await cache.match('/');
+  if (!response) return;
+
+  const html = await response.text();
+  const assetUrls = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map((match) => match[1]);
+  await cache.addAll(assetUrls);
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(precacheShell)
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function networkFirstPage(request) {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put('/', response.clone());
+    return response;
+  } catch {
+    return (await cache.match('/')) || Response.error();
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+function isDishPhoto(url) {
+  return url.pathname.includes('/storage/v1/object/public/dish-photos/');
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    event.respondWith(networkFirstPage(request));
+  } else if ((url.origin === self.location.origin && url.pathname.startsWith('/assets/')) || isDishPhoto(url)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
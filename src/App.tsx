@@ -1,7 +1,11 @@
 import { useState, useEffect } from 'react';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { AppModeProvider, useAppMode } from './contexts/AppModeContext';
+import { LanguageProvider } from './contexts/LanguageContext';
+import { MessageKey } from './lib/i18n';
 import { supabase } from './lib/supabase';
+import { parseChefCardPath } from './lib/chefCard';
+import { findOfflineMenuByRestaurantCode } from './lib/offlineMenu';
 import CustomerLanding from './pages/CustomerLanding';
 import DietaryProfileSetup from './pages/DietaryProfileSetup';
 import CustomerMenu from './pages/CustomerMenu';
@@ -9,9 +13,18 @@ import RestaurantOwnerLogin from './pages/RestaurantOwnerLogin';
 import RestaurantOnboarding from './pages/RestaurantOnboarding';
 import AdminDashboard from './pages/AdminDashboard';
 import DevPanel from './pages/DevPanel';
+import ChefCardView from './pages/ChefCardView';
+import KitchenDisplay from './pages/KitchenDisplay';
 
 type GuestView = 'landing' | 'dietary-setup' | 'menu';
-type RestaurantView = 'login' | 'onboarding' | 'dashboard' | 'dev-panel';
+type RestaurantView = 'login' | 'onboarding' | 'dashboard' | 'dev-panel' | 'kitchen';
+
+const KITCHEN_PATH = '/kitchen';
+
+// Profile setup needs Supabase; offline, the menu uses the profile cached on this device
+function firstGuestView(): GuestView {
+  return navigator.onLine ? 'dietary-setup' : 'menu';
+}
 
 function AppContent() {
   const { user, loading } = useAuth();
@@ -20,15 +33,26 @@ function AppContent() {
   const [guestView, setGuestView] = useState<GuestView>('landing');
   const [restaurantView, setRestaurantView] = useState<RestaurantView>('login');
   const [qrCode, setQrCode] = useState<string>('');
+  // From a table's QR code (?table=12); empty when the guest came in with the restaurant code
+  const [tableLabel, setTableLabel] = useState<string>('');
+  // Companion diner whose profile is being edited; null edits the guest's own
+  const [editingDinerId, setEditingDinerId] = useState<string | null>(null);
   const [restaurantId, setRestaurantId] = useState<string | null>(null);
   const [restoringSession, setRestoringSession] = useState(true);
+  // Shown on the landing page when a restaurant code link can't be opened
+  const [landingError, setLandingError] = useState<MessageKey | null>(null);
 
   useEffect(() => {
     const path = window.location.pathname;
     const searchParams = new URLSearchParams(window.location.search);
+    const table = searchParams.get('table') || '';
 
+    // The kitchen display is a staff screen; without a session it asks for the owner login
+    if (path === KITCHEN_PATH) {
+      setUserMode('restaurant');
+    }
     // Handle /menu/CODE format
-    if (path.startsWith('/menu/')) {
+    else if (path.startsWith('/menu/')) {
       const code = path.split('/menu/')[1];
       if (code) {
         // Check if it's a 4-digit restaurant code or a qr_code
@@ -39,17 +63,33 @@ function AppContent() {
             .select('qr_code')
             .eq('restaurant_code', code)
             .maybeSingle()
-            .then(({ data }) => {
+            .then(async ({ data, error }) => {
               if (data) {
                 setQrCode(data.qr_code);
+                setTableLabel(table);
                 setGuestView('dietary-setup');
                 setUserMode('guest');
+              } else if (error) {
+                // No signal: open the menu saved on the last visit, if there was one
+                const cached = await findOfflineMenuByRestaurantCode(code);
+                setUserMode('guest');
+                if (cached) {
+                  setQrCode(cached.qrCode);
+                  setTableLabel(table);
+                  setGuestView('menu');
+                } else {
+                  setLandingError('landing.offline');
+                }
+              } else {
+                setUserMode('guest');
+                setLandingError('landing.notFound');
               }
             });
         } else {
           // It's a qr_code
           setQrCode(code);
-          setGuestView('dietary-setup');
+          setTableLabel(table);
+          setGuestView(firstGuestView());
           setUserMode('guest');
         }
       }
@@ -59,9 +99,10 @@ function AppContent() {
       const code = searchParams.get('qr');
       if (code) {
         setQrCode(code);
+        setTableLabel(table);
         // Update URL to cleaner format
-        window.history.replaceState({}, '', `/menu/${code}`);
-        setGuestView('dietary-setup');
+        window.history.replaceState({}, '', table ? `/menu/${code}?table=${encodeURIComponent(table)}` : `/menu/${code}`);
+        setGuestView(firstGuestView());
         setUserMode('guest');
       }
     }
@@ -75,7 +116,7 @@ function AppContent() {
       // Authenticated user in restaurant mode — restore their data
       loadRestaurantData().finally(() => setRestoringSession(false));
     } else {
-      if (!user && userMode === 'restaurant') {
+      if (!user && userMode === 'restaurant' && window.location.pathname !== KITCHEN_PATH) {
         // Session expired or user signed out — reset to guest
         setUserMode('guest');
       }
@@ -108,7 +149,7 @@ function AppContent() {
           // No menu items - force onboarding to scan menu
           setRestaurantView('onboarding');
         } else {
-          setRestaurantView('dashboard');
+          setRestaurantView(window.location.pathname === KITCHEN_PATH ? 'kitchen' : 'dashboard');
         }
       }
     }
@@ -127,23 +168,37 @@ function AppContent() {
   const handleQrCodeEntered = (code: string) => {
     setQrCode(code);
     window.history.pushState({}, '', `/menu/${code}`);
-    setGuestView('dietary-setup');
+    setLandingError(null);
+    setGuestView(firstGuestView());
   };
 
   const handleProfileComplete = () => {
+    setEditingDinerId(null);
     setGuestView('menu');
   };
 
-  const handleEditProfile = () => {
+  const handleEditProfile = (dinerProfileId?: string) => {
+    setEditingDinerId(dinerProfileId ?? null);
     setGuestView('dietary-setup');
   };
 
   const handleExitMenu = () => {
     setQrCode('');
+    setTableLabel('');
     setGuestView('landing');
     window.history.pushState({}, '', '/');
   };
 
+  const handleOpenKitchen = () => {
+    window.history.pushState({}, '', KITCHEN_PATH);
+    setRestaurantView('kitchen');
+  };
+
+  const handleCloseKitchen = () => {
+    window.history.pushState({}, '', '/');
+    setRestaurantView('dashboard');
+  };
+
   const handleRestaurantLoginSuccess = (id: string, isNewSignup: boolean = false) => {
     setRestaurantId(id);
     if (isNewSignup) {
@@ -163,6 +218,12 @@ function AppContent() {
     );
   }
 
+  // Chef card QR links open the card whatever mode this device is in
+  const chefCardPath = parseChefCardPath(window.location.pathname);
+  if (chefCardPath) {
+    return <ChefCardView {...chefCardPath} />;
+  }
+
   if (userMode === 'restaurant') {
     if (restaurantView === 'login') {
       return (
@@ -195,26 +256,34 @@ function AppContent() {
       );
     }
 
+    if (restaurantView === 'kitchen' && restaurantId) {
+      return <KitchenDisplay restaurantId={restaurantId} onBack={handleCloseKitchen} />;
+    }
+
     if (restaurantView === 'dashboard') {
       return (
         <AdminDashboard
           onBackToGuest={handleBackToGuestMode}
           onOpenDevPanel={() => setRestaurantView('dev-panel')}
+          onOpenKitchen={handleOpenKitchen}
         />
       );
     }
   }
 
   if (guestView === 'dietary-setup') {
-    return <DietaryProfileSetup onComplete={handleProfileComplete} />;
+    return <DietaryProfileSetup dinerProfileId={editingDinerId} onComplete={handleProfileComplete} />;
   }
 
   if (guestView === 'menu' && qrCode) {
-    return <CustomerMenu qrCode={qrCode} onEditProfile={handleEditProfile} onExit={handleExitMenu} />;
+    return <CustomerMenu qrCode={qrCode} tableLabel={tableLabel} onEditProfile={handleEditProfile} onExit={handleExitMenu} />;
   }
 
   return (
     <CustomerLanding
+      // A code link is looked up after the landing page is showing; remount to show its error
+      key={landingError ?? 'landing'}
+      initialError={landingError}
       onQrCodeEntered={handleQrCodeEntered}
       onSwitchToRestaurantMode={handleSwitchToRestaurantMode}
     />
@@ -225,7 +294,9 @@ function App() {
   return (
     <AuthProvider>
       <AppModeProvider>
-        <AppContent />
+        <LanguageProvider>
+          <AppContent />
+        </LanguageProvider>
       </AppModeProvider>
     </AuthProvider>
   );
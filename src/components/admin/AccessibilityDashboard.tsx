@@ -1,11 +1,14 @@
 import { useEffect, useState, useCallback } from 'react';
-import { supabase, Database } from '../../lib/supabase';
+import { loadMenuGraph, MenuGraphItem } from '../../lib/menuGraph';
+import { stepCrossContactRisks } from '../../lib/kitchenEquipment';
 import {
   analyzeDietaryMenuPossibilities,
   DIETARY_MENU_CATEGORIES,
   DietaryMenuAnalysisResult,
   DishForDietaryAnalysis,
 } from '../../lib/openai';
+import { describeAIFailure } from '../../lib/aiProvider';
+import AIUnavailableNotice from '../common/AIUnavailableNotice';
 import {
   AlertTriangle,
   CheckCircle,
@@ -19,28 +22,18 @@ import {
   ShieldCheck,
 } from 'lucide-react';
 
-type MenuItem = Database['public']['Tables']['menu_items']['Row'];
-type Ingredient = Database['public']['Tables']['ingredients']['Row'];
-type CookingStep = Database['public']['Tables']['cooking_steps']['Row'];
-type MenuItemIngredient = Database['public']['Tables']['menu_item_ingredients']['Row'];
-
-interface MenuItemWithDetails extends MenuItem {
-  ingredients: Ingredient[];
-  ingredientLinks: (MenuItemIngredient & { substitutes: { id: string; name: string; allergens: string[] }[] })[];
-  cookingSteps: CookingStep[];
-}
-
 interface AccessibilityDashboardProps {
   restaurantId: string;
 }
 
 export default function AccessibilityDashboard({ restaurantId }: AccessibilityDashboardProps) {
-  const [menuItems, setMenuItems] = useState<MenuItemWithDetails[]>([]);
+  const [menuItems, setMenuItems] = useState<MenuGraphItem[]>([]);
   const [dietaryAnalysis, setDietaryAnalysis] = useState<DietaryMenuAnalysisResult[]>([]);
   const [loading, setLoading] = useState(true);
   const [analyzingDietary, setAnalyzingDietary] = useState(false);
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set());
   const [lastAnalysisTime, setLastAnalysisTime] = useState<Date | null>(null);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
 
   useEffect(() => {
     loadDashboardData();
@@ -49,76 +42,9 @@ export default function AccessibilityDashboard({ restaurantId }: AccessibilityDa
   const loadDashboardData = async () => {
     setLoading(true);
 
-    const { data: items } = await supabase
-      .from('menu_items')
-      .select('*')
-      .eq('restaurant_id', restaurantId)
-      .eq('is_active', true);
-
-    if (items) {
-      const itemsWithDetails = await Promise.all(
-        items.map(async (item) => {
-          // Get menu item ingredients with their links
-          const { data: menuItemIngredients } = await supabase
-            .from('menu_item_ingredients')
-            .select('*')
-            .eq('menu_item_id', item.id);
-
-          // Get all ingredient IDs
-          const ingredientIds = (menuItemIngredients || []).map(mii => mii.ingredient_id);
-
-          // Get ingredients
-          const { data: ingredients } = ingredientIds.length > 0
-            ? await supabase
-                .from('ingredients')
-                .select('*')
-                .in('id', ingredientIds)
-            : { data: [] };
-
-          // Get substitutes for each menu item ingredient
-          const ingredientLinksWithSubstitutes = await Promise.all(
-            (menuItemIngredients || []).map(async (mii) => {
-              const { data: substitutes } = await supabase
-                .from('ingredient_substitutes')
-                .select('substitute_ingredient_id')
-                .eq('menu_item_ingredient_id', mii.id);
-
-              const substituteIds = (substitutes || []).map(s => s.substitute_ingredient_id);
-              const { data: substituteIngredients } = substituteIds.length > 0
-                ? await supabase
-                    .from('ingredients')
-                    .select('id, name, contains_allergens')
-                    .in('id', substituteIds)
-                : { data: [] };
-
-              return {
-                ...mii,
-                substitutes: (substituteIngredients || []).map(si => ({
-                  id: si.id,
-                  name: si.name,
-                  allergens: si.contains_allergens,
-                })),
-              };
-            })
-          );
-
-          // Get cooking steps
-          const { data: cookingSteps } = await supabase
-            .from('cooking_steps')
-            .select('*')
-            .eq('menu_item_id', item.id)
-            .order('step_number', { ascending: true });
-
-          return {
-            ...item,
-            ingredients: ingredients || [],
-            ingredientLinks: ingredientLinksWithSubstitutes,
-            cookingSteps: cookingSteps || [],
-          };
-        })
-      );
-
-      setMenuItems(itemsWithDetails);
+    const { items, error } = await loadMenuGraph(restaurantId, { activeOnly: true });
+    if (!error) {
+      setMenuItems(items);
     }
 
     setLoading(false);
@@ -139,19 +65,16 @@ export default function AccessibilityDashboard({ restaurantId }: AccessibilityDa
       description_allergens: item.description_allergens || [],
       carbs_g: item.carbs_g,
       sodium_mg: item.sodium_mg,
-      ingredients: item.ingredients.map(ing => {
-        const link = item.ingredientLinks.find(l => l.ingredient_id === ing.id);
-        return {
-          name: ing.name,
-          allergens: ing.contains_allergens,
-          is_removable: link?.is_removable || false,
-          is_substitutable: link?.is_substitutable || false,
-          substitutes: link?.substitutes || [],
-        };
-      }),
+      ingredients: item.ingredients.map(ing => ({
+        name: ing.name,
+        allergens: ing.contains_allergens,
+        is_removable: ing.is_removable,
+        is_substitutable: ing.is_substitutable,
+        substitutes: ing.substitutes,
+      })),
       cookingSteps: item.cookingSteps.map(step => ({
         description: step.description,
-        cross_contact_risk: step.cross_contact_risk,
+        cross_contact_risk: stepCrossContactRisks(step),
       })),
     }));
   }, [menuItems]);
@@ -160,6 +83,7 @@ export default function AccessibilityDashboard({ restaurantId }: AccessibilityDa
     if (menuItems.length === 0) return;
 
     setAnalyzingDietary(true);
+    setAnalysisError(null);
     try {
       const dishes = prepareDishesForAnalysis();
       const results = await analyzeDietaryMenuPossibilities(dishes);
@@ -167,6 +91,7 @@ export default function AccessibilityDashboard({ restaurantId }: AccessibilityDa
       setLastAnalysisTime(new Date());
     } catch (error) {
       console.error('Error running dietary analysis:', error);
+      setAnalysisError(describeAIFailure(error, 'Dietary menu availability could not be analyzed. Try again later.'));
     }
     setAnalyzingDietary(false);
   };
@@ -261,6 +186,12 @@ export default function AccessibilityDashboard({ restaurantId }: AccessibilityDa
           </button>
         </div>
 
+        {analysisError && (
+          <div className="mb-4">
+            <AIUnavailableNotice message={analysisError} onDismiss={() => setAnalysisError(null)} />
+          </div>
+        )}
+
         {lastAnalysisTime && (
           <p className="text-xs text-slate-400 mb-4">
             Last analyzed: {lastAnalysisTime.toLocaleTimeString()}
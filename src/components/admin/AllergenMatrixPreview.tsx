@@ -1,20 +1,23 @@
 import { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
 import { X, Download, Loader2 } from 'lucide-react';
-import { supabase } from '../../lib/supabase';
+import { loadMenuGraph } from '../../lib/menuGraph';
+import { AllergenId, matchAllergen, matchesAllergen } from '../../lib/allergenOntology';
+import { findDataGaps } from '../../lib/safetyAnalysis';
+import { DietaryStyle, evaluateDietaryStyle, toDietaryDish } from '../../lib/dietaryStyles';
 
 // Dietary categories matching the Accessibility Dashboard
 const CATEGORIES = [
-  { key: 'shellfish', label: 'Shellfish', type: 'allergen' as const, allergenAliases: ['shellfish', 'crustacean', 'shrimp', 'crab', 'lobster', 'crayfish', 'langoustine', 'prawn'] },
-  { key: 'nuts', label: 'Nuts', type: 'allergen' as const, allergenAliases: ['tree nut', 'tree nuts', 'almond', 'cashew', 'walnut', 'pecan', 'pistachio', 'macadamia', 'hazelnut', 'brazil nut', 'pine nut'] },
-  { key: 'peanuts', label: 'Peanuts', type: 'allergen' as const, allergenAliases: ['peanut', 'peanuts'] },
-  { key: 'dairy', label: 'Dairy', type: 'allergen' as const, allergenAliases: ['dairy', 'lactose', 'milk', 'cream', 'butter', 'cheese', 'whey', 'casein'] },
-  { key: 'gluten', label: 'Gluten', type: 'allergen' as const, allergenAliases: ['gluten', 'wheat', 'barley', 'rye', 'oat'] },
-  { key: 'eggs', label: 'Eggs', type: 'allergen' as const, allergenAliases: ['egg', 'eggs'] },
-  { key: 'soy', label: 'Soy', type: 'allergen' as const, allergenAliases: ['soy', 'soybean', 'soya', 'tofu', 'edamame'] },
-  { key: 'fish', label: 'Fish', type: 'allergen' as const, allergenAliases: ['fish', 'salmon', 'tuna', 'cod', 'halibut', 'anchovy', 'sardine', 'trout', 'tilapia'] },
-  { key: 'sesame', label: 'Sesame', type: 'allergen' as const, allergenAliases: ['sesame', 'tahini'] },
-  { key: 'onion', label: 'Onion', type: 'allergen' as const, allergenAliases: ['onion', 'onions', 'shallot', 'shallots', 'scallion', 'leek'] },
+  { key: 'shellfish', label: 'Shellfish', type: 'allergen' as const, allergenId: 'shellfish' as AllergenId },
+  { key: 'nuts', label: 'Nuts', type: 'allergen' as const, allergenId: 'tree_nuts' as AllergenId },
+  { key: 'peanuts', label: 'Peanuts', type: 'allergen' as const, allergenId: 'peanuts' as AllergenId },
+  { key: 'dairy', label: 'Dairy', type: 'allergen' as const, allergenId: 'milk' as AllergenId },
+  { key: 'gluten', label: 'Gluten', type: 'allergen' as const, allergenId: 'gluten' as AllergenId },
+  { key: 'eggs', label: 'Eggs', type: 'allergen' as const, allergenId: 'eggs' as AllergenId },
+  { key: 'soy', label: 'Soy', type: 'allergen' as const, allergenId: 'soy' as AllergenId },
+  { key: 'fish', label: 'Fish', type: 'allergen' as const, allergenId: 'fish' as AllergenId },
+  { key: 'sesame', label: 'Sesame', type: 'allergen' as const, allergenId: 'sesame' as AllergenId },
+  { key: 'onion', label: 'Onion', type: 'allergen' as const, allergenId: 'onion' as AllergenId },
   { key: 'vegetarian', label: 'Vegetarian', type: 'dietary-style' as const },
   { key: 'vegan', label: 'Vegan', type: 'dietary-style' as const },
   { key: 'pescatarian', label: 'Pescatarian', type: 'dietary-style' as const },
@@ -24,21 +27,6 @@ const CATEGORIES = [
   { key: 'low-sodium', label: 'Low-Sodium', type: 'health-focused' as const },
 ];
 
-// Keyword lists for dietary-style ingredient detection
-const MEAT_KEYWORDS = ['beef', 'steak', 'lamb', 'pork', 'bacon', 'ham', 'sausage', 'salami', 'pepperoni', 'prosciutto', 'chicken', 'turkey', 'duck', 'veal', 'venison', 'bison', 'rabbit', 'goat', 'meat', 'chorizo', 'pancetta'];
-const FISH_KEYWORDS = ['fish', 'salmon', 'tuna', 'cod', 'halibut', 'anchovy', 'sardine', 'mackerel', 'bass', 'trout', 'tilapia', 'swordfish', 'mahi'];
-const SEAFOOD_KEYWORDS = [...FISH_KEYWORDS, 'shrimp', 'crab', 'lobster', 'crayfish', 'prawn', 'clam', 'mussel', 'oyster', 'scallop', 'squid', 'calamari', 'octopus'];
-const DAIRY_ING_KEYWORDS = ['milk', 'cream', 'butter', 'cheese', 'yogurt', 'whey', 'casein', 'ghee'];
-const EGG_ING_KEYWORDS = ['egg', 'eggs', 'mayonnaise', 'mayo', 'aioli'];
-const PORK_KEYWORDS = ['pork', 'bacon', 'ham', 'salami', 'pepperoni', 'prosciutto', 'lard', 'pancetta', 'chorizo'];
-const ALCOHOL_KEYWORDS = ['wine', 'beer', 'rum', 'vodka', 'whiskey', 'bourbon', 'brandy', 'liqueur', 'alcohol', 'sake', 'mirin'];
-const GELATIN_KEYWORDS = ['gelatin', 'gelatine'];
-
-function ingredientMatchesAny(name: string, keywords: string[]): boolean {
-  const lower = name.toLowerCase();
-  return keywords.some(kw => lower.includes(kw));
-}
-
 // Category icons as SVG components
 const CategoryIcons: Record<string, React.FC<{ size?: number }>> = {
   'shellfish': ({ size = 28 }) => (
@@ -164,7 +152,7 @@ const CategoryIcons: Record<string, React.FC<{ size?: number }>> = {
   ),
 };
 
-type CategoryStatus = 'compatible' | 'can_modify' | 'not_compatible';
+type CategoryStatus = 'compatible' | 'can_modify' | 'not_compatible' | 'unverified';
 
 interface DishCategoryData {
   id: string;
@@ -195,6 +183,7 @@ function PrintContent({
       compatible: '#10B981',
       can_modify: '#FBBF24',
       not_compatible: '#EF4444',
+      unverified: '#94A3B8',
     };
     return (
       <div
@@ -264,6 +253,12 @@ function PrintContent({
               <strong>Red</strong> = Present, no modifications possible
             </span>
           </div>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <div style={{ width: '16px', height: '16px', borderRadius: '50%', backgroundColor: '#94A3B8' }} />
+            <span style={{ fontSize: '12px', color: '#475569' }}>
+              <strong>Grey</strong> = Can't confirm from the dish data, check with staff
+            </span>
+          </div>
         </div>
       </div>
 
@@ -398,94 +393,60 @@ export default function AllergenMatrixPreview({
     setError(null);
 
     try {
-      const { data: items, error: itemsError } = await supabase
-        .from('menu_items')
-        .select('*')
-        .eq('restaurant_id', restaurantId)
-        .eq('is_active', true)
-        .order('category')
-        .order('created_at');
-
-      if (itemsError) throw itemsError;
-      if (!items || items.length === 0) {
+      const { items, error: itemsError } = await loadMenuGraph(restaurantId, { activeOnly: true });
+
+      if (itemsError) throw new Error(itemsError);
+      if (items.length === 0) {
         setError('No menu items found');
         setLoading(false);
         return;
       }
 
-      const dishData: DishCategoryData[] = await Promise.all(
-        items.map(async (item) => {
-          // Fetch ingredients
-          const { data: menuItemIngredients } = await supabase
-            .from('menu_item_ingredients')
-            .select('*, ingredient:ingredients(*)')
-            .eq('menu_item_id', item.id);
-
-          // Fetch cooking steps for cross-contact risks (including modifiability)
-          const { data: cookingSteps } = await supabase
-            .from('cooking_steps')
-            .select('cross_contact_risk, is_modifiable, modifiable_allergens')
-            .eq('menu_item_id', item.id);
-
-          const ingredients = (menuItemIngredients || []).map((mii: any) => ({
-            name: mii.ingredient?.name || '',
-            allergens: mii.ingredient?.contains_allergens || [],
-            isRemovable: mii.is_removable || false,
-            isSubstitutable: mii.is_substitutable || false,
-          }));
-
-          const crossContactRisks: string[] = [];
-          const modifiableCrossContactRisks: string[] = [];
-          for (const step of cookingSteps || []) {
-            for (const risk of step.cross_contact_risk || []) {
-              if (step.is_modifiable) {
-                // If the step is modifiable, check if this specific allergen is in modifiable_allergens
-                const modifiableAllergens = step.modifiable_allergens || [];
-                if (modifiableAllergens.length === 0 || modifiableAllergens.some((ma: string) => ma.toLowerCase() === risk.toLowerCase())) {
-                  modifiableCrossContactRisks.push(risk);
-                } else {
-                  crossContactRisks.push(risk);
-                }
-              } else {
-                crossContactRisks.push(risk);
-              }
-            }
+      const dishData: DishCategoryData[] = items.map((item) => {
+        const ingredients = item.ingredients.map((ing) => ({
+          name: ing.name,
+          allergens: ing.contains_allergens,
+          isRemovable: ing.is_removable,
+          isSubstitutable: ing.is_substitutable,
+        }));
+
+        // Splits cross-contact risks into ones a modified cooking step avoids and ones it can't
+        const dietaryDish = toDietaryDish(item, item.ingredients, item.cookingSteps);
+        const statuses: Record<string, CategoryStatus> = {};
+        // Without ingredients or cooking steps, "not present" can't be told apart from "not listed yet"
+        const hasDataGaps = findDataGaps(item, item.ingredients, item.cookingSteps).length > 0;
+
+        for (const cat of CATEGORIES) {
+          if (cat.type === 'allergen') {
+            // Check the ontology allergen against ingredients, description allergens, and cross-contact risks
+            statuses[cat.key] = computeAllergenFreeStatus(
+              cat.allergenId!,
+              item.description_allergens || [],
+              ingredients,
+              dietaryDish.crossContactRisks,
+              dietaryDish.modifiableCrossContactRisks,
+              item.name
+            );
+          } else if (cat.type === 'dietary-style') {
+            // Same rules the guest's safety analysis applies
+            statuses[cat.key] = evaluateDietaryStyle(cat.key as DietaryStyle, dietaryDish).status;
+          } else if (cat.type === 'health-focused') {
+            statuses[cat.key] = computeHealthFocusedStatus(cat.key, item);
+            continue;
           }
 
-          const statuses: Record<string, CategoryStatus> = {};
-
-          for (const cat of CATEGORIES) {
-            if (cat.type === 'allergen') {
-              // Check allergen aliases against ingredients, description allergens, and cross-contact risks
-              statuses[cat.key] = computeAllergenFreeStatus(
-                cat.allergenAliases!,
-                item.description_allergens || [],
-                ingredients,
-                crossContactRisks,
-                modifiableCrossContactRisks,
-                item.name
-              );
-            } else if (cat.type === 'dietary-style') {
-              statuses[cat.key] = computeDietaryStyleStatus(
-                cat.key,
-                ingredients,
-                item.description_allergens || [],
-                crossContactRisks,
-                modifiableCrossContactRisks
-              );
-            } else if (cat.type === 'health-focused') {
-              statuses[cat.key] = computeHealthFocusedStatus(cat.key, item);
-            }
+          if (hasDataGaps && statuses[cat.key] !== 'not_compatible') {
+            statuses[cat.key] = 'unverified';
           }
+        }
 
-          return {
-            id: item.id,
-            name: item.name,
-            category: item.category || 'Other',
-            statuses,
-          };
-        })
-      );
+        return {
+          id: item.id,
+          name: item.name,
+          category: item.category || 'Other',
+          statuses,
+        };
+      });
 
       setDishes(dishData);
     } catch (err: any) {
@@ -568,6 +529,13 @@ export default function AllergenMatrixPreview({
             style={{ backgroundColor: '#EF4444' }}
           />
         );
+      case 'unverified':
+        return (
+          <div
+            className="w-4 h-4 rounded-full mx-auto"
+            style={{ backgroundColor: '#94A3B8' }}
+          />
+        );
     }
   };
 
@@ -670,6 +638,12 @@ export default function AllergenMatrixPreview({
                         <strong>Red</strong> = Present, no modifications possible
                       </span>
                     </div>
+                    <div className="flex items-center gap-2">
+                      <div className="w-5 h-5 rounded-full" style={{ backgroundColor: '#94A3B8' }} />
+                      <span className="text-sm text-slate-700">
+                        <strong>Grey</strong> = Can't confirm from the dish data, check with staff
+                      </span>
+                    </div>
                   </div>
                 </div>
 
@@ -762,7 +736,7 @@ interface IngredientInfo {
 const isDev = import.meta.env.VITE_ENV === 'development';
 
 function computeAllergenFreeStatus(
-  allergenAliases: string[],
+  allergenId: AllergenId,
   descriptionAllergens: string[],
   ingredients: IngredientInfo[],
   crossContactRisks: string[],
@@ -772,41 +746,40 @@ function computeAllergenFreeStatus(
   const log = (...args: any[]) => { if (isDev) console.log('[AllergenMatrix]', ...args); };
   let hasBlocker = false;
   let hasModifiable = false;
+  let hasUncertain = false;
 
-  log(`\n--- "${dishName}" checking [${allergenAliases[0]}] ---`);
+  log(`\n--- "${dishName}" checking [${allergenId}] ---`);
 
   // 1. Description allergens (cannot be modified)
   for (const descAllergen of descriptionAllergens) {
-    const lower = descAllergen.toLowerCase();
-    if (allergenAliases.some(alias => lower.includes(alias))) {
-      log(`  ⛔ BLOCKER: description allergen "${descAllergen}" matches [${allergenAliases[0]}]`);
+    if (matchesAllergen(descAllergen, allergenId)) {
+      log(`  ⛔ BLOCKER: description allergen "${descAllergen}" matches [${allergenId}]`);
       hasBlocker = true;
     }
   }
 
   // 2. Non-modifiable cross-contact risks (cannot be modified)
   for (const risk of crossContactRisks) {
-    const lower = risk.toLowerCase();
-    if (allergenAliases.some(alias => lower.includes(alias))) {
-      log(`  ⛔ BLOCKER: non-modifiable cross-contact "${risk}" matches [${allergenAliases[0]}]`);
+    if (matchesAllergen(risk, allergenId)) {
+      log(`  ⛔ BLOCKER: non-modifiable cross-contact "${risk}" matches [${allergenId}]`);
       hasBlocker = true;
     }
   }
 
   // 3. Modifiable cross-contact risks (can be adjusted by kitchen)
   for (const risk of modifiableCrossContactRisks) {
-    const lower = risk.toLowerCase();
-    if (allergenAliases.some(alias => lower.includes(alias))) {
-      log(`  ✅ MODIFIABLE: cross-contact "${risk}" is modifiable for [${allergenAliases[0]}]`);
+    if (matchesAllergen(risk, allergenId)) {
+      log(`  ✅ MODIFIABLE: cross-contact "${risk}" is modifiable for [${allergenId}]`);
       hasModifiable = true;
     }
   }
 
   // 4. Ingredient allergens
   for (const ing of ingredients) {
+    let tagged = false;
     for (const ingAllergen of ing.allergens) {
-      const lower = ingAllergen.toLowerCase();
-      if (allergenAliases.some(alias => lower.includes(alias))) {
+      if (matchesAllergen(ingAllergen, allergenId)) {
+        tagged = true;
         if (ing.isRemovable || ing.isSubstitutable) {
           log(`  ✅ MODIFIABLE: ingredient "${ing.name}" (allergen: "${ingAllergen}") is removable=${ing.isRemovable} substitutable=${ing.isSubstitutable}`);
           hasModifiable = true;
@@ -816,138 +789,28 @@ function computeAllergenFreeStatus(
         }
       }
     }
-    // Also check ingredient name against allergen aliases
-    const ingNameLower = ing.name.toLowerCase();
-    if (allergenAliases.some(alias => ingNameLower.includes(alias))) {
+    // Also check ingredient name against the allergen and its synonyms. A name that only
+    // partly matches ("cheesecake") and isn't backed by a tag needs a check with staff.
+    const nameMatch = matchAllergen(ing.name, allergenId);
+    if (nameMatch === 'low' && !tagged) {
+      log(`  ❔ UNCERTAIN: ingredient name "${ing.name}" only partly matches [${allergenId}]`);
+      hasUncertain = true;
+    } else if (nameMatch) {
       if (ing.isRemovable || ing.isSubstitutable) {
-        log(`  ✅ MODIFIABLE: ingredient name "${ing.name}" matches [${allergenAliases[0]}], removable=${ing.isRemovable}`);
+        log(`  ✅ MODIFIABLE: ingredient name "${ing.name}" matches [${allergenId}], removable=${ing.isRemovable}`);
         hasModifiable = true;
       } else {
-        log(`  ⛔ BLOCKER: ingredient name "${ing.name}" matches [${allergenAliases[0]}], NOT removable/substitutable`);
+        log(`  ⛔ BLOCKER: ingredient name "${ing.name}" matches [${allergenId}], NOT removable/substitutable`);
         hasBlocker = true;
       }
     }
   }
 
-  const result = hasBlocker ? 'not_compatible' : hasModifiable ? 'can_modify' : 'compatible';
-  log(`  → RESULT: ${result} (hasBlocker=${hasBlocker}, hasModifiable=${hasModifiable})`);
+  const result = hasBlocker ? 'not_compatible' : hasModifiable ? 'can_modify' : hasUncertain ? 'unverified' : 'compatible';
+  log(`  → RESULT: ${result} (hasBlocker=${hasBlocker}, hasModifiable=${hasModifiable}, hasUncertain=${hasUncertain})`);
   return result;
 }
 
-// Map dietary-style categories to description allergen tags that indicate non-compliance
-// These are the AI-tagged allergen names (e.g. "Fish", "Shellfish", "Milk") from description_allergens
-const DIETARY_STYLE_BLOCKER_ALLERGENS: Record<string, string[]> = {
-  vegetarian: ['fish', 'shellfish', 'mollusks'],
-  vegan: ['fish', 'shellfish', 'mollusks', 'milk', 'eggs', 'dairy'],
-  pescatarian: [], // meat/poultry aren't standard allergen tags
-  kosher: ['shellfish', 'mollusks'],
-  halal: [], // pork/alcohol aren't standard allergen tags
-};
-
-function computeDietaryStyleStatus(
-  categoryKey: string,
-  ingredients: IngredientInfo[],
-  descriptionAllergens: string[],
-  crossContactRisks: string[],
-  modifiableCrossContactRisks: string[] = []
-): CategoryStatus {
-  let hasBlocker = false;
-  let hasModifiable = false;
-
-  // 1. Check ingredient names against dietary keyword lists
-  const checkIngredients = (keywords: string[]) => {
-    for (const ing of ingredients) {
-      if (ingredientMatchesAny(ing.name, keywords)) {
-        if (ing.isRemovable || ing.isSubstitutable) {
-          hasModifiable = true;
-        } else {
-          hasBlocker = true;
-        }
-      }
-    }
-  };
-
-  // 2. Check ingredient allergen tags (e.g. ingredient tagged with "Fish" allergen)
-  const checkIngredientAllergenTags = (blockerTags: string[]) => {
-    for (const ing of ingredients) {
-      for (const allergen of ing.allergens) {
-        const lower = allergen.toLowerCase();
-        if (blockerTags.some(tag => lower.includes(tag))) {
-          if (ing.isRemovable || ing.isSubstitutable) {
-            hasModifiable = true;
-          } else {
-            hasBlocker = true;
-          }
-        }
-      }
-    }
-  };
-
-  // 3. Check description allergens (cannot be modified — they come from the dish description itself)
-  const blockerAllergens = DIETARY_STYLE_BLOCKER_ALLERGENS[categoryKey] || [];
-  for (const descAllergen of descriptionAllergens) {
-    const lower = descAllergen.toLowerCase();
-    if (blockerAllergens.some(tag => lower.includes(tag))) {
-      hasBlocker = true;
-    }
-  }
-
-  // 4. Check non-modifiable cooking step cross-contact risks
-  for (const risk of crossContactRisks) {
-    const lower = risk.toLowerCase();
-    if (blockerAllergens.some(tag => lower.includes(tag))) {
-      hasBlocker = true;
-    }
-  }
-
-  // 5. Check modifiable cooking step cross-contact risks
-  for (const risk of modifiableCrossContactRisks) {
-    const lower = risk.toLowerCase();
-    if (blockerAllergens.some(tag => lower.includes(tag))) {
-      hasModifiable = true;
-    }
-  }
-
-  // 6. Check ingredient names and allergen tags per dietary style
-  switch (categoryKey) {
-    case 'vegetarian':
-      // No meat, fish, seafood, or gelatin
-      checkIngredients([...MEAT_KEYWORDS, ...SEAFOOD_KEYWORDS, ...GELATIN_KEYWORDS]);
-      checkIngredientAllergenTags(['fish', 'shellfish', 'mollusks']);
-      break;
-    case 'vegan':
-      // No animal products at all
-      checkIngredients([
-        ...MEAT_KEYWORDS, ...SEAFOOD_KEYWORDS, ...DAIRY_ING_KEYWORDS,
-        ...EGG_ING_KEYWORDS, ...GELATIN_KEYWORDS, 'honey',
-      ]);
-      checkIngredientAllergenTags(['fish', 'shellfish', 'mollusks', 'milk', 'eggs', 'dairy']);
-      break;
-    case 'pescatarian':
-      // No meat or poultry (fish/seafood OK)
-      checkIngredients(MEAT_KEYWORDS.filter(kw =>
-        !FISH_KEYWORDS.includes(kw) && !SEAFOOD_KEYWORDS.includes(kw)
-      ));
-      checkIngredients(GELATIN_KEYWORDS);
-      break;
-    case 'kosher':
-      // No pork, shellfish
-      checkIngredients(PORK_KEYWORDS);
-      checkIngredients(['shrimp', 'crab', 'lobster', 'crayfish', 'prawn', 'clam', 'mussel', 'oyster', 'scallop', 'squid', 'calamari', 'octopus']);
-      checkIngredientAllergenTags(['shellfish', 'mollusks']);
-      break;
-    case 'halal':
-      // No pork, alcohol
-      checkIngredients(PORK_KEYWORDS);
-      checkIngredients(ALCOHOL_KEYWORDS);
-      break;
-  }
-
-  if (hasBlocker) return 'not_compatible';
-  if (hasModifiable) return 'can_modify';
-  return 'compatible';
-}
-
 function computeHealthFocusedStatus(
   categoryKey: string,
   item: any
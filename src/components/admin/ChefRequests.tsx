@@ -1,5 +1,7 @@
 import { useEffect, useState } from 'react';
 import { supabase, Database } from '../../lib/supabase';
+import { respondToChefRequest } from '../../lib/chefRequests';
+import { getRealtimeClient } from '../../lib/realtime';
 import { MessageSquare, Clock, CheckCircle, XCircle, Send } from 'lucide-react';
 
 type ChefRequest = Database['public']['Tables']['chef_requests']['Row'];
@@ -26,10 +28,15 @@ export default function ChefRequests({ restaurantId }: ChefRequestsProps) {
 
   useEffect(() => {
     loadRequests();
+
+    // Realtime payloads carry no joined dish/profile, so refetch quietly on any change
+    return getRealtimeClient().subscribeToChefRequests({ restaurantId }, () => {
+      loadRequests(false);
+    });
   }, [restaurantId]);
 
-  const loadRequests = async () => {
-    setLoading(true);
+  const loadRequests = async (showSpinner = true) => {
+    if (showSpinner) setLoading(true);
 
     const { data, error } = await supabase
       .from('chef_requests')
@@ -52,14 +59,7 @@ export default function ChefRequests({ restaurantId }: ChefRequestsProps) {
 
     setResponding(true);
 
-    const { error } = await supabase
-      .from('chef_requests')
-      .update({
-        status,
-        chef_response: response.trim() || null,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', requestId);
+    const { error } = await respondToChefRequest(requestId, status, response.trim() || null);
 
     if (!error) {
       setSelectedRequest(null);
@@ -152,6 +152,7 @@ export default function ChefRequests({ restaurantId }: ChefRequestsProps) {
                         </div>
                         <p className="text-xs text-slate-500">
                           {new Date(request.created_at).toLocaleString()}
+                          {request.table_label && ` · Table ${request.table_label}`}
                         </p>
                       </div>
                     </div>
@@ -258,6 +259,7 @@ export default function ChefRequests({ restaurantId }: ChefRequestsProps) {
                         </div>
                         <p className="text-xs text-slate-500">
                           {new Date(request.created_at).toLocaleString()}
+                          {request.table_label && ` · Table ${request.table_label}`}
                         </p>
                       </div>
                     </div>
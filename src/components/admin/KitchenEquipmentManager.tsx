@@ -0,0 +1,206 @@
+import { useEffect, useState } from 'react';
+import { X, Loader2, Plus, Trash2 } from 'lucide-react';
+import { KitchenEquipmentKind } from '../../lib/supabase';
+import { ALLERGEN_TAGS } from '../../lib/allergenOntology';
+import { invalidateMenuGraph } from '../../lib/menuGraph';
+import {
+  EQUIPMENT_KIND_LABELS,
+  KitchenEquipment,
+  addKitchenEquipment,
+  deleteKitchenEquipment,
+  loadKitchenEquipment,
+  updateKitchenEquipment,
+} from '../../lib/kitchenEquipment';
+
+interface KitchenEquipmentManagerProps {
+  restaurantId: string;
+  onClose: () => void;
+}
+
+/**
+ * Owner editor for shared kitchen equipment and the allergens each piece is exposed to.
+ * Cooking steps that use a fryer or grill pick up its allergens as cross-contact risks,
+ * so changing what goes through the fryer here updates every dish fried in it.
+ */
+export default function KitchenEquipmentManager({ restaurantId, onClose }: KitchenEquipmentManagerProps) {
+  const [equipment, setEquipment] = useState<KitchenEquipment[]>([]);
+  const [newName, setNewName] = useState('');
+  const [newKind, setNewKind] = useState<KitchenEquipmentKind>('fryer');
+  const [loading, setLoading] = useState(true);
+  const [adding, setAdding] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const { equipment: loaded, error: loadError } = await loadKitchenEquipment(restaurantId);
+      setEquipment(loaded);
+      setError(loadError);
+      setLoading(false);
+    };
+    load();
+  }, [restaurantId]);
+
+  const handleAdd = async () => {
+    setAdding(true);
+    const { equipment: added, error: addError } = await addKitchenEquipment(restaurantId, {
+      name: newName,
+      kind: newKind,
+      exposed_allergens: [],
+    });
+    if (added) {
+      setEquipment(prev => [...prev, added]);
+      setNewName('');
+      setError(null);
+    } else {
+      setError(addError);
+    }
+    setAdding(false);
+  };
+
+  const toggleAllergen = async (item: KitchenEquipment, allergen: string) => {
+    const exposed = item.exposed_allergens.includes(allergen)
+      ? item.exposed_allergens.filter(a => a !== allergen)
+      : [...item.exposed_allergens, allergen];
+
+    setSavingId(item.id);
+    const { equipment: saved, error: saveError } = await updateKitchenEquipment(item.id, {
+      name: item.name,
+      kind: item.kind,
+      exposed_allergens: exposed,
+    });
+    if (saved) {
+      setEquipment(prev => prev.map(e => (e.id === saved.id ? saved : e)));
+      // Every dish using this equipment has new cross-contact risks
+      invalidateMenuGraph(restaurantId);
+      setError(null);
+    } else {
+      setError(saveError);
+    }
+    setSavingId(null);
+  };
+
+  const handleDelete = async (item: KitchenEquipment) => {
+    if (!confirm(`Delete ${item.name}? Cooking steps that use it will no longer inherit its allergens.`)) return;
+
+    const { error: deleteError } = await deleteKitchenEquipment(item.id);
+    if (deleteError) {
+      setError(deleteError);
+      return;
+    }
+    setEquipment(prev => prev.filter(e => e.id !== item.id));
+    invalidateMenuGraph(restaurantId);
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/50 z-40" onClick={onClose} />
+
+      <div className="fixed inset-4 md:inset-x-auto md:left-1/2 md:-translate-x-1/2 md:w-[720px] md:top-8 md:bottom-8 bg-white rounded-2xl z-50 flex flex-col shadow-2xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">Kitchen Equipment</h2>
+            <p className="text-sm text-slate-500 mt-0.5">
+              Cooking steps that use a piece of equipment share its cross-contact risks
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 border-b border-slate-200 flex gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="Name, e.g. Fryer 2 or Pastry station"
+            className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+          />
+          <select
+            value={newKind}
+            onChange={(e) => setNewKind(e.target.value as KitchenEquipmentKind)}
+            className="px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+          >
+            {(Object.keys(EQUIPMENT_KIND_LABELS) as KitchenEquipmentKind[]).map((kind) => (
+              <option key={kind} value={kind}>{EQUIPMENT_KIND_LABELS[kind]}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleAdd}
+            disabled={adding || !newName.trim()}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white text-sm rounded-lg hover:bg-emerald-700 transition-colors disabled:opacity-50"
+          >
+            {adding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Add
+          </button>
+        </div>
+
+        {error && <p className="px-6 pt-3 text-sm text-red-600">{error}</p>}
+
+        {loading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+          </div>
+        ) : equipment.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center p-6 text-center text-sm text-slate-500">
+            Add your fryers, grills, woks and prep stations, then pick them on each dish's cooking steps.
+          </div>
+        ) : (
+          <div className="flex-1 overflow-auto p-6 space-y-3">
+            {equipment.map((item) => (
+              <div key={item.id} className="border border-slate-200 rounded-xl p-4">
+                <div className="flex items-center justify-between gap-3 mb-3">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-slate-900">{item.name}</span>
+                    <span className="px-2 py-0.5 text-xs bg-slate-100 text-slate-600 rounded-full">
+                      {EQUIPMENT_KIND_LABELS[item.kind]}
+                    </span>
+                    {savingId === item.id && <Loader2 className="w-4 h-4 animate-spin text-slate-400" />}
+                  </div>
+                  <button
+                    onClick={() => handleDelete(item)}
+                    className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                    title="Delete equipment"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <p className="text-xs font-medium text-slate-700 mb-2">Exposed to:</p>
+                <div className="flex flex-wrap gap-2">
+                  {ALLERGEN_TAGS.map((allergen) => {
+                    const exposed = item.exposed_allergens.includes(allergen);
+                    return (
+                      <button
+                        key={allergen}
+                        onClick={() => toggleAllergen(item, allergen)}
+                        disabled={savingId === item.id}
+                        className={`px-2.5 py-1 text-xs rounded-full transition-colors disabled:opacity-50 ${
+                          exposed
+                            ? 'bg-amber-100 text-amber-800 hover:bg-amber-200'
+                            : 'bg-slate-100 text-slate-600 hover:bg-amber-50 hover:text-amber-700'
+                        }`}
+                      >
+                        {exposed ? allergen : `+ ${allergen}`}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end px-6 py-4 border-t border-slate-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
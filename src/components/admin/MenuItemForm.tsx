@@ -1,7 +1,14 @@
 import { useState, useEffect, useRef } from 'react';
-import { supabase, Database, WeightUnit, WEIGHT_UNITS } from '../../lib/supabase';
+import { supabase, Database, WeightUnit, WEIGHT_UNITS, NutritionSource } from '../../lib/supabase';
+import { saveMenuItem, findAddedAllergens, addedAllergensWarning } from '../../lib/menuItems';
+import { calculateDishNutrition } from '../../lib/nutrition';
 import { ArrowLeft, Plus, X, AlertCircle, Search, Loader2, Edit3, ChevronDown, ChevronUp, Repeat, Trash2 } from 'lucide-react';
-import { detectAllergens, detectCrossContactRisks, detectAllergensFromDescription, estimateNutrition, NutritionEstimate, COMMON_ALLERGENS } from '../../lib/openai';
+import { detectAllergens, detectCrossContactRisks, detectAllergensFromDescription, NutritionEstimate, COMMON_ALLERGENS } from '../../lib/openai';
+import RecipeScaler from './RecipeScaler';
+import { describeAIFailure } from '../../lib/aiProvider';
+import NutritionSourceNote from '../common/NutritionSourceNote';
+import AIUnavailableNotice from '../common/AIUnavailableNotice';
+import { equipmentExposedTo, KitchenEquipment, loadKitchenEquipment, stepCrossContactRisks } from '../../lib/kitchenEquipment';
 
 type MenuItem = Database['public']['Tables']['menu_items']['Row'];
 type Ingredient = Database['public']['Tables']['ingredients']['Row'];
@@ -40,6 +47,7 @@ interface CookingStepInput {
   is_modifiable: boolean;
   modifiable_allergens: string[];
   modification_notes: string;
+  equipment_ids: string[];
 }
 
 interface ConflictOption {
@@ -85,6 +93,9 @@ export default function MenuItemForm({
   const [fatMonounsaturatedG, setFatMonounsaturatedG] = useState('');
   const [sodiumMg, setSodiumMg] = useState('');
   const [cholesterolMg, setCholesterolMg] = useState('');
+  const [nutritionSource, setNutritionSource] = useState<NutritionSource | null>(null);
+  const [unmatchedNutritionIngredients, setUnmatchedNutritionIngredients] = useState<string[]>([]);
+  const [nutritionAIUnavailable, setNutritionAIUnavailable] = useState(false);
 
   // Ingredients state
   const [ingredients, setIngredients] = useState<IngredientInput[]>([]);
@@ -107,6 +118,8 @@ export default function MenuItemForm({
   const [cookingSteps, setCookingSteps] = useState<CookingStepInput[]>([]);
   const [detectingCrossContact, setDetectingCrossContact] = useState<number | null>(null);
   const crossContactDebounceRef = useRef<{ [key: number]: NodeJS.Timeout }>({});
+  // The restaurant's fryers, grills, ...; a step using one inherits its allergens
+  const [kitchenEquipment, setKitchenEquipment] = useState<KitchenEquipment[]>([]);
 
   // Description allergen detection state
   const [descriptionAllergens, setDescriptionAllergens] = useState<string[]>([]);
@@ -116,6 +129,8 @@ export default function MenuItemForm({
   // UI state
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Set when an AI lookup failed and the owner has to fill the gap by hand
+  const [aiNotice, setAINotice] = useState<string | null>(null);
   const [expandedIngredients, setExpandedIngredients] = useState<Set<number>>(new Set());
 
   // Calorie estimation state
@@ -126,9 +141,10 @@ export default function MenuItemForm({
   const [conflicts, setConflicts] = useState<ConflictItem[]>([]);
   const [showConflictModal, setShowConflictModal] = useState(false);
 
-  // Load existing ingredients on mount
+  // Load existing ingredients and kitchen equipment on mount
   useEffect(() => {
     loadExistingIngredients();
+    loadKitchenEquipment(restaurantId).then(({ equipment }) => setKitchenEquipment(equipment));
   }, [restaurantId]);
 
   // Load item details when editing
@@ -166,15 +182,14 @@ export default function MenuItemForm({
     calorieDebounceRef.current = setTimeout(async () => {
       setEstimatingCalories(true);
       try {
-        const estimated = await estimateNutrition(
+        const { nutrition: estimated, source, unmatchedIngredients, aiUnavailable } = await calculateDishNutrition(
           name,
-          ingredients
-            .filter(ing => ing.amountValue && ing.amountValue > 0)
-            .map(ing => ({
-              name: ing.name,
-              amount: ing.amountValue,
-              unit: ing.amountUnit,
-            }))
+          // Ingredients without an amount count as unmatched, not as nothing
+          ingredients.map(ing => ({
+            name: ing.name,
+            amount: ing.amountValue,
+            unit: ing.amountUnit,
+          }))
         );
 
         setCalories(estimated.calories?.toString() || '');
@@ -190,6 +205,9 @@ export default function MenuItemForm({
         setFatMonounsaturatedG(estimated.fat_monounsaturated_g?.toString() || '');
         setSodiumMg(estimated.sodium_mg?.toString() || '');
         setCholesterolMg(estimated.cholesterol_mg?.toString() || '');
+        setNutritionSource(source);
+        setUnmatchedNutritionIngredients(unmatchedIngredients);
+        setNutritionAIUnavailable(aiUnavailable);
       } catch (err) {
         console.error('Error estimating nutrition:', err);
       } finally {
@@ -239,6 +257,7 @@ export default function MenuItemForm({
     setFatMonounsaturatedG(editingItem.fat_monounsaturated_g ? editingItem.fat_monounsaturated_g.toString() : '');
     setSodiumMg(editingItem.sodium_mg ? editingItem.sodium_mg.toString() : '');
     setCholesterolMg(editingItem.cholesterol_mg ? editingItem.cholesterol_mg.toString() : '');
+    setNutritionSource(editingItem.nutrition_source);
 
     // Load ingredients with modification settings and substitutes
     const { data: menuItemIngredients } = await supabase
@@ -297,6 +316,7 @@ export default function MenuItemForm({
           is_modifiable: step.is_modifiable || false,
           modifiable_allergens: step.modifiable_allergens || [],
           modification_notes: step.modification_notes || '',
+          equipment_ids: step.equipment_ids || [],
         }))
       );
     }
@@ -379,7 +399,8 @@ export default function MenuItemForm({
       setNewIngredientUnit('g');
     } catch (err) {
       console.error('Error detecting allergens:', err);
-      // Add with empty allergens if detection fails
+      setAINotice(describeAIFailure(err, `Allergens for "${trimmedName}" were not detected. Select them manually.`));
+      // Add without allergens; the owner is told to fill them in
       const amountVal = newIngredientAmount ? parseFloat(newIngredientAmount) : null;
       setIngredients([
         ...ingredients,
@@ -499,6 +520,7 @@ export default function MenuItemForm({
       setAddingSubstituteIndex(null);
     } catch (err) {
       console.error('Error detecting substitute allergens:', err);
+      setAINotice(describeAIFailure(err, `Allergens for substitute "${trimmedName}" were not detected. Select them manually.`));
       const current = ingredients[ingredientIndex].substitutes;
       updateIngredient(ingredientIndex, {
         substitutes: [
@@ -535,6 +557,7 @@ export default function MenuItemForm({
         is_modifiable: false,
         modifiable_allergens: [],
         modification_notes: '',
+        equipment_ids: [],
       },
     ]);
   };
@@ -594,6 +617,7 @@ export default function MenuItemForm({
       }
     } catch (err) {
       console.error('Error detecting cross-contact risks:', err);
+      setAINotice(describeAIFailure(err, `Cross-contact risks for step ${index + 1} were not checked. Add them manually.`));
     } finally {
       setDetectingCrossContact(null);
     }
@@ -638,6 +662,7 @@ export default function MenuItemForm({
       setDescriptionAllergens(detected);
     } catch (err) {
       console.error('Error detecting description allergens:', err);
+      setAINotice(describeAIFailure(err, 'Allergens mentioned in the description were not checked.'));
     } finally {
       setDetectingDescriptionAllergens(false);
     }
@@ -830,13 +855,21 @@ export default function MenuItemForm({
       }
     }
 
+    // A failed lookup doesn't block the save; save_menu_item still stamps the dish
+    if (editingItem) {
+      const { added } = await findAddedAllergens(editingItem.id, {
+        item: { description_allergens: descriptionAllergens },
+        ingredients: effectiveIngredients,
+        steps: effectiveSteps,
+      });
+      if (added.length > 0 && !confirm(addedAllergensWarning(name.trim(), added))) return;
+    }
+
     setLoading(true);
     setError(null);
 
     try {
-
       const menuItemData = {
-        restaurant_id: restaurantId,
         name: name.trim(),
         description: description.trim() || null,
         description_allergens: descriptionAllergens,
@@ -854,160 +887,19 @@ export default function MenuItemForm({
         fat_monounsaturated_g: fatMonounsaturatedG ? parseFloat(fatMonounsaturatedG) : null,
         sodium_mg: sodiumMg ? parseInt(sodiumMg, 10) : null,
         cholesterol_mg: cholesterolMg ? parseInt(cholesterolMg, 10) : null,
+        nutrition_source: nutritionSource,
         category: category.trim() || null,
         modification_policy: 'See per-ingredient settings', // Deprecated field
         is_active: true,
       };
 
-      let menuItemId: string;
-
-      if (editingItem) {
-        const { error: updateError } = await supabase
-          .from('menu_items')
-          .update(menuItemData)
-          .eq('id', editingItem.id);
-
-        if (updateError) throw updateError;
-        menuItemId = editingItem.id;
-
-        // Delete old associations
-        await supabase.from('menu_item_ingredients').delete().eq('menu_item_id', menuItemId);
-        await supabase.from('cooking_steps').delete().eq('menu_item_id', menuItemId);
-      } else {
-        const { data, error: insertError } = await supabase
-          .from('menu_items')
-          .insert(menuItemData)
-          .select()
-          .single();
-
-        if (insertError || !data) throw insertError || new Error('Failed to create menu item');
-        menuItemId = data.id;
-      }
-
-      // Save ingredients
-      for (const ing of effectiveIngredients) {
-        if (!ing.name.trim()) continue;
-
-        let ingredientId = ing.ingredientId;
-
-        // Create new ingredient if needed
-        if (ing.isNew || !ingredientId) {
-          // Check if exists by name first
-          const { data: existingIng } = await supabase
-            .from('ingredients')
-            .select('id')
-            .eq('restaurant_id', restaurantId)
-            .ilike('name', ing.name.trim())
-            .maybeSingle();
-
-          if (existingIng) {
-            ingredientId = existingIng.id;
-            // Update allergens if changed
-            await supabase
-              .from('ingredients')
-              .update({ contains_allergens: ing.allergens })
-              .eq('id', ingredientId);
-          } else {
-            const { data: newIng, error: ingError } = await supabase
-              .from('ingredients')
-              .insert({
-                restaurant_id: restaurantId,
-                name: ing.name.trim(),
-                contains_allergens: ing.allergens,
-              })
-              .select('id')
-              .single();
-
-            if (ingError) throw ingError;
-            ingredientId = newIng.id;
-          }
-        } else {
-          // Update existing ingredient allergens
-          await supabase
-            .from('ingredients')
-            .update({ contains_allergens: ing.allergens })
-            .eq('id', ingredientId);
-        }
-
-        // Create menu_item_ingredient junction
-        const { data: mii, error: miiError } = await supabase
-          .from('menu_item_ingredients')
-          .insert({
-            menu_item_id: menuItemId,
-            ingredient_id: ingredientId,
-            amount_value: ing.amountValue,
-            amount_unit: ing.amountUnit,
-            is_removable: ing.isRemovable,
-            is_substitutable: ing.isSubstitutable,
-          })
-          .select('id')
-          .single();
-
-        if (miiError) throw miiError;
-
-        // Save substitutes
-        if (ing.isSubstitutable && ing.substitutes.length > 0) {
-          for (const sub of ing.substitutes) {
-            let subIngredientId = sub.ingredientId;
-
-            // Create new substitute ingredient if needed
-            if (sub.isNew || !subIngredientId) {
-              const { data: existingSub } = await supabase
-                .from('ingredients')
-                .select('id')
-                .eq('restaurant_id', restaurantId)
-                .ilike('name', sub.name.trim())
-                .maybeSingle();
-
-              if (existingSub) {
-                subIngredientId = existingSub.id;
-              } else {
-                const { data: newSub, error: subError } = await supabase
-                  .from('ingredients')
-                  .insert({
-                    restaurant_id: restaurantId,
-                    name: sub.name.trim(),
-                    contains_allergens: sub.allergens,
-                  })
-                  .select('id')
-                  .single();
-
-                if (subError) throw subError;
-                subIngredientId = newSub.id;
-              }
-            }
-
-            // Create substitute link
-            await supabase.from('ingredient_substitutes').insert({
-              menu_item_ingredient_id: mii.id,
-              substitute_ingredient_id: subIngredientId,
-            });
-          }
-        }
-      }
-
-      // Save cooking steps
-      if (effectiveSteps.length > 0) {
-        const stepsToInsert = effectiveSteps
-          .filter((step) => step.description.trim())
-          .map((step) => ({
-            menu_item_id: menuItemId,
-            step_number: step.step_number,
-            description: step.description.trim(),
-            cross_contact_risk: step.cross_contact_risk,
-            is_modifiable: step.is_modifiable,
-            modifiable_allergens: step.modifiable_allergens,
-            modification_notes: step.modification_notes || null,
-          }));
+      const { error: saveError } = await saveMenuItem(restaurantId, editingItem?.id ?? null, {
+        item: menuItemData,
+        ingredients: effectiveIngredients,
+        steps: effectiveSteps,
+      });
 
-        if (stepsToInsert.length > 0) {
-          const { error: stepError } = await supabase
-            .from('cooking_steps')
-            .insert(stepsToInsert);
-
-          if (stepError) throw stepError;
-        }
-      }
+      if (saveError) throw new Error(saveError);
 
       onClose();
     } catch (err) {
@@ -1092,6 +984,12 @@ export default function MenuItemForm({
       </div>
 
       <form onSubmit={handleSubmit} className="space-y-6">
+        {aiNotice && (
+          <div className="sticky top-4 z-20">
+            <AIUnavailableNotice message={aiNotice} onDismiss={() => setAINotice(null)} />
+          </div>
+        )}
+
         {/* Basic Information */}
         <div className="bg-white rounded-xl border border-slate-200 p-6 space-y-4">
           <h3 className="font-semibold text-slate-900">Basic Information</h3>
@@ -1145,13 +1043,15 @@ export default function MenuItemForm({
                 {estimatingCalories && (
                   <span className="text-xs text-amber-600 flex items-center gap-1">
                     <Loader2 className="w-3 h-3 animate-spin" />
-                    Estimating from ingredients...
+                    Calculating from ingredients...
                   </span>
                 )}
               </div>
-              <p className="text-xs text-slate-500 mb-4">
-                AI estimates nutrition based on ingredients. You can adjust any values manually.
-              </p>
+              <NutritionSourceNote
+                source={nutritionSource}
+                unmatchedIngredients={unmatchedNutritionIngredients}
+                aiUnavailable={nutritionAIUnavailable}
+              />
 
               {/* Main Macros */}
               <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4">
@@ -1737,6 +1637,8 @@ export default function MenuItemForm({
               </p>
             )}
           </div>
+
+          <RecipeScaler ingredients={ingredients} />
         </div>
 
         {/* Cooking Steps */}
@@ -1850,6 +1752,51 @@ export default function MenuItemForm({
                   </p>
                 </div>
 
+                {/* Shared equipment; its allergens count as cross-contact risks of this step */}
+                {kitchenEquipment.length > 0 && (
+                  <div>
+                    <label className="block text-xs font-medium text-slate-700 mb-2">
+                      Equipment Used:
+                    </label>
+                    <div className="flex flex-wrap gap-2">
+                      {kitchenEquipment.map((equipment) => {
+                        const selected = step.equipment_ids.includes(equipment.id);
+                        return (
+                          <button
+                            key={equipment.id}
+                            type="button"
+                            onClick={() => updateCookingStep(
+                              index,
+                              'equipment_ids',
+                              selected
+                                ? step.equipment_ids.filter(id => id !== equipment.id)
+                                : [...step.equipment_ids, equipment.id]
+                            )}
+                            className={`px-2.5 py-1 text-xs rounded-full border transition-colors ${
+                              selected
+                                ? 'bg-slate-900 text-white border-slate-900'
+                                : 'bg-white text-slate-600 border-slate-300 hover:border-slate-400'
+                            }`}
+                            title={equipment.exposed_allergens.length > 0 ? `Exposed to ${equipment.exposed_allergens.join(', ')}` : 'No allergen exposure'}
+                          >
+                            {equipment.name}
+                          </button>
+                        );
+                      })}
+                    </div>
+                    {(() => {
+                      const withEquipment = { ...step, equipment: kitchenEquipment.filter(e => step.equipment_ids.includes(e.id)) };
+                      const fromEquipment = stepCrossContactRisks(withEquipment).filter(risk => !step.cross_contact_risk.includes(risk));
+                      return fromEquipment.length > 0 && (
+                        <p className="text-xs text-amber-700 mt-2">
+                          Also at risk from equipment:{' '}
+                          {fromEquipment.map(risk => `${risk} (${equipmentExposedTo(withEquipment, risk).join(', ')})`).join(', ')}
+                        </p>
+                      );
+                    })()}
+                  </div>
+                )}
+
                 {/* Modification Settings */}
                 <div className="border-t border-slate-200 pt-3 mt-3">
                   <label className="flex items-center gap-2 cursor-pointer mb-2">
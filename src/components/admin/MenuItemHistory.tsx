@@ -0,0 +1,252 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { X, Loader2, RotateCcw, Plus, Minus, ArrowRight } from 'lucide-react';
+import { Database, MenuItemSnapshot } from '../../lib/supabase';
+import {
+  MenuItemChange,
+  MenuItemRevision,
+  diffMenuItemSnapshots,
+  loadMenuItemRevisions,
+  restoreMenuItemRevision,
+} from '../../lib/menuItems';
+import { loadKitchenEquipment } from '../../lib/kitchenEquipment';
+
+type MenuItem = Database['public']['Tables']['menu_items']['Row'];
+
+interface MenuItemHistoryProps {
+  menuItem: MenuItem;
+  onClose: () => void;
+  // Called after a revision was restored so the menu list can reload
+  onRestored: () => void;
+}
+
+const EMPTY_SNAPSHOT: MenuItemSnapshot = {
+  item: {} as MenuItemSnapshot['item'],
+  ingredients: [],
+  steps: [],
+};
+
+const ACTION_LABELS: Record<MenuItemRevision['action'], string> = {
+  create: 'Created',
+  update: 'Edited',
+  restore: 'Restored',
+};
+
+const SECTION_LABELS: Record<MenuItemChange['section'], string> = {
+  dish: 'Dish',
+  ingredient: 'Ingredients',
+  step: 'Cooking steps',
+};
+
+function formatRevisionTime(dateString: string): string {
+  return new Date(dateString).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+}
+
+/**
+ * Owner-facing audit trail for one dish: every saved version, what changed between any
+ * two of them, and one-click restore of an older version.
+ */
+export default function MenuItemHistory({ menuItem, onClose, onRestored }: MenuItemHistoryProps) {
+  const [revisions, setRevisions] = useState<MenuItemRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Revision the selected one is compared with; defaults to the one before it
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [equipmentNames, setEquipmentNames] = useState<Record<string, string>>({});
+
+  const loadRevisions = useCallback(async () => {
+    setLoading(true);
+    const [{ revisions: loaded, error: loadError }, { equipment }] = await Promise.all([
+      loadMenuItemRevisions(menuItem.id),
+      loadKitchenEquipment(menuItem.restaurant_id),
+    ]);
+    setRevisions(loaded);
+    setEquipmentNames(Object.fromEntries(equipment.map(e => [e.id, e.name])));
+    setError(loadError);
+    setSelectedId(loaded[0]?.id ?? null);
+    setCompareId(loaded[1]?.id ?? null);
+    setLoading(false);
+  }, [menuItem.id, menuItem.restaurant_id]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  const selected = revisions.find(r => r.id === selectedId) || null;
+  const compareWith = revisions.find(r => r.id === compareId) || null;
+
+  const changes = useMemo(() => {
+    if (!selected) return [];
+    // Always show older → newer, whichever side was picked first
+    if (compareWith && compareWith.revision_number > selected.revision_number) {
+      return diffMenuItemSnapshots(selected.snapshot, compareWith.snapshot, equipmentNames);
+    }
+    return diffMenuItemSnapshots(compareWith?.snapshot ?? EMPTY_SNAPSHOT, selected.snapshot, equipmentNames);
+  }, [selected, compareWith, equipmentNames]);
+
+  const selectRevision = (revision: MenuItemRevision) => {
+    setSelectedId(revision.id);
+    const previous = revisions.find(r => r.revision_number < revision.revision_number);
+    setCompareId(previous?.id ?? null);
+  };
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    if (!confirm(`Restore version ${selected.revision_number}? Its ingredients, allergens and cooking steps replace the current ones. The current version stays in the history.`)) {
+      return;
+    }
+
+    setRestoring(true);
+    const { error: restoreError } = await restoreMenuItemRevision(selected.id);
+    setRestoring(false);
+
+    if (restoreError) {
+      setError(restoreError);
+      return;
+    }
+    onRestored();
+    await loadRevisions();
+  };
+
+  const isLatest = selected?.id === revisions[0]?.id;
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/50 z-40" onClick={onClose} />
+
+      <div className="fixed inset-4 md:inset-x-auto md:left-1/2 md:-translate-x-1/2 md:w-[880px] md:top-8 md:bottom-8 bg-white rounded-2xl z-50 flex flex-col shadow-2xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">Version history</h2>
+            <p className="text-sm text-slate-500 mt-0.5">{menuItem.name}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center p-6 text-center">
+            <p className="text-sm text-slate-500">
+              {error || 'No versions recorded yet. A version is saved every time this dish is saved.'}
+            </p>
+          </div>
+        ) : (
+          <div className="flex-1 flex flex-col md:flex-row min-h-0">
+            <ul className="md:w-64 border-b md:border-b-0 md:border-r border-slate-200 overflow-auto max-h-48 md:max-h-none">
+              {revisions.map((revision) => (
+                <li key={revision.id}>
+                  <button
+                    onClick={() => selectRevision(revision)}
+                    className={`w-full text-left px-4 py-3 border-b border-slate-100 transition-colors ${
+                      revision.id === selectedId ? 'bg-emerald-50' : 'hover:bg-slate-50'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-semibold text-slate-900">
+                        Version {revision.revision_number}
+                      </span>
+                      <span className="text-xs text-slate-500">{ACTION_LABELS[revision.action]}</span>
+                    </div>
+                    <p className="text-xs text-slate-500 mt-0.5">{formatRevisionTime(revision.created_at)}</p>
+                    {revision.changed_by_email && (
+                      <p className="text-xs text-slate-400 truncate">{revision.changed_by_email}</p>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex-1 overflow-auto p-6 space-y-4">
+              {selected && (
+                <>
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div className="flex items-center gap-2 text-sm text-slate-600">
+                      <span>Compare with</span>
+                      <select
+                        value={compareId ?? ''}
+                        onChange={(e) => setCompareId(e.target.value || null)}
+                        className="px-2 py-1 border border-slate-300 rounded-lg text-sm"
+                      >
+                        <option value="">Nothing (show everything)</option>
+                        {revisions
+                          .filter(r => r.id !== selected.id)
+                          .map(r => (
+                            <option key={r.id} value={r.id}>Version {r.revision_number}</option>
+                          ))}
+                      </select>
+                    </div>
+                    {!isLatest && (
+                      <button
+                        onClick={handleRestore}
+                        disabled={restoring}
+                        className="inline-flex items-center gap-2 px-3 py-1.5 bg-emerald-600 text-white text-sm rounded-lg hover:bg-emerald-700 transition-colors disabled:opacity-50"
+                      >
+                        {restoring ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                        Restore version {selected.revision_number}
+                      </button>
+                    )}
+                  </div>
+
+                  {selected.restored_from && (
+                    <p className="text-xs text-slate-500">
+                      Restored from version {revisions.find(r => r.id === selected.restored_from)?.revision_number ?? '?'}
+                    </p>
+                  )}
+
+                  {error && <p className="text-sm text-red-600">{error}</p>}
+
+                  {changes.length === 0 ? (
+                    <p className="text-sm text-slate-500">No differences.</p>
+                  ) : (
+                    (['dish', 'ingredient', 'step'] as const).map((section) => {
+                      const sectionChanges = changes.filter(c => c.section === section);
+                      if (sectionChanges.length === 0) return null;
+                      return (
+                        <div key={section}>
+                          <h3 className="text-sm font-semibold text-slate-700 mb-2">{SECTION_LABELS[section]}</h3>
+                          <ul className="space-y-1.5">
+                            {sectionChanges.map((change, index) => (
+                              <li key={index} className="text-sm p-2 rounded-lg bg-slate-50 border border-slate-200">
+                                <div className="flex items-center gap-1.5 font-medium text-slate-800">
+                                  {change.kind === 'added' && <Plus className="w-3.5 h-3.5 text-emerald-600" />}
+                                  {change.kind === 'removed' && <Minus className="w-3.5 h-3.5 text-red-600" />}
+                                  {change.label}
+                                </div>
+                                <div className="flex flex-wrap items-center gap-1.5 mt-1 text-xs">
+                                  {change.kind !== 'added' && (
+                                    <span className="px-1.5 py-0.5 bg-red-50 text-red-700 rounded line-through">
+                                      {change.before ?? 'empty'}
+                                    </span>
+                                  )}
+                                  {change.kind === 'changed' && <ArrowRight className="w-3 h-3 text-slate-400" />}
+                                  {change.kind !== 'removed' && (
+                                    <span className="px-1.5 py-0.5 bg-emerald-50 text-emerald-700 rounded">
+                                      {change.after ?? 'empty'}
+                                    </span>
+                                  )}
+                                </div>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      );
+                    })
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
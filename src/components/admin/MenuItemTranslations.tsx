@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import { X, Loader2, Save } from 'lucide-react';
+import { Database } from '../../lib/supabase';
+import { SUPPORTED_LANGUAGES } from '../../lib/i18n';
+import { loadMenuItemTranslations, saveMenuItemTranslations } from '../../lib/menuItems';
+
+type MenuItem = Database['public']['Tables']['menu_items']['Row'];
+
+interface MenuItemTranslationsProps {
+  menuItem: MenuItem;
+  onClose: () => void;
+}
+
+interface TranslationDraft {
+  language: string;
+  name: string;
+  description: string;
+}
+
+const TRANSLATED_LANGUAGES = SUPPORTED_LANGUAGES.filter(l => l.code !== 'en');
+
+/**
+ * Owner editor for a dish's name and description in each guest language. Allergen
+ * names are translated from the curated table and don't need entering here.
+ */
+export default function MenuItemTranslations({ menuItem, onClose }: MenuItemTranslationsProps) {
+  const [drafts, setDrafts] = useState<TranslationDraft[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const { translations, error: loadError } = await loadMenuItemTranslations(menuItem.id);
+      setDrafts(TRANSLATED_LANGUAGES.map(({ code }) => {
+        const existing = translations.find(t => t.language === code);
+        return { language: code, name: existing?.name || '', description: existing?.description || '' };
+      }));
+      setError(loadError);
+      setLoading(false);
+    };
+    load();
+  }, [menuItem.id]);
+
+  const updateDraft = (language: string, field: 'name' | 'description', value: string) => {
+    setDrafts(prev => prev.map(d => (d.language === language ? { ...d, [field]: value } : d)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const { error: saveError } = await saveMenuItemTranslations(menuItem, drafts);
+    setSaving(false);
+
+    if (saveError) {
+      setError(saveError);
+      return;
+    }
+    onClose();
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/50 z-40" onClick={onClose} />
+
+      <div className="fixed inset-4 md:inset-x-auto md:left-1/2 md:-translate-x-1/2 md:w-[640px] md:top-8 md:bottom-8 bg-white rounded-2xl z-50 flex flex-col shadow-2xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">Translations</h2>
+            <p className="text-sm text-slate-500 mt-0.5">{menuItem.name}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+          </div>
+        ) : (
+          <div className="flex-1 overflow-auto p-6 space-y-5">
+            <p className="text-sm text-slate-500">
+              Guests who choose one of these languages see your translation. Leave a language empty
+              to show the English name and description. Allergen names are translated automatically.
+            </p>
+
+            {menuItem.description && (
+              <div className="p-3 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-600">
+                <span className="font-medium text-slate-700">English: </span>{menuItem.description}
+              </div>
+            )}
+
+            {drafts.map((draft) => (
+              <div key={draft.language} className="space-y-2">
+                <h3 className="text-sm font-semibold text-slate-700">
+                  {TRANSLATED_LANGUAGES.find(l => l.code === draft.language)?.name}
+                </h3>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => updateDraft(draft.language, 'name', e.target.value)}
+                  placeholder={menuItem.name}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+                />
+                <textarea
+                  value={draft.description}
+                  onChange={(e) => updateDraft(draft.language, 'description', e.target.value)}
+                  placeholder="Description"
+                  rows={2}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+                />
+              </div>
+            ))}
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-slate-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={loading || saving}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white text-sm rounded-lg hover:bg-emerald-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save translations
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -3,7 +3,12 @@ import { supabase, Database } from '../../lib/supabase';
 import MenuItemForm from './MenuItemForm';
 import MenuDigitization from '../onboarding/MenuDigitization';
 import DishDetailsInput from '../onboarding/DishDetailsInput';
-import { Plus, Edit2, Trash2, Eye, EyeOff, Camera, ArrowLeft, AlertTriangle, DollarSign, Check, X as XIcon } from 'lucide-react';
+import SafetyInspector from './SafetyInspector';
+import { loadMenuGraph, invalidateMenuGraph } from '../../lib/menuGraph';
+import { stepCrossContactRisks } from '../../lib/kitchenEquipment';
+import MenuItemHistory from './MenuItemHistory';
+import MenuItemTranslations from './MenuItemTranslations';
+import { Plus, Edit2, Trash2, Eye, EyeOff, Camera, ArrowLeft, AlertTriangle, DollarSign, Check, X as XIcon, ShieldQuestion, History, Languages } from 'lucide-react';
 import { ScannedDish } from '../../pages/RestaurantOnboarding';
 
 type MenuItem = Database['public']['Tables']['menu_items']['Row'];
@@ -27,6 +32,9 @@ export default function MenuManager({ restaurantId }: MenuManagerProps) {
   const [editingPriceId, setEditingPriceId] = useState<string | null>(null);
   const [editingPriceValue, setEditingPriceValue] = useState('');
   const [savingPrice, setSavingPrice] = useState(false);
+  const [inspectingItem, setInspectingItem] = useState<MenuItemWithAllergens | null>(null);
+  const [historyItem, setHistoryItem] = useState<MenuItem | null>(null);
+  const [translatingItem, setTranslatingItem] = useState<MenuItem | null>(null);
   const priceInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -35,57 +43,37 @@ export default function MenuManager({ restaurantId }: MenuManagerProps) {
 
   const loadMenuItems = async () => {
     setLoading(true);
-    const { data, error } = await supabase
-      .from('menu_items')
-      .select('*')
-      .eq('restaurant_id', restaurantId)
-      .order('category', { ascending: true })
-      .order('created_at', { ascending: true });
-
-    if (!error && data) {
-      // Load allergens for each item from all sources
-      const itemsWithAllergens = await Promise.all(
-        data.map(async (item) => {
-          const allergenSet = new Set<string>();
-
-          // 1. Description allergens
-          for (const allergen of item.description_allergens || []) {
-            allergenSet.add(allergen.toLowerCase());
-          }
+    const { items, error } = await loadMenuGraph(restaurantId);
 
-          // 2. Ingredient allergens
-          const { data: menuItemIngredients } = await supabase
-            .from('menu_item_ingredients')
-            .select('*, ingredient:ingredients(*)')
-            .eq('menu_item_id', item.id);
-
-          for (const mii of menuItemIngredients || []) {
-            const ing = (mii as any).ingredient;
-            if (ing?.contains_allergens) {
-              for (const allergen of ing.contains_allergens) {
-                allergenSet.add(allergen.toLowerCase());
-              }
-            }
+    if (!error) {
+      // Collect allergens for each item from all sources
+      const itemsWithAllergens = items.map((item) => {
+        const allergenSet = new Set<string>();
+
+        // 1. Description allergens
+        for (const allergen of item.description_allergens || []) {
+          allergenSet.add(allergen.toLowerCase());
+        }
+
+        // 2. Ingredient allergens
+        for (const ing of item.ingredients) {
+          for (const allergen of ing.contains_allergens) {
+            allergenSet.add(allergen.toLowerCase());
           }
+        }
 
-          // 3. Cooking steps cross-contact risks
-          const { data: cookingSteps } = await supabase
-            .from('cooking_steps')
-            .select('cross_contact_risk')
-            .eq('menu_item_id', item.id);
-
-          for (const step of cookingSteps || []) {
-            for (const risk of step.cross_contact_risk || []) {
-              allergenSet.add(risk.toLowerCase());
-            }
+        // 3. Cooking steps cross-contact risks
+        for (const step of item.cookingSteps) {
+          for (const risk of stepCrossContactRisks(step)) {
+            allergenSet.add(risk.toLowerCase());
           }
+        }
 
-          return {
-            ...item,
-            allAllergens: Array.from(allergenSet).sort(),
-          };
-        })
-      );
+        return {
+          ...item,
+          allAllergens: Array.from(allergenSet).sort(),
+        };
+      });
 
       setMenuItems(itemsWithAllergens);
     }
@@ -102,6 +90,7 @@ export default function MenuManager({ restaurantId }: MenuManagerProps) {
       .from('menu_items')
       .update({ is_active: !item.is_active })
       .eq('id', item.id);
+    invalidateMenuGraph(restaurantId);
 
     if (error) {
       console.error('Error toggling item visibility:', error);
@@ -125,6 +114,7 @@ export default function MenuManager({ restaurantId }: MenuManagerProps) {
       .from('menu_items')
       .delete()
       .eq('id', itemId);
+    invalidateMenuGraph(restaurantId);
 
     if (!error) {
       loadMenuItems();
@@ -175,6 +165,7 @@ export default function MenuManager({ restaurantId }: MenuManagerProps) {
       .from('menu_items')
       .update({ price: newPrice })
       .eq('id', itemId);
+    invalidateMenuGraph(restaurantId);
 
     if (!error) {
       setMenuItems(prev => prev.map(m =>
@@ -429,6 +420,27 @@ export default function MenuManager({ restaurantId }: MenuManagerProps) {
                           <EyeOff className="w-4 h-4" />
                         )}
                       </button>
+                      <button
+                        onClick={() => setInspectingItem(item)}
+                        className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                        title="Why is this red?"
+                      >
+                        <ShieldQuestion className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setHistoryItem(item)}
+                        className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                        title="Version history"
+                      >
+                        <History className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setTranslatingItem(item)}
+                        className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                        title="Translations"
+                      >
+                        <Languages className="w-4 h-4" />
+                      </button>
                       <button
                         onClick={() => handleEdit(item)}
                         className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
@@ -451,6 +463,29 @@ export default function MenuManager({ restaurantId }: MenuManagerProps) {
           ))}
         </div>
       )}
+
+      {inspectingItem && (
+        <SafetyInspector
+          menuItem={inspectingItem}
+          initialAllergens={inspectingItem.allAllergens}
+          onClose={() => setInspectingItem(null)}
+        />
+      )}
+
+      {historyItem && (
+        <MenuItemHistory
+          menuItem={historyItem}
+          onClose={() => setHistoryItem(null)}
+          onRestored={loadMenuItems}
+        />
+      )}
+
+      {translatingItem && (
+        <MenuItemTranslations
+          menuItem={translatingItem}
+          onClose={() => setTranslatingItem(null)}
+        />
+      )}
     </div>
   );
 }
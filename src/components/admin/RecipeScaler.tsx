@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { Scale, ChevronDown, ChevronUp, Minus, Plus } from 'lucide-react';
+import { WeightUnit, formatAmount } from '../../lib/supabase';
+import { scaleRecipe, convertAmount, getUnitCategory, roundAmount, RecipeAmount } from '../../lib/units';
+
+interface RecipeScalerProps {
+  // Amounts as entered on the dish, which are per single portion
+  ingredients: RecipeAmount[];
+}
+
+type DisplayMode = 'original' | 'metric';
+
+// Metric display: weights in g, volumes in ml (kg / l once large)
+function toMetric(value: number, unit: WeightUnit, name: string): { value: number; unit: WeightUnit } {
+  const category = getUnitCategory(unit);
+  if (category === 'count') {
+    const grams = convertAmount(value, unit, 'g', name);
+    return grams !== null ? { value: grams, unit: 'g' } : { value, unit };
+  }
+
+  const base: WeightUnit = category === 'volume' ? 'ml' : 'g';
+  const large: WeightUnit = category === 'volume' ? 'l' : 'kg';
+  const converted = convertAmount(value, unit, base, name) ?? value;
+  return converted >= 1000
+    ? { value: converted / 1000, unit: large }
+    : { value: converted, unit: base };
+}
+
+export default function RecipeScaler({ ingredients }: RecipeScalerProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [portions, setPortions] = useState(10);
+  const [displayMode, setDisplayMode] = useState<DisplayMode>('original');
+
+  const withAmounts = ingredients.filter(ing => ing.amountValue !== null && ing.amountValue > 0);
+  if (withAmounts.length === 0) return null;
+
+  const { ingredients: scaled, totalGrams, unconvertedCount } = scaleRecipe(withAmounts, 1, portions);
+
+  const formatScaled = (ing: RecipeAmount) => {
+    if (ing.amountValue === null || ing.amountUnit === null) return '';
+    if (displayMode === 'original') return formatAmount(ing.amountValue, ing.amountUnit);
+    const metric = toMetric(ing.amountValue, ing.amountUnit, ing.name);
+    return formatAmount(roundAmount(metric.value), metric.unit);
+  };
+
+  return (
+    <div className="border border-slate-200 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full px-4 py-3 flex items-center justify-between text-left bg-slate-50 rounded-lg"
+      >
+        <span className="flex items-center gap-2 text-sm font-medium text-slate-800">
+          <Scale className="w-4 h-4 text-emerald-600" />
+          Scale recipe for prep
+        </span>
+        {expanded ? (
+          <ChevronUp className="w-4 h-4 text-slate-500" />
+        ) : (
+          <ChevronDown className="w-4 h-4 text-slate-500" />
+        )}
+      </button>
+
+      {expanded && (
+        <div className="p-4 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-slate-600">Portions</span>
+              <button
+                type="button"
+                onClick={() => setPortions(Math.max(1, portions - 1))}
+                className="p-1 border border-slate-300 rounded hover:bg-slate-100 transition-colors"
+              >
+                <Minus className="w-3 h-3" />
+              </button>
+              <input
+                type="number"
+                min="1"
+                value={portions}
+                onChange={(e) => setPortions(Math.max(1, parseInt(e.target.value) || 1))}
+                className="w-16 px-2 py-1 border border-slate-300 rounded text-sm text-center"
+              />
+              <button
+                type="button"
+                onClick={() => setPortions(portions + 1)}
+                className="p-1 border border-slate-300 rounded hover:bg-slate-100 transition-colors"
+              >
+                <Plus className="w-3 h-3" />
+              </button>
+            </div>
+            <div className="flex gap-1">
+              {(['original', 'metric'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => setDisplayMode(mode)}
+                  className={`px-2.5 py-1 text-xs font-medium rounded-full transition-colors ${
+                    displayMode === mode
+                      ? 'bg-emerald-600 text-white'
+                      : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                  }`}
+                >
+                  {mode === 'original' ? 'As entered' : 'Metric'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <table className="w-full text-sm">
+            <tbody>
+              {scaled.map((ing, index) => (
+                <tr key={index} className="border-b border-slate-100 last:border-0">
+                  <td className="py-1.5 text-slate-800">{ing.name}</td>
+                  <td className="py-1.5 text-right font-medium text-slate-900">{formatScaled(ing)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <p className="text-xs text-slate-500">
+            Total ≈ {formatAmount(roundAmount(totalGrams >= 1000 ? totalGrams / 1000 : totalGrams), totalGrams >= 1000 ? 'kg' : 'g')}
+            {unconvertedCount > 0 && ` (excludes ${unconvertedCount} ingredient${unconvertedCount > 1 ? 's' : ''} without a known weight)`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useEffect, useState } from 'react';
+import { X, Loader2, Plus } from 'lucide-react';
+import { supabase, Database } from '../../lib/supabase';
+import { ALLERGEN_TAGS } from '../../lib/allergenOntology';
+import { analyzeDishSafety, getStatusColor, getStatusIcon, getStatusLabel } from '../../lib/safetyAnalysis';
+import { attachEquipment, KitchenEquipment, loadKitchenEquipment } from '../../lib/kitchenEquipment';
+import SafetyEvidenceList from '../common/SafetyEvidenceList';
+
+type MenuItem = Database['public']['Tables']['menu_items']['Row'];
+type Ingredient = Database['public']['Tables']['ingredients']['Row'];
+type CookingStep = Database['public']['Tables']['cooking_steps']['Row'] & { equipment: KitchenEquipment[] };
+type MenuItemIngredientRow = Database['public']['Tables']['menu_item_ingredients']['Row'] & { ingredient: Ingredient };
+type SubstituteRow = Database['public']['Tables']['ingredient_substitutes']['Row'] & { substitute: Ingredient | null };
+
+interface IngredientWithModifications extends Ingredient {
+  is_removable: boolean;
+  is_substitutable: boolean;
+  substitutes: { id: string; name: string; allergens: string[] }[];
+}
+
+interface SafetyInspectorProps {
+  menuItem: MenuItem;
+  // Allergens to check on open, e.g. the ones already tagged on the dish
+  initialAllergens?: string[];
+  onClose: () => void;
+}
+
+/**
+ * Staff-facing "why is this red?" view: runs the same analysis guests see for a chosen
+ * set of allergens and lists every rule that fired.
+ */
+export default function SafetyInspector({ menuItem, initialAllergens = [], onClose }: SafetyInspectorProps) {
+  const [loading, setLoading] = useState(true);
+  const [ingredients, setIngredients] = useState<IngredientWithModifications[]>([]);
+  const [cookingSteps, setCookingSteps] = useState<CookingStep[]>([]);
+  const [allergens, setAllergens] = useState<string[]>(initialAllergens);
+  const [anaphylactic, setAnaphylactic] = useState(false);
+  const [customAllergen, setCustomAllergen] = useState('');
+
+  useEffect(() => {
+    const loadDish = async () => {
+      setLoading(true);
+
+      const { data: menuItemIngredients } = await supabase
+        .from('menu_item_ingredients')
+        .select('*, ingredient:ingredients(*)')
+        .eq('menu_item_id', menuItem.id);
+
+      const rows = (menuItemIngredients || []) as MenuItemIngredientRow[];
+      const miiIds = rows.map((mii) => mii.id);
+      const { data: substitutesData } = miiIds.length > 0 ? await supabase
+        .from('ingredient_substitutes')
+        .select('*, substitute:ingredients(*)')
+        .in('menu_item_ingredient_id', miiIds) : { data: [] };
+
+      const substitutes = (substitutesData || []) as SubstituteRow[];
+      setIngredients(rows.map((mii) => ({
+        ...mii.ingredient,
+        is_removable: mii.is_removable || false,
+        is_substitutable: mii.is_substitutable || false,
+        substitutes: substitutes
+          .filter((s) => s.menu_item_ingredient_id === mii.id)
+          .map((s) => ({
+            id: s.substitute_ingredient_id,
+            name: s.substitute?.name || '',
+            allergens: s.substitute?.contains_allergens || [],
+          })),
+      })));
+
+      const { data: steps } = await supabase
+        .from('cooking_steps')
+        .select('*')
+        .eq('menu_item_id', menuItem.id)
+        .order('step_number');
+      const { equipment } = await loadKitchenEquipment(menuItem.restaurant_id);
+
+      setCookingSteps(attachEquipment(steps || [], equipment));
+      setLoading(false);
+    };
+
+    loadDish();
+  }, [menuItem.id, menuItem.restaurant_id]);
+
+  const toggleAllergen = (allergen: string) => {
+    const key = allergen.toLowerCase();
+    setAllergens(prev =>
+      prev.some(a => a.toLowerCase() === key) ? prev.filter(a => a.toLowerCase() !== key) : [...prev, allergen]
+    );
+  };
+
+  const addCustomAllergen = () => {
+    const value = customAllergen.trim();
+    if (value && !allergens.some(a => a.toLowerCase() === value.toLowerCase())) {
+      setAllergens(prev => [...prev, value]);
+    }
+    setCustomAllergen('');
+  };
+
+  const analysis = analyzeDishSafety(menuItem, ingredients, cookingSteps, allergens, {
+    severities: anaphylactic
+      ? Object.fromEntries(allergens.map(a => [a.toLowerCase().trim(), 'anaphylactic' as const]))
+      : {},
+  });
+
+  const isSelected = (allergen: string) => allergens.some(a => a.toLowerCase() === allergen.toLowerCase());
+  const extraAllergens = allergens.filter(a => !ALLERGEN_TAGS.some(tag => tag.toLowerCase() === a.toLowerCase()));
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/50 z-40" onClick={onClose} />
+
+      <div className="fixed inset-4 md:inset-x-auto md:left-1/2 md:-translate-x-1/2 md:w-[640px] md:top-8 md:bottom-8 bg-white rounded-2xl z-50 flex flex-col shadow-2xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">Why is this red?</h2>
+            <p className="text-sm text-slate-500 mt-0.5">{menuItem.name}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 space-y-5">
+          <div>
+            <h3 className="text-sm font-semibold text-slate-700 mb-2">Check against a guest allergic to</h3>
+            <div className="flex flex-wrap gap-1.5">
+              {[...ALLERGEN_TAGS, ...extraAllergens].map((allergen) => (
+                <button
+                  key={allergen}
+                  type="button"
+                  onClick={() => toggleAllergen(allergen)}
+                  className={`px-2.5 py-1 text-xs font-medium rounded-full transition-colors capitalize ${
+                    isSelected(allergen)
+                      ? 'bg-slate-800 text-white'
+                      : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                  }`}
+                >
+                  {allergen}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2 mt-3">
+              <input
+                type="text"
+                value={customAllergen}
+                onChange={(e) => setCustomAllergen(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') addCustomAllergen(); }}
+                placeholder="Other allergen or ingredient"
+                className="flex-1 px-3 py-1.5 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+              />
+              <button
+                type="button"
+                onClick={addCustomAllergen}
+                className="flex items-center gap-1 px-3 py-1.5 bg-slate-100 text-slate-700 rounded-lg text-sm hover:bg-slate-200 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                Add
+              </button>
+            </div>
+            <label className="flex items-center gap-2 mt-3 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={anaphylactic}
+                onChange={(e) => setAnaphylactic(e.target.checked)}
+                className="rounded border-slate-300 text-red-600 focus:ring-red-500"
+              />
+              Treat as anaphylactic
+            </label>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-10">
+              <Loader2 className="w-6 h-6 animate-spin text-emerald-600" />
+            </div>
+          ) : (
+            <>
+              <div className={`rounded-xl px-4 py-3 ${getStatusColor(analysis.status)}`}>
+                <div className="font-semibold">
+                  {getStatusIcon(analysis.status)} {getStatusLabel(analysis.status)}
+                </div>
+                <ul className="mt-1 space-y-0.5 text-sm">
+                  {analysis.reasons.map((reason, index) => (
+                    <li key={index}>{reason}</li>
+                  ))}
+                </ul>
+              </div>
+
+              <div>
+                <h3 className="text-sm font-semibold text-slate-700 mb-2">Rules that fired</h3>
+                <SafetyEvidenceList evidence={analysis.evidence} />
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
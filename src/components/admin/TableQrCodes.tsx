@@ -0,0 +1,178 @@
+import { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { X, Loader2, Plus, Printer, Trash2 } from 'lucide-react';
+import {
+  RestaurantTable,
+  addRestaurantTable,
+  deleteRestaurantTable,
+  loadRestaurantTables,
+  tableMenuUrl,
+} from '../../lib/restaurantTables';
+
+interface TableQrCodesProps {
+  restaurantId: string;
+  restaurantName: string;
+  qrCode: string;
+  onClose: () => void;
+}
+
+/**
+ * Owner editor for the restaurant's tables, with a printable QR code per table. Guests
+ * who scan one are seated at that table, so their chef requests reach the kitchen with it.
+ */
+export default function TableQrCodes({ restaurantId, restaurantName, qrCode, onClose }: TableQrCodesProps) {
+  const [tables, setTables] = useState<RestaurantTable[]>([]);
+  const [qrImages, setQrImages] = useState<Record<string, string>>({});
+  const [newLabel, setNewLabel] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [adding, setAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const { tables: loaded, error: loadError } = await loadRestaurantTables(restaurantId);
+      setTables(loaded);
+      setError(loadError);
+      setLoading(false);
+    };
+    load();
+  }, [restaurantId]);
+
+  useEffect(() => {
+    Promise.all(tables.map(table => QRCode.toDataURL(tableMenuUrl(qrCode, table.label), { margin: 1, width: 240 })))
+      .then((images) => {
+        setQrImages(Object.fromEntries(tables.map((table, index) => [table.id, images[index]])));
+      })
+      .catch((err) => console.error('Error generating table QR codes:', err));
+  }, [tables, qrCode]);
+
+  // The print stylesheet in index.css hides everything but the QR sheet while this is set
+  useEffect(() => {
+    const clear = () => document.body.classList.remove('printing-table-qr');
+    window.addEventListener('afterprint', clear);
+    return () => {
+      window.removeEventListener('afterprint', clear);
+      clear();
+    };
+  }, []);
+
+  const handleAdd = async () => {
+    setAdding(true);
+    const { table, error: addError } = await addRestaurantTable(restaurantId, newLabel);
+    if (table) {
+      setTables(prev => [...prev, table]);
+      setNewLabel('');
+      setError(null);
+    } else {
+      setError(addError);
+    }
+    setAdding(false);
+  };
+
+  const handleDelete = async (table: RestaurantTable) => {
+    if (!confirm(`Delete table ${table.label}? Its printed QR code will still open the menu, without the table.`)) return;
+
+    const { error: deleteError } = await deleteRestaurantTable(table.id);
+    if (deleteError) {
+      setError(deleteError);
+      return;
+    }
+    setTables(prev => prev.filter(t => t.id !== table.id));
+  };
+
+  const handlePrint = () => {
+    document.body.classList.add('printing-table-qr');
+    window.print();
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/50 z-40" onClick={onClose} />
+
+      <div className="fixed inset-4 md:inset-x-auto md:left-1/2 md:-translate-x-1/2 md:w-[720px] md:top-8 md:bottom-8 bg-white rounded-2xl z-50 flex flex-col shadow-2xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">Table QR Codes</h2>
+            <p className="text-sm text-slate-500 mt-0.5">Guests who scan a table's code are seated at that table</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 border-b border-slate-200 flex gap-2">
+          <input
+            type="text"
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="Table number or name, e.g. 12 or Terrace 3"
+            className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+          />
+          <button
+            onClick={handleAdd}
+            disabled={adding || !newLabel.trim()}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white text-sm rounded-lg hover:bg-emerald-700 transition-colors disabled:opacity-50"
+          >
+            {adding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Add table
+          </button>
+        </div>
+
+        {error && <p className="px-6 pt-3 text-sm text-red-600">{error}</p>}
+
+        {loading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+          </div>
+        ) : tables.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center p-6 text-center text-sm text-slate-500">
+            Add your tables to print a QR code for each one.
+          </div>
+        ) : (
+          <div className="flex-1 overflow-auto p-6">
+            <div className="table-qr-sheet grid grid-cols-2 sm:grid-cols-3 gap-4">
+              {tables.map((table) => (
+                <div key={table.id} className="relative border-2 border-slate-200 rounded-xl p-4 text-center break-inside-avoid">
+                  <button
+                    onClick={() => handleDelete(table)}
+                    className="table-qr-delete absolute top-2 right-2 p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                    title="Delete table"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                  {qrImages[table.id] ? (
+                    <img src={qrImages[table.id]} alt={`QR code for table ${table.label}`} className="w-36 h-36 mx-auto" />
+                  ) : (
+                    <div className="w-36 h-36 mx-auto flex items-center justify-center">
+                      <Loader2 className="w-5 h-5 animate-spin text-slate-300" />
+                    </div>
+                  )}
+                  <p className="mt-2 text-lg font-bold text-slate-900">Table {table.label}</p>
+                  <p className="text-xs text-slate-500">{restaurantName} · Scan for allergy-safe menu</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-slate-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={handlePrint}
+            disabled={tables.length === 0}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-slate-900 text-white text-sm rounded-lg hover:bg-slate-800 transition-colors disabled:opacity-50"
+          >
+            <Printer className="w-4 h-4" />
+            Print QR codes
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,26 @@
+import { AlertTriangle, X } from 'lucide-react';
+
+interface AIUnavailableNoticeProps {
+  // What the owner has to do by hand because the AI result is missing
+  message: string | null;
+  onDismiss: () => void;
+}
+
+export default function AIUnavailableNotice({ message, onDismiss }: AIUnavailableNoticeProps) {
+  if (!message) return null;
+
+  return (
+    <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+      <AlertTriangle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+      <p className="flex-1 text-sm text-amber-800">{message}</p>
+      <button
+        type="button"
+        onClick={onDismiss}
+        className="p-0.5 text-amber-600 hover:text-amber-800"
+        aria-label="Dismiss"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { Languages } from 'lucide-react';
+import { Language, SUPPORTED_LANGUAGES } from '../../lib/i18n';
+import { useLanguage } from '../../contexts/LanguageContext';
+
+export default function LanguagePicker() {
+  const { language, setLanguage, t } = useLanguage();
+
+  return (
+    <label className="flex items-center gap-1.5 px-2 py-2 bg-white border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-50 transition-colors">
+      <Languages className="w-4 h-4" />
+      <span className="sr-only">{t('app.language')}</span>
+      <select
+        value={language}
+        onChange={(e) => setLanguage(e.target.value as Language)}
+        className="bg-transparent text-sm outline-none cursor-pointer"
+      >
+        {SUPPORTED_LANGUAGES.map(({ code, name }) => (
+          <option key={code} value={code}>{name}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
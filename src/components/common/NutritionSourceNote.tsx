@@ -0,0 +1,54 @@
+import { AlertTriangle, Calculator, Sparkles } from 'lucide-react';
+import { NutritionSource } from '../../lib/supabase';
+
+interface NutritionSourceNoteProps {
+  source: NutritionSource | null;
+  // Ingredients not found in the nutrient database
+  unmatchedIngredients?: string[];
+  // The AI fallback failed, so unmatched ingredients are missing from the totals
+  aiUnavailable?: boolean;
+}
+
+export default function NutritionSourceNote({ source, unmatchedIngredients = [], aiUnavailable = false }: NutritionSourceNoteProps) {
+  if (aiUnavailable) {
+    return (
+      <div className="mb-4 flex items-start gap-2 p-2 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800">
+        <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+        <span>
+          AI unavailable. Nutrition for {unmatchedIngredients.join(', ')} could not be estimated
+          {source ? ' and is not included in the values below' : ''}. Enter the values manually or try again later.
+        </span>
+      </div>
+    );
+  }
+
+  if (!source) {
+    return (
+      <p className="text-xs text-slate-500 mb-4">
+        Calculated from ingredient amounts using the nutrient database. You can adjust any values manually.
+      </p>
+    );
+  }
+
+  return (
+    <div className="mb-4 space-y-1">
+      {source === 'calculated' ? (
+        <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-emerald-100 text-emerald-700 text-xs font-medium rounded-full">
+          <Calculator className="w-3 h-3" />
+          Calculated from nutrient database
+        </span>
+      ) : (
+        <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-amber-100 text-amber-700 text-xs font-medium rounded-full">
+          <Sparkles className="w-3 h-3" />
+          Includes AI estimates
+        </span>
+      )}
+      {unmatchedIngredients.length > 0 && (
+        <p className="text-xs text-slate-500">
+          {source === 'estimated' ? 'Estimated by AI: ' : 'Not included (unknown to the database): '}
+          {unmatchedIngredients.join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { XCircle, Wrench, HelpCircle, Leaf, Flame, FileText } from 'lucide-react';
+import { SafetyEvidence, describeSafetyMessage, getSafetyRuleLabel } from '../../lib/safetyAnalysis';
+import { Language, translate, translateRestriction } from '../../lib/i18n';
+import { translateAllergen } from '../../lib/allergenTranslations';
+
+interface SafetyEvidenceListProps {
+  evidence: SafetyEvidence[];
+  // Guests read the evidence in their own language; owner screens leave it English
+  language?: Language;
+}
+
+const SOURCE_ICONS = {
+  ingredient: Leaf,
+  'cooking-step': Flame,
+  description: FileText,
+};
+
+const EFFECT_STYLES = {
+  blocks: { icon: XCircle, item: 'bg-red-50 border-red-200', iconColor: 'text-red-600', title: 'text-red-900' },
+  modifiable: { icon: Wrench, item: 'bg-orange-50 border-orange-200', iconColor: 'text-orange-600', title: 'text-orange-900' },
+  uncertain: { icon: HelpCircle, item: 'bg-slate-50 border-slate-300', iconColor: 'text-slate-600', title: 'text-slate-900' },
+};
+
+export default function SafetyEvidenceList({ evidence, language = 'en' }: SafetyEvidenceListProps) {
+  if (evidence.length === 0) {
+    return <p className="text-sm text-slate-500">{translate(language, 'evidence.none')}</p>;
+  }
+
+  // Dietary-style evidence names the style ("Vegan") where other rules name an allergen
+  const customerLabel = (item: SafetyEvidence) =>
+    item.rule === 'dietary-style'
+      ? translateRestriction(language, { name: item.customerAllergen, description: null }).name
+      : translateAllergen(item.customerAllergen, language);
+
+  // Ingredient names are the owner's text; steps get their number, allergen terms a translation
+  const sourceLabel = (item: SafetyEvidence) =>
+    item.stepNumber !== undefined
+      ? translate(language, 'dish.step', { number: item.stepNumber, description: item.sourceLabel })
+      : item.source === 'ingredient'
+        ? item.sourceLabel
+        : translateAllergen(item.sourceLabel, language);
+
+  // Blockers first: they are what turns a dish red
+  const sorted = [...evidence].sort((a, b) =>
+    a.effect === b.effect ? 0 : a.effect === 'blocks' ? -1 : 1
+  );
+
+  return (
+    <ul className="space-y-2">
+      {sorted.map((item, index) => {
+        const SourceIcon = SOURCE_ICONS[item.source];
+        const style = EFFECT_STYLES[item.effect];
+        const EffectIcon = style.icon;
+        const matchedTerm = describeSafetyMessage(language, item.matchedTerm);
+        return (
+          <li
+            key={`${item.rule}-${item.sourceId ?? item.sourceLabel}-${item.customerAllergen}-${index}`}
+            className={`rounded-lg border px-3 py-2 text-sm ${style.item}`}
+          >
+            <div className="flex items-center gap-2 flex-wrap">
+              <EffectIcon className={`w-4 h-4 flex-shrink-0 ${style.iconColor}`} />
+              <span className={`font-semibold ${style.title}`}>
+                {getSafetyRuleLabel(item.rule, language)}
+              </span>
+              <span className="text-xs px-2 py-0.5 rounded-full bg-white border border-slate-200 text-slate-600">
+                {translate(language, item.confidence === 'low' ? 'evidence.mayMatch' : 'evidence.matches', {
+                  allergen: customerLabel(item),
+                })}
+              </span>
+            </div>
+            <div className="flex items-start gap-1.5 mt-1 text-slate-700">
+              <SourceIcon className="w-3.5 h-3.5 mt-0.5 text-slate-400 flex-shrink-0" />
+              <span>
+                {sourceLabel(item)}
+                {describeSafetyMessage('en', item.matchedTerm) !== item.sourceLabel && (
+                  <span className="text-slate-500"> {translate(language, 'evidence.via', { term: matchedTerm })}</span>
+                )}
+              </span>
+            </div>
+            <p className="text-xs text-slate-500 mt-1 ml-5">{describeSafetyMessage(language, item.detail)}</p>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { AlertTriangle } from 'lucide-react';
+import { ChefCard as ChefCardData } from '../../lib/chefCard';
+import { severityRank } from '../../lib/customerProfile';
+import { Language, MessageKey, translate, translateSeverity } from '../../lib/i18n';
+import { translateCustomerRestriction } from '../../lib/allergenTranslations';
+import ShieldWithForkKnife from '../ShieldWithForkKnife';
+
+interface ChefCardProps {
+  card: ChefCardData;
+  // The card's own language, which may differ from the guest's UI language
+  language: Language;
+  // Encoded in the QR code; omitted on the page the QR code opens
+  url?: string;
+}
+
+export default function ChefCard({ card, language, url }: ChefCardProps) {
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const t = (key: MessageKey) => translate(language, key);
+
+  useEffect(() => {
+    if (!url) {
+      setQrDataUrl(null);
+      return;
+    }
+    QRCode.toDataURL(url, { margin: 1, width: 200 })
+      .then(setQrDataUrl)
+      .catch((err) => console.error('Error generating chef card QR code:', err));
+  }, [url]);
+
+  // Most severe first, so an anaphylactic allergy is the first thing the kitchen reads
+  const restrictions = [...card.restrictions].sort((a, b) => severityRank(b.severity) - severityRank(a.severity));
+
+  return (
+    <div className="chef-card bg-white border-2 border-slate-800 rounded-2xl p-6 space-y-5 text-slate-900">
+      <div className="flex items-center gap-3">
+        <ShieldWithForkKnife size={36} />
+        <div>
+          <h2 className="text-xl font-bold">{t('card.title')}</h2>
+          {card.restaurantName && <p className="text-sm text-slate-500">{card.restaurantName}</p>}
+        </div>
+      </div>
+
+      <p className="text-sm leading-relaxed">{t('card.intro')}</p>
+
+      <div>
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-2">{t('card.restrictions')}</h3>
+        <ul className="space-y-1.5">
+          {restrictions.map((restriction) => {
+            const anaphylactic = restriction.severity === 'anaphylactic';
+            return (
+              <li
+                key={restriction.name}
+                className={`flex items-center justify-between gap-3 px-3 py-2 rounded-lg border ${
+                  anaphylactic ? 'border-red-300 bg-red-50' : 'border-slate-200'
+                }`}
+              >
+                <span className="font-semibold">{translateCustomerRestriction(restriction, language)}</span>
+                <span className={`inline-flex items-center gap-1 text-sm ${anaphylactic ? 'font-bold text-red-700' : 'text-slate-600'}`}>
+                  {anaphylactic && <AlertTriangle className="w-4 h-4" />}
+                  {translateSeverity(language, restriction.severity).label}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      <div>
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-1">{t('card.ordering')}</h3>
+        <p className="text-lg font-bold">{card.dishName}</p>
+      </div>
+
+      {card.status === 'unsafe' ? (
+        <p className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm font-medium text-red-800">{t('card.unsafe')}</p>
+      ) : card.status === 'unverified' ? (
+        <p className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm font-medium text-amber-800">{t('card.unverified')}</p>
+      ) : card.modifications.length > 0 ? (
+        <div>
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-2">{t('card.modifications')}</h3>
+          <ul className="space-y-1 list-disc list-inside text-sm">
+            {card.modifications.map((modification, index) => (
+              <li key={index}>{modification}</li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <p className="text-sm text-slate-700">{t('card.noModifications')}</p>
+      )}
+
+      {card.anaphylaxisWarnings.length > 0 && (
+        <div>
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-red-700 mb-2">{t('card.warnings')}</h3>
+          <ul className="space-y-1 text-sm text-red-800">
+            {card.anaphylaxisWarnings.map((warning, index) => (
+              <li key={index}>⚠ {warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {card.crossContactRisks.length > 0 && (
+        <div>
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-2">{t('card.crossContact')}</h3>
+          <ul className="space-y-1 list-disc list-inside text-sm">
+            {card.crossContactRisks.map((risk, index) => (
+              <li key={index}>{risk}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex items-end justify-between gap-4 pt-4 border-t border-slate-200">
+        <p className="text-lg font-semibold">{t('card.thanks')}</p>
+        {qrDataUrl && (
+          <div className="text-center">
+            <img src={qrDataUrl} alt="" className="w-28 h-28" />
+            <p className="text-xs text-slate-500 mt-1 max-w-[8rem]">{t('card.scan')}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react';
+import { X, Printer, Share2, Check } from 'lucide-react';
+import { ChefCard as ChefCardData } from '../../lib/chefCard';
+import { Language, SUPPORTED_LANGUAGES } from '../../lib/i18n';
+import { useLanguage } from '../../contexts/LanguageContext';
+import ChefCard from './ChefCard';
+
+interface ChefCardDialogProps {
+  card: ChefCardData;
+  url: string;
+  onClose: () => void;
+}
+
+/**
+ * The guest's chef card for one dish, ready to hand over, print or share. The card can
+ * be switched to the kitchen's language without changing the guest's own.
+ */
+export default function ChefCardDialog({ card, url, onClose }: ChefCardDialogProps) {
+  const { language, t } = useLanguage();
+  const [cardLanguage, setCardLanguage] = useState<Language>(language);
+  const [copied, setCopied] = useState(false);
+
+  // The print stylesheet in index.css hides everything but the card while this is set
+  useEffect(() => {
+    const clear = () => document.body.classList.remove('printing-chef-card');
+    window.addEventListener('afterprint', clear);
+    return () => {
+      window.removeEventListener('afterprint', clear);
+      clear();
+    };
+  }, []);
+
+  const handlePrint = () => {
+    document.body.classList.add('printing-chef-card');
+    window.print();
+  };
+
+  const handleShare = async () => {
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: `${t('card.title')}: ${card.dishName}`, url });
+      } catch {
+        // Dismissing the share sheet rejects; nothing to do
+      }
+      return;
+    }
+    await navigator.clipboard.writeText(url);
+    setCopied(true);
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/50 z-40" onClick={onClose} />
+
+      <div className="fixed inset-4 md:inset-x-auto md:left-1/2 md:-translate-x-1/2 md:w-[480px] md:top-8 md:bottom-8 bg-slate-50 rounded-2xl z-50 flex flex-col shadow-2xl">
+        <div className="flex items-center justify-between px-5 py-3 border-b border-slate-200">
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            {t('card.language')}
+            <select
+              value={cardLanguage}
+              onChange={(e) => setCardLanguage(e.target.value as Language)}
+              className="px-2 py-1 border border-slate-300 rounded-lg text-sm bg-white"
+            >
+              {SUPPORTED_LANGUAGES.map(({ code, name }) => (
+                <option key={code} value={code}>{name}</option>
+              ))}
+            </select>
+          </label>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4">
+          <ChefCard card={card} language={cardLanguage} url={url} />
+        </div>
+
+        <div className="flex gap-2 px-5 py-3 border-t border-slate-200">
+          <button
+            onClick={handlePrint}
+            className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2.5 bg-white border border-slate-300 text-slate-700 rounded-xl font-medium hover:bg-slate-100 transition-colors"
+          >
+            <Printer className="w-4 h-4" />
+            {t('card.print')}
+          </button>
+          <button
+            onClick={handleShare}
+            className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2.5 text-white rounded-xl font-medium transition-colors"
+            style={{ background: 'linear-gradient(90deg, #3b82f6, #0d9488)' }}
+          >
+            {copied ? <Check className="w-4 h-4" /> : <Share2 className="w-4 h-4" />}
+            {copied ? t('card.linkCopied') : t('card.share')}
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
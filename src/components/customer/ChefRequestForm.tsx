@@ -0,0 +1,267 @@
+import { useState } from 'react';
+import { ChefHat, ChevronDown, ChevronUp, Clock, CheckCircle, XCircle, Send, Loader2 } from 'lucide-react';
+import { ChefRequestModifications } from '../../lib/supabase';
+import { ChefRequest, submitChefRequest } from '../../lib/chefRequests';
+import { getStoredTableLabel, storeTableLabel } from '../../lib/customerSession';
+
+interface SubstituteInfo {
+  id: string;
+  name: string;
+  allergens: string[];
+}
+
+interface RequestableIngredient {
+  id: string;
+  name: string;
+  contains_allergens: string[];
+  substitutes: SubstituteInfo[];
+}
+
+interface ChefRequestFormProps {
+  restaurantId: string;
+  menuItemId: string;
+  ingredients: RequestableIngredient[];
+  requests: ChefRequest[];
+  onRequestSent?: (request: ChefRequest) => void;
+}
+
+type IngredientChoice = { action: 'remove' } | { action: 'swap'; substituteId: string | null };
+
+export default function ChefRequestForm({
+  restaurantId,
+  menuItemId,
+  ingredients,
+  requests,
+  onRequestSent,
+}: ChefRequestFormProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [choices, setChoices] = useState<Record<string, IngredientChoice>>({});
+  const [note, setNote] = useState('');
+  const [tableLabel, setTableLabel] = useState(() => getStoredTableLabel(restaurantId));
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const setChoice = (ingredientId: string, choice: IngredientChoice | null) => {
+    setChoices(prev => {
+      const next = { ...prev };
+      if (choice) {
+        next[ingredientId] = choice;
+      } else {
+        delete next[ingredientId];
+      }
+      return next;
+    });
+  };
+
+  const buildModifications = (): ChefRequestModifications => {
+    const modifications: ChefRequestModifications = { remove: [], substitute: [], note };
+
+    for (const ing of ingredients) {
+      const choice = choices[ing.id];
+      if (!choice) continue;
+
+      if (choice.action === 'remove') {
+        modifications.remove.push({ ingredient_id: ing.id, name: ing.name });
+      } else {
+        const substitute = ing.substitutes.find(s => s.id === choice.substituteId);
+        modifications.substitute.push({
+          ingredient_id: ing.id,
+          name: ing.name,
+          substitute_id: substitute?.id ?? null,
+          substitute_name: substitute?.name ?? null,
+        });
+      }
+    }
+
+    return modifications;
+  };
+
+  const handleSubmit = async () => {
+    setSending(true);
+    setError(null);
+
+    const { request, error: submitError } = await submitChefRequest(
+      restaurantId,
+      menuItemId,
+      buildModifications(),
+      tableLabel
+    );
+
+    if (request) {
+      storeTableLabel(restaurantId, tableLabel);
+      setChoices({});
+      setNote('');
+      setExpanded(false);
+      onRequestSent?.(request);
+    } else {
+      setError(submitError);
+    }
+
+    setSending(false);
+  };
+
+  const getStatusBadge = (status: ChefRequest['status']) => {
+    switch (status) {
+      case 'pending':
+        return (
+          <span className="flex items-center gap-1 px-2 py-0.5 bg-yellow-100 text-yellow-700 text-xs font-medium rounded-full">
+            <Clock className="w-3 h-3" />
+            Waiting for chef
+          </span>
+        );
+      case 'approved':
+        return (
+          <span className="flex items-center gap-1 px-2 py-0.5 bg-green-100 text-green-700 text-xs font-medium rounded-full">
+            <CheckCircle className="w-3 h-3" />
+            Approved
+          </span>
+        );
+      case 'declined':
+        return (
+          <span className="flex items-center gap-1 px-2 py-0.5 bg-red-100 text-red-700 text-xs font-medium rounded-full">
+            <XCircle className="w-3 h-3" />
+            Declined
+          </span>
+        );
+    }
+  };
+
+  return (
+    <div className="bg-teal-50 border border-teal-200 rounded-xl overflow-hidden">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full px-5 py-4 flex items-center justify-between text-left"
+      >
+        <div className="flex items-center gap-3">
+          <ChefHat className="w-5 h-5 text-teal-600" />
+          <div>
+            <h3 className="font-semibold text-teal-900">Ask the Chef</h3>
+            <p className="text-sm text-teal-700 mt-0.5">Request ingredient removals or swaps</p>
+          </div>
+        </div>
+        {expanded ? (
+          <ChevronUp className="w-5 h-5 text-teal-600" />
+        ) : (
+          <ChevronDown className="w-5 h-5 text-teal-600" />
+        )}
+      </button>
+
+      {expanded && (
+        <div className="px-5 pb-5 space-y-4">
+          {ingredients.length > 0 && (
+            <div className="space-y-2">
+              {ingredients.map((ing) => {
+                const choice = choices[ing.id];
+                return (
+                  <div key={ing.id} className="bg-white rounded-lg border border-teal-200 px-3 py-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <span className="font-medium text-slate-900">{ing.name}</span>
+                        {ing.contains_allergens.length > 0 && (
+                          <span className="text-slate-500 ml-2 text-xs">
+                            ({ing.contains_allergens.join(', ')})
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex gap-1.5 flex-shrink-0">
+                        <button
+                          type="button"
+                          onClick={() => setChoice(ing.id, choice?.action === 'remove' ? null : { action: 'remove' })}
+                          className={`px-2.5 py-1 text-xs font-medium rounded-full transition-colors ${
+                            choice?.action === 'remove'
+                              ? 'bg-red-500 text-white'
+                              : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                          }`}
+                        >
+                          Remove
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setChoice(
+                            ing.id,
+                            choice?.action === 'swap' ? null : { action: 'swap', substituteId: ing.substitutes[0]?.id ?? null }
+                          )}
+                          className={`px-2.5 py-1 text-xs font-medium rounded-full transition-colors ${
+                            choice?.action === 'swap'
+                              ? 'bg-purple-500 text-white'
+                              : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                          }`}
+                        >
+                          Swap
+                        </button>
+                      </div>
+                    </div>
+
+                    {choice?.action === 'swap' && (
+                      <select
+                        value={choice.substituteId ?? ''}
+                        onChange={(e) => setChoice(ing.id, { action: 'swap', substituteId: e.target.value || null })}
+                        className="mt-2 w-full px-3 py-1.5 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                      >
+                        {ing.substitutes.map((sub) => (
+                          <option key={sub.id} value={sub.id}>
+                            {sub.name}{sub.allergens.length > 0 ? ` (${sub.allergens.join(', ')})` : ''}
+                          </option>
+                        ))}
+                        <option value="">Chef's choice</option>
+                      </select>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <input
+            type="text"
+            value={tableLabel}
+            onChange={(e) => setTableLabel(e.target.value)}
+            placeholder="Table number (so the kitchen knows where it goes)"
+            className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+          />
+
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Anything else the kitchen should know? (e.g. severe allergy, separate pan)"
+            rows={3}
+            className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 focus:border-teal-500 resize-none"
+          />
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <button
+            onClick={handleSubmit}
+            disabled={sending}
+            className="w-full flex items-center justify-center gap-2 bg-teal-600 text-white py-2.5 rounded-lg font-medium hover:bg-teal-700 transition-colors disabled:opacity-50"
+          >
+            {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+            {sending ? 'Sending...' : 'Send to Chef'}
+          </button>
+        </div>
+      )}
+
+      {requests.length > 0 && (
+        <div className="px-5 pb-5 space-y-2">
+          <h4 className="text-xs font-semibold text-teal-800 uppercase tracking-wide">Your Requests</h4>
+          {requests.map((request) => (
+            <div key={request.id} className="bg-white rounded-lg border border-teal-200 p-3">
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <span className="text-xs text-slate-500">{new Date(request.created_at).toLocaleTimeString()}</span>
+                {getStatusBadge(request.status)}
+              </div>
+              <p className="text-sm text-slate-800 whitespace-pre-line">{request.request_details}</p>
+              {request.chef_response && (
+                <p className={`text-sm mt-2 pt-2 border-t ${
+                  request.status === 'approved' ? 'border-green-100 text-green-800' : 'border-red-100 text-red-800'
+                }`}>
+                  <span className="font-semibold">Chef: </span>{request.chef_response}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
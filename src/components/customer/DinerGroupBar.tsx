@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { Users, UserPlus, Pencil, X, Loader2 } from 'lucide-react';
+import { Diner } from '../../lib/groupDining';
+import { translateCustomerRestriction } from '../../lib/allergenTranslations';
+import { useLanguage } from '../../contexts/LanguageContext';
+
+interface DinerGroupBarProps {
+  // The guest first, then the diners they added
+  diners: Diner[];
+  safeForEveryone: boolean;
+  onSafeForEveryoneChange: (value: boolean) => void;
+  onAdd: (name: string) => Promise<void>;
+  onEdit: (diner: Diner) => void;
+  onRemove: (diner: Diner) => void;
+}
+
+export default function DinerGroupBar({
+  diners,
+  safeForEveryone,
+  onSafeForEveryoneChange,
+  onAdd,
+  onEdit,
+  onRemove,
+}: DinerGroupBarProps) {
+  const { language, t } = useLanguage();
+  const [name, setName] = useState('');
+  const [adding, setAdding] = useState(false);
+
+  const grouped = diners.length > 1;
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setAdding(true);
+    await onAdd(name);
+    setName('');
+    setAdding(false);
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+          <Users className="w-4 h-4 text-teal-600" />
+          {t('group.title')}
+        </h2>
+        {grouped && (
+          <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={safeForEveryone}
+              onChange={(e) => onSafeForEveryoneChange(e.target.checked)}
+              className="w-4 h-4 rounded border-slate-300 text-teal-600 focus:ring-teal-500"
+            />
+            {t('group.safeForEveryone')}
+          </label>
+        )}
+      </div>
+
+      {grouped ? (
+        <div className="flex flex-wrap gap-2">
+          {diners.map((diner) => {
+            const displayName = diner.name ?? t('group.you');
+            return (
+              <div
+                key={diner.profileId ?? 'you'}
+                className="flex items-center gap-1 pl-3 pr-1 py-1 bg-slate-50 border border-slate-200 rounded-full"
+              >
+                <span className="text-sm font-medium text-slate-800">{displayName}</span>
+                <span className="text-xs text-slate-500 max-w-[12rem] truncate">
+                  ·{' '}
+                  {diner.restrictions.length > 0
+                    ? diner.restrictions.map((r) => translateCustomerRestriction(r, language)).join(', ')
+                    : t('group.noAllergies')}
+                </span>
+                <button
+                  onClick={() => onEdit(diner)}
+                  className="p-1 text-slate-400 hover:text-teal-600 rounded-full transition-colors"
+                  title={t('group.edit', { name: displayName })}
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+                {diner.name !== null && (
+                  <button
+                    onClick={() => onRemove(diner)}
+                    className="p-1 text-slate-400 hover:text-red-600 rounded-full transition-colors"
+                    title={t('group.remove', { name: displayName })}
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-sm text-slate-500">{t('group.hint')}</p>
+      )}
+
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={t('group.namePlaceholder')}
+          className="flex-1 min-w-0 px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+        />
+        <button
+          type="submit"
+          disabled={adding || !name.trim()}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-teal-600 text-white text-sm font-medium rounded-lg hover:bg-teal-700 transition-colors disabled:opacity-50"
+        >
+          {adding ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+          {t('group.add')}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -1,13 +1,31 @@
 import { useState } from 'react';
-import { analyzeDishSafety } from '../../lib/safetyAnalysis';
+import { analyzeDishSafety, DataGap, describeSafetyMessage, matchedAllergenName } from '../../lib/safetyAnalysis';
+import { matchesAnyAllergen } from '../../lib/allergenOntology';
 import { getDietaryIcon } from '../icons/DietaryIcons';
-import { AlertCircle, CheckCircle, XCircle, Image as ImageIcon, Activity, ChevronDown, ChevronUp, Repeat, Trash2 } from 'lucide-react';
-import { Database } from '../../lib/supabase';
+import { AlertCircle, CheckCircle, XCircle, HelpCircle, Image as ImageIcon, Activity, ChevronDown, ChevronUp, Repeat, Trash2, History, ClipboardList } from 'lucide-react';
+import { Database, AllergenSeverity } from '../../lib/supabase';
+import { ChefRequest } from '../../lib/chefRequests';
+import { CustomerRestriction } from '../../lib/customerProfile';
+import { getDietaryStyles } from '../../lib/dietaryStyles';
+import { buildChefCard, chefCardUrl } from '../../lib/chefCard';
+import ChefRequestForm from './ChefRequestForm';
+import ChefCardDialog from './ChefCardDialog';
+import SafetyEvidenceList from '../common/SafetyEvidenceList';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { localizeDish, MessageKey } from '../../lib/i18n';
+import { translateAllergen, translateAllergens } from '../../lib/allergenTranslations';
+import { MenuGraphTranslation } from '../../lib/menuGraph';
 
 type MenuItem = Database['public']['Tables']['menu_items']['Row'];
 type Ingredient = Database['public']['Tables']['ingredients']['Row'];
 type CookingStep = Database['public']['Tables']['cooking_steps']['Row'];
 
+const DATA_GAP_KEYS: Record<DataGap, MessageKey> = {
+  'no-ingredients': 'gap.noIngredients',
+  'ai-only-allergens': 'gap.aiOnlyAllergens',
+  'no-cooking-steps': 'gap.noCookingSteps',
+};
+
 interface SubstituteInfo {
   id: string;
   name: string;
@@ -24,19 +42,44 @@ interface IngredientWithModifications extends Ingredient {
 // Field names match the database schema
 interface MenuItemWithExtras extends MenuItem {
   photo_url?: string | null;
+  translations?: MenuGraphTranslation[];
 }
 
 interface DishDetailProps {
   dish: MenuItemWithExtras & { ingredients: IngredientWithModifications[]; cookingSteps: CookingStep[] };
   customerAllergens: string[];
+  allergenSeverities?: Record<string, AllergenSeverity>;
   restaurantId: string;
+  restaurantName?: string;
+  // The guest's saved profile, needed for the chef card
+  customerProfileId?: string | null;
+  customerRestrictions?: CustomerRestriction[];
+  chefRequests?: ChefRequest[];
+  onChefRequestSent?: (request: ChefRequest) => void;
 }
 
-export default function DishDetail({ dish, customerAllergens }: DishDetailProps) {
+export default function DishDetail({
+  dish,
+  customerAllergens,
+  allergenSeverities = {},
+  restaurantId,
+  restaurantName = '',
+  customerProfileId,
+  customerRestrictions = [],
+  chefRequests = [],
+  onChefRequestSent,
+}: DishDetailProps) {
+  const { language, t } = useLanguage();
   const [showPhotoModal, setShowPhotoModal] = useState(false);
   const [showModifications, setShowModifications] = useState(false);
   const [expandedIngredient, setExpandedIngredient] = useState<string | null>(null);
-  const analysis = analyzeDishSafety(dish, dish.ingredients, dish.cookingSteps, customerAllergens);
+  const [showEvidence, setShowEvidence] = useState(false);
+  const [showChefCard, setShowChefCard] = useState(false);
+  const dietaryStyles = getDietaryStyles(customerRestrictions);
+  const analysis = analyzeDishSafety(dish, dish.ingredients, dish.cookingSteps, customerAllergens, {
+    severities: allergenSeverities,
+    dietaryStyles,
+  });
 
   // Get ingredients with modifications
   const removableIngredients = dish.ingredients.filter(ing => ing.is_removable);
@@ -56,18 +99,37 @@ export default function DishDetail({ dish, customerAllergens }: DishDetailProps)
     new Set([...ingredientAllergenList, ...descriptionAllergenList])
   );
 
-  const safeFor = customerAllergens.length > 0
-    ? customerAllergens.filter((allergen) =>
-        !allergenList.some(a => a.toLowerCase().includes(allergen.toLowerCase()))
-      )
-    : [];
+  // Chips come from the analysis, so a name match, description allergen or cross-contact
+  // risk counts as much as an ingredient tag. Each entry names the allergen it matched
+  // ("Milk"), not the guest's term, so a Dairy-Free guest's milk, butter, cheese, ... make
+  // one chip. Dietary-style evidence is about the style, not an allergen.
+  const allergenEvidence = analysis.evidence.filter(e => e.allergen !== undefined);
+  const evidenceFor = (allergen: string) => allergenEvidence.filter(e => e.allergen === allergen);
+  const matchedTerms = new Set(allergenEvidence.map(e => e.customerAllergen));
+  const isMatched = (term: string) => matchedTerms.has(term.toLowerCase().trim());
+  const termAllergen = (term: string) => matchedAllergenName(term, term);
 
   const containsAllergens = customerAllergens.length > 0
-    ? allergenList.filter((allergen) =>
-        customerAllergens.some(ca => allergen.toLowerCase().includes(ca.toLowerCase()))
-      )
+    ? Array.from(new Set(allergenEvidence.flatMap(e => (e.effect !== 'uncertain' && e.allergen ? [e.allergen] : []))))
     : allergenList;
 
+  // A guest term is safe when nothing matched it; "Tree Nuts" isn't safe just because the
+  // cashew that matched it has a chip of its own
+  const flaggedAllergens = new Set([
+    ...allergenEvidence.flatMap(e => (e.allergen ? [e.allergen] : [])),
+    ...customerAllergens.filter(isMatched).map(termAllergen),
+  ]);
+  const safeFor = Array.from(new Set(customerAllergens.filter(term => !isMatched(term)).map(termAllergen)))
+    .filter(allergen => !flaggedAllergens.has(allergen));
+
+  // Only the AI-tagged description says the dish has it
+  const isFromDescription = (allergen: string) => {
+    const found = evidenceFor(allergen).filter(e => e.effect !== 'uncertain');
+    return found.length > 0
+      ? found.every(e => e.source === 'description')
+      : descriptionAllergenList.includes(allergen) && !ingredientAllergenList.includes(allergen);
+  };
+
   const getStatusConfig = () => {
     switch (analysis.status) {
       case 'safe':
@@ -76,10 +138,10 @@ export default function DishDetail({ dish, customerAllergens }: DishDetailProps)
           bgColor: 'bg-green-50',
           borderColor: 'border-green-200',
           textColor: 'text-green-900',
-          label: 'Safe for You',
-          description: customerAllergens.length > 0
-            ? 'This dish does not contain any of your listed allergens.'
-            : 'No allergen restrictions detected in your profile.'
+          label: t('status.safe'),
+          description: customerAllergens.length > 0 || dietaryStyles.length > 0
+            ? t('status.safe.description')
+            : t('status.safe.noProfile')
         };
       case 'safe-with-modifications':
         return {
@@ -87,8 +149,8 @@ export default function DishDetail({ dish, customerAllergens }: DishDetailProps)
           bgColor: 'bg-orange-50',
           borderColor: 'border-orange-200',
           textColor: 'text-orange-900',
-          label: 'Safe with Modifications',
-          description: 'This dish can be made safe with some adjustments.'
+          label: t('status.modifiable'),
+          description: t('status.modifiable.description')
         };
       case 'unsafe':
         return {
@@ -96,25 +158,64 @@ export default function DishDetail({ dish, customerAllergens }: DishDetailProps)
           bgColor: 'bg-red-50',
           borderColor: 'border-red-200',
           textColor: 'text-red-900',
-          label: 'Contains Allergens',
-          description: 'This dish contains ingredients that may cause an allergic reaction.'
+          label: t('status.unsafe'),
+          description: t('status.unsafe.description')
+        };
+      case 'unverified':
+        // Missing dish data, or only an ingredient name that might be an allergen
+        return {
+          icon: <HelpCircle className="w-6 h-6 text-slate-600" />,
+          bgColor: 'bg-slate-50',
+          borderColor: 'border-slate-300',
+          textColor: 'text-slate-900',
+          label: analysis.dataGaps ? t('status.unverified') : t('status.checkWithStaff'),
+          description: analysis.dataGaps
+            ? t('status.unverified.description')
+            : t('status.checkWithStaff.description')
         };
     }
   };
 
   const statusConfig = getStatusConfig();
+  const { name, description } = localizeDish(dish, language);
   const hasNutrition = dish.calories || dish.protein_g || dish.carbs_g || dish.fat_g || dish.sodium_mg || dish.cholesterol_mg;
 
   return (
     <div className="p-6 space-y-6">
-      {dish.description && (
-        <p className="text-slate-600 leading-relaxed">{dish.description}</p>
+      {description && (
+        <p className="text-slate-600 leading-relaxed">{description}</p>
       )}
 
       {dish.price && (
         <div className="text-2xl font-bold text-slate-900">${Number(dish.price).toFixed(2)}</div>
       )}
 
+      {dish.allergens_changed_at && (
+        <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+          <History className="w-4 h-4 text-amber-600 flex-shrink-0 mt-0.5" />
+          <div className="text-sm text-amber-800">
+            <p className="font-medium">
+              {t('dish.recipeChanged', {
+                date: new Date(dish.allergens_changed_at).toLocaleDateString(language, { dateStyle: 'medium' }),
+              })}
+            </p>
+            {dish.allergens_added.length > 0 && (
+              <p className="mt-0.5">
+                {t('dish.nowContains')}{' '}
+                {dish.allergens_added.map((allergen, index) => (
+                  <span key={allergen}>
+                    {index > 0 && ', '}
+                    <span className={matchesAnyAllergen(allergen, customerAllergens) ? 'font-semibold text-red-700' : undefined}>
+                      {translateAllergen(allergen, language)}
+                    </span>
+                  </span>
+                ))}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
       <div className={`${statusConfig.bgColor} ${statusConfig.borderColor} border-2 rounded-xl p-5`}>
         <div className="flex items-start gap-3 mb-3">
           {statusConfig.icon}
@@ -124,11 +225,23 @@ export default function DishDetail({ dish, customerAllergens }: DishDetailProps)
           </div>
         </div>
 
-        {safeFor.length > 0 && (
+        {(analysis.dataGaps || analysis.uncertainIngredients) && (
+          <ul className="mt-3 space-y-1 text-sm text-slate-700 list-disc list-inside">
+            {analysis.dataGaps?.map((gap) => (
+              <li key={gap}>{t(DATA_GAP_KEYS[gap])}</li>
+            ))}
+            {analysis.uncertainIngredients?.map((ingredient) => (
+              <li key={ingredient}>{t('gap.uncertainIngredient', { ingredient })}</li>
+            ))}
+          </ul>
+        )}
+
+        {/* Nothing is confirmed safe when the dish data is incomplete */}
+        {safeFor.length > 0 && analysis.status !== 'unverified' && (
           <div className="mt-4 pt-4 border-t border-green-200">
             <h4 className="text-sm font-semibold text-green-800 mb-2 flex items-center gap-2">
               <CheckCircle className="w-4 h-4" />
-              Safe For
+              {t('dish.safeFor')}
             </h4>
             <div className="flex flex-wrap gap-2">
               {safeFor.map((restriction) => (
@@ -137,7 +250,7 @@ export default function DishDetail({ dish, customerAllergens }: DishDetailProps)
                   className="inline-flex items-center gap-2 px-3 py-1.5 bg-green-100 text-green-800 rounded-full text-sm font-medium"
                 >
                   {getDietaryIcon(restriction, 16)}
-                  {restriction}
+                  {translateAllergen(restriction, language)}
                 </div>
               ))}
             </div>
@@ -148,25 +261,25 @@ export default function DishDetail({ dish, customerAllergens }: DishDetailProps)
           <div className="mt-4 pt-4 border-t border-red-200">
             <h4 className="text-sm font-semibold text-red-800 mb-2 flex items-center gap-2">
               <XCircle className="w-4 h-4" />
-              Contains
+              {t('dish.contains')}
             </h4>
             <div className="flex flex-wrap gap-2">
               {containsAllergens.map((allergen) => {
-                const isFromDescription = descriptionAllergenList.includes(allergen) && !ingredientAllergenList.includes(allergen);
+                const fromDescription = isFromDescription(allergen);
                 return (
                   <div
                     key={allergen}
                     className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-medium ${
-                      isFromDescription
+                      fromDescription
                         ? 'bg-amber-100 text-amber-800 border border-amber-200'
                         : 'bg-red-100 text-red-800'
                     }`}
-                    title={isFromDescription ? 'Detected from dish description' : undefined}
+                    title={fromDescription ? t('dish.fromDescription') : undefined}
                   >
                     {getDietaryIcon(allergen, 16)}
-                    {allergen}
-                    {isFromDescription && (
-                      <span className="text-xs text-amber-600">(desc)</span>
+                    {translateAllergen(allergen, language)}
+                    {fromDescription && (
+                      <span className="text-xs text-amber-600">{t('dish.fromDescriptionTag')}</span>
                     )}
                   </div>
                 );
@@ -175,14 +288,69 @@ export default function DishDetail({ dish, customerAllergens }: DishDetailProps)
           </div>
         )}
 
-        {analysis.modificationSuggestions && analysis.modificationSuggestions.length > 0 && (
+        {analysis.anaphylaxisWarnings && analysis.anaphylaxisWarnings.length > 0 && (
+          <div className="mt-4 pt-4 border-t border-red-300">
+            <h4 className="text-sm font-semibold text-red-900 mb-2 flex items-center gap-2">
+              <AlertCircle className="w-4 h-4" />
+              {t('dish.anaphylaxis')}
+            </h4>
+            <ul className="space-y-1">
+              {analysis.anaphylaxisWarnings.map((warning, index) => (
+                <li key={index} className="text-sm text-red-800 flex items-start gap-2">
+                  <span className="text-red-600 mt-0.5">⚠</span>
+                  <span>{describeSafetyMessage(language, warning)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {analysis.modificationPlan && (
           <div className="mt-4 pt-4 border-t border-orange-200">
-            <h4 className="text-sm font-semibold text-orange-800 mb-2">Suggested Modifications</h4>
+            <h4 className="text-sm font-semibold text-orange-800 mb-1 flex items-center gap-2">
+              <ClipboardList className="w-4 h-4" />
+              {t('plan.title')}
+            </h4>
+            <p className="text-xs text-orange-700 mb-2">{t('plan.hint')}</p>
+            <ol className="space-y-1.5">
+              {analysis.modificationPlan.map((change, index) => (
+                <li key={index} className="text-sm text-orange-900 flex items-start gap-2">
+                  <span className="flex-shrink-0 w-5 h-5 rounded-full bg-orange-200 text-orange-800 text-xs font-semibold flex items-center justify-center">
+                    {index + 1}
+                  </span>
+                  <span>
+                    {change.kind === 'remove' && t('plan.remove', { ingredient: change.ingredient })}
+                    {change.kind === 'substitute' && (
+                      <>
+                        {t('plan.substitute', { substitute: change.substitute, ingredient: change.ingredient })}
+                        {change.alternatives.length > 0 && (
+                          <span className="block text-xs text-orange-700">
+                            {t('plan.alternatives', { alternatives: change.alternatives.join(', ') })}
+                          </span>
+                        )}
+                      </>
+                    )}
+                    {change.kind === 'modify-step' && (
+                      <>
+                        {t('plan.modifyStep', { number: change.stepNumber, notes: change.notes || t('plan.askChef') })}
+                        <span className="block text-xs text-orange-700">{change.description}</span>
+                      </>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        {!analysis.modificationPlan && analysis.modificationSuggestions && analysis.modificationSuggestions.length > 0 && (
+          <div className="mt-4 pt-4 border-t border-orange-200">
+            <h4 className="text-sm font-semibold text-orange-800 mb-2">{t('dish.suggestedModifications')}</h4>
             <ul className="space-y-1">
               {analysis.modificationSuggestions.map((suggestion, index) => (
                 <li key={index} className="text-sm text-orange-900 flex items-start gap-2">
                   <span className="text-orange-600 mt-0.5">•</span>
-                  <span>{suggestion}</span>
+                  <span>{describeSafetyMessage(language, suggestion)}</span>
                 </li>
               ))}
             </ul>
@@ -193,13 +361,13 @@ export default function DishDetail({ dish, customerAllergens }: DishDetailProps)
           <div className="mt-4 pt-4 border-t border-red-300 bg-red-50 -mx-5 -mb-5 px-5 py-4 rounded-b-xl">
             <h4 className="text-sm font-semibold text-red-900 mb-2 flex items-center gap-2">
               <AlertCircle className="w-4 h-4" />
-              Cross-Contact Risks
+              {t('dish.crossContact')}
             </h4>
             <ul className="space-y-1">
               {analysis.crossContactRisks.map((risk, index) => (
                 <li key={index} className="text-sm text-red-800 flex items-start gap-2">
                   <span className="text-red-600 mt-0.5">⚠</span>
-                  <span>{risk}</span>
+                  <span>{describeSafetyMessage(language, risk)}</span>
                 </li>
               ))}
             </ul>
@@ -207,6 +375,28 @@ export default function DishDetail({ dish, customerAllergens }: DishDetailProps)
         )}
       </div>
 
+      {/* Rule-by-rule trail behind the verdict above */}
+      {analysis.evidence.length > 0 && (
+        <div className="border border-slate-200 rounded-xl overflow-hidden">
+          <button
+            onClick={() => setShowEvidence(!showEvidence)}
+            className="w-full px-5 py-3 flex items-center justify-between text-left bg-slate-50"
+          >
+            <span className="text-sm font-semibold text-slate-700">{t('dish.whyRating')}</span>
+            {showEvidence ? (
+              <ChevronUp className="w-4 h-4 text-slate-500" />
+            ) : (
+              <ChevronDown className="w-4 h-4 text-slate-500" />
+            )}
+          </button>
+          {showEvidence && (
+            <div className="p-4">
+              <SafetyEvidenceList evidence={analysis.evidence} language={language} />
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Modification Options Section */}
       {hasModifications && (
         <div className="bg-purple-50 border border-purple-200 rounded-xl overflow-hidden">
@@ -217,11 +407,11 @@ export default function DishDetail({ dish, customerAllergens }: DishDetailProps)
             <div className="flex items-center gap-3">
               <Repeat className="w-5 h-5 text-purple-600" />
               <div>
-                <h3 className="font-semibold text-purple-900">Modification Options</h3>
+                <h3 className="font-semibold text-purple-900">{t('dish.modificationOptions')}</h3>
                 <p className="text-sm text-purple-700 mt-0.5">
-                  {removableIngredients.length > 0 && `${removableIngredients.length} removable`}
+                  {removableIngredients.length > 0 && t('dish.removableCount', { count: removableIngredients.length })}
                   {removableIngredients.length > 0 && substitutableIngredients.length > 0 && ' • '}
-                  {substitutableIngredients.length > 0 && `${substitutableIngredients.length} substitutable`}
+                  {substitutableIngredients.length > 0 && t('dish.substitutableCount', { count: substitutableIngredients.length })}
                 </p>
               </div>
             </div>
@@ -239,7 +429,7 @@ export default function DishDetail({ dish, customerAllergens }: DishDetailProps)
                 <div>
                   <h4 className="text-sm font-semibold text-green-800 mb-2 flex items-center gap-2">
                     <Trash2 className="w-4 h-4" />
-                    Can Be Removed
+                    {t('dish.canBeRemoved')}
                   </h4>
                   <div className="flex flex-wrap gap-2">
                     {removableIngredients.map((ing) => (
@@ -250,14 +440,14 @@ export default function DishDetail({ dish, customerAllergens }: DishDetailProps)
                         {ing.name}
                         {ing.contains_allergens.length > 0 && (
                           <span className="text-green-600 ml-1">
-                            ({ing.contains_allergens.join(', ')})
+                            ({translateAllergens(ing.contains_allergens, language).join(', ')})
                           </span>
                         )}
                       </span>
                     ))}
                   </div>
                   <p className="text-xs text-green-700 mt-2">
-                    Ask your server to have these ingredients removed from your dish.
+                    {t('dish.removeHint')}
                   </p>
                 </div>
               )}
@@ -267,7 +457,7 @@ export default function DishDetail({ dish, customerAllergens }: DishDetailProps)
                 <div>
                   <h4 className="text-sm font-semibold text-purple-800 mb-2 flex items-center gap-2">
                     <Repeat className="w-4 h-4" />
-                    Can Be Substituted
+                    {t('dish.canBeSubstituted')}
                   </h4>
                   <div className="space-y-2">
                     {substitutableIngredients.map((ing) => (
@@ -280,7 +470,7 @@ export default function DishDetail({ dish, customerAllergens }: DishDetailProps)
                             <span className="font-medium text-purple-900">{ing.name}</span>
                             {ing.contains_allergens.length > 0 && (
                               <span className="text-purple-600 ml-2 text-sm">
-                                ({ing.contains_allergens.join(', ')})
+                                ({translateAllergens(ing.contains_allergens, language).join(', ')})
                               </span>
                             )}
                           </div>
@@ -295,12 +485,12 @@ export default function DishDetail({ dish, customerAllergens }: DishDetailProps)
 
                         {expandedIngredient === ing.id && ing.substitutes.length > 0 && (
                           <div className="px-3 pb-3 pt-1 border-t border-purple-100 bg-purple-50/50">
-                            <p className="text-xs text-purple-700 mb-2">Available substitutes:</p>
+                            <p className="text-xs text-purple-700 mb-2">{t('dish.availableSubstitutes')}</p>
                             <div className="flex flex-wrap gap-2">
                               {ing.substitutes.map((sub) => {
                                 // Check if substitute contains any of customer's allergens
-                                const hasCustomerAllergen = customerAllergens.some(ca =>
-                                  sub.allergens.some(sa => sa.toLowerCase().includes(ca.toLowerCase()))
+                                const hasCustomerAllergen = sub.allergens.some(sa =>
+                                  matchesAnyAllergen(sa, customerAllergens)
                                 );
 
                                 return (
@@ -315,7 +505,7 @@ export default function DishDetail({ dish, customerAllergens }: DishDetailProps)
                                     {sub.name}
                                     {sub.allergens.length > 0 && (
                                       <span className={`ml-1 text-xs ${hasCustomerAllergen ? 'text-red-600' : 'text-slate-500'}`}>
-                                        ({sub.allergens.join(', ')})
+                                        ({translateAllergens(sub.allergens, language).join(', ')})
                                       </span>
                                     )}
                                     {hasCustomerAllergen && (
@@ -331,7 +521,7 @@ export default function DishDetail({ dish, customerAllergens }: DishDetailProps)
                     ))}
                   </div>
                   <p className="text-xs text-purple-700 mt-2">
-                    Tap an ingredient to see available substitutes. Ask your server for substitutions.
+                    {t('dish.substituteHint')}
                   </p>
                 </div>
               )}
@@ -346,19 +536,21 @@ export default function DishDetail({ dish, customerAllergens }: DishDetailProps)
         if (modifiableSteps.length === 0) return null;
         return (
           <div className="bg-blue-50 border border-blue-200 rounded-xl p-5">
-            <h3 className="text-lg font-bold text-blue-900 mb-3">Cooking Modifications Available</h3>
-            <p className="text-sm text-blue-700 mb-3">These cooking steps can be adjusted to accommodate your dietary needs.</p>
+            <h3 className="text-lg font-bold text-blue-900 mb-3">{t('dish.cookingModifications')}</h3>
+            <p className="text-sm text-blue-700 mb-3">{t('dish.cookingModificationsHint')}</p>
             <div className="space-y-3">
               {modifiableSteps.map((step) => (
                 <div key={step.id} className="bg-white rounded-lg p-3 border border-blue-200">
-                  <p className="text-sm font-medium text-slate-900">Step {step.step_number}: {step.description}</p>
+                  <p className="text-sm font-medium text-slate-900">
+                    {t('dish.step', { number: step.step_number, description: step.description })}
+                  </p>
                   {step.modifiable_allergens.length > 0 && (
                     <div className="flex flex-wrap gap-1.5 mt-2">
                       {step.modifiable_allergens.map(a => {
-                        const isRelevant = customerAllergens.some(ca => a.toLowerCase().includes(ca.toLowerCase()));
+                        const isRelevant = matchesAnyAllergen(a, customerAllergens);
                         return (
                           <span key={a} className={`px-2 py-0.5 text-xs rounded-full ${isRelevant ? 'bg-green-100 text-green-800 font-medium' : 'bg-slate-100 text-slate-600'}`}>
-                            Can avoid: {a}
+                            {t('dish.canAvoid', { allergen: translateAllergen(a, language) })}
                           </span>
                         );
                       })}
@@ -370,23 +562,54 @@ export default function DishDetail({ dish, customerAllergens }: DishDetailProps)
                 </div>
               ))}
             </div>
-            <p className="text-xs text-blue-600 mt-3">Ask your server about modifying these cooking steps.</p>
+            <p className="text-xs text-blue-600 mt-3">{t('dish.cookingAskServer')}</p>
           </div>
         );
       })()}
 
+      {customerProfileId && customerRestrictions.length > 0 && (
+        <button
+          onClick={() => setShowChefCard(true)}
+          className="w-full flex items-center justify-center gap-3 px-6 py-4 bg-white border-2 border-slate-800 text-slate-800 rounded-xl font-semibold hover:bg-slate-50 transition-colors"
+        >
+          <ClipboardList className="w-5 h-5" />
+          {t('card.button')}
+        </button>
+      )}
+
+      {showChefCard && customerProfileId && (
+        <ChefCardDialog
+          card={buildChefCard(restaurantName, dish.name, customerRestrictions, analysis)}
+          url={chefCardUrl(customerProfileId, dish.id)}
+          onClose={() => setShowChefCard(false)}
+        />
+      )}
+
+      <ChefRequestForm
+        restaurantId={restaurantId}
+        menuItemId={dish.id}
+        ingredients={dish.ingredients}
+        requests={chefRequests}
+        onRequestSent={onChefRequestSent}
+      />
+
       {hasNutrition && (
         <div className="bg-slate-50 border border-slate-200 rounded-xl p-5">
           <h3 className="text-lg font-bold text-slate-900 mb-4 flex items-center gap-2">
             <Activity className="w-5 h-5 text-emerald-600" />
-            Nutrition Information
+            {t('nutrition.title')}
+            {dish.nutrition_source === 'estimated' && (
+              <span className="ml-auto text-xs font-medium text-amber-700 bg-amber-100 px-2 py-0.5 rounded-full">
+                {t('nutrition.partlyEstimated')}
+              </span>
+            )}
           </h3>
 
           <div className="space-y-4">
             {dish.calories && (
               <div>
                 <div className="flex items-baseline justify-between mb-1">
-                  <span className="text-sm font-medium text-slate-700">Calories</span>
+                  <span className="text-sm font-medium text-slate-700">{t('nutrition.calories')}</span>
                   <span className="text-2xl font-bold text-slate-900">{dish.calories}</span>
                 </div>
               </div>
@@ -395,74 +618,74 @@ export default function DishDetail({ dish, customerAllergens }: DishDetailProps)
             {/* Macronutrients */}
             {(dish.protein_g || dish.carbs_g || dish.fat_g) && (
               <div className="pt-4 border-t border-slate-200 space-y-3">
-                <h4 className="text-xs font-semibold text-slate-600 uppercase tracking-wide">Macronutrients</h4>
+                <h4 className="text-xs font-semibold text-slate-600 uppercase tracking-wide">{t('nutrition.macronutrients')}</h4>
 
                 {dish.protein_g !== null && dish.protein_g !== undefined && (
                   <div className="flex items-center justify-between">
-                    <span className="text-sm text-slate-700">Protein</span>
+                    <span className="text-sm text-slate-700">{t('nutrition.protein')}</span>
                     <span className="text-sm font-semibold text-slate-900">{dish.protein_g}g</span>
                   </div>
                 )}
 
                 {dish.carbs_g !== null && dish.carbs_g !== undefined && (
                   <div className="flex items-center justify-between">
-                    <span className="text-sm text-slate-700">Total Carbohydrates</span>
+                    <span className="text-sm text-slate-700">{t('nutrition.carbs')}</span>
                     <span className="text-sm font-semibold text-slate-900">{dish.carbs_g}g</span>
                   </div>
                 )}
 
                 {dish.carbs_fiber_g !== null && dish.carbs_fiber_g !== undefined && (
                   <div className="flex items-center justify-between pl-4">
-                    <span className="text-sm text-slate-500">Dietary Fiber</span>
+                    <span className="text-sm text-slate-500">{t('nutrition.fiber')}</span>
                     <span className="text-sm font-medium text-slate-700">{dish.carbs_fiber_g}g</span>
                   </div>
                 )}
 
                 {dish.carbs_sugar_g !== null && dish.carbs_sugar_g !== undefined && (
                   <div className="flex items-center justify-between pl-4">
-                    <span className="text-sm text-slate-500">Sugars</span>
+                    <span className="text-sm text-slate-500">{t('nutrition.sugars')}</span>
                     <span className="text-sm font-medium text-slate-700">{dish.carbs_sugar_g}g</span>
                   </div>
                 )}
 
                 {dish.carbs_added_sugar_g !== null && dish.carbs_added_sugar_g !== undefined && (
                   <div className="flex items-center justify-between pl-8">
-                    <span className="text-sm text-slate-400">Added Sugars</span>
+                    <span className="text-sm text-slate-400">{t('nutrition.addedSugars')}</span>
                     <span className="text-sm font-medium text-slate-600">{dish.carbs_added_sugar_g}g</span>
                   </div>
                 )}
 
                 {dish.fat_g !== null && dish.fat_g !== undefined && (
                   <div className="flex items-center justify-between">
-                    <span className="text-sm text-slate-700">Total Fat</span>
+                    <span className="text-sm text-slate-700">{t('nutrition.fat')}</span>
                     <span className="text-sm font-semibold text-slate-900">{dish.fat_g}g</span>
                   </div>
                 )}
 
                 {dish.fat_saturated_g !== null && dish.fat_saturated_g !== undefined && (
                   <div className="flex items-center justify-between pl-4">
-                    <span className="text-sm text-slate-500">Saturated Fat</span>
+                    <span className="text-sm text-slate-500">{t('nutrition.saturatedFat')}</span>
                     <span className="text-sm font-medium text-slate-700">{dish.fat_saturated_g}g</span>
                   </div>
                 )}
 
                 {dish.fat_trans_g !== null && dish.fat_trans_g !== undefined && (
                   <div className="flex items-center justify-between pl-4">
-                    <span className="text-sm text-slate-500">Trans Fat</span>
+                    <span className="text-sm text-slate-500">{t('nutrition.transFat')}</span>
                     <span className="text-sm font-medium text-slate-700">{dish.fat_trans_g}g</span>
                   </div>
                 )}
 
                 {dish.fat_polyunsaturated_g !== null && dish.fat_polyunsaturated_g !== undefined && (
                   <div className="flex items-center justify-between pl-4">
-                    <span className="text-sm text-slate-500">Polyunsaturated Fat</span>
+                    <span className="text-sm text-slate-500">{t('nutrition.polyunsaturatedFat')}</span>
                     <span className="text-sm font-medium text-slate-700">{dish.fat_polyunsaturated_g}g</span>
                   </div>
                 )}
 
                 {dish.fat_monounsaturated_g !== null && dish.fat_monounsaturated_g !== undefined && (
                   <div className="flex items-center justify-between pl-4">
-                    <span className="text-sm text-slate-500">Monounsaturated Fat</span>
+                    <span className="text-sm text-slate-500">{t('nutrition.monounsaturatedFat')}</span>
                     <span className="text-sm font-medium text-slate-700">{dish.fat_monounsaturated_g}g</span>
                   </div>
                 )}
@@ -472,18 +695,18 @@ export default function DishDetail({ dish, customerAllergens }: DishDetailProps)
             {/* Minerals */}
             {(dish.sodium_mg || dish.cholesterol_mg) && (
               <div className="pt-4 border-t border-slate-200 space-y-3">
-                <h4 className="text-xs font-semibold text-slate-600 uppercase tracking-wide">Other</h4>
+                <h4 className="text-xs font-semibold text-slate-600 uppercase tracking-wide">{t('nutrition.other')}</h4>
 
                 {dish.cholesterol_mg !== null && dish.cholesterol_mg !== undefined && (
                   <div className="flex items-center justify-between">
-                    <span className="text-sm text-slate-700">Cholesterol</span>
+                    <span className="text-sm text-slate-700">{t('nutrition.cholesterol')}</span>
                     <span className="text-sm font-semibold text-slate-900">{dish.cholesterol_mg}mg</span>
                   </div>
                 )}
 
                 {dish.sodium_mg !== null && dish.sodium_mg !== undefined && (
                   <div className="flex items-center justify-between">
-                    <span className="text-sm text-slate-700">Sodium</span>
+                    <span className="text-sm text-slate-700">{t('nutrition.sodium')}</span>
                     <span className="text-sm font-semibold text-slate-900">{dish.sodium_mg}mg</span>
                   </div>
                 )}
@@ -499,7 +722,7 @@ export default function DishDetail({ dish, customerAllergens }: DishDetailProps)
           className="w-full flex items-center justify-center gap-3 px-6 py-4 bg-gradient-to-r from-emerald-500 to-teal-600 text-white rounded-xl font-semibold hover:from-emerald-600 hover:to-teal-700 transition-all shadow-lg hover:shadow-xl"
         >
           <ImageIcon className="w-5 h-5" />
-          View Photo
+          {t('dish.viewPhoto')}
         </button>
       )}
 
@@ -511,7 +734,7 @@ export default function DishDetail({ dish, customerAllergens }: DishDetailProps)
           <div className="relative max-w-4xl w-full">
             <img
               src={dish.photo_url}
-              alt={dish.name}
+              alt={name}
               className="w-full h-auto rounded-xl shadow-2xl"
             />
           </div>
@@ -1,25 +1,10 @@
 import { useState, useEffect } from 'react';
-import { supabase, Database, WeightUnit } from '../../lib/supabase';
+import { supabase } from '../../lib/supabase';
+import { loadMenuGraph, invalidateMenuGraph, MenuGraphItem } from '../../lib/menuGraph';
+import { stepCrossContactRisks } from '../../lib/kitchenEquipment';
 import { ArrowLeft, ChevronDown, ChevronUp, Trash2, Repeat, Check, Loader2, X, Settings } from 'lucide-react';
 import { COMMON_ALLERGENS } from '../../lib/openai';
 
-type MenuItem = Database['public']['Tables']['menu_items']['Row'];
-type Ingredient = Database['public']['Tables']['ingredients']['Row'];
-type CookingStep = Database['public']['Tables']['cooking_steps']['Row'];
-
-interface IngredientWithMods extends Ingredient {
-  menuItemIngredientId: string;
-  amount_value: number | null;
-  amount_unit: WeightUnit | null;
-  is_removable: boolean;
-  is_substitutable: boolean;
-}
-
-interface MenuItemWithDetails extends MenuItem {
-  ingredients: IngredientWithMods[];
-  cookingSteps: CookingStep[];
-}
-
 interface ChefModificationsProps {
   restaurantId: string;
   onBack?: () => void;
@@ -27,7 +12,7 @@ interface ChefModificationsProps {
 }
 
 export default function ChefModifications({ restaurantId, onBack, onComplete }: ChefModificationsProps) {
-  const [menuItems, setMenuItems] = useState<MenuItemWithDetails[]>([]);
+  const [menuItems, setMenuItems] = useState<MenuGraphItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState<string | null>(null);
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set());
@@ -37,63 +22,13 @@ export default function ChefModifications({ restaurantId, onBack, onComplete }:
   }, [restaurantId]);
 
   const loadAllDishes = async () => {
-    try {
-      const { data: items } = await supabase
-        .from('menu_items')
-        .select('*')
-        .eq('restaurant_id', restaurantId);
-
-      if (!items || items.length === 0) {
-        setLoading(false);
-        return;
-      }
-
-      const itemsWithDetails = await Promise.all(
-        items.map(async (item) => {
-          // Load ingredients
-          const { data: menuItemIngredients } = await supabase
-            .from('menu_item_ingredients')
-            .select('*, ingredient:ingredients(*)')
-            .eq('menu_item_id', item.id);
-
-          const ingredients: IngredientWithMods[] = (menuItemIngredients || []).map((mii: {
-            id: string;
-            ingredient_id: string;
-            amount_value: number | null;
-            amount_unit: WeightUnit | null;
-            is_removable: boolean;
-            is_substitutable: boolean;
-            ingredient: Ingredient;
-          }) => ({
-            ...mii.ingredient,
-            menuItemIngredientId: mii.id,
-            amount_value: mii.amount_value,
-            amount_unit: mii.amount_unit,
-            is_removable: mii.is_removable || false,
-            is_substitutable: mii.is_substitutable || false,
-          }));
-
-          // Load cooking steps
-          const { data: cookingSteps } = await supabase
-            .from('cooking_steps')
-            .select('*')
-            .eq('menu_item_id', item.id)
-            .order('step_number');
-
-          return {
-            ...item,
-            ingredients,
-            cookingSteps: cookingSteps || [],
-          };
-        })
-      );
-
-      setMenuItems(itemsWithDetails);
-    } catch (err) {
-      console.error('Error loading dishes:', err);
-    } finally {
-      setLoading(false);
+    const { items, error } = await loadMenuGraph(restaurantId);
+    if (error) {
+      console.error('Error loading dishes:', error);
+    } else {
+      setMenuItems(items);
     }
+    setLoading(false);
   };
 
   const toggleExpanded = (itemId: string) => {
@@ -117,6 +52,7 @@ export default function ChefModifications({ restaurantId, onBack, onComplete }:
     await supabase.from('menu_item_ingredients')
       .update({ is_removable: !ing.is_removable })
       .eq('id', menuItemIngredientId);
+    invalidateMenuGraph(restaurantId);
 
     setMenuItems(prev => prev.map(mi =>
       mi.id === itemId ? {
@@ -140,6 +76,7 @@ export default function ChefModifications({ restaurantId, onBack, onComplete }:
     await supabase.from('menu_item_ingredients')
       .update({ is_substitutable: !ing.is_substitutable })
       .eq('id', menuItemIngredientId);
+    invalidateMenuGraph(restaurantId);
 
     setMenuItems(prev => prev.map(mi =>
       mi.id === itemId ? {
@@ -163,6 +100,7 @@ export default function ChefModifications({ restaurantId, onBack, onComplete }:
     await supabase.from('cooking_steps')
       .update({ is_modifiable: !step.is_modifiable })
       .eq('id', stepId);
+    invalidateMenuGraph(restaurantId);
 
     setMenuItems(prev => prev.map(mi =>
       mi.id === itemId ? {
@@ -179,6 +117,7 @@ export default function ChefModifications({ restaurantId, onBack, onComplete }:
     await supabase.from('cooking_steps')
       .update({ modifiable_allergens: allergens })
       .eq('id', stepId);
+    invalidateMenuGraph(restaurantId);
 
     setMenuItems(prev => prev.map(mi =>
       mi.id === itemId ? {
@@ -194,6 +133,7 @@ export default function ChefModifications({ restaurantId, onBack, onComplete }:
     await supabase.from('cooking_steps')
       .update({ modification_notes: notes || null })
       .eq('id', stepId);
+    invalidateMenuGraph(restaurantId);
 
     setMenuItems(prev => prev.map(mi =>
       mi.id === itemId ? {
@@ -369,9 +309,9 @@ export default function ChefModifications({ restaurantId, onBack, onComplete }:
                                   </div>
                                   <div className="flex-1">
                                     <p className="text-sm text-slate-800">{step.description}</p>
-                                    {step.cross_contact_risk?.length > 0 && (
+                                    {stepCrossContactRisks(step).length > 0 && (
                                       <div className="flex flex-wrap gap-1 mt-1.5">
-                                        {step.cross_contact_risk.map((risk: string) => (
+                                        {stepCrossContactRisks(step).map((risk: string) => (
                                           <span key={risk} className="text-xs px-2 py-0.5 bg-amber-100 text-amber-800 rounded-full">
                                             Risk: {risk}
                                           </span>
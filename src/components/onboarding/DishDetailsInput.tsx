@@ -1,8 +1,13 @@
 import { useState, useEffect, useRef } from 'react';
-import { supabase, Database, WeightUnit, WEIGHT_UNITS } from '../../lib/supabase';
+import { supabase, Database, WeightUnit, WEIGHT_UNITS, NutritionSource } from '../../lib/supabase';
+import { saveMenuItem, findAddedAllergens, addedAllergensWarning } from '../../lib/menuItems';
+import { calculateDishNutrition } from '../../lib/nutrition';
 import { ScannedDish } from '../../pages/RestaurantOnboarding';
+import NutritionSourceNote from '../common/NutritionSourceNote';
+import AIUnavailableNotice from '../common/AIUnavailableNotice';
+import { describeAIFailure } from '../../lib/aiProvider';
 import { Check, Upload, X, ChevronRight, ChevronDown, Plus, Sparkles, Loader2, AlertTriangle, Edit3, Clock, Repeat, Trash2, Search } from 'lucide-react';
-import { suggestIngredientsForDish, detectAllergens, detectCrossContactRisks, estimateNutrition, NutritionEstimate, SuggestedIngredient, COMMON_ALLERGENS } from '../../lib/openai';
+import { suggestIngredientsForDish, detectAllergens, detectCrossContactRisks, NutritionEstimate, SuggestedIngredient, COMMON_ALLERGENS } from '../../lib/openai';
 
 // Helper to format relative time
 function formatTimeAgo(dateString: string): string {
@@ -61,6 +66,8 @@ interface CookingStepInput {
   is_modifiable: boolean;
   modifiable_allergens: string[];
   modification_notes: string;
+  // Kept as loaded; equipment is assigned in the menu item editor
+  equipment_ids: string[];
 }
 
 interface NutritionFields {
@@ -102,6 +109,9 @@ interface DishForm {
   photoUrl: string;
   cookingSteps: CookingStepInput[];
   nutrition: NutritionFields;
+  nutritionSource: NutritionSource | null;
+  unmatchedNutritionIngredients: string[];
+  nutritionAIUnavailable: boolean;
 }
 
 interface ConflictOption {
@@ -138,6 +148,8 @@ export default function DishDetailsInput({ restaurantId, dishes, onComplete }: D
   const [newIngredientAmountValue, setNewIngredientAmountValue] = useState<string>('');
   const [newIngredientAmountUnit, setNewIngredientAmountUnit] = useState<WeightUnit>('g');
   const [detectingAllergens, setDetectingAllergens] = useState(false);
+  // Set when an AI lookup failed and the owner has to fill the gap by hand
+  const [aiNotice, setAINotice] = useState<string | null>(null);
   const [editingAllergenIndex, setEditingAllergenIndex] = useState<number | null>(null);
   const allergenEditorRef = useRef<HTMLDivElement>(null);
   const [existingDishData, setExistingDishData] = useState<Record<string, ExistingDishData>>({});
@@ -162,7 +174,7 @@ export default function DishDetailsInput({ restaurantId, dishes, onComplete }: D
   const calorieDebounceRef = useRef<NodeJS.Timeout | null>(null);
 
   const currentDish = currentDishIndex !== null ? dishes[currentDishIndex] : null;
-  const DEFAULT_DISH_FORM: DishForm = { ingredients: [], preparation: '', photoFile: null, photoUrl: '', cookingSteps: [], nutrition: DEFAULT_NUTRITION_FIELDS };
+  const DEFAULT_DISH_FORM: DishForm = { ingredients: [], preparation: '', photoFile: null, photoUrl: '', cookingSteps: [], nutrition: DEFAULT_NUTRITION_FIELDS, nutritionSource: null, unmatchedNutritionIngredients: [], nutritionAIUnavailable: false };
   const currentForm = currentDish
     ? { ...DEFAULT_DISH_FORM, ...dishForms[currentDish.id] }
     : null;
@@ -228,15 +240,14 @@ export default function DishDetailsInput({ restaurantId, dishes, onComplete }: D
     calorieDebounceRef.current = setTimeout(async () => {
       setEstimatingCalories(true);
       try {
-        const estimated = await estimateNutrition(
+        const { nutrition: estimated, source, unmatchedIngredients, aiUnavailable } = await calculateDishNutrition(
           currentDish.name,
-          ingredients
-            .filter(ing => ing.amountValue && ing.amountValue > 0)
-            .map(ing => ({
-              name: ing.name,
-              amount: ing.amountValue,
-              unit: ing.amountUnit,
-            }))
+          // Ingredients without an amount count as unmatched, not as nothing
+          ingredients.map(ing => ({
+            name: ing.name,
+            amount: ing.amountValue,
+            unit: ing.amountUnit,
+          }))
         );
 
         setDishForms((prev) => ({
@@ -258,6 +269,9 @@ export default function DishDetailsInput({ restaurantId, dishes, onComplete }: D
               sodium_mg: estimated.sodium_mg?.toString() || '',
               cholesterol_mg: estimated.cholesterol_mg?.toString() || '',
             },
+            nutritionSource: source,
+            unmatchedNutritionIngredients: unmatchedIngredients,
+            nutritionAIUnavailable: aiUnavailable,
           },
         }));
       } catch (err) {
@@ -398,6 +412,7 @@ export default function DishDetailsInput({ restaurantId, dishes, onComplete }: D
             is_modifiable: boolean;
             modifiable_allergens: string[];
             modification_notes: string | null;
+            equipment_ids: string[];
           }) => ({
             id: cs.id,
             step_number: cs.step_number,
@@ -406,6 +421,7 @@ export default function DishDetailsInput({ restaurantId, dishes, onComplete }: D
             is_modifiable: cs.is_modifiable || false,
             modifiable_allergens: cs.modifiable_allergens || [],
             modification_notes: cs.modification_notes || '',
+            equipment_ids: cs.equipment_ids || [],
           }));
 
           existingData[matchingDish.id] = {
@@ -464,6 +480,7 @@ export default function DishDetailsInput({ restaurantId, dishes, onComplete }: D
       setSuggestedIngredients(suggestions);
     } catch (err) {
       console.error('Error loading suggestions:', err);
+      setAINotice(describeAIFailure(err, 'No ingredient suggestions could be loaded. Add the ingredients manually.'));
     } finally {
       setLoadingSuggestions(false);
     }
@@ -577,6 +594,17 @@ export default function DishDetailsInput({ restaurantId, dishes, onComplete }: D
     }
   };
 
+  // Re-detection for stored ingredients without allergens; a failure keeps them empty and tells the owner
+  const redetectAllergens = async (ingredientName: string): Promise<string[]> => {
+    try {
+      return await detectAllergens(ingredientName);
+    } catch (err) {
+      console.error('[DishDetailsInput] Re-detection failed:', err);
+      setAINotice(describeAIFailure(err, `Allergens for "${ingredientName}" were not detected. Select them manually.`));
+      return [];
+    }
+  };
+
   const handleAddSuggestedIngredient = async (suggestion: SuggestedIngredient) => {
     console.log('[handleAddSuggested] Suggestion:', suggestion.name, 'AI allergens:', suggestion.allergens, 'existingId:', suggestion.existingId);
     // If suggestion has an existing ID, use the allergens from our local state
@@ -603,7 +631,7 @@ export default function DishDetailsInput({ restaurantId, dishes, onComplete }: D
         } else if (allergens.length === 0) {
           // Both DB and suggestion have empty allergens — re-detect
           console.log('[handleAddSuggested] Both empty, re-detecting for:', suggestion.name);
-          const detected = await detectAllergens(suggestion.name);
+          const detected = await redetectAllergens(suggestion.name);
           if (detected.length > 0) {
             allergens = detected;
             await supabase
@@ -642,7 +670,7 @@ export default function DishDetailsInput({ restaurantId, dishes, onComplete }: D
           );
         } else if (existingAllergens.length === 0) {
           console.log('[handleAddSuggested] Both empty, re-detecting for:', existingByName.name);
-          const detected = await detectAllergens(existingByName.name);
+          const detected = await redetectAllergens(existingByName.name);
           if (detected.length > 0) {
             existingAllergens = detected;
             await supabase
@@ -723,6 +751,7 @@ export default function DishDetailsInput({ restaurantId, dishes, onComplete }: D
           }
         } catch (err) {
           console.error('[DishDetailsInput] Re-detection failed:', err);
+          setAINotice(describeAIFailure(err, `Allergens for "${existingIngredient.name}" were not detected. Select them manually.`));
         } finally {
           setDetectingAllergens(false);
         }
@@ -771,7 +800,8 @@ export default function DishDetailsInput({ restaurantId, dishes, onComplete }: D
       setNewIngredientAmountUnit('g');
     } catch (err) {
       console.error('Error detecting allergens:', err);
-      // Add without allergens if detection fails
+      setAINotice(describeAIFailure(err, `Allergens for "${trimmedName}" were not detected. Select them manually.`));
+      // Add without allergens; the owner is told to fill them in
       const amountVal = newIngredientAmountValue ? parseFloat(newIngredientAmountValue) : null;
       addIngredient({
         name: trimmedName,
@@ -895,6 +925,7 @@ export default function DishDetailsInput({ restaurantId, dishes, onComplete }: D
       });
     } catch (err) {
       console.error('Error detecting allergens for substitute:', err);
+      setAINotice(describeAIFailure(err, `Allergens for substitute "${trimmedName}" were not detected. Select them manually.`));
       addSubstituteToIngredient(ingredientIndex, {
         name: trimmedName,
         allergens: [],
@@ -923,6 +954,7 @@ export default function DishDetailsInput({ restaurantId, dishes, onComplete }: D
             is_modifiable: false,
             modifiable_allergens: [],
             modification_notes: '',
+            equipment_ids: [],
           },
         ],
       },
@@ -1003,6 +1035,7 @@ export default function DishDetailsInput({ restaurantId, dishes, onComplete }: D
       }
     } catch (err) {
       console.error('Error detecting cross-contact risks:', err);
+      setAINotice(describeAIFailure(err, `Cross-contact risks for step ${index + 1} were not checked. Add them manually.`));
     } finally {
       setDetectingCrossContact(null);
     }
@@ -1223,204 +1256,47 @@ export default function DishDetailsInput({ restaurantId, dishes, onComplete }: D
           .then(res => res.data);
       }
 
-      let menuItemId: string;
-
       if (existingItem) {
-        menuItemId = existingItem.id;
-
-        const { error: updateError } = await supabase
-          .from('menu_items')
-          .update({
-            name: currentDish.name,
-            description: currentDish.description,
-            preparation: form.preparation,
-            category: currentDish.category,
-            price: currentDish.price,
-            calories: form.nutrition.calories ? parseInt(form.nutrition.calories, 10) : null,
-            protein_g: form.nutrition.protein_g ? parseFloat(form.nutrition.protein_g) : null,
-            carbs_g: form.nutrition.carbs_g ? parseFloat(form.nutrition.carbs_g) : null,
-            carbs_fiber_g: form.nutrition.carbs_fiber_g ? parseFloat(form.nutrition.carbs_fiber_g) : null,
-            carbs_sugar_g: form.nutrition.carbs_sugar_g ? parseFloat(form.nutrition.carbs_sugar_g) : null,
-            carbs_added_sugar_g: form.nutrition.carbs_added_sugar_g ? parseFloat(form.nutrition.carbs_added_sugar_g) : null,
-            fat_g: form.nutrition.fat_g ? parseFloat(form.nutrition.fat_g) : null,
-            fat_saturated_g: form.nutrition.fat_saturated_g ? parseFloat(form.nutrition.fat_saturated_g) : null,
-            fat_trans_g: form.nutrition.fat_trans_g ? parseFloat(form.nutrition.fat_trans_g) : null,
-            fat_polyunsaturated_g: form.nutrition.fat_polyunsaturated_g ? parseFloat(form.nutrition.fat_polyunsaturated_g) : null,
-            fat_monounsaturated_g: form.nutrition.fat_monounsaturated_g ? parseFloat(form.nutrition.fat_monounsaturated_g) : null,
-            sodium_mg: form.nutrition.sodium_mg ? parseInt(form.nutrition.sodium_mg, 10) : null,
-            cholesterol_mg: form.nutrition.cholesterol_mg ? parseInt(form.nutrition.cholesterol_mg, 10) : null,
-            photo_url: photoUrl || undefined,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', menuItemId);
-
-        if (updateError) throw updateError;
-
-        await supabase
-          .from('menu_item_ingredients')
-          .delete()
-          .eq('menu_item_id', menuItemId);
-
-        await supabase
-          .from('cooking_steps')
-          .delete()
-          .eq('menu_item_id', menuItemId);
-      } else {
-        const { data: newItem, error: insertError } = await supabase
-          .from('menu_items')
-          .insert({
-            restaurant_id: restaurantId,
-            name: currentDish.name,
-            description: currentDish.description,
-            preparation: form.preparation,
-            category: currentDish.category,
-            price: currentDish.price,
-            calories: form.nutrition.calories ? parseInt(form.nutrition.calories, 10) : null,
-            protein_g: form.nutrition.protein_g ? parseFloat(form.nutrition.protein_g) : null,
-            carbs_g: form.nutrition.carbs_g ? parseFloat(form.nutrition.carbs_g) : null,
-            carbs_fiber_g: form.nutrition.carbs_fiber_g ? parseFloat(form.nutrition.carbs_fiber_g) : null,
-            carbs_sugar_g: form.nutrition.carbs_sugar_g ? parseFloat(form.nutrition.carbs_sugar_g) : null,
-            carbs_added_sugar_g: form.nutrition.carbs_added_sugar_g ? parseFloat(form.nutrition.carbs_added_sugar_g) : null,
-            fat_g: form.nutrition.fat_g ? parseFloat(form.nutrition.fat_g) : null,
-            fat_saturated_g: form.nutrition.fat_saturated_g ? parseFloat(form.nutrition.fat_saturated_g) : null,
-            fat_trans_g: form.nutrition.fat_trans_g ? parseFloat(form.nutrition.fat_trans_g) : null,
-            fat_polyunsaturated_g: form.nutrition.fat_polyunsaturated_g ? parseFloat(form.nutrition.fat_polyunsaturated_g) : null,
-            fat_monounsaturated_g: form.nutrition.fat_monounsaturated_g ? parseFloat(form.nutrition.fat_monounsaturated_g) : null,
-            sodium_mg: form.nutrition.sodium_mg ? parseInt(form.nutrition.sodium_mg, 10) : null,
-            cholesterol_mg: form.nutrition.cholesterol_mg ? parseInt(form.nutrition.cholesterol_mg, 10) : null,
-            photo_url: photoUrl,
-            modification_policy: 'Please inform your server of any dietary restrictions.',
-            is_active: true,
-          })
-          .select('id')
-          .single();
-
-        if (insertError) throw insertError;
-        menuItemId = newItem.id;
-      }
-
-      // Process ingredients
-      for (const ing of form.ingredients) {
-        let ingredientId = ing.ingredientId;
-
-        if (ing.isNew && !ingredientId) {
-          const { data: newIng, error: ingError } = await supabase
-            .from('ingredients')
-            .insert({
-              restaurant_id: restaurantId,
-              name: ing.name,
-              contains_allergens: ing.allergens,
-            })
-            .select('id')
-            .single();
-
-          if (ingError) {
-            if (ingError.code === '23505') {
-              const { data: existingIng } = await supabase
-                .from('ingredients')
-                .select('id')
-                .eq('restaurant_id', restaurantId)
-                .eq('name', ing.name)
-                .single();
-              ingredientId = existingIng?.id;
-            } else {
-              throw ingError;
-            }
-          } else {
-            ingredientId = newIng.id;
-            setExistingIngredients(prev => [...prev, {
-              id: newIng.id,
-              restaurant_id: restaurantId,
-              name: ing.name,
-              contains_allergens: ing.allergens,
-              created_at: new Date().toISOString(),
-            }]);
-          }
-        }
-
-        if (ingredientId) {
-          const { data: miiData } = await supabase.from('menu_item_ingredients').insert({
-            menu_item_id: menuItemId,
-            ingredient_id: ingredientId,
-            amount_value: ing.amountValue,
-            amount_unit: ing.amountUnit,
-            is_removable: ing.isRemovable,
-            is_substitutable: ing.isSubstitutable,
-          }).select('id').single();
-
-          if (miiData && ing.isSubstitutable && ing.substitutes.length > 0) {
-            for (const sub of ing.substitutes) {
-              let subIngredientId = sub.ingredientId;
-
-              if (sub.isNew && !subIngredientId) {
-                const { data: newSubIng, error: subIngError } = await supabase
-                  .from('ingredients')
-                  .insert({
-                    restaurant_id: restaurantId,
-                    name: sub.name,
-                    contains_allergens: sub.allergens,
-                  })
-                  .select('id')
-                  .single();
-
-                if (subIngError) {
-                  if (subIngError.code === '23505') {
-                    const { data: existingSubIng } = await supabase
-                      .from('ingredients')
-                      .select('id')
-                      .eq('restaurant_id', restaurantId)
-                      .eq('name', sub.name)
-                      .single();
-                    subIngredientId = existingSubIng?.id;
-                  }
-                } else {
-                  subIngredientId = newSubIng.id;
-                  setExistingIngredients(prev => [...prev, {
-                    id: newSubIng.id,
-                    restaurant_id: restaurantId,
-                    name: sub.name,
-                    contains_allergens: sub.allergens,
-                    created_at: new Date().toISOString(),
-                  }]);
-                }
-              }
-
-              if (subIngredientId) {
-                await supabase.from('ingredient_substitutes').insert({
-                  menu_item_ingredient_id: miiData.id,
-                  substitute_ingredient_id: subIngredientId,
-                });
-              }
-            }
-          }
-        }
+        const { added } = await findAddedAllergens(existingItem.id, {
+          item: {},
+          ingredients: form.ingredients,
+          steps: form.cookingSteps || [],
+        });
+        if (added.length > 0 && !confirm(addedAllergensWarning(currentDish.name, added))) return;
       }
 
-      // Save cooking steps
-      const cookingSteps = form.cookingSteps || [];
-      if (cookingSteps.length > 0) {
-        const stepsToInsert = cookingSteps
-          .filter((step) => step.description.trim())
-          .map((step) => ({
-            menu_item_id: menuItemId,
-            step_number: step.step_number,
-            description: step.description,
-            cross_contact_risk: step.cross_contact_risk,
-            is_modifiable: step.is_modifiable,
-            modifiable_allergens: step.modifiable_allergens,
-            modification_notes: step.modification_notes || null,
-          }));
+      const { error: saveError } = await saveMenuItem(restaurantId, existingItem?.id ?? null, {
+        item: {
+          name: currentDish.name,
+          description: currentDish.description,
+          preparation: form.preparation,
+          category: currentDish.category,
+          price: currentDish.price ? parseFloat(currentDish.price) : null,
+          calories: form.nutrition.calories ? parseInt(form.nutrition.calories, 10) : null,
+          protein_g: form.nutrition.protein_g ? parseFloat(form.nutrition.protein_g) : null,
+          carbs_g: form.nutrition.carbs_g ? parseFloat(form.nutrition.carbs_g) : null,
+          carbs_fiber_g: form.nutrition.carbs_fiber_g ? parseFloat(form.nutrition.carbs_fiber_g) : null,
+          carbs_sugar_g: form.nutrition.carbs_sugar_g ? parseFloat(form.nutrition.carbs_sugar_g) : null,
+          carbs_added_sugar_g: form.nutrition.carbs_added_sugar_g ? parseFloat(form.nutrition.carbs_added_sugar_g) : null,
+          fat_g: form.nutrition.fat_g ? parseFloat(form.nutrition.fat_g) : null,
+          fat_saturated_g: form.nutrition.fat_saturated_g ? parseFloat(form.nutrition.fat_saturated_g) : null,
+          fat_trans_g: form.nutrition.fat_trans_g ? parseFloat(form.nutrition.fat_trans_g) : null,
+          fat_polyunsaturated_g: form.nutrition.fat_polyunsaturated_g ? parseFloat(form.nutrition.fat_polyunsaturated_g) : null,
+          fat_monounsaturated_g: form.nutrition.fat_monounsaturated_g ? parseFloat(form.nutrition.fat_monounsaturated_g) : null,
+          sodium_mg: form.nutrition.sodium_mg ? parseInt(form.nutrition.sodium_mg, 10) : null,
+          cholesterol_mg: form.nutrition.cholesterol_mg ? parseInt(form.nutrition.cholesterol_mg, 10) : null,
+          nutrition_source: form.nutritionSource,
+          // Omitted on update when no new photo was uploaded, so the stored one is kept
+          ...(photoUrl ? { photo_url: photoUrl } : {}),
+        },
+        ingredients: form.ingredients,
+        steps: form.cookingSteps || [],
+      });
 
-        if (stepsToInsert.length > 0) {
-          const { error: stepError } = await supabase
-            .from('cooking_steps')
-            .insert(stepsToInsert);
+      if (saveError) throw new Error(saveError);
 
-          if (stepError) {
-            console.error('Error saving cooking steps:', stepError);
-          }
-        }
-      }
+      // Pick up ingredients the save created
+      await loadExistingIngredients();
 
       setCompletedDishes((prev) => new Set([...prev, currentDish.id]));
       setCurrentDishIndex(null);
@@ -1693,6 +1569,12 @@ export default function DishDetailsInput({ restaurantId, dishes, onComplete }: D
             </p>
           </div>
 
+          {aiNotice && (
+            <div className="sticky top-4 z-20 mb-6">
+              <AIUnavailableNotice message={aiNotice} onDismiss={() => setAINotice(null)} />
+            </div>
+          )}
+
           {/* Nutrition Information */}
           <div className="mb-6 bg-slate-50 rounded-xl border border-slate-200 p-4">
             <div className="flex items-center justify-between mb-3">
@@ -1700,13 +1582,15 @@ export default function DishDetailsInput({ restaurantId, dishes, onComplete }: D
               {estimatingCalories && (
                 <span className="text-xs text-amber-600 flex items-center gap-1">
                   <Loader2 className="w-3 h-3 animate-spin" />
-                  Estimating from ingredients...
+                  Calculating from ingredients...
                 </span>
               )}
             </div>
-            <p className="text-xs text-slate-500 mb-4">
-              AI estimates nutrition based on ingredients. You can adjust any values manually.
-            </p>
+            <NutritionSourceNote
+              source={currentForm?.nutritionSource ?? null}
+              unmatchedIngredients={currentForm?.unmatchedNutritionIngredients}
+              aiUnavailable={currentForm?.nutritionAIUnavailable}
+            />
 
             {/* Main Macros Row */}
             <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4">
@@ -1,32 +1,17 @@
 import { useEffect, useState } from 'react';
-import { supabase, Database, WeightUnit, formatAmount } from '../../lib/supabase';
+import { supabase, Database, formatAmount } from '../../lib/supabase';
 import { CheckCircle2, Copy, Check, ArrowLeft, AlertTriangle, Loader2, Plus, X, ChevronDown, ChevronUp, Repeat, Trash2 } from 'lucide-react';
 import { analyzeMenuItemAllergens, MenuItemAllergenAnalysis, COMMON_ALLERGENS } from '../../lib/openai';
+import { describeAIFailure } from '../../lib/aiProvider';
+import { loadMenuGraph, MenuGraphItem } from '../../lib/menuGraph';
 
-type MenuItem = Database['public']['Tables']['menu_items']['Row'];
-type Ingredient = Database['public']['Tables']['ingredients']['Row'];
 type Restaurant = Database['public']['Tables']['restaurants']['Row'];
 type CookingStep = Database['public']['Tables']['cooking_steps']['Row'];
 
-interface SubstituteIngredient {
-  id: string;
-  name: string;
-  allergens: string[];
-}
-
-interface IngredientWithAmount extends Ingredient {
-  amount_value: number | null;
-  amount_unit: WeightUnit | null;
-  is_removable: boolean;
-  is_substitutable: boolean;
-  substitutes: SubstituteIngredient[];
-}
-
-interface MenuItemWithIngredients extends MenuItem {
-  ingredients: IngredientWithAmount[];
-  cookingSteps: CookingStep[];
+interface MenuItemWithIngredients extends MenuGraphItem {
   allergenAnalysis?: MenuItemAllergenAnalysis;
-  photo_url?: string | null;
+  // Set when the preparation could not be analyzed; allergenAnalysis then only has ingredient allergens
+  allergenAnalysisError?: string;
 }
 
 interface FinalReviewProps {
@@ -74,84 +59,37 @@ export default function FinalReview({ restaurantId, onBack, onComplete }: FinalR
         setRestaurant(restaurantData);
       }
 
-      // Load menu items
-      const { data: items } = await supabase
-        .from('menu_items')
-        .select('*')
-        .eq('restaurant_id', restaurantId);
+      const { items, error: menuError } = await loadMenuGraph(restaurantId);
 
-      if (items) {
-        // Load ingredients for each item via junction table
-        const itemsWithIngredients = await Promise.all(
-          items.map(async (item) => {
-            // Get menu_item_ingredients with ingredient details
-            const { data: menuItemIngredients } = await supabase
-              .from('menu_item_ingredients')
-              .select('*, ingredient:ingredients(*)')
-              .eq('menu_item_id', item.id);
-
-            // Get all menu_item_ingredient IDs to fetch substitutes
-            const miiIds = (menuItemIngredients || []).map((mii: { id: string }) => mii.id);
-
-            // Fetch substitutes for all menu_item_ingredients
-            const { data: substitutesData } = miiIds.length > 0 ? await supabase
-              .from('ingredient_substitutes')
-              .select('*, substitute:ingredients(*)')
-              .in('menu_item_ingredient_id', miiIds) : { data: [] };
-
-            const ingredients: IngredientWithAmount[] = (menuItemIngredients || []).map((mii: { id: string; amount_value: number | null; amount_unit: WeightUnit | null; is_removable?: boolean; is_substitutable?: boolean; ingredient: Ingredient }) => {
-              // Find substitutes for this menu_item_ingredient
-              const subs = (substitutesData || [])
-                .filter((s: { menu_item_ingredient_id: string }) => s.menu_item_ingredient_id === mii.id)
-                .map((s: { substitute_ingredient_id: string; substitute?: { name?: string; contains_allergens?: string[] } }) => ({
-                  id: s.substitute_ingredient_id,
-                  name: s.substitute?.name || '',
-                  allergens: s.substitute?.contains_allergens || [],
-                }));
+      if (menuError) throw new Error(menuError);
 
-              return {
-                ...mii.ingredient,
-                amount_value: mii.amount_value,
-                amount_unit: mii.amount_unit,
-                is_removable: mii.is_removable || false,
-                is_substitutable: mii.is_substitutable || false,
-                substitutes: subs,
-              };
-            });
-
-            // Load cooking steps
-            const { data: cookingStepsData } = await supabase
-              .from('cooking_steps')
-              .select('*')
-              .eq('menu_item_id', item.id)
-              .order('step_number');
-
-            return {
-              ...item,
-              ingredients,
-              cookingSteps: cookingStepsData || [],
-            };
-          })
-        );
-
-        setMenuItems(itemsWithIngredients);
+      if (items.length > 0) {
+        setMenuItems(items);
 
         // Analyze allergens for each item (including preparation)
         setAnalyzingAllergens(true);
         const itemsWithAllergenAnalysis = await Promise.all(
-          itemsWithIngredients.map(async (item) => {
-            const analysis = await analyzeMenuItemAllergens(
-              item.name,
-              item.ingredients.map((ing: IngredientWithAmount) => ({
-                name: ing.name,
-                allergens: ing.contains_allergens,
-              })),
-              item.preparation || ''
-            );
-            return {
-              ...item,
-              allergenAnalysis: analysis,
-            };
+          items.map(async (item) => {
+            const ingredients = item.ingredients.map((ing) => ({
+              name: ing.name,
+              allergens: ing.contains_allergens,
+            }));
+            try {
+              const analysis = await analyzeMenuItemAllergens(item.name, ingredients, item.preparation || '');
+              return {
+                ...item,
+                allergenAnalysis: analysis,
+              };
+            } catch (err) {
+              console.error('Error analyzing allergens for', item.name, err);
+              // Ingredient allergens need no AI; only the preparation check is missing
+              const directAllergens = await analyzeMenuItemAllergens(item.name, ingredients, '');
+              return {
+                ...item,
+                allergenAnalysis: directAllergens,
+                allergenAnalysisError: describeAIFailure(err, 'Cross-contamination from the preparation was not checked. Add any risks manually.'),
+              };
+            }
           })
         );
         setMenuItems(itemsWithAllergenAnalysis);
@@ -349,7 +287,7 @@ export default function FinalReview({ restaurantId, onBack, onComplete }: FinalR
               const analysis = item.allergenAnalysis;
               const hasDirectAllergens = analysis && analysis.directAllergens.length > 0;
               const hasCrossContamination = analysis && analysis.crossContaminationRisks.length > 0;
-              const isAllergenFree = analysis && analysis.allAllergens.length === 0;
+              const isAllergenFree = analysis && !item.allergenAnalysisError && analysis.allAllergens.length === 0;
               const isExpanded = expandedItems.has(item.id);
 
               return (
@@ -529,6 +467,13 @@ export default function FinalReview({ restaurantId, onBack, onComplete }: FinalR
                       </button>
                     </div>
 
+                    {item.allergenAnalysisError && (
+                      <div className="mb-2 flex items-start gap-2 p-2 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800">
+                        <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                        <span>{item.allergenAnalysisError}</span>
+                      </div>
+                    )}
+
                     <div className="flex flex-wrap gap-2">
                       {isAllergenFree && (
                         <span className="inline-flex items-center gap-1 px-3 py-1 bg-green-100 text-green-800 text-xs font-medium rounded-full">
@@ -0,0 +1,40 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { Language, MessageKey, detectLanguage, storeLanguage, translate } from '../lib/i18n';
+
+interface LanguageContextType {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  t: (key: MessageKey, params?: Record<string, string | number>) => string;
+}
+
+const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
+
+export function LanguageProvider({ children }: { children: ReactNode }) {
+  const [language, setLanguageState] = useState<Language>(detectLanguage);
+
+  // Screen readers pick their pronunciation from <html lang>
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const setLanguage = (next: Language) => {
+    setLanguageState(next);
+    storeLanguage(next);
+  };
+
+  const t = (key: MessageKey, params?: Record<string, string | number>) => translate(language, key, params);
+
+  return (
+    <LanguageContext.Provider value={{ language, setLanguage, t }}>
+      {children}
+    </LanguageContext.Provider>
+  );
+}
+
+export function useLanguage() {
+  const context = useContext(LanguageContext);
+  if (context === undefined) {
+    throw new Error('useLanguage must be used within a LanguageProvider');
+  }
+  return context;
+}
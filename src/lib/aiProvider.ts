@@ -0,0 +1,190 @@
+import { supabase } from './supabase';
+import { AITaskResult, validateAIResult } from './aiSchemas';
+
+// The AI features (menu scanning, allergen detection, nutrition, dietary analysis) go
+// through this interface: the ai-proxy edge function in production, fixtures for
+// offline development.
+
+// Keep in sync with AI_TASKS in supabase/functions/ai-proxy/prompts.ts
+export type AITask =
+  | 'menu-scan'
+  | 'menu-photo'
+  | 'ingredient-allergens'
+  | 'ingredient-list-allergens'
+  | 'ingredient-suggestions'
+  | 'menu-item-allergens'
+  | 'cross-contact'
+  | 'description-allergens'
+  | 'nutrition'
+  | 'dietary-menu';
+
+export type AIProviderName = 'proxy' | 'mock';
+
+export interface AIRequest {
+  task: AITask;
+  // Task inputs; the ai-proxy edge function turns them into the prompt
+  input: Record<string, unknown>;
+  // What the mock provider looks its fixture up by (ingredient name, dish name, ...)
+  fixtureKey?: string;
+}
+
+export interface AIProvider {
+  name: AIProviderName;
+  // Resolves with the task's result, already checked against the task's response schema
+  run<T>(request: AIRequest): Promise<T>;
+}
+
+export class AIProviderError extends Error {
+  // HTTP status of the failed call, null for fixture errors
+  status: number | null;
+
+  constructor(message: string, status: number | null) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.status = status;
+  }
+}
+
+/**
+ * Thrown by runAITask whenever no trustworthy result is available: the proxy failed,
+ * the quota ran out or the reply did not validate. Callers show this instead of
+ * falling back to an empty (and falsely reassuring) result.
+ */
+export class AIUnavailableError extends Error {
+  // Why the call failed, worded for owners
+  reason: string;
+  status: number | null;
+
+  constructor(reason: string, status: number | null = null) {
+    super(reason ? `AI unavailable: ${reason}` : 'AI unavailable');
+    this.name = 'AIUnavailableError';
+    this.reason = reason;
+    this.status = status;
+  }
+}
+
+/**
+ * Calls the ai-proxy edge function, which owns the prompts and the vendor key and
+ * enforces per-restaurant rate limits and quotas.
+ */
+export function createProxyProvider(): AIProvider {
+  return {
+    name: 'proxy',
+    async run<T>(request: AIRequest) {
+      const { data, error } = await supabase.functions.invoke('ai-proxy', {
+        body: { task: request.task, input: request.input },
+      });
+
+      if (error) {
+        // Non-2xx responses carry the proxy's { error } body on the raw response
+        const response: Response | undefined = error.context instanceof Response ? error.context : undefined;
+        const body = response ? await response.json().catch(() => ({})) : {};
+        throw new AIProviderError(body.error || error.message, response?.status ?? null);
+      }
+
+      return data.result as T;
+    },
+  };
+}
+
+/**
+ * Canned replies for one task. `responses` is keyed by the lowercased fixtureKey; a key
+ * contained in the request's fixtureKey also matches ("parmesan" for "grated parmesan").
+ * Values are the task result exactly as the proxy would return it.
+ */
+export interface AIFixtureFile {
+  default: unknown;
+  responses?: Record<string, unknown>;
+}
+
+export type AIFixtures = Partial<Record<AITask, AIFixtureFile>>;
+
+// One file per task in ./aiFixtures, loaded on first use so they stay out of the main bundle
+const fixtureModules = import.meta.glob<AIFixtureFile>('./aiFixtures/*.json', { import: 'default' });
+
+async function loadFixtureFile(task: AITask): Promise<AIFixtureFile | undefined> {
+  const load = fixtureModules[`./aiFixtures/${task}.json`];
+  return load ? load() : undefined;
+}
+
+function pickFixtureResponse(fixture: AIFixtureFile, fixtureKey?: string): unknown {
+  const responses = fixture.responses || {};
+  const key = fixtureKey?.toLowerCase().trim();
+  if (!key) return fixture.default;
+  if (key in responses) return responses[key];
+
+  let best: string | null = null;
+  for (const candidate of Object.keys(responses)) {
+    if (key.includes(candidate) && (!best || candidate.length > best.length)) {
+      best = candidate;
+    }
+  }
+  return best ? responses[best] : fixture.default;
+}
+
+/**
+ * Deterministic provider for offline development and tests. Replies come from the
+ * fixtures passed in, falling back to the JSON files in ./aiFixtures.
+ */
+export function createMockProvider(fixtures: AIFixtures = {}): AIProvider {
+  return {
+    name: 'mock',
+    async run<T>(request: AIRequest) {
+      const fixture = fixtures[request.task] ?? await loadFixtureFile(request.task);
+      if (!fixture) {
+        throw new AIProviderError(`No AI fixture for task "${request.task}"`, null);
+      }
+
+      // Copy so callers can't mutate the shared fixture
+      return JSON.parse(JSON.stringify(pickFixtureResponse(fixture, request.fixtureKey))) as T;
+    },
+  };
+}
+
+let aiProvider: AIProvider = import.meta.env.VITE_AI_PROVIDER === 'mock'
+  ? createMockProvider()
+  : createProxyProvider();
+
+export function getAIProvider(): AIProvider {
+  return aiProvider;
+}
+
+export function setAIProvider(provider: AIProvider): void {
+  aiProvider = provider;
+}
+
+/**
+ * Run a task on the current provider and check the result against the task's schema.
+ * Every failure comes back as an AIUnavailableError.
+ */
+export async function runAITask<K extends AITask>(
+  task: K,
+  input: Record<string, unknown>,
+  fixtureKey?: string
+): Promise<AITaskResult[K]> {
+  let result: unknown;
+  try {
+    result = await aiProvider.run<unknown>({ task, input, fixtureKey });
+  } catch (error) {
+    if (error instanceof AIProviderError) {
+      throw new AIUnavailableError(error.message, error.status);
+    }
+    throw new AIUnavailableError(error instanceof Error ? error.message : String(error));
+  }
+
+  try {
+    return validateAIResult(task, result);
+  } catch (error) {
+    console.error(`[runAITask] Invalid "${task}" result:`, error);
+    throw new AIUnavailableError('the response was not in the expected format');
+  }
+}
+
+/**
+ * Owner-facing text for a failed AI call: "AI unavailable (reason). <consequence>".
+ * Errors other than AIUnavailableError are described generically.
+ */
+export function describeAIFailure(error: unknown, consequence: string): string {
+  const reason = error instanceof AIUnavailableError && error.reason ? ` (${error.reason})` : '';
+  return `AI unavailable${reason}. ${consequence}`;
+}
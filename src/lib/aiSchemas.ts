@@ -0,0 +1,158 @@
+import type { AITask } from './aiProvider';
+import type { CrossContactAnalysis, DetectedMenuItem, NutritionEstimate } from './openai';
+import { ALLERGEN_TAGS } from './allergenOntology';
+
+/**
+ * Runtime checks for every AI result. The ai-proxy validates model output before it
+ * answers, but results are checked again here so fixtures, an outdated proxy or a
+ * malformed reply can never reach the UI as an empty "no allergens" result.
+ */
+
+export class AIValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AIValidationError';
+  }
+}
+
+export type Schema<T> = (value: unknown, path: string) => T;
+
+const string: Schema<string> = (value, path) => {
+  if (typeof value !== 'string') throw new AIValidationError(`${path} must be a string`);
+  return value;
+};
+
+const number: Schema<number> = (value, path) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new AIValidationError(`${path} must be a number`);
+  return value;
+};
+
+const boolean: Schema<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') throw new AIValidationError(`${path} must be a boolean`);
+  return value;
+};
+
+// Prices come back as "12.99" or 12.99 depending on the model
+const stringOrNumber: Schema<string> = (value, path) =>
+  typeof value === 'number' ? String(value) : string(value, path);
+
+// Missing or null values take the fallback
+function withDefault<T>(schema: Schema<T>, fallback: T): Schema<T> {
+  return (value, path) => (value === undefined || value === null ? fallback : schema(value, path));
+}
+
+function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return withDefault<T | undefined>(schema, undefined);
+}
+
+function array<T>(schema: Schema<T>): Schema<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) throw new AIValidationError(`${path} must be an array`);
+    return value.map((item, index) => schema(item, `${path}[${index}]`));
+  };
+}
+
+// Unknown keys are dropped
+function object<T extends object>(shape: { [K in keyof T]: Schema<T[K]> }): Schema<T> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new AIValidationError(`${path} must be an object`);
+    }
+    const record = value as Record<string, unknown>;
+    const result: Partial<T> = {};
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      result[key] = shape[key](record[key], `${path}.${key}`);
+    }
+    return result as T;
+  };
+}
+
+// Categories outside the ontology ("Shrimp", "Dairy") are dropped rather than failing the result
+const allergenList: Schema<string[]> = (value, path) =>
+  array(string)(value, path).filter(allergen => (ALLERGEN_TAGS as readonly string[]).includes(allergen));
+
+const nutrient = withDefault<number | null>(number, null);
+
+const nutritionSchema: Schema<NutritionEstimate> = object({
+  calories: nutrient,
+  protein_g: nutrient,
+  carbs_g: nutrient,
+  carbs_fiber_g: nutrient,
+  carbs_sugar_g: nutrient,
+  carbs_added_sugar_g: nutrient,
+  fat_g: nutrient,
+  fat_saturated_g: nutrient,
+  fat_trans_g: nutrient,
+  fat_polyunsaturated_g: nutrient,
+  fat_monounsaturated_g: nutrient,
+  sodium_mg: nutrient,
+  cholesterol_mg: nutrient,
+});
+
+const crossContactSchema: Schema<CrossContactAnalysis> = object({
+  cross_contact_risks: allergenList,
+  modifiable_allergens: allergenList,
+  modification_notes: withDefault(string, ''),
+});
+
+// Positions fall back to a small box in the top-left rather than a grid pattern
+const detectedMenuItemSchema: Schema<DetectedMenuItem> = object({
+  name: string,
+  boundingBox: withDefault(object({
+    x: withDefault(number, 5),
+    y: withDefault(number, 5),
+    width: withDefault(number, 30),
+    height: withDefault(number, 4),
+  }), { x: 5, y: 5, width: 30, height: 4 }),
+  confidence: withDefault(number, 70),
+  price: optional(stringOrNumber),
+});
+
+export const AI_RESULT_SCHEMAS = {
+  'menu-scan': array(object({
+    name: string,
+    category: optional(string),
+    price: optional(stringOrNumber),
+    description: optional(string),
+  })),
+  'menu-photo': object({
+    items: array(detectedMenuItemSchema),
+  }),
+  'ingredient-allergens': allergenList,
+  'ingredient-list-allergens': array(object({
+    name: string,
+    allergens: allergenList,
+  })),
+  'ingredient-suggestions': array(object({
+    name: string,
+    allergens: optional(allergenList),
+    confidence: optional(number),
+    isExisting: optional(boolean),
+  })),
+  'menu-item-allergens': object({
+    crossContaminationRisks: array(object({ allergen: string, reason: string })),
+    warnings: withDefault(array(string), []),
+    safetyNotes: withDefault(array(string), []),
+  }),
+  'cross-contact': crossContactSchema,
+  'description-allergens': allergenList,
+  'nutrition': nutritionSchema,
+  'dietary-menu': object({
+    dishes: array(object({
+      id: string,
+      name: withDefault(string, ''),
+      safe: boolean,
+      requiresModification: withDefault(boolean, false),
+      modifications: withDefault(array(string), []),
+      reason: optional(string),
+    })),
+  }),
+} satisfies Record<AITask, Schema<unknown>>;
+
+export type AITaskResult = {
+  [K in AITask]: ReturnType<typeof AI_RESULT_SCHEMAS[K]>;
+};
+
+export function validateAIResult<K extends AITask>(task: K, value: unknown): AITaskResult[K] {
+  return AI_RESULT_SCHEMAS[task](value, task) as AITaskResult[K];
+}
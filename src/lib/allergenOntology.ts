@@ -0,0 +1,289 @@
+// Canonical allergen ontology shared by every safety check (customer menu,
+// allergen matrix, accessibility dashboard and AI tag validation).
+
+import { MatchConfidence, matchTerm, strongerMatch } from './termMatcher';
+
+export type AllergenId =
+  | 'milk'
+  | 'eggs'
+  | 'fish'
+  | 'shellfish'
+  | 'shrimp'
+  | 'crab'
+  | 'lobster'
+  | 'crayfish'
+  | 'langoustine'
+  | 'mollusks'
+  | 'clam'
+  | 'mussel'
+  | 'oyster'
+  | 'scallop'
+  | 'squid'
+  | 'octopus'
+  | 'snail'
+  | 'tree_nuts'
+  | 'almond'
+  | 'cashew'
+  | 'walnut'
+  | 'pecan'
+  | 'pistachio'
+  | 'macadamia'
+  | 'hazelnut'
+  | 'brazil_nut'
+  | 'pine_nut'
+  | 'chestnut'
+  | 'peanuts'
+  | 'gluten'
+  | 'wheat'
+  | 'barley'
+  | 'rye'
+  | 'oats'
+  | 'soy'
+  | 'sesame'
+  | 'mustard'
+  | 'celery'
+  | 'lupin'
+  | 'sulfites'
+  | 'onion'
+  | 'garlic';
+
+export type AllergenRegion = 'US' | 'EU' | 'UK' | 'AU';
+
+// Allergen tags stored in ingredients.contains_allergens, cooking_steps.cross_contact_risk
+// and menu_items.description_allergens (FDA Big 9 + EU allergens)
+export const ALLERGEN_TAGS = [
+  'Milk',
+  'Eggs',
+  'Fish',
+  'Shellfish',
+  'Tree Nuts',
+  'Peanuts',
+  'Wheat',
+  'Soy',
+  'Sesame',
+  'Gluten',
+  'Mustard',
+  'Celery',
+  'Lupin',
+  'Mollusks',
+  'Sulfites',
+  'Onion',
+  'Garlic',
+] as const;
+
+export type AllergenTag = typeof ALLERGEN_TAGS[number];
+
+export interface AllergenNode {
+  id: AllergenId;
+  label: string;
+  // Set when this node is one of the stored ALLERGEN_TAGS
+  tag?: AllergenTag;
+  parent?: AllergenId;
+  // Terms that identify this allergen anywhere inside free text (ingredient names, risks)
+  synonyms: string[];
+  // Terms too generic to search for inside text, only matched as a whole term (e.g. "nut")
+  aliases?: string[];
+  regionalLabels?: Partial<Record<AllergenRegion, string>>;
+}
+
+const NODES: AllergenNode[] = [
+  { id: 'milk', label: 'Milk', tag: 'Milk', synonyms: ['milk', 'dairy', 'lactose', 'cream', 'butter', 'cheese', 'yogurt', 'yoghurt', 'whey', 'casein', 'ghee'] },
+  { id: 'eggs', label: 'Eggs', tag: 'Eggs', synonyms: ['egg', 'mayonnaise', 'mayo', 'aioli', 'meringue', 'custard'] },
+  { id: 'fish', label: 'Fish', tag: 'Fish', synonyms: ['fish', 'salmon', 'tuna', 'cod', 'halibut', 'anchovy', 'anchovies', 'sardine', 'mackerel', 'bass', 'trout', 'tilapia', 'swordfish', 'mahi'] },
+
+  // Crustaceans. Kept apart from mollusks, as on EU/UK labels.
+  {
+    id: 'shellfish', label: 'Shellfish', tag: 'Shellfish', synonyms: ['shellfish', 'crustacean'],
+    regionalLabels: { EU: 'Crustaceans', UK: 'Crustaceans', AU: 'Crustacea' },
+  },
+  { id: 'shrimp', label: 'Shrimp', parent: 'shellfish', synonyms: ['shrimp', 'prawn'] },
+  { id: 'crab', label: 'Crab', parent: 'shellfish', synonyms: ['crab'] },
+  { id: 'lobster', label: 'Lobster', parent: 'shellfish', synonyms: ['lobster'] },
+  { id: 'crayfish', label: 'Crayfish', parent: 'shellfish', synonyms: ['crayfish', 'crawfish'] },
+  { id: 'langoustine', label: 'Langoustine', parent: 'shellfish', synonyms: ['langoustine'] },
+
+  {
+    id: 'mollusks', label: 'Mollusks', tag: 'Mollusks', synonyms: ['mollusk', 'mollusc'],
+    regionalLabels: { EU: 'Molluscs', UK: 'Molluscs', AU: 'Molluscs' },
+  },
+  { id: 'clam', label: 'Clam', parent: 'mollusks', synonyms: ['clam'] },
+  { id: 'mussel', label: 'Mussel', parent: 'mollusks', synonyms: ['mussel'] },
+  { id: 'oyster', label: 'Oyster', parent: 'mollusks', synonyms: ['oyster'] },
+  { id: 'scallop', label: 'Scallop', parent: 'mollusks', synonyms: ['scallop'] },
+  { id: 'squid', label: 'Squid', parent: 'mollusks', synonyms: ['squid', 'calamari'] },
+  { id: 'octopus', label: 'Octopus', parent: 'mollusks', synonyms: ['octopus'] },
+  { id: 'snail', label: 'Snail', parent: 'mollusks', synonyms: ['snail', 'escargot'] },
+
+  {
+    id: 'tree_nuts', label: 'Tree Nuts', tag: 'Tree Nuts', synonyms: ['tree nut'], aliases: ['nut', 'nuts'],
+    regionalLabels: { EU: 'Nuts', UK: 'Nuts' },
+  },
+  { id: 'almond', label: 'Almond', parent: 'tree_nuts', synonyms: ['almond', 'marzipan'] },
+  { id: 'cashew', label: 'Cashew', parent: 'tree_nuts', synonyms: ['cashew'] },
+  { id: 'walnut', label: 'Walnut', parent: 'tree_nuts', synonyms: ['walnut'] },
+  { id: 'pecan', label: 'Pecan', parent: 'tree_nuts', synonyms: ['pecan'] },
+  { id: 'pistachio', label: 'Pistachio', parent: 'tree_nuts', synonyms: ['pistachio'] },
+  { id: 'macadamia', label: 'Macadamia', parent: 'tree_nuts', synonyms: ['macadamia'] },
+  { id: 'hazelnut', label: 'Hazelnut', parent: 'tree_nuts', synonyms: ['hazelnut', 'filbert', 'praline'] },
+  { id: 'brazil_nut', label: 'Brazil Nut', parent: 'tree_nuts', synonyms: ['brazil nut'] },
+  { id: 'pine_nut', label: 'Pine Nut', parent: 'tree_nuts', synonyms: ['pine nut', 'pesto'] },
+  { id: 'chestnut', label: 'Chestnut', parent: 'tree_nuts', synonyms: ['chestnut'] },
+
+  { id: 'peanuts', label: 'Peanuts', tag: 'Peanuts', synonyms: ['peanut', 'groundnut', 'satay'] },
+
+  {
+    id: 'gluten', label: 'Gluten', tag: 'Gluten', synonyms: ['gluten', 'seitan', 'malt'],
+    regionalLabels: { EU: 'Cereals containing gluten', UK: 'Cereals containing gluten' },
+  },
+  { id: 'wheat', label: 'Wheat', tag: 'Wheat', parent: 'gluten', synonyms: ['wheat', 'semolina', 'durum', 'spelt', 'farina', 'couscous', 'bulgur'] },
+  { id: 'barley', label: 'Barley', parent: 'gluten', synonyms: ['barley'] },
+  { id: 'rye', label: 'Rye', parent: 'gluten', synonyms: ['rye'] },
+  { id: 'oats', label: 'Oats', parent: 'gluten', synonyms: ['oat'] },
+
+  {
+    id: 'soy', label: 'Soy', tag: 'Soy', synonyms: ['soy', 'soya', 'tofu', 'edamame', 'tempeh', 'miso'],
+    regionalLabels: { EU: 'Soya', UK: 'Soya', AU: 'Soy' },
+  },
+  { id: 'sesame', label: 'Sesame', tag: 'Sesame', synonyms: ['sesame', 'tahini', 'hummus', 'halvah'] },
+  { id: 'mustard', label: 'Mustard', tag: 'Mustard', synonyms: ['mustard'] },
+  { id: 'celery', label: 'Celery', tag: 'Celery', synonyms: ['celery', 'celeriac'] },
+  { id: 'lupin', label: 'Lupin', tag: 'Lupin', synonyms: ['lupin'] },
+  {
+    id: 'sulfites', label: 'Sulfites', tag: 'Sulfites', synonyms: ['sulfite', 'sulphite', 'sulfur dioxide', 'sulphur dioxide'],
+    regionalLabels: { EU: 'Sulphur dioxide and sulphites', UK: 'Sulphur dioxide and sulphites', AU: 'Sulphites' },
+  },
+  { id: 'onion', label: 'Onion', tag: 'Onion', synonyms: ['onion', 'shallot', 'scallion', 'leek', 'chive'] },
+  { id: 'garlic', label: 'Garlic', tag: 'Garlic', synonyms: ['garlic'] },
+];
+
+export const ALLERGEN_ONTOLOGY: Record<AllergenId, AllergenNode> = Object.fromEntries(
+  NODES.map(node => [node.id, node])
+) as Record<AllergenId, AllergenNode>;
+
+export function normalizeAllergenTerm(term: string): string {
+  return term.toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+// Whole-term lookup table: id, label, synonyms, aliases and regional labels
+const TERM_INDEX = new Map<string, AllergenId>();
+for (const node of NODES) {
+  const terms = [
+    node.id,
+    node.label,
+    ...node.synonyms,
+    ...(node.aliases || []),
+    ...Object.values(node.regionalLabels || {}),
+  ];
+  for (const term of terms) {
+    const normalized = normalizeAllergenTerm(term);
+    if (!TERM_INDEX.has(normalized)) TERM_INDEX.set(normalized, node.id);
+  }
+}
+
+function singularize(term: string): string {
+  if (term.endsWith('ies')) return `${term.slice(0, -3)}y`;
+  if (term.endsWith('es') && /(sh|ch|s|x|z)es$/.test(term)) return term.slice(0, -2);
+  if (term.endsWith('s') && !term.endsWith('ss')) return term.slice(0, -1);
+  return term;
+}
+
+/**
+ * Resolve a whole term ("cashews", "Dairy", "Crustaceans") to its canonical allergen ID.
+ */
+export function resolveAllergen(term: string): AllergenId | null {
+  const normalized = normalizeAllergenTerm(term);
+  if (!normalized) return null;
+  return TERM_INDEX.get(normalized) ?? TERM_INDEX.get(singularize(normalized)) ?? null;
+}
+
+export interface AllergenMatch {
+  id: AllergenId;
+  confidence: MatchConfidence;
+}
+
+/**
+ * Identify every allergen mentioned in a piece of text (ingredient name, allergen tag,
+ * cross-contact risk), with how surely each is meant. Whole-term matches win; otherwise
+ * synonyms are searched word by word, skipping known false friends like "eggplant".
+ */
+export function findAllergenMatches(text: string): AllergenMatch[] {
+  const exact = resolveAllergen(text);
+  if (exact) return [{ id: exact, confidence: 'high' }];
+
+  const matches: AllergenMatch[] = [];
+  for (const node of NODES) {
+    const confidence = node.synonyms.reduce<MatchConfidence | null>(
+      (best, synonym) => strongerMatch(best, matchTerm(text, synonym)),
+      null
+    );
+    if (confidence) matches.push({ id: node.id, confidence });
+  }
+  return matches;
+}
+
+export function findAllergens(text: string): AllergenId[] {
+  return findAllergenMatches(text).map(match => match.id);
+}
+
+export function getAncestors(id: AllergenId): AllergenId[] {
+  const ancestors: AllergenId[] = [];
+  let parent = ALLERGEN_ONTOLOGY[id].parent;
+  while (parent) {
+    ancestors.push(parent);
+    parent = ALLERGEN_ONTOLOGY[parent].parent;
+  }
+  return ancestors;
+}
+
+export function getDescendants(id: AllergenId): AllergenId[] {
+  const children = NODES.filter(node => node.parent === id).map(node => node.id);
+  return children.flatMap(child => [child, ...getDescendants(child)]);
+}
+
+/**
+ * Two allergens overlap when one is the other or an ancestor of it. A guest avoiding
+ * Tree Nuts must avoid cashew, and a guest avoiding cashew must avoid an unspecified
+ * "Tree Nuts" ingredient because it may be cashew.
+ */
+export function allergensOverlap(a: AllergenId, b: AllergenId): boolean {
+  return a === b || getAncestors(a).includes(b) || getAncestors(b).includes(a);
+}
+
+/**
+ * How surely a piece of text (ingredient name, allergen tag, cross-contact risk)
+ * matches an allergen the guest avoids, or null when it doesn't. Terms outside the
+ * ontology (e.g. "cilantro") fall back to matching the term itself in the text.
+ */
+export function matchAllergen(text: string, allergen: string): MatchConfidence | null {
+  const allergenIds = findAllergens(allergen);
+  const ontologyMatch = findAllergenMatches(text)
+    .filter(match => allergenIds.some(a => allergensOverlap(match.id, a)))
+    .reduce<MatchConfidence | null>((best, match) => strongerMatch(best, match.confidence), null);
+
+  return strongerMatch(ontologyMatch, matchTerm(text, allergen));
+}
+
+export function matchesAllergen(text: string, allergen: string): boolean {
+  return matchAllergen(text, allergen) !== null;
+}
+
+export function matchesAnyAllergen(text: string, allergens: Iterable<string>): boolean {
+  for (const allergen of allergens) {
+    if (matchesAllergen(text, allergen)) return true;
+  }
+  return false;
+}
+
+/**
+ * Stored allergen tag an allergen rolls up to (cashew → "Tree Nuts", wheat → "Wheat").
+ */
+export function getAllergenTag(id: AllergenId): AllergenTag | null {
+  const node = ALLERGEN_ONTOLOGY[id];
+  if (node.tag) return node.tag;
+  return node.parent ? getAllergenTag(node.parent) : null;
+}
+
+export function getAllergenLabel(id: AllergenId, region?: AllergenRegion): string {
+  const node = ALLERGEN_ONTOLOGY[id];
+  return (region && node.regionalLabels?.[region]) || node.label;
+}
@@ -0,0 +1,140 @@
+import { AllergenId, ALLERGEN_ONTOLOGY, normalizeAllergenTerm } from './allergenOntology';
+import { Language, translateRestriction } from './i18n';
+import { CustomerRestriction } from './customerProfile';
+
+// Curated allergen names for guests reading the menu in another language. A guest with
+// an allergy must recognise these words, so they are never machine translated: a term
+// missing here is shown in English. Names of the stored allergen tags follow the wording
+// of EU Regulation 1169/2011, Annex II, in each language.
+
+type TranslatedLanguage = Exclude<Language, 'en'>;
+type TermTranslations = Record<TranslatedLanguage, string>;
+
+const ALLERGEN_NAMES: Record<AllergenId, TermTranslations> = {
+  milk: { es: 'Leche', fr: 'Lait', de: 'Milch' },
+  eggs: { es: 'Huevos', fr: 'Œufs', de: 'Eier' },
+  fish: { es: 'Pescado', fr: 'Poisson', de: 'Fisch' },
+  shellfish: { es: 'Crustáceos', fr: 'Crustacés', de: 'Krebstiere' },
+  shrimp: { es: 'Gambas', fr: 'Crevettes', de: 'Garnelen' },
+  crab: { es: 'Cangrejo', fr: 'Crabe', de: 'Krabbe' },
+  lobster: { es: 'Bogavante', fr: 'Homard', de: 'Hummer' },
+  crayfish: { es: 'Cangrejo de río', fr: 'Écrevisse', de: 'Flusskrebs' },
+  langoustine: { es: 'Cigala', fr: 'Langoustine', de: 'Kaisergranat' },
+  mollusks: { es: 'Moluscos', fr: 'Mollusques', de: 'Weichtiere' },
+  clam: { es: 'Almeja', fr: 'Palourde', de: 'Venusmuschel' },
+  mussel: { es: 'Mejillón', fr: 'Moule', de: 'Miesmuschel' },
+  oyster: { es: 'Ostra', fr: 'Huître', de: 'Auster' },
+  scallop: { es: 'Vieira', fr: 'Coquille Saint-Jacques', de: 'Jakobsmuschel' },
+  squid: { es: 'Calamar', fr: 'Calmar', de: 'Kalmar' },
+  octopus: { es: 'Pulpo', fr: 'Poulpe', de: 'Krake' },
+  snail: { es: 'Caracol', fr: 'Escargot', de: 'Schnecke' },
+  tree_nuts: { es: 'Frutos de cáscara', fr: 'Fruits à coque', de: 'Schalenfrüchte' },
+  almond: { es: 'Almendra', fr: 'Amande', de: 'Mandel' },
+  cashew: { es: 'Anacardo', fr: 'Noix de cajou', de: 'Cashewnuss' },
+  walnut: { es: 'Nuez', fr: 'Noix', de: 'Walnuss' },
+  pecan: { es: 'Pacana', fr: 'Noix de pécan', de: 'Pekannuss' },
+  pistachio: { es: 'Pistacho', fr: 'Pistache', de: 'Pistazie' },
+  macadamia: { es: 'Macadamia', fr: 'Noix de macadamia', de: 'Macadamianuss' },
+  hazelnut: { es: 'Avellana', fr: 'Noisette', de: 'Haselnuss' },
+  brazil_nut: { es: 'Nuez de Brasil', fr: 'Noix du Brésil', de: 'Paranuss' },
+  pine_nut: { es: 'Piñón', fr: 'Pignon de pin', de: 'Pinienkern' },
+  chestnut: { es: 'Castaña', fr: 'Châtaigne', de: 'Esskastanie' },
+  peanuts: { es: 'Cacahuetes', fr: 'Arachides', de: 'Erdnüsse' },
+  gluten: { es: 'Gluten', fr: 'Gluten', de: 'Gluten' },
+  wheat: { es: 'Trigo', fr: 'Blé', de: 'Weizen' },
+  barley: { es: 'Cebada', fr: 'Orge', de: 'Gerste' },
+  rye: { es: 'Centeno', fr: 'Seigle', de: 'Roggen' },
+  oats: { es: 'Avena', fr: 'Avoine', de: 'Hafer' },
+  soy: { es: 'Soja', fr: 'Soja', de: 'Soja' },
+  sesame: { es: 'Sésamo', fr: 'Sésame', de: 'Sesam' },
+  mustard: { es: 'Mostaza', fr: 'Moutarde', de: 'Senf' },
+  celery: { es: 'Apio', fr: 'Céleri', de: 'Sellerie' },
+  lupin: { es: 'Altramuces', fr: 'Lupin', de: 'Lupinen' },
+  sulfites: { es: 'Sulfitos', fr: 'Sulfites', de: 'Sulfite' },
+  onion: { es: 'Cebolla', fr: 'Oignon', de: 'Zwiebel' },
+  garlic: { es: 'Ajo', fr: 'Ail', de: 'Knoblauch' },
+};
+
+// Other terms guests filter on, from the seeded dietary restrictions. These are kept
+// apart from ALLERGEN_NAMES because the ontology treats them as synonyms ("cheese" is
+// milk), yet a guest avoiding cheese should read "Käse", not "Milch".
+const FOOD_TERMS: Record<string, TermTranslations> = {
+  dairy: { es: 'Lácteos', fr: 'Produits laitiers', de: 'Milchprodukte' },
+  cheese: { es: 'Queso', fr: 'Fromage', de: 'Käse' },
+  butter: { es: 'Mantequilla', fr: 'Beurre', de: 'Butter' },
+  cream: { es: 'Nata', fr: 'Crème', de: 'Sahne' },
+  whey: { es: 'Suero de leche', fr: 'Lactosérum', de: 'Molke' },
+  casein: { es: 'Caseína', fr: 'Caséine', de: 'Kasein' },
+  mayonnaise: { es: 'Mayonesa', fr: 'Mayonnaise', de: 'Mayonnaise' },
+  flour: { es: 'Harina', fr: 'Farine', de: 'Mehl' },
+  bread: { es: 'Pan', fr: 'Pain', de: 'Brot' },
+  pasta: { es: 'Pasta', fr: 'Pâtes', de: 'Nudeln' },
+  prawn: { es: 'Gambas', fr: 'Crevettes', de: 'Garnelen' },
+  calamari: { es: 'Calamares', fr: 'Calamars', de: 'Calamari' },
+  seafood: { es: 'Marisco', fr: 'Fruits de mer', de: 'Meeresfrüchte' },
+  salmon: { es: 'Salmón', fr: 'Saumon', de: 'Lachs' },
+  tuna: { es: 'Atún', fr: 'Thon', de: 'Thunfisch' },
+  cod: { es: 'Bacalao', fr: 'Cabillaud', de: 'Kabeljau' },
+  halibut: { es: 'Fletán', fr: 'Flétan', de: 'Heilbutt' },
+  tofu: { es: 'Tofu', fr: 'Tofu', de: 'Tofu' },
+  edamame: { es: 'Edamame', fr: 'Edamame', de: 'Edamame' },
+  'soy sauce': { es: 'Salsa de soja', fr: 'Sauce soja', de: 'Sojasoße' },
+  tahini: { es: 'Tahini', fr: 'Tahini', de: 'Tahin' },
+  meat: { es: 'Carne', fr: 'Viande', de: 'Fleisch' },
+  chicken: { es: 'Pollo', fr: 'Poulet', de: 'Hähnchen' },
+  beef: { es: 'Ternera', fr: 'Bœuf', de: 'Rindfleisch' },
+  pork: { es: 'Cerdo', fr: 'Porc', de: 'Schweinefleisch' },
+  bacon: { es: 'Beicon', fr: 'Bacon', de: 'Speck' },
+  ham: { es: 'Jamón', fr: 'Jambon', de: 'Schinken' },
+  lard: { es: 'Manteca de cerdo', fr: 'Saindoux', de: 'Schmalz' },
+  gelatin: { es: 'Gelatina', fr: 'Gélatine', de: 'Gelatine' },
+  honey: { es: 'Miel', fr: 'Miel', de: 'Honig' },
+  alcohol: { es: 'Alcohol', fr: 'Alcool', de: 'Alkohol' },
+  wine: { es: 'Vino', fr: 'Vin', de: 'Wein' },
+  beer: { es: 'Cerveza', fr: 'Bière', de: 'Bier' },
+  rum: { es: 'Ron', fr: 'Rhum', de: 'Rum' },
+};
+
+// Names an allergen goes by (id, label, regional labels, aliases such as "nuts"), but
+// not its synonyms: "cream" resolves to milk in the ontology without meaning milk
+const NAME_INDEX = new Map<string, AllergenId>();
+for (const node of Object.values(ALLERGEN_ONTOLOGY)) {
+  const names = [node.id, node.label, ...(node.aliases || []), ...Object.values(node.regionalLabels || {})];
+  for (const name of names) {
+    const normalized = normalizeAllergenTerm(name);
+    if (!NAME_INDEX.has(normalized)) NAME_INDEX.set(normalized, node.id);
+  }
+}
+
+function lookupTerm(normalized: string): TermTranslations | null {
+  const allergenId = NAME_INDEX.get(normalized);
+  if (allergenId) return ALLERGEN_NAMES[allergenId];
+  return FOOD_TERMS[normalized] ?? null;
+}
+
+/**
+ * An allergen or food term ("Peanuts", "tree_nuts", "cheese") in the guest's language.
+ * Terms missing from the curated tables come back unchanged.
+ */
+export function translateAllergen(term: string, language: Language): string {
+  if (language === 'en') return term;
+
+  const normalized = normalizeAllergenTerm(term);
+  // Seeded restrictions mix singular and plural ("almonds", "egg")
+  const translations = lookupTerm(normalized)
+    ?? lookupTerm(normalized.replace(/s$/, ''))
+    ?? lookupTerm(`${normalized}s`);
+  return translations?.[language] ?? term;
+}
+
+export function translateAllergens(terms: string[], language: Language): string[] {
+  return terms.map(term => translateAllergen(term, language));
+}
+
+// A guest's restriction as shown to them: seeded restriction names come from the
+// restriction table, custom allergens from the allergen tables
+export function translateCustomerRestriction(restriction: CustomerRestriction, language: Language): string {
+  return restriction.custom
+    ? translateAllergen(restriction.name, language)
+    : translateRestriction(language, { name: restriction.name, description: null }).name;
+}
@@ -0,0 +1,96 @@
+import { supabase } from './supabase';
+import { analyzeDishSafety, describeSafetyMessage, SafetyAnalysis, SafetyMessage, SafetyStatus } from './safetyAnalysis';
+import { CustomerRestriction, resolveCustomerAllergens } from './customerProfile';
+import { loadMenuGraph } from './menuGraph';
+import { getDietaryStyles } from './dietaryStyles';
+import { describeModificationChange } from './modificationPlan';
+
+// What a guest hands the server for one dish: their restrictions with severities and
+// what the kitchen has to change. Modifications come from analyzeDishSafety (its plan,
+// when there is one) and are in the menu's own language, which is what the kitchen reads.
+export interface ChefCard {
+  restaurantName: string;
+  dishName: string;
+  restrictions: CustomerRestriction[];
+  status: SafetyStatus;
+  modifications: string[];
+  anaphylaxisWarnings: string[];
+  crossContactRisks: string[];
+}
+
+// analysis is analyzeDishSafety() for this dish and the guest's allergens
+export function buildChefCard(
+  restaurantName: string,
+  dishName: string,
+  restrictions: CustomerRestriction[],
+  analysis: SafetyAnalysis
+): ChefCard {
+  const english = (messages: SafetyMessage[] = []) => messages.map(m => describeSafetyMessage('en', m));
+  return {
+    restaurantName,
+    dishName,
+    restrictions,
+    status: analysis.status,
+    modifications: analysis.modificationPlan
+      ? analysis.modificationPlan.map(describeModificationChange)
+      : english(analysis.modificationSuggestions),
+    anaphylaxisWarnings: english(analysis.anaphylaxisWarnings),
+    crossContactRisks: english(analysis.crossContactRisks),
+  };
+}
+
+// Link behind the card's QR code; the kitchen sees the card rebuilt from current data
+export function chefCardUrl(customerProfileId: string, menuItemId: string): string {
+  return `${window.location.origin}/chef-card/${customerProfileId}/${menuItemId}`;
+}
+
+export function parseChefCardPath(pathname: string): { customerProfileId: string; menuItemId: string } | null {
+  const match = pathname.match(/^\/chef-card\/([^/]+)\/([^/]+)\/?$/);
+  return match ? { customerProfileId: match[1], menuItemId: match[2] } : null;
+}
+
+/**
+ * Rebuild a guest's chef card from the database, for the page the QR code opens.
+ */
+export async function loadChefCard(
+  customerProfileId: string,
+  menuItemId: string
+): Promise<{ card: ChefCard | null; error: string | null }> {
+  const { data: profile, error: profileError } = await supabase
+    .from('customer_profiles')
+    .select('*')
+    .eq('id', customerProfileId)
+    .maybeSingle();
+  if (profileError) return { card: null, error: profileError.message };
+
+  const { data: menuItem, error: menuItemError } = await supabase
+    .from('menu_items')
+    .select('restaurant_id')
+    .eq('id', menuItemId)
+    .maybeSingle();
+  if (menuItemError) return { card: null, error: menuItemError.message };
+  if (!profile || !menuItem) return { card: null, error: null };
+
+  const { data: restaurant } = await supabase
+    .from('restaurants')
+    .select('name')
+    .eq('id', menuItem.restaurant_id)
+    .maybeSingle();
+
+  const { items, error: menuError } = await loadMenuGraph(menuItem.restaurant_id, { activeOnly: true });
+  if (menuError) return { card: null, error: menuError };
+
+  const dish = items.find(item => item.id === menuItemId);
+  if (!dish) return { card: null, error: null };
+
+  try {
+    const { allergens, severities, restrictions } = await resolveCustomerAllergens(profile);
+    const analysis = analyzeDishSafety(dish, dish.ingredients, dish.cookingSteps, allergens, {
+      severities,
+      dietaryStyles: getDietaryStyles(restrictions),
+    });
+    return { card: buildChefCard(restaurant?.name || '', dish.name, restrictions, analysis), error: null };
+  } catch (err) {
+    return { card: null, error: err instanceof Error ? err.message : String(err) };
+  }
+}
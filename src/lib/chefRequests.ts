@@ -0,0 +1,165 @@
+import { supabase, Database, ChefRequestModifications } from './supabase';
+import { getOrCreateSessionId } from './customerSession';
+import { getRealtimeClient, ChefRequestChange } from './realtime';
+
+export type ChefRequest = Database['public']['Tables']['chef_requests']['Row'];
+
+export function isEmptyModificationRequest(modifications: ChefRequestModifications): boolean {
+  return (
+    modifications.remove.length === 0 &&
+    modifications.substitute.length === 0 &&
+    !modifications.note.trim()
+  );
+}
+
+// Newest-first list with a realtime change applied
+export function applyChefRequestChange(requests: ChefRequest[], { type, request }: ChefRequestChange): ChefRequest[] {
+  const others = requests.filter(r => r.id !== request.id);
+  if (type === 'DELETE') return others;
+  return [request, ...others].sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+// Human-readable summary stored in request_details, which the admin inbox displays
+export function formatModificationRequest(modifications: ChefRequestModifications): string {
+  const parts: string[] = [];
+
+  if (modifications.remove.length > 0) {
+    parts.push(`Remove: ${modifications.remove.map(r => r.name).join(', ')}`);
+  }
+
+  for (const sub of modifications.substitute) {
+    parts.push(
+      sub.substitute_name
+        ? `Swap ${sub.name} for ${sub.substitute_name}`
+        : `Swap ${sub.name} (chef's choice)`
+    );
+  }
+
+  if (modifications.note.trim()) {
+    parts.push(`Note: ${modifications.note.trim()}`);
+  }
+
+  return parts.join('\n');
+}
+
+// The guest may have skipped profile setup, so create an empty profile on demand
+async function getOrCreateCustomerProfileId(): Promise<{ id: string | null; error: string | null }> {
+  const sessionId = getOrCreateSessionId();
+
+  const { data: existing, error: selectError } = await supabase
+    .from('customer_profiles')
+    .select('id')
+    .eq('session_id', sessionId)
+    .maybeSingle();
+
+  if (selectError) return { id: null, error: selectError.message };
+  if (existing) return { id: existing.id, error: null };
+
+  const { data: created, error: insertError } = await supabase
+    .from('customer_profiles')
+    .insert({ session_id: sessionId })
+    .select('id')
+    .single();
+
+  if (insertError || !created) {
+    return { id: null, error: insertError?.message || 'Could not create customer profile' };
+  }
+  return { id: created.id, error: null };
+}
+
+export async function submitChefRequest(
+  restaurantId: string,
+  menuItemId: string,
+  modifications: ChefRequestModifications,
+  tableLabel: string | null = null
+): Promise<{ request: ChefRequest | null; error: string | null }> {
+  if (isEmptyModificationRequest(modifications)) {
+    return { request: null, error: 'Select at least one change or add a note for the chef' };
+  }
+
+  const { id: customerProfileId, error: profileError } = await getOrCreateCustomerProfileId();
+  if (!customerProfileId) return { request: null, error: profileError };
+
+  // Guests can't select from chef_requests, so the row is read back through
+  // guest_chef_requests() by an id chosen here
+  const requestId = crypto.randomUUID();
+  const { error } = await supabase
+    .from('chef_requests')
+    .insert({
+      id: requestId,
+      restaurant_id: restaurantId,
+      menu_item_id: menuItemId,
+      customer_profile_id: customerProfileId,
+      request_details: formatModificationRequest(modifications),
+      modifications: { ...modifications, note: modifications.note.trim() },
+      table_label: tableLabel?.trim() || null,
+    });
+
+  if (error) return { request: null, error: error.message };
+
+  const request = (await loadGuestChefRequests(restaurantId)).find(r => r.id === requestId);
+  if (!request) return { request: null, error: 'Could not send request' };
+
+  getRealtimeClient().publishChefRequestChange({ type: 'INSERT', request });
+  return { request, error: null };
+}
+
+export async function respondToChefRequest(
+  requestId: string,
+  status: 'approved' | 'declined',
+  chefResponse: string | null
+): Promise<{ error: string | null }> {
+  const { data, error } = await supabase
+    .from('chef_requests')
+    .update({
+      status,
+      chef_response: chefResponse,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', requestId)
+    .select('*')
+    .single();
+
+  if (error || !data) return { error: error?.message || 'Could not update request' };
+
+  getRealtimeClient().publishChefRequestChange({ type: 'UPDATE', request: data as ChefRequest });
+  return { error: null };
+}
+
+// The kitchen's "prepared allergen-safe" acknowledgement, which takes the ticket off the line
+export async function markChefRequestPrepared(requestId: string): Promise<{ error: string | null }> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('chef_requests')
+    .update({ prepared_at: now, updated_at: now })
+    .eq('id', requestId)
+    .select('*')
+    .single();
+
+  if (error || !data) return { error: error?.message || 'Could not update request' };
+
+  getRealtimeClient().publishChefRequestChange({ type: 'UPDATE', request: data as ChefRequest });
+  return { error: null };
+}
+
+// Profile of the current guest session, if one has been saved
+export async function getCustomerProfileId(): Promise<string | null> {
+  const { data } = await supabase
+    .from('customer_profiles')
+    .select('id')
+    .eq('session_id', getOrCreateSessionId())
+    .maybeSingle();
+
+  return data?.id ?? null;
+}
+
+// Requests this guest session has sent to a restaurant, newest first. Guests have no
+// read access to the table itself, so this goes through a function scoped to the session.
+export async function loadGuestChefRequests(restaurantId: string): Promise<ChefRequest[]> {
+  const { data } = await supabase.rpc('guest_chef_requests', {
+    p_session_id: getOrCreateSessionId(),
+    p_restaurant_id: restaurantId,
+  });
+
+  return (data || []) as ChefRequest[];
+}
@@ -0,0 +1,88 @@
+import { supabase, Database, AllergenSeverity, ALLERGEN_SEVERITIES } from './supabase';
+import { dietaryStyleFor } from './dietaryStyles';
+
+type CustomerProfile = Database['public']['Tables']['customer_profiles']['Row'];
+
+export interface CustomerAllergenProfile {
+  // Flattened allergen terms from the selected restrictions plus custom allergens
+  allergens: string[];
+  // Severity per allergen term (lowercase), as passed to analyzeDishSafety
+  severities: Record<string, AllergenSeverity>;
+  // What the guest selected, before expanding restrictions into allergen terms
+  restrictions: CustomerRestriction[];
+}
+
+export interface CustomerRestriction {
+  // Restriction name ("Nut Allergy") or a custom allergen as the guest typed it
+  name: string;
+  severity: AllergenSeverity;
+  custom: boolean;
+}
+
+export const DEFAULT_ALLERGEN_SEVERITY: AllergenSeverity = 'allergy';
+
+export function severityRank(severity: AllergenSeverity): number {
+  return ALLERGEN_SEVERITIES.findIndex(s => s.value === severity);
+}
+
+function setSeverity(severities: Record<string, AllergenSeverity>, term: string, severity: AllergenSeverity) {
+  const key = term.toLowerCase().trim();
+  const existing = severities[key];
+  // A term shared by two restrictions keeps the stricter severity
+  if (!existing || severityRank(severity) > severityRank(existing)) {
+    severities[key] = severity;
+  }
+}
+
+/**
+ * Expand a saved profile into allergen terms and per-term severities.
+ * Severities are stored per restriction name / custom allergen in allergen_severities.
+ * Dietary styles (Vegan, Kosher, ...) add no allergen terms: analyzeDishSafety checks
+ * them by rule, see getDietaryStyles. Throws when the restrictions can't be loaded.
+ */
+export async function resolveCustomerAllergens(profile: CustomerProfile): Promise<CustomerAllergenProfile> {
+  const storedSeverities = profile.allergen_severities || {};
+  const severities: Record<string, AllergenSeverity> = {};
+
+  const allergenRestrictions = profile.dietary_restrictions.filter(name => !dietaryStyleFor(name));
+  const { data: restrictions, error } = allergenRestrictions.length > 0
+    ? await supabase
+        .from('dietary_restrictions')
+        .select('name, allergens')
+        .in('name', allergenRestrictions)
+    : { data: [], error: null };
+
+  // Resolving without the restrictions would silently drop allergens from the profile
+  if (error) throw new Error(error.message);
+
+  for (const restriction of restrictions || []) {
+    const severity = storedSeverities[restriction.name] || DEFAULT_ALLERGEN_SEVERITY;
+    for (const allergen of restriction.allergens) {
+      setSeverity(severities, allergen, severity);
+    }
+  }
+
+  for (const allergen of profile.custom_allergens) {
+    setSeverity(severities, allergen, storedSeverities[allergen] || DEFAULT_ALLERGEN_SEVERITY);
+  }
+
+  return {
+    allergens: [
+      ...profile.custom_allergens,
+      ...(restrictions || []).flatMap((r) => r.allergens),
+    ],
+    severities,
+    restrictions: [
+      ...profile.dietary_restrictions.map((name) => ({
+        name,
+        severity: storedSeverities[name] || DEFAULT_ALLERGEN_SEVERITY,
+        custom: false,
+      })),
+      ...profile.custom_allergens.map((name) => ({
+        name,
+        severity: storedSeverities[name] || DEFAULT_ALLERGEN_SEVERITY,
+        custom: true,
+      })),
+    ],
+  };
+}
@@ -10,6 +10,72 @@ export function getOrCreateSessionId(): string {
   return sessionId;
 }
 
+const LAST_VISIT_PREFIX = 'customer_last_visit_';
+// Reloads and rescans within this window count as the same visit
+const VISIT_GAP_MS = 3 * 60 * 60 * 1000;
+
+interface StoredVisit {
+  previous: string | null;
+  current: string;
+}
+
+function readStoredVisit(key: string): StoredVisit | null {
+  try {
+    return JSON.parse(localStorage.getItem(key) || 'null');
+  } catch {
+    return null;
+  }
+}
+
+// Records that this device opened the restaurant's menu and returns when it was last
+// opened before the current visit (null on the first visit)
+export function recordMenuVisit(restaurantId: string): string | null {
+  const key = `${LAST_VISIT_PREFIX}${restaurantId}`;
+  const stored = readStoredVisit(key);
+  const now = new Date();
+
+  const sameVisit = stored !== null && now.getTime() - Date.parse(stored.current) < VISIT_GAP_MS;
+  const previous = sameVisit ? stored.previous : stored?.current ?? null;
+
+  localStorage.setItem(key, JSON.stringify({ previous, current: now.toISOString() } satisfies StoredVisit));
+  return previous;
+}
+
+const TABLE_PREFIX = 'customer_table_';
+
+interface StoredTable {
+  label: string;
+  storedAt: string;
+}
+
+// Table the guest is sitting at for a restaurant, from a table QR code or their last chef
+// request. Like visits, it lapses after a gap so a later meal doesn't inherit the table.
+export function getStoredTableLabel(restaurantId: string): string {
+  let stored: StoredTable | null = null;
+  try {
+    stored = JSON.parse(localStorage.getItem(`${TABLE_PREFIX}${restaurantId}`) || 'null');
+  } catch {
+    return '';
+  }
+  if (!stored || Date.now() - Date.parse(stored.storedAt) >= VISIT_GAP_MS) return '';
+  return stored.label;
+}
+
+export function storeTableLabel(restaurantId: string, tableLabel: string): void {
+  const key = `${TABLE_PREFIX}${restaurantId}`;
+  if (tableLabel.trim()) {
+    localStorage.setItem(
+      key,
+      JSON.stringify({ label: tableLabel.trim(), storedAt: new Date().toISOString() } satisfies StoredTable)
+    );
+  } else {
+    localStorage.removeItem(key);
+  }
+}
+
 export function clearSession(): void {
   localStorage.removeItem('customer_session_id');
+  Object.keys(localStorage)
+    .filter((key) => key.startsWith(LAST_VISIT_PREFIX) || key.startsWith(TABLE_PREFIX))
+    .forEach((key) => localStorage.removeItem(key));
 }
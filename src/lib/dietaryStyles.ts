@@ -0,0 +1,274 @@
+// Rule-based dietary-style checks (vegetarian, vegan, pescatarian, kosher, halal),
+// shared by the guest's safety analysis and the allergen matrix so both give the same answer.
+
+import { AllergenId, allergensOverlap, findAllergens } from './allergenOntology';
+import { CustomerRestriction } from './customerProfile';
+import { MatchConfidence, matchTerm, strongerMatch } from './termMatcher';
+import { CookingStepExposure, stepCrossContactRisks } from './kitchenEquipment';
+
+export type DietaryStyle = 'vegetarian' | 'vegan' | 'pescatarian' | 'kosher' | 'halal';
+
+export type IngredientClass = 'meat' | 'pork' | 'fish' | 'shellfish' | 'dairy' | 'eggs' | 'honey' | 'gelatin' | 'alcohol';
+
+// Status vocabulary of the allergen matrix; see evaluateDietaryStyle
+export type DietaryStyleStatus = 'compatible' | 'can_modify' | 'not_compatible' | 'unverified';
+
+const FISH_KEYWORDS = ['fish', 'salmon', 'tuna', 'cod', 'halibut', 'anchovy', 'sardine', 'mackerel', 'bass', 'trout', 'tilapia', 'swordfish', 'mahi'];
+
+const CLASS_KEYWORDS: Record<IngredientClass, string[]> = {
+  meat: ['beef', 'steak', 'ribeye', 'sirloin', 'lamb', 'chicken', 'turkey', 'duck', 'veal', 'venison', 'bison', 'rabbit', 'goat', 'meat', 'mutton', 'poultry'],
+  pork: ['pork', 'bacon', 'ham', 'sausage', 'salami', 'pepperoni', 'prosciutto', 'lard', 'pancetta', 'chorizo', 'guanciale'],
+  fish: FISH_KEYWORDS,
+  shellfish: ['shrimp', 'crab', 'lobster', 'crayfish', 'prawn', 'clam', 'mussel', 'oyster', 'scallop', 'squid', 'calamari', 'octopus', 'shellfish'],
+  dairy: ['milk', 'cream', 'butter', 'cheese', 'yogurt', 'whey', 'casein', 'ghee'],
+  eggs: ['egg', 'mayonnaise', 'mayo', 'aioli', 'meringue'],
+  honey: ['honey'],
+  gelatin: ['gelatin', 'gelatine'],
+  alcohol: ['wine', 'beer', 'rum', 'vodka', 'whiskey', 'bourbon', 'brandy', 'liqueur', 'alcohol', 'sake', 'mirin'],
+};
+
+const PLANT_BASED_MODIFIERS = ['vegan', 'vegetarian', 'veggie', 'plant based', 'meatless', 'tofu', 'seitan', 'tempeh', 'soy'];
+
+// A cut or a casing says nothing about the animal, so these words only count when no
+// other word names what the steak or sausage is made of, and even then only as a
+// question for staff ("Chicken sausage" isn't pork, "Cauliflower steak" isn't meat)
+const GENERIC_KEYWORD_MODIFIERS: Record<string, string[]> = {
+  steak: [...PLANT_BASED_MODIFIERS, ...FISH_KEYWORDS, 'cauliflower', 'mushroom', 'portobello', 'celeriac', 'cabbage', 'eggplant'],
+  sausage: [...PLANT_BASED_MODIFIERS, ...FISH_KEYWORDS, 'chicken', 'turkey', 'beef', 'lamb', 'duck', 'veal', 'venison'],
+};
+
+// Allergen tags that put an ingredient in a class whatever it's called
+const CLASS_ALLERGENS: Partial<Record<IngredientClass, AllergenId[]>> = {
+  fish: ['fish'],
+  shellfish: ['shellfish', 'mollusks'],
+  dairy: ['milk'],
+  eggs: ['eggs'],
+};
+
+interface DietaryStyleRule {
+  label: string;
+  forbidden: IngredientClass[];
+  // Kosher: meat (poultry included) may not be served with dairy
+  noMeatWithDairy?: boolean;
+}
+
+export const DIETARY_STYLE_RULES: Record<DietaryStyle, DietaryStyleRule> = {
+  vegetarian: { label: 'Vegetarian', forbidden: ['meat', 'pork', 'fish', 'shellfish', 'gelatin'] },
+  vegan: { label: 'Vegan', forbidden: ['meat', 'pork', 'fish', 'shellfish', 'gelatin', 'dairy', 'eggs', 'honey'] },
+  pescatarian: { label: 'Pescatarian', forbidden: ['meat', 'pork', 'gelatin'] },
+  kosher: { label: 'Kosher', forbidden: ['pork', 'shellfish'], noMeatWithDairy: true },
+  // Gelatin is usually pork-derived unless certified otherwise
+  halal: { label: 'Halal', forbidden: ['pork', 'alcohol', 'gelatin'] },
+};
+
+/**
+ * The dietary style a restriction stands for ("Vegan" → 'vegan'), or null for an
+ * allergy or intolerance.
+ */
+export function dietaryStyleFor(restrictionName: string): DietaryStyle | null {
+  const key = restrictionName.toLowerCase().trim();
+  return key in DIETARY_STYLE_RULES ? (key as DietaryStyle) : null;
+}
+
+export function getDietaryStyles(restrictions: CustomerRestriction[]): DietaryStyle[] {
+  const styles = restrictions
+    .map(r => dietaryStyleFor(r.name))
+    .filter((style): style is DietaryStyle => style !== null);
+  return [...new Set(styles)];
+}
+
+export interface DietaryIngredient {
+  name: string;
+  allergens: string[];
+  // Removable or substitutable
+  modifiable: boolean;
+}
+
+export interface DietaryDish {
+  ingredients: DietaryIngredient[];
+  // AI-tagged from the dish description; can't be modified out
+  descriptionAllergens: string[];
+  crossContactRisks: string[];
+  // Risks a modified cooking step avoids
+  modifiableCrossContactRisks: string[];
+}
+
+export interface DietaryViolation {
+  style: DietaryStyle;
+  ingredientClass: IngredientClass | 'meat-with-dairy';
+  source: 'ingredient' | 'description' | 'cooking-step';
+  // Ingredient name, description allergen or cross-contact risk
+  sourceLabel: string;
+  // What the kitchen can leave out, swap or cook apart to fix it; empty when it can't be fixed
+  fixableBy: string[];
+  // 'low' when only part of an untagged ingredient name matched ("hamburger bun")
+  confidence: MatchConfidence;
+}
+
+export interface DietaryStyleVerdict {
+  style: DietaryStyle;
+  status: DietaryStyleStatus;
+  violations: DietaryViolation[];
+}
+
+function keywordMatch(text: string, keyword: string): MatchConfidence | null {
+  const confidence = matchTerm(text, keyword);
+  const modifiers = GENERIC_KEYWORD_MODIFIERS[keyword];
+  if (confidence !== 'high' || !modifiers) return confidence;
+  return modifiers.some(modifier => matchTerm(text, modifier) === 'high') ? null : 'low';
+}
+
+/**
+ * How surely a name (with its allergen tags) belongs to an ingredient class. Tags
+ * are structured data, so a tag match is 'high' unless only a generic word matched.
+ */
+function classMatch(ingredientClass: IngredientClass, name: string, allergens: string[]): MatchConfidence | null {
+  const classAllergens = CLASS_ALLERGENS[ingredientClass] || [];
+  let best: MatchConfidence | null = null;
+
+  for (const tag of allergens) {
+    if (findAllergens(tag).some(id => classAllergens.some(a => allergensOverlap(id, a)))) return 'high';
+    for (const kw of CLASS_KEYWORDS[ingredientClass]) {
+      const confidence = keywordMatch(tag, kw);
+      if (confidence === 'high') return 'high';
+      // Part of a tag's word isn't a match, a generic word is
+      if (confidence === 'low' && matchTerm(tag, kw) === 'high') best = 'low';
+    }
+  }
+
+  return CLASS_KEYWORDS[ingredientClass].reduce<MatchConfidence | null>(
+    (found, kw) => strongerMatch(found, keywordMatch(name, kw)),
+    best
+  );
+}
+
+export function getIngredientClassLabel(ingredientClass: DietaryViolation['ingredientClass']): string {
+  return ingredientClass === 'meat-with-dairy' ? 'meat with dairy' : ingredientClass;
+}
+
+export function evaluateDietaryStyle(style: DietaryStyle, dish: DietaryDish): DietaryStyleVerdict {
+  const rule = DIETARY_STYLE_RULES[style];
+  const violations: DietaryViolation[] = [];
+
+  for (const ingredientClass of rule.forbidden) {
+    for (const ing of dish.ingredients) {
+      const confidence = classMatch(ingredientClass, ing.name, ing.allergens);
+      if (confidence) {
+        violations.push({
+          style,
+          ingredientClass,
+          source: 'ingredient',
+          sourceLabel: ing.name,
+          fixableBy: ing.modifiable ? [ing.name] : [],
+          confidence,
+        });
+      }
+    }
+
+    for (const descAllergen of dish.descriptionAllergens) {
+      if (classMatch(ingredientClass, '', [descAllergen])) {
+        violations.push({ style, ingredientClass, source: 'description', sourceLabel: descAllergen, fixableBy: [], confidence: 'high' });
+      }
+    }
+
+    for (const risk of [...dish.crossContactRisks, ...dish.modifiableCrossContactRisks]) {
+      if (classMatch(ingredientClass, '', [risk])) {
+        violations.push({
+          style,
+          ingredientClass,
+          source: 'cooking-step',
+          sourceLabel: risk,
+          // A modified cooking step avoids the risk without leaving anything out
+          fixableBy: dish.modifiableCrossContactRisks.includes(risk) ? [risk] : [],
+          confidence: 'high',
+        });
+      }
+    }
+  }
+
+  if (rule.noMeatWithDairy) {
+    const isMeat = (ing: DietaryIngredient) =>
+      classMatch('meat', ing.name, ing.allergens) === 'high' || classMatch('pork', ing.name, ing.allergens) === 'high';
+    const meat = dish.ingredients.filter(isMeat);
+    const dairy = dish.ingredients.filter(ing => classMatch('dairy', ing.name, ing.allergens) === 'high');
+
+    if (meat.length > 0 && dairy.length > 0) {
+      // Leaving out every dairy ingredient, or else every meat one, separates them
+      const fixableBy = dairy.every(ing => ing.modifiable)
+        ? dairy.map(ing => ing.name)
+        : meat.every(ing => ing.modifiable)
+          ? meat.map(ing => ing.name)
+          : [];
+      violations.push({
+        style,
+        ingredientClass: 'meat-with-dairy',
+        source: 'ingredient',
+        sourceLabel: [...meat, ...dairy].map(ing => ing.name).join(', '),
+        fixableBy,
+        confidence: 'high',
+      });
+    }
+  }
+
+  const certain = violations.filter(v => v.confidence === 'high');
+  const status: DietaryStyleStatus = certain.some(v => v.fixableBy.length === 0)
+    ? 'not_compatible'
+    : certain.length > 0
+      ? 'can_modify'
+      : violations.length > 0
+        ? 'unverified'
+        : 'compatible';
+
+  return { style, status, violations };
+}
+
+interface DishSource {
+  description_allergens?: string[] | null;
+}
+
+interface IngredientSource {
+  name: string;
+  contains_allergens: string[];
+  is_removable?: boolean;
+  is_substitutable?: boolean;
+}
+
+interface CookingStepSource extends CookingStepExposure {
+  is_modifiable: boolean;
+  modifiable_allergens?: string[] | null;
+}
+
+/**
+ * The parts of a menu item the dietary-style rules look at. A cross-contact risk (typed
+ * on the step or from its equipment) counts as modifiable when its step is modifiable
+ * for it, or for everything when the step names no allergens.
+ */
+export function toDietaryDish(
+  menuItem: DishSource,
+  ingredients: IngredientSource[],
+  cookingSteps: CookingStepSource[]
+): DietaryDish {
+  const crossContactRisks: string[] = [];
+  const modifiableCrossContactRisks: string[] = [];
+  for (const step of cookingSteps) {
+    const modifiableAllergens = step.modifiable_allergens || [];
+    for (const risk of stepCrossContactRisks(step)) {
+      const modifiable = step.is_modifiable && (
+        modifiableAllergens.length === 0 ||
+        modifiableAllergens.some(ma => ma.toLowerCase() === risk.toLowerCase())
+      );
+      (modifiable ? modifiableCrossContactRisks : crossContactRisks).push(risk);
+    }
+  }
+
+  return {
+    ingredients: ingredients.map(ing => ({
+      name: ing.name,
+      allergens: ing.contains_allergens,
+      modifiable: !!(ing.is_removable || ing.is_substitutable),
+    })),
+    descriptionAllergens: menuItem.description_allergens || [],
+    crossContactRisks,
+    modifiableCrossContactRisks,
+  };
+}
@@ -1,4 +1,6 @@
-import { supabase } from './supabase';
+import { loadMenuGraph } from './menuGraph';
+import { findDataGaps, getDataGapLabel } from './safetyAnalysis';
+import { stepCrossContactRisks } from './kitchenEquipment';
 
 function escapeCSV(value: string | number | null | undefined): string {
   const str = String(value ?? '');
@@ -6,98 +8,70 @@ function escapeCSV(value: string | number | null | undefined): string {
 }
 
 export async function exportMenuToCSV(restaurantId: string, restaurantName: string): Promise<void> {
-  // Fetch all active menu items
-  const { data: items, error: itemsError } = await supabase
-    .from('menu_items')
-    .select('*')
-    .eq('restaurant_id', restaurantId)
-    .eq('is_active', true)
-    .order('category')
-    .order('created_at');
-
-  if (itemsError) throw itemsError;
-  if (!items || items.length === 0) throw new Error('No menu items to export');
-
-  // For each item, fetch ingredients, substitutes, and cooking steps
-  const enrichedItems = await Promise.all(
-    items.map(async (item) => {
-      const { data: menuItemIngredients } = await supabase
-        .from('menu_item_ingredients')
-        .select('*, ingredient:ingredients(*)')
-        .eq('menu_item_id', item.id);
-
-      const miiIds = (menuItemIngredients || []).map((mii: any) => mii.id);
-
-      const { data: substitutesData } = miiIds.length > 0
-        ? await supabase
-            .from('ingredient_substitutes')
-            .select('*, substitute:ingredients(*)')
-            .in('menu_item_ingredient_id', miiIds)
-        : { data: [] };
-
-      const { data: cookingSteps } = await supabase
-        .from('cooking_steps')
-        .select('*')
-        .eq('menu_item_id', item.id)
-        .order('step_number');
-
-      // Collect all allergens from ingredients
-      const ingredientAllergens = new Set<string>();
-      const removable: string[] = [];
-      const substitutable: string[] = [];
-
-      for (const mii of menuItemIngredients || []) {
-        const ing = (mii as any).ingredient;
-        if (!ing) continue;
-
-        for (const allergen of ing.contains_allergens || []) {
-          ingredientAllergens.add(allergen);
-        }
-
-        if (mii.is_removable) {
-          const allergenInfo = (ing.contains_allergens || []).length > 0
-            ? ` (${(ing.contains_allergens || []).join(', ')})`
-            : '';
-          removable.push(`${ing.name}${allergenInfo}`);
-        }
-
-        if (mii.is_substitutable) {
-          const subs = (substitutesData || [])
-            .filter((s: any) => s.menu_item_ingredient_id === mii.id)
-            .map((s: any) => s.substitute?.name || 'Unknown')
-            .join(', ');
-          const subInfo = subs ? ` -> ${subs}` : '';
-          substitutable.push(`${ing.name}${subInfo}`);
-        }
-      }
+  const { items, error: itemsError } = await loadMenuGraph(restaurantId, { activeOnly: true });
+
+  if (itemsError) throw new Error(itemsError);
+  if (items.length === 0) throw new Error('No menu items to export');
+
+  const enrichedItems = items.map((item) => {
+    // Collect all allergens from ingredients
+    const ingredientAllergens = new Set<string>();
+    const removable: string[] = [];
+    const substitutable: string[] = [];
 
-      // Add description-level allergens
-      for (const allergen of item.description_allergens || []) {
+    for (const ing of item.ingredients) {
+      for (const allergen of ing.contains_allergens) {
         ingredientAllergens.add(allergen);
       }
 
-      // Collect cross-contact risks
-      const crossContactRisks = new Set<string>();
-      for (const step of cookingSteps || []) {
-        for (const risk of step.cross_contact_risk || []) {
-          crossContactRisks.add(risk);
-        }
+      if (ing.is_removable) {
+        const allergenInfo = ing.contains_allergens.length > 0
+          ? ` (${ing.contains_allergens.join(', ')})`
+          : '';
+        removable.push(`${ing.name}${allergenInfo}`);
       }
 
-      return {
-        category: item.category || 'Other',
-        name: item.name,
-        description: item.description || '',
-        price: item.price != null ? `$${Number(item.price).toFixed(2)}` : '',
-        allergens: Array.from(ingredientAllergens).join(', '),
-        crossContactRisks: Array.from(crossContactRisks).join(', '),
-        removable: removable.join('; '),
-        substitutable: substitutable.join('; '),
-        calories: item.calories ?? '',
-        protein: item.protein_g ?? '',
-      };
-    })
-  );
+      if (ing.is_substitutable) {
+        const subs = ing.substitutes
+          .map((s) => s.name || 'Unknown')
+          .join(', ');
+        const subInfo = subs ? ` -> ${subs}` : '';
+        substitutable.push(`${ing.name}${subInfo}`);
+      }
+    }
+
+    // Add description-level allergens
+    for (const allergen of item.description_allergens || []) {
+      ingredientAllergens.add(allergen);
+    }
+
+    // Collect cross-contact risks
+    const crossContactRisks = new Set<string>();
+    for (const step of item.cookingSteps) {
+      for (const risk of stepCrossContactRisks(step)) {
+        crossContactRisks.add(risk);
+      }
+    }
+
+    // An empty allergen column means nothing until the dish's data is complete
+    const dataGaps = findDataGaps(item, item.ingredients, item.cookingSteps);
+
+    return {
+      category: item.category || 'Other',
+      name: item.name,
+      description: item.description || '',
+      price: item.price != null ? `$${Number(item.price).toFixed(2)}` : '',
+      dataStatus: dataGaps.length > 0
+        ? `Insufficient data: ${dataGaps.map(getDataGapLabel).join('; ')}`
+        : 'Complete',
+      allergens: Array.from(ingredientAllergens).join(', '),
+      crossContactRisks: Array.from(crossContactRisks).join(', '),
+      removable: removable.join('; '),
+      substitutable: substitutable.join('; '),
+      calories: item.calories ?? '',
+      protein: item.protein_g ?? '',
+    };
+  });
 
   // Build CSV
   const headers = [
@@ -105,6 +79,7 @@ export async function exportMenuToCSV(restaurantId: string, restaurantName: stri
     'Dish Name',
     'Description',
     'Price',
+    'Data Status',
     'Allergens',
     'Cross-Contact Risks',
     'Removable Ingredients',
@@ -124,7 +99,7 @@ export async function exportMenuToCSV(restaurantId: string, restaurantName: stri
 
   for (const [category, categoryItems] of Object.entries(grouped)) {
     // Category header row
-    rows.push([category, '', '', '', '', '', '', '', '', '']);
+    rows.push([category, '', '', '', '', '', '', '', '', '', '']);
 
     for (const item of categoryItems) {
       rows.push([
@@ -132,6 +107,7 @@ export async function exportMenuToCSV(restaurantId: string, restaurantName: stri
         item.name,
         item.description,
         item.price,
+        item.dataStatus,
         item.allergens,
         item.crossContactRisks,
         item.removable,
@@ -142,7 +118,7 @@ export async function exportMenuToCSV(restaurantId: string, restaurantName: stri
     }
 
     // Blank separator row
-    rows.push(['', '', '', '', '', '', '', '', '', '']);
+    rows.push(['', '', '', '', '', '', '', '', '', '', '']);
   }
 
   // BOM for Excel UTF-8 support
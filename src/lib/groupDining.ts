@@ -0,0 +1,135 @@
+import { supabase, Database, AllergenSeverity } from './supabase';
+import { getOrCreateSessionId } from './customerSession';
+import { CustomerRestriction, resolveCustomerAllergens, severityRank } from './customerProfile';
+import { analyzeDishSafety, SafetyAnalysis, SafetyStatus } from './safetyAnalysis';
+import { MenuGraphItem } from './menuGraph';
+import { DietaryStyle, getDietaryStyles } from './dietaryStyles';
+
+type CustomerProfile = Database['public']['Tables']['customer_profiles']['Row'];
+
+// Someone at the table the guest is ordering for, with their resolved allergy profile
+export interface Diner {
+  // null for a guest who skipped profile setup
+  profileId: string | null;
+  // null for the guest themself
+  name: string | null;
+  allergens: string[];
+  severities: Record<string, AllergenSeverity>;
+  restrictions: CustomerRestriction[];
+}
+
+export interface DinerVerdict {
+  diner: Diner;
+  status: SafetyStatus;
+}
+
+// Categories whose dishes go in the middle of the table rather than to one diner
+const SHARED_CATEGORY_PATTERN = /shar|side|starter|appeti|tapas|small plate|mezze|antipast|for the table/i;
+
+export function isSharedPlate(item: MenuGraphItem): boolean {
+  return !!item.category && SHARED_CATEGORY_PATTERN.test(item.category);
+}
+
+// Union of every diner's allergens and dietary styles; a term two diners share keeps the stricter severity
+export function combineDiners(diners: Diner[]): {
+  allergens: string[];
+  severities: Record<string, AllergenSeverity>;
+  dietaryStyles: DietaryStyle[];
+} {
+  const severities: Record<string, AllergenSeverity> = {};
+  for (const diner of diners) {
+    for (const [term, severity] of Object.entries(diner.severities)) {
+      const existing = severities[term];
+      if (!existing || severityRank(severity) > severityRank(existing)) {
+        severities[term] = severity;
+      }
+    }
+  }
+
+  return {
+    allergens: [...new Set(diners.flatMap(d => d.allergens))],
+    severities,
+    dietaryStyles: getDietaryStyles(diners.flatMap(d => d.restrictions)),
+  };
+}
+
+export function analyzeDishForDiners(item: MenuGraphItem, diners: Diner[]): DinerVerdict[] {
+  return diners.map(diner => ({
+    diner,
+    status: analyzeDishSafety(item, item.ingredients, item.cookingSteps, diner.allergens, {
+      severities: diner.severities,
+      dietaryStyles: getDietaryStyles(diner.restrictions),
+    }).status,
+  }));
+}
+
+// One analysis against the whole table, for the "safe for everyone" filter
+export function analyzeDishForEveryone(item: MenuGraphItem, diners: Diner[]): SafetyAnalysis {
+  const { allergens, severities, dietaryStyles } = combineDiners(diners);
+  return analyzeDishSafety(item, item.ingredients, item.cookingSteps, allergens, { severities, dietaryStyles });
+}
+
+async function toDiner(profile: CustomerProfile): Promise<Diner> {
+  const { allergens, severities, restrictions } = await resolveCustomerAllergens(profile);
+  return { profileId: profile.id, name: profile.diner_name, allergens, severities, restrictions };
+}
+
+/**
+ * Diners this guest session added, in the order they were added. Each is a customer
+ * profile of its own, linked to the session through group_session_id.
+ */
+export async function loadCompanionDiners(): Promise<{ diners: Diner[]; error: string | null }> {
+  const { data, error } = await supabase
+    .from('customer_profiles')
+    .select('*')
+    .eq('group_session_id', getOrCreateSessionId())
+    .order('created_at');
+
+  if (error) return { diners: [], error: error.message };
+
+  try {
+    const diners: Diner[] = [];
+    for (const profile of (data || []) as CustomerProfile[]) {
+      diners.push(await toDiner(profile));
+    }
+    return { diners, error: null };
+  } catch (err) {
+    return { diners: [], error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+export async function addCompanionDiner(name: string): Promise<{ profileId: string | null; error: string | null }> {
+  const sessionId = getOrCreateSessionId();
+
+  // Seat the companion at the guest's table, if a table QR code seated the guest
+  const { data: own } = await supabase
+    .from('customer_profiles')
+    .select('table_id')
+    .eq('session_id', sessionId)
+    .maybeSingle();
+
+  const { data, error } = await supabase
+    .from('customer_profiles')
+    .insert({
+      // session_id is unique per profile; companions never open a session of their own
+      session_id: `${sessionId}_diner_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
+      group_session_id: sessionId,
+      diner_name: name.trim(),
+      table_id: own?.table_id ?? null,
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) return { profileId: null, error: error?.message || 'Could not add diner' };
+  return { profileId: data.id, error: null };
+}
+
+export async function removeCompanionDiner(profileId: string): Promise<{ error: string | null }> {
+  const { error } = await supabase
+    .from('customer_profiles')
+    .delete()
+    .eq('id', profileId)
+    .eq('group_session_id', getOrCreateSessionId());
+
+  return { error: error?.message ?? null };
+}
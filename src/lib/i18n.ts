@@ -0,0 +1,1106 @@
+import { AllergenSeverity } from './supabase';
+
+// Guest-facing UI strings. Owner screens stay English. safetyAnalysis returns its
+// suggestions, warnings and evidence as keys from here (see describeSafetyMessage); free
+// text the owner typed (ingredient names, step notes) is shown as written, and allergen
+// names go through allergenTranslations.ts.
+
+export type Language = 'en' | 'es' | 'fr' | 'de';
+
+export const SUPPORTED_LANGUAGES: { code: Language; name: string }[] = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Español' },
+  { code: 'fr', name: 'Français' },
+  { code: 'de', name: 'Deutsch' },
+];
+
+const LANGUAGE_KEY = 'safedining_language';
+
+const en = {
+  'app.name': 'Safe Dining',
+  'app.language': 'Language',
+  'app.loading': 'Loading...',
+
+  'landing.tagline': 'Instant allergen information for your meal',
+  'landing.featureMenu': 'Full Menu Info',
+  'landing.featureAlerts': 'Allergen Alerts',
+  'landing.featureModifications': 'Modifications',
+  'landing.enterCode': 'Enter Restaurant Code',
+  'landing.codeHint': 'Ask your server for the 4-digit code',
+  'landing.codeIncomplete': 'Please enter a 4-digit code',
+  'landing.notFound': 'Restaurant not found. Please check the code.',
+  'landing.error': 'Something went wrong. Please try again.',
+  'landing.offline': "You're offline and no menu with this code is saved on this device. Try again with signal.",
+  'landing.finding': 'Finding Restaurant...',
+  'landing.viewMenu': 'View Menu',
+  'landing.ownerSignIn': 'Restaurant Owner? Sign in here',
+
+  'profile.subtitle': 'Dietary Profile Setup',
+  'profile.title': 'Your Dietary Profile',
+  'profile.titleFor': 'Dietary profile for {name}',
+  'profile.intro': 'Select your dietary requirements for personalized menu recommendations',
+  'profile.groupAllergies': 'Allergies',
+  'profile.groupPreferences': 'Dietary Preferences',
+  'profile.groupLifestyle': 'Lifestyle',
+  'profile.groupOther': 'Other',
+  'profile.additionalAllergens': 'Additional Allergens',
+  'profile.additionalHint': 'Add any other ingredients you need to avoid',
+  'profile.additionalPlaceholder': 'e.g., cilantro, mushrooms, bell peppers',
+  'profile.additionalSeparator': 'Separate multiple items with commas',
+  'profile.selections': 'Your Selections',
+  'profile.severityHint': 'How serious is each one? Anaphylactic allergies are never shown as safe with modifications.',
+  'profile.saving': 'Saving...',
+  'profile.continue': 'Continue to Menu',
+  'profile.skip': 'Skip',
+  'profile.offline': "You're offline, so your dietary profile can't be loaded or changed right now. The menu will use the profile saved on this device, if there is one.",
+  'profile.saveFailed': "Your profile couldn't be saved. Check your connection and try again.",
+
+  'severity.preference': 'Preference',
+  'severity.preference.description': 'I prefer to avoid it',
+  'severity.intolerance': 'Intolerance',
+  'severity.intolerance.description': 'Causes discomfort',
+  'severity.allergy': 'Allergy',
+  'severity.allergy.description': 'Causes an allergic reaction',
+  'severity.anaphylactic': 'Anaphylactic',
+  'severity.anaphylactic.description': 'Life-threatening, even traces',
+
+  'menu.loading': 'Loading menu...',
+  'menu.notFound': 'Restaurant not found',
+  'menu.offlineNotSaved': "You're offline and this menu hasn't been saved on this device yet. Open it once with signal to use it offline.",
+  'menu.settings': 'Settings',
+  'menu.settingsTitle': 'Dietary Settings',
+  'menu.exit': 'Exit',
+  'menu.table': 'Table {table}',
+  'menu.exitTitle': 'Exit Menu',
+  'menu.offline': 'Offline.',
+  'menu.lastSynced': 'Menu last synced {date}',
+  'menu.offlineUnavailable': 'Chef requests, group diners and profile changes need a connection.',
+  'menu.offlineNoProfile': "Your dietary profile isn't saved on this device, so dishes aren't checked against it.",
+  'menu.filteringFor': 'Filtering for:',
+  'menu.edit': 'Edit',
+  'menu.changedOne': 'This dish changed since your last visit',
+  'menu.changedMany': 'These dishes changed since your last visit',
+  'menu.nowContains': 'now contains {allergens}',
+  'menu.changedBadge': 'Changed since your last visit',
+  'menu.chefRequests': 'Your Chef Requests',
+  'menu.dish': 'Dish',
+  'menu.requestPending': 'Waiting for chef',
+  'menu.requestApproved': 'Approved',
+  'menu.requestDeclined': 'Declined',
+  'menu.chef': 'Chef:',
+  'menu.allItems': 'All Items',
+  'menu.otherCategory': 'Other',
+  'menu.noItems': 'No menu items available',
+  'menu.calories': '{count} cal',
+
+  'group.title': 'Dining together',
+  'group.hint': 'Ordering for others? Add them to see which dishes suit each of you.',
+  'group.you': 'You',
+  'group.add': 'Add diner',
+  'group.namePlaceholder': 'Name',
+  'group.noAllergies': 'No allergies',
+  'group.edit': "Edit {name}'s allergies",
+  'group.remove': 'Remove {name}',
+  'group.safeForEveryone': 'Safe for everyone',
+  'group.noneSafe': 'No dish on this menu suits everyone at the table.',
+  'group.excludes': 'Shared plate, not for {names}',
+
+  'badge.safe': 'Safe',
+  'badge.modifiable': 'Modifiable',
+  'badge.unsafe': 'Contains Allergens',
+  'badge.unverified': 'Check with staff',
+
+  'status.safe': 'Safe for You',
+  'status.safe.description': 'This dish does not contain any of your listed allergens.',
+  'status.safe.noProfile': 'No allergen restrictions detected in your profile.',
+  'status.modifiable': 'Safe with Modifications',
+  'status.modifiable.description': 'This dish can be made safe with some adjustments.',
+  'status.unsafe': 'Contains Allergens',
+  'status.unsafe.description': 'This dish contains ingredients that may cause an allergic reaction.',
+  'status.unverified': 'Not Enough Information',
+  'status.unverified.description': "The restaurant hasn't finished listing what goes into this dish, so we can't confirm it's safe for you. Please ask your server.",
+  'gap.noIngredients': 'No ingredients listed',
+  'gap.aiOnlyAllergens': 'Allergens only detected from the menu description',
+  'gap.noCookingSteps': 'No preparation steps listed',
+  'status.checkWithStaff': 'Check with Staff',
+  'status.checkWithStaff.description': "An ingredient's name suggests it might contain one of your allergens, but it isn't marked as an allergen. Please ask your server before ordering.",
+  'gap.uncertainIngredient': 'Possible allergen: {ingredient}',
+
+  'dish.recipeChanged': 'Recipe changed on {date}',
+  'dish.nowContains': 'Now contains:',
+  'dish.safeFor': 'Safe For',
+  'dish.contains': 'Contains',
+  'dish.fromDescription': 'Detected from dish description',
+  'dish.fromDescriptionTag': '(desc)',
+  'dish.anaphylaxis': 'Anaphylactic Allergy — No Modifications',
+  'plan.title': 'Order It Like This',
+  'plan.hint': 'Tell your server you need all of these changes together:',
+  'plan.remove': 'Without {ingredient}',
+  'plan.substitute': '{substitute} instead of {ingredient}',
+  'plan.alternatives': 'or: {alternatives}',
+  'plan.modifyStep': 'Step {number} changed: {notes}',
+  'plan.askChef': 'ask the chef how',
+  'dish.suggestedModifications': 'Suggested Modifications',
+  'dish.crossContact': 'Cross-Contact Risks',
+  'dish.whyRating': 'Why this rating?',
+  'dish.modificationOptions': 'Modification Options',
+  'dish.removableCount': '{count} removable',
+  'dish.substitutableCount': '{count} substitutable',
+  'dish.canBeRemoved': 'Can Be Removed',
+  'dish.removeHint': 'Ask your server to have these ingredients removed from your dish.',
+  'dish.canBeSubstituted': 'Can Be Substituted',
+  'dish.availableSubstitutes': 'Available substitutes:',
+  'dish.substituteHint': 'Tap an ingredient to see available substitutes. Ask your server for substitutions.',
+  'dish.cookingModifications': 'Cooking Modifications Available',
+  'dish.cookingModificationsHint': 'These cooking steps can be adjusted to accommodate your dietary needs.',
+  'dish.step': 'Step {number}: {description}',
+  'dish.canAvoid': 'Can avoid: {allergen}',
+  'dish.cookingAskServer': 'Ask your server about modifying these cooking steps.',
+  'dish.viewPhoto': 'View Photo',
+
+  'safety.term': '{allergen}',
+  'safety.ingredient': '{ingredient}',
+  'safety.risk': '{risk}',
+  'safety.riskFrom': '{risk} from {equipment}',
+  'safety.ingredientClass': '{ingredientClass}',
+  'safety.descriptionAllergen': 'The dish description mentions {allergen}, which cannot be modified out',
+  'safety.nameUncertain': "The name may refer to {allergen}, but the ingredient isn't tagged with it. Check with staff.",
+  'safety.anaphylacticIngredient': '{ingredient} contains {allergen}. Removing or substituting it can still leave traces on the plate, which is not safe for an anaphylactic allergy.',
+  'safety.anaphylacticNoModifications': 'Anaphylactic allergy: modifications are not accepted',
+  'safety.remove': 'Remove {ingredient}',
+  'safety.canBeRemoved': 'Can be removed: remove {ingredient}',
+  'safety.substitute': 'Substitute {ingredient} with {substitutes}',
+  'safety.safeSubstitutes': 'Safe substitutes: {substitutes}',
+  'safety.noSafeSubstitute': 'None of the substitutes ({substitutes}) is safe for you',
+  'safety.noSubstitutes': 'Marked substitutable but no substitutes are set up',
+  'safety.policyAllows': 'Dish modification policy allows changes: "{policy}"',
+  'safety.notModifiable': 'Not marked removable or substitutable',
+  'safety.anaphylacticStep': '"{step}" carries a cross-contact risk for {risk}. For an anaphylactic allergy this cannot be made safe, even with a modified cooking step.',
+  'safety.anaphylacticNoStepChanges': 'Anaphylactic allergy: cooking step changes are not accepted',
+  'safety.modifyStep': 'Modify cooking step "{step}": {notes}',
+  'safety.modifyStepAskChef': 'Modify cooking step "{step}": Ask chef for details',
+  'safety.stepNotes': '{notes}',
+  'safety.stepModifiableAskChef': 'Step can be modified; ask chef for details',
+  'safety.crossContactRisk': '{step} (risk: {risk})',
+  'safety.stepNotModifiableFor': 'Step is modifiable, but not for {risk}',
+  'safety.stepNotModifiable': 'Step cannot be modified',
+  'safety.styleUncertain': "The name may mean {ingredientClass}, which isn't {style}. Check with staff.",
+  'safety.styleAvoidCrossContact': 'Avoid {risk} cross-contact ({style})',
+  'safety.styleLeaveOut': 'Leave out or substitute {ingredients} ({style})',
+  'safety.styleModifiable': 'Not {style} as served; the kitchen can change it',
+  'safety.styleBlocks': 'Not {style}: contains {ingredientClass}',
+  'style.vegetarian': 'vegetarian',
+  'style.vegan': 'vegan',
+  'style.pescatarian': 'pescatarian',
+  'style.kosher': 'kosher',
+  'style.halal': 'halal',
+  'class.meat': 'meat',
+  'class.pork': 'pork',
+  'class.fish': 'fish',
+  'class.shellfish': 'shellfish',
+  'class.dairy': 'dairy',
+  'class.eggs': 'eggs',
+  'class.honey': 'honey',
+  'class.gelatin': 'gelatin',
+  'class.alcohol': 'alcohol',
+  'class.meatWithDairy': 'meat with dairy',
+  'rule.descriptionAllergen': 'Allergen in description',
+  'rule.ingredientNameUncertain': 'Possible match in name',
+  'rule.ingredientAnaphylactic': 'Ingredient (anaphylactic)',
+  'rule.ingredientRemovable': 'Removable ingredient',
+  'rule.ingredientSubstitutable': 'Substitutable ingredient',
+  'rule.ingredientNoSafeSubstitute': 'No safe substitute',
+  'rule.ingredientPolicyRemovable': 'Modification policy',
+  'rule.ingredientNotModifiable': 'Fixed ingredient',
+  'rule.crossContactAnaphylactic': 'Cross-contact (anaphylactic)',
+  'rule.crossContactModifiable': 'Modifiable cross-contact',
+  'rule.crossContact': 'Cross-contact',
+  'rule.dietaryStyle': 'Dietary style',
+  'evidence.none': 'No rules matched any of the selected allergens.',
+  'evidence.matches': 'matches {allergen}',
+  'evidence.mayMatch': 'may match {allergen}',
+  'evidence.via': '(via "{term}")',
+
+  'nutrition.title': 'Nutrition Information',
+  'nutrition.partlyEstimated': 'Partly estimated',
+  'nutrition.calories': 'Calories',
+  'nutrition.macronutrients': 'Macronutrients',
+  'nutrition.protein': 'Protein',
+  'nutrition.carbs': 'Total Carbohydrates',
+  'nutrition.fiber': 'Dietary Fiber',
+  'nutrition.sugars': 'Sugars',
+  'nutrition.addedSugars': 'Added Sugars',
+  'nutrition.fat': 'Total Fat',
+  'nutrition.saturatedFat': 'Saturated Fat',
+  'nutrition.transFat': 'Trans Fat',
+  'nutrition.polyunsaturatedFat': 'Polyunsaturated Fat',
+  'nutrition.monounsaturatedFat': 'Monounsaturated Fat',
+  'nutrition.other': 'Other',
+  'nutrition.cholesterol': 'Cholesterol',
+  'nutrition.sodium': 'Sodium',
+
+  'card.button': 'Show chef card',
+  'card.title': 'Chef Card',
+  'card.language': 'Card language',
+  'card.intro': 'I have the food allergies and dietary needs below. Please prepare my meal without them, including traces from shared surfaces, oil and utensils.',
+  'card.restrictions': 'My allergies and dietary needs',
+  'card.ordering': 'I would like to order',
+  'card.modifications': 'Please make these changes',
+  'card.noModifications': 'This dish needs no changes for my restrictions. Please still take care to avoid cross-contact.',
+  'card.unsafe': 'This dish contains my allergens and cannot be made safe. Please suggest another dish.',
+  'card.unverified': "The menu doesn't list everything in this dish. Please check every ingredient and how it's prepared against my allergies.",
+  'card.warnings': 'Important',
+  'card.crossContact': 'Cross-contact risks',
+  'card.scan': 'Kitchen: scan for the full details',
+  'card.thanks': 'Thank you!',
+  'card.print': 'Print',
+  'card.share': 'Share',
+  'card.linkCopied': 'Link copied',
+  'card.loading': 'Loading chef card...',
+  'card.notFound': 'This chef card is no longer available.',
+};
+
+export type MessageKey = keyof typeof en;
+
+const es: Record<MessageKey, string> = {
+  'app.name': 'Safe Dining',
+  'app.language': 'Idioma',
+  'app.loading': 'Cargando...',
+
+  'landing.tagline': 'Información de alérgenos al instante para tu comida',
+  'landing.featureMenu': 'Menú completo',
+  'landing.featureAlerts': 'Alertas de alérgenos',
+  'landing.featureModifications': 'Modificaciones',
+  'landing.enterCode': 'Introduce el código del restaurante',
+  'landing.codeHint': 'Pide el código de 4 dígitos a tu camarero',
+  'landing.codeIncomplete': 'Introduce un código de 4 dígitos',
+  'landing.notFound': 'Restaurante no encontrado. Comprueba el código.',
+  'landing.error': 'Algo ha fallado. Inténtalo de nuevo.',
+  'landing.offline': 'Estás sin conexión y no hay ningún menú con este código guardado en este dispositivo. Inténtalo de nuevo con cobertura.',
+  'landing.finding': 'Buscando restaurante...',
+  'landing.viewMenu': 'Ver menú',
+  'landing.ownerSignIn': '¿Tienes un restaurante? Inicia sesión aquí',
+
+  'profile.subtitle': 'Configuración del perfil alimentario',
+  'profile.title': 'Tu perfil alimentario',
+  'profile.titleFor': 'Perfil alimentario de {name}',
+  'profile.intro': 'Selecciona tus necesidades alimentarias para recibir recomendaciones personalizadas',
+  'profile.groupAllergies': 'Alergias',
+  'profile.groupPreferences': 'Preferencias alimentarias',
+  'profile.groupLifestyle': 'Estilo de vida',
+  'profile.groupOther': 'Otros',
+  'profile.additionalAllergens': 'Otros alérgenos',
+  'profile.additionalHint': 'Añade cualquier otro ingrediente que debas evitar',
+  'profile.additionalPlaceholder': 'p. ej., cilantro, champiñones, pimientos',
+  'profile.additionalSeparator': 'Separa los ingredientes con comas',
+  'profile.selections': 'Tu selección',
+  'profile.severityHint': '¿Qué gravedad tiene cada uno? Las alergias anafilácticas nunca se muestran como seguras con modificaciones.',
+  'profile.saving': 'Guardando...',
+  'profile.continue': 'Continuar al menú',
+  'profile.skip': 'Omitir',
+  'profile.offline': 'Estás sin conexión, así que ahora no se puede cargar ni cambiar tu perfil alimentario. El menú usará el perfil guardado en este dispositivo, si lo hay.',
+  'profile.saveFailed': 'No se ha podido guardar tu perfil. Comprueba tu conexión e inténtalo de nuevo.',
+
+  'severity.preference': 'Preferencia',
+  'severity.preference.description': 'Prefiero evitarlo',
+  'severity.intolerance': 'Intolerancia',
+  'severity.intolerance.description': 'Me causa molestias',
+  'severity.allergy': 'Alergia',
+  'severity.allergy.description': 'Me causa una reacción alérgica',
+  'severity.anaphylactic': 'Anafiláctica',
+  'severity.anaphylactic.description': 'Pone en riesgo mi vida, incluso en trazas',
+
+  'menu.loading': 'Cargando menú...',
+  'menu.notFound': 'Restaurante no encontrado',
+  'menu.offlineNotSaved': 'Estás sin conexión y este menú aún no se ha guardado en este dispositivo. Ábrelo una vez con cobertura para usarlo sin conexión.',
+  'menu.settings': 'Ajustes',
+  'menu.settingsTitle': 'Ajustes alimentarios',
+  'menu.exit': 'Salir',
+  'menu.table': 'Mesa {table}',
+  'menu.exitTitle': 'Salir del menú',
+  'menu.offline': 'Sin conexión.',
+  'menu.lastSynced': 'Menú sincronizado por última vez el {date}',
+  'menu.offlineUnavailable': 'Las peticiones al chef, los comensales del grupo y los cambios de perfil necesitan conexión.',
+  'menu.offlineNoProfile': 'Tu perfil alimentario no está guardado en este dispositivo, así que los platos no se comprueban con él.',
+  'menu.filteringFor': 'Filtrando por:',
+  'menu.edit': 'Editar',
+  'menu.changedOne': 'Este plato ha cambiado desde tu última visita',
+  'menu.changedMany': 'Estos platos han cambiado desde tu última visita',
+  'menu.nowContains': 'ahora contiene {allergens}',
+  'menu.changedBadge': 'Ha cambiado desde tu última visita',
+  'menu.chefRequests': 'Tus peticiones al chef',
+  'menu.dish': 'Plato',
+  'menu.requestPending': 'Esperando al chef',
+  'menu.requestApproved': 'Aprobada',
+  'menu.requestDeclined': 'Rechazada',
+  'menu.chef': 'Chef:',
+  'menu.allItems': 'Todo',
+  'menu.otherCategory': 'Otros',
+  'menu.noItems': 'No hay platos disponibles',
+  'menu.calories': '{count} kcal',
+
+  'group.title': 'Comer en grupo',
+  'group.hint': '¿Pides para otras personas? Añádelas para ver qué platos le van a cada una.',
+  'group.you': 'Tú',
+  'group.add': 'Añadir comensal',
+  'group.namePlaceholder': 'Nombre',
+  'group.noAllergies': 'Sin alergias',
+  'group.edit': 'Editar las alergias de {name}',
+  'group.remove': 'Quitar a {name}',
+  'group.safeForEveryone': 'Seguro para todos',
+  'group.noneSafe': 'Ningún plato de este menú le va a toda la mesa.',
+  'group.excludes': 'Para compartir, no apto para {names}',
+
+  'badge.safe': 'Seguro',
+  'badge.modifiable': 'Modificable',
+  'badge.unsafe': 'Contiene alérgenos',
+  'badge.unverified': 'Consulta al personal',
+
+  'status.safe': 'Seguro para ti',
+  'status.safe.description': 'Este plato no contiene ninguno de tus alérgenos.',
+  'status.safe.noProfile': 'Tu perfil no indica restricciones de alérgenos.',
+  'status.modifiable': 'Seguro con modificaciones',
+  'status.modifiable.description': 'Este plato puede prepararse de forma segura con algunos cambios.',
+  'status.unsafe': 'Contiene alérgenos',
+  'status.unsafe.description': 'Este plato contiene ingredientes que pueden causar una reacción alérgica.',
+  'status.unverified': 'Información insuficiente',
+  'status.unverified.description': 'El restaurante aún no ha indicado todo lo que lleva este plato, así que no podemos confirmar que sea seguro para ti. Pregunta a tu camarero.',
+  'gap.noIngredients': 'No hay ingredientes indicados',
+  'gap.aiOnlyAllergens': 'Alérgenos detectados solo a partir de la descripción',
+  'gap.noCookingSteps': 'No hay pasos de preparación indicados',
+  'status.checkWithStaff': 'Consulta al personal',
+  'status.checkWithStaff.description': 'El nombre de un ingrediente sugiere que podría contener uno de tus alérgenos, pero no está marcado como alérgeno. Pregunta a tu camarero antes de pedir.',
+  'gap.uncertainIngredient': 'Posible alérgeno: {ingredient}',
+
+  'dish.recipeChanged': 'Receta modificada el {date}',
+  'dish.nowContains': 'Ahora contiene:',
+  'dish.safeFor': 'Seguro para',
+  'dish.contains': 'Contiene',
+  'dish.fromDescription': 'Detectado en la descripción del plato',
+  'dish.fromDescriptionTag': '(desc.)',
+  'dish.anaphylaxis': 'Alergia anafiláctica: sin modificaciones',
+  'plan.title': 'Pídelo así',
+  'plan.hint': 'Dile a tu camarero que necesitas todos estos cambios a la vez:',
+  'plan.remove': 'Sin {ingredient}',
+  'plan.substitute': '{substitute} en lugar de {ingredient}',
+  'plan.alternatives': 'o: {alternatives}',
+  'plan.modifyStep': 'Paso {number} modificado: {notes}',
+  'plan.askChef': 'pregunta al chef cómo',
+  'dish.suggestedModifications': 'Modificaciones sugeridas',
+  'dish.crossContact': 'Riesgo de contacto cruzado',
+  'dish.whyRating': '¿Por qué esta valoración?',
+  'dish.modificationOptions': 'Opciones de modificación',
+  'dish.removableCount': '{count} se pueden quitar',
+  'dish.substitutableCount': '{count} se pueden sustituir',
+  'dish.canBeRemoved': 'Se puede quitar',
+  'dish.removeHint': 'Pide a tu camarero que retiren estos ingredientes de tu plato.',
+  'dish.canBeSubstituted': 'Se puede sustituir',
+  'dish.availableSubstitutes': 'Sustitutos disponibles:',
+  'dish.substituteHint': 'Toca un ingrediente para ver sus sustitutos. Pide las sustituciones a tu camarero.',
+  'dish.cookingModifications': 'Cambios de preparación disponibles',
+  'dish.cookingModificationsHint': 'Estos pasos de preparación pueden adaptarse a tus necesidades alimentarias.',
+  'dish.step': 'Paso {number}: {description}',
+  'dish.canAvoid': 'Se puede evitar: {allergen}',
+  'dish.cookingAskServer': 'Consulta a tu camarero cómo modificar estos pasos.',
+  'dish.viewPhoto': 'Ver foto',
+
+  'safety.term': '{allergen}',
+  'safety.ingredient': '{ingredient}',
+  'safety.risk': '{risk}',
+  'safety.riskFrom': '{risk} de {equipment}',
+  'safety.ingredientClass': '{ingredientClass}',
+  'safety.descriptionAllergen': 'La descripción del plato menciona {allergen}, que no se puede quitar',
+  'safety.nameUncertain': 'El nombre puede referirse a {allergen}, pero el ingrediente no está marcado con ese alérgeno. Consulta al personal.',
+  'safety.anaphylacticIngredient': '{ingredient} contiene {allergen}. Aunque se quite o se sustituya, pueden quedar restos en el plato, lo que no es seguro para una alergia anafiláctica.',
+  'safety.anaphylacticNoModifications': 'Alergia anafiláctica: no se aceptan modificaciones',
+  'safety.remove': 'Quitar {ingredient}',
+  'safety.canBeRemoved': 'Se puede quitar: quitar {ingredient}',
+  'safety.substitute': 'Sustituir {ingredient} por {substitutes}',
+  'safety.safeSubstitutes': 'Sustitutos seguros: {substitutes}',
+  'safety.noSafeSubstitute': 'Ninguno de los sustitutos ({substitutes}) es seguro para ti',
+  'safety.noSubstitutes': 'Marcado como sustituible, pero no hay sustitutos configurados',
+  'safety.policyAllows': 'La política de modificaciones del plato permite cambios: "{policy}"',
+  'safety.notModifiable': 'No está marcado como removible ni sustituible',
+  'safety.anaphylacticStep': '"{step}" tiene riesgo de contacto cruzado con {risk}. Para una alergia anafiláctica no se puede hacer seguro, ni siquiera modificando la preparación.',
+  'safety.anaphylacticNoStepChanges': 'Alergia anafiláctica: no se aceptan cambios en la preparación',
+  'safety.modifyStep': 'Modificar el paso "{step}": {notes}',
+  'safety.modifyStepAskChef': 'Modificar el paso "{step}": pregunta al chef los detalles',
+  'safety.stepNotes': '{notes}',
+  'safety.stepModifiableAskChef': 'El paso se puede modificar; pregunta al chef los detalles',
+  'safety.crossContactRisk': '{step} (riesgo: {risk})',
+  'safety.stepNotModifiableFor': 'El paso se puede modificar, pero no para {risk}',
+  'safety.stepNotModifiable': 'El paso no se puede modificar',
+  'safety.styleUncertain': 'El nombre puede indicar {ingredientClass}, que no es {style}. Consulta al personal.',
+  'safety.styleAvoidCrossContact': 'Evitar el contacto cruzado con {risk} ({style})',
+  'safety.styleLeaveOut': 'Quitar o sustituir {ingredients} ({style})',
+  'safety.styleModifiable': 'No es {style} tal como se sirve; la cocina puede cambiarlo',
+  'safety.styleBlocks': 'No es {style}: contiene {ingredientClass}',
+  'style.vegetarian': 'vegetariano',
+  'style.vegan': 'vegano',
+  'style.pescatarian': 'pescetariano',
+  'style.kosher': 'kosher',
+  'style.halal': 'halal',
+  'class.meat': 'carne',
+  'class.pork': 'cerdo',
+  'class.fish': 'pescado',
+  'class.shellfish': 'marisco',
+  'class.dairy': 'lácteos',
+  'class.eggs': 'huevos',
+  'class.honey': 'miel',
+  'class.gelatin': 'gelatina',
+  'class.alcohol': 'alcohol',
+  'class.meatWithDairy': 'carne con lácteos',
+  'rule.descriptionAllergen': 'Alérgeno en la descripción',
+  'rule.ingredientNameUncertain': 'Posible coincidencia en el nombre',
+  'rule.ingredientAnaphylactic': 'Ingrediente (anafilaxia)',
+  'rule.ingredientRemovable': 'Ingrediente removible',
+  'rule.ingredientSubstitutable': 'Ingrediente sustituible',
+  'rule.ingredientNoSafeSubstitute': 'Sin sustituto seguro',
+  'rule.ingredientPolicyRemovable': 'Política de modificaciones',
+  'rule.ingredientNotModifiable': 'Ingrediente fijo',
+  'rule.crossContactAnaphylactic': 'Contacto cruzado (anafilaxia)',
+  'rule.crossContactModifiable': 'Contacto cruzado evitable',
+  'rule.crossContact': 'Contacto cruzado',
+  'rule.dietaryStyle': 'Estilo de alimentación',
+  'evidence.none': 'Ninguna regla coincide con los alérgenos seleccionados.',
+  'evidence.matches': 'coincide con {allergen}',
+  'evidence.mayMatch': 'puede coincidir con {allergen}',
+  'evidence.via': '(por "{term}")',
+
+  'nutrition.title': 'Información nutricional',
+  'nutrition.partlyEstimated': 'Parcialmente estimada',
+  'nutrition.calories': 'Calorías',
+  'nutrition.macronutrients': 'Macronutrientes',
+  'nutrition.protein': 'Proteínas',
+  'nutrition.carbs': 'Hidratos de carbono',
+  'nutrition.fiber': 'Fibra alimentaria',
+  'nutrition.sugars': 'Azúcares',
+  'nutrition.addedSugars': 'Azúcares añadidos',
+  'nutrition.fat': 'Grasas',
+  'nutrition.saturatedFat': 'Grasas saturadas',
+  'nutrition.transFat': 'Grasas trans',
+  'nutrition.polyunsaturatedFat': 'Grasas poliinsaturadas',
+  'nutrition.monounsaturatedFat': 'Grasas monoinsaturadas',
+  'nutrition.other': 'Otros',
+  'nutrition.cholesterol': 'Colesterol',
+  'nutrition.sodium': 'Sodio',
+
+  'card.button': 'Mostrar tarjeta para el chef',
+  'card.title': 'Tarjeta para el chef',
+  'card.language': 'Idioma de la tarjeta',
+  'card.intro': 'Tengo las alergias y necesidades alimentarias indicadas abajo. Por favor, prepara mi comida sin ellas, evitando también trazas de superficies, aceite y utensilios compartidos.',
+  'card.restrictions': 'Mis alergias y necesidades alimentarias',
+  'card.ordering': 'Quiero pedir',
+  'card.modifications': 'Por favor, haz estos cambios',
+  'card.noModifications': 'Este plato no necesita cambios para mis restricciones. Aun así, evita el contacto cruzado.',
+  'card.unsafe': 'Este plato contiene mis alérgenos y no puede prepararse de forma segura. Por favor, recomiéndame otro plato.',
+  'card.unverified': 'El menú no indica todo lo que lleva este plato. Por favor, revisa cada ingrediente y su preparación teniendo en cuenta mis alergias.',
+  'card.warnings': 'Importante',
+  'card.crossContact': 'Riesgo de contacto cruzado',
+  'card.scan': 'Cocina: escanea para ver todos los detalles',
+  'card.thanks': '¡Gracias!',
+  'card.print': 'Imprimir',
+  'card.share': 'Compartir',
+  'card.linkCopied': 'Enlace copiado',
+  'card.loading': 'Cargando tarjeta...',
+  'card.notFound': 'Esta tarjeta ya no está disponible.',
+};
+
+const fr: Record<MessageKey, string> = {
+  'app.name': 'Safe Dining',
+  'app.language': 'Langue',
+  'app.loading': 'Chargement...',
+
+  'landing.tagline': 'Les allergènes de votre repas en un instant',
+  'landing.featureMenu': 'Menu complet',
+  'landing.featureAlerts': 'Alertes allergènes',
+  'landing.featureModifications': 'Modifications',
+  'landing.enterCode': 'Saisissez le code du restaurant',
+  'landing.codeHint': 'Demandez le code à 4 chiffres à votre serveur',
+  'landing.codeIncomplete': 'Veuillez saisir un code à 4 chiffres',
+  'landing.notFound': 'Restaurant introuvable. Vérifiez le code.',
+  'landing.error': 'Une erreur est survenue. Veuillez réessayer.',
+  'landing.offline': 'Vous êtes hors ligne et aucun menu avec ce code n’est enregistré sur cet appareil. Réessayez avec du réseau.',
+  'landing.finding': 'Recherche du restaurant...',
+  'landing.viewMenu': 'Voir le menu',
+  'landing.ownerSignIn': 'Restaurateur ? Connectez-vous ici',
+
+  'profile.subtitle': 'Configuration du profil alimentaire',
+  'profile.title': 'Votre profil alimentaire',
+  'profile.titleFor': 'Profil alimentaire de {name}',
+  'profile.intro': 'Indiquez vos besoins alimentaires pour des recommandations personnalisées',
+  'profile.groupAllergies': 'Allergies',
+  'profile.groupPreferences': 'Préférences alimentaires',
+  'profile.groupLifestyle': 'Mode de vie',
+  'profile.groupOther': 'Autres',
+  'profile.additionalAllergens': 'Autres allergènes',
+  'profile.additionalHint': 'Ajoutez tout autre ingrédient à éviter',
+  'profile.additionalPlaceholder': 'p. ex. coriandre, champignons, poivrons',
+  'profile.additionalSeparator': 'Séparez les ingrédients par des virgules',
+  'profile.selections': 'Votre sélection',
+  'profile.severityHint': 'Quelle est la gravité de chacun ? Une allergie anaphylactique n’est jamais indiquée comme sûre avec modifications.',
+  'profile.saving': 'Enregistrement...',
+  'profile.continue': 'Continuer vers le menu',
+  'profile.skip': 'Passer',
+  'profile.offline': 'Vous êtes hors ligne : votre profil alimentaire ne peut pas être chargé ni modifié pour le moment. Le menu utilisera le profil enregistré sur cet appareil, s’il y en a un.',
+  'profile.saveFailed': 'Votre profil n’a pas pu être enregistré. Vérifiez votre connexion et réessayez.',
+
+  'severity.preference': 'Préférence',
+  'severity.preference.description': 'Je préfère l’éviter',
+  'severity.intolerance': 'Intolérance',
+  'severity.intolerance.description': 'Provoque un inconfort',
+  'severity.allergy': 'Allergie',
+  'severity.allergy.description': 'Provoque une réaction allergique',
+  'severity.anaphylactic': 'Anaphylactique',
+  'severity.anaphylactic.description': 'Danger de mort, même à l’état de traces',
+
+  'menu.loading': 'Chargement du menu...',
+  'menu.notFound': 'Restaurant introuvable',
+  'menu.offlineNotSaved': 'Vous êtes hors ligne et ce menu n’a pas encore été enregistré sur cet appareil. Ouvrez-le une fois avec du réseau pour l’utiliser hors ligne.',
+  'menu.settings': 'Réglages',
+  'menu.settingsTitle': 'Réglages alimentaires',
+  'menu.exit': 'Quitter',
+  'menu.table': 'Table {table}',
+  'menu.exitTitle': 'Quitter le menu',
+  'menu.offline': 'Hors ligne.',
+  'menu.lastSynced': 'Menu synchronisé le {date}',
+  'menu.offlineUnavailable': 'Les demandes au chef, les convives du groupe et les modifications du profil nécessitent une connexion.',
+  'menu.offlineNoProfile': 'Votre profil alimentaire n’est pas enregistré sur cet appareil, les plats ne sont donc pas vérifiés.',
+  'menu.filteringFor': 'Filtré pour :',
+  'menu.edit': 'Modifier',
+  'menu.changedOne': 'Ce plat a changé depuis votre dernière visite',
+  'menu.changedMany': 'Ces plats ont changé depuis votre dernière visite',
+  'menu.nowContains': 'contient désormais {allergens}',
+  'menu.changedBadge': 'Modifié depuis votre dernière visite',
+  'menu.chefRequests': 'Vos demandes au chef',
+  'menu.dish': 'Plat',
+  'menu.requestPending': 'En attente du chef',
+  'menu.requestApproved': 'Acceptée',
+  'menu.requestDeclined': 'Refusée',
+  'menu.chef': 'Chef :',
+  'menu.allItems': 'Tout',
+  'menu.otherCategory': 'Autres',
+  'menu.noItems': 'Aucun plat disponible',
+  'menu.calories': '{count} kcal',
+
+  'group.title': 'Repas à plusieurs',
+  'group.hint': "Vous commandez pour d'autres personnes ? Ajoutez-les pour voir les plats qui conviennent à chacun.",
+  'group.you': 'Vous',
+  'group.add': 'Ajouter un convive',
+  'group.namePlaceholder': 'Prénom',
+  'group.noAllergies': 'Aucune allergie',
+  'group.edit': 'Modifier les allergies de {name}',
+  'group.remove': 'Retirer {name}',
+  'group.safeForEveryone': 'Sûr pour tous',
+  'group.noneSafe': 'Aucun plat de ce menu ne convient à toute la table.',
+  'group.excludes': 'À partager, pas pour {names}',
+
+  'badge.safe': 'Sûr',
+  'badge.modifiable': 'Modifiable',
+  'badge.unsafe': 'Contient des allergènes',
+  'badge.unverified': 'Demandez au personnel',
+
+  'status.safe': 'Sûr pour vous',
+  'status.safe.description': 'Ce plat ne contient aucun de vos allergènes.',
+  'status.safe.noProfile': 'Votre profil n’indique aucune restriction d’allergènes.',
+  'status.modifiable': 'Sûr avec modifications',
+  'status.modifiable.description': 'Ce plat peut être rendu sûr avec quelques ajustements.',
+  'status.unsafe': 'Contient des allergènes',
+  'status.unsafe.description': 'Ce plat contient des ingrédients pouvant provoquer une réaction allergique.',
+  'status.unverified': 'Informations insuffisantes',
+  'status.unverified.description': "Le restaurant n'a pas encore détaillé la composition de ce plat, nous ne pouvons donc pas confirmer qu'il est sûr pour vous. Demandez à votre serveur.",
+  'gap.noIngredients': 'Aucun ingrédient indiqué',
+  'gap.aiOnlyAllergens': 'Allergènes détectés uniquement à partir de la description',
+  'gap.noCookingSteps': 'Aucune étape de préparation indiquée',
+  'status.checkWithStaff': 'Demandez au personnel',
+  'status.checkWithStaff.description': "Le nom d'un ingrédient laisse penser qu'il pourrait contenir l'un de vos allergènes, mais il n'est pas signalé comme allergène. Demandez à votre serveur avant de commander.",
+  'gap.uncertainIngredient': 'Allergène possible : {ingredient}',
+
+  'dish.recipeChanged': 'Recette modifiée le {date}',
+  'dish.nowContains': 'Contient désormais :',
+  'dish.safeFor': 'Sûr pour',
+  'dish.contains': 'Contient',
+  'dish.fromDescription': 'Détecté dans la description du plat',
+  'dish.fromDescriptionTag': '(desc.)',
+  'dish.anaphylaxis': 'Allergie anaphylactique : aucune modification',
+  'plan.title': 'Commandez-le ainsi',
+  'plan.hint': 'Dites à votre serveur que vous avez besoin de toutes ces modifications ensemble :',
+  'plan.remove': 'Sans {ingredient}',
+  'plan.substitute': '{substitute} au lieu de {ingredient}',
+  'plan.alternatives': 'ou : {alternatives}',
+  'plan.modifyStep': 'Étape {number} modifiée : {notes}',
+  'plan.askChef': 'demandez au chef comment',
+  'dish.suggestedModifications': 'Modifications suggérées',
+  'dish.crossContact': 'Risques de contamination croisée',
+  'dish.whyRating': 'Pourquoi cette évaluation ?',
+  'dish.modificationOptions': 'Options de modification',
+  'dish.removableCount': '{count} à retirer',
+  'dish.substitutableCount': '{count} à remplacer',
+  'dish.canBeRemoved': 'Peut être retiré',
+  'dish.removeHint': 'Demandez à votre serveur de retirer ces ingrédients de votre plat.',
+  'dish.canBeSubstituted': 'Peut être remplacé',
+  'dish.availableSubstitutes': 'Remplacements possibles :',
+  'dish.substituteHint': 'Touchez un ingrédient pour voir ses remplacements. Demandez-les à votre serveur.',
+  'dish.cookingModifications': 'Adaptations de cuisson possibles',
+  'dish.cookingModificationsHint': 'Ces étapes de préparation peuvent être adaptées à vos besoins alimentaires.',
+  'dish.step': 'Étape {number} : {description}',
+  'dish.canAvoid': 'Évitable : {allergen}',
+  'dish.cookingAskServer': 'Demandez à votre serveur d’adapter ces étapes.',
+  'dish.viewPhoto': 'Voir la photo',
+
+  'safety.term': '{allergen}',
+  'safety.ingredient': '{ingredient}',
+  'safety.risk': '{risk}',
+  'safety.riskFrom': '{risk} via {equipment}',
+  'safety.ingredientClass': '{ingredientClass}',
+  'safety.descriptionAllergen': 'La description du plat mentionne {allergen}, qui ne peut pas être retiré',
+  'safety.nameUncertain': 'Le nom peut désigner {allergen}, mais l’ingrédient n’est pas marqué comme tel. Vérifiez auprès du personnel.',
+  'safety.anaphylacticIngredient': '{ingredient} contient {allergen}. Même retiré ou remplacé, il peut laisser des traces dans l’assiette, ce qui n’est pas sûr en cas d’allergie anaphylactique.',
+  'safety.anaphylacticNoModifications': 'Allergie anaphylactique : aucune modification n’est acceptée',
+  'safety.remove': 'Retirer {ingredient}',
+  'safety.canBeRemoved': 'Peut être retiré : retirer {ingredient}',
+  'safety.substitute': 'Remplacer {ingredient} par {substitutes}',
+  'safety.safeSubstitutes': 'Remplacements sûrs : {substitutes}',
+  'safety.noSafeSubstitute': 'Aucun des remplacements ({substitutes}) n’est sûr pour vous',
+  'safety.noSubstitutes': 'Marqué remplaçable, mais aucun remplacement n’est prévu',
+  'safety.policyAllows': 'La politique de modification du plat autorise des changements : « {policy} »',
+  'safety.notModifiable': 'Ni retirable ni remplaçable',
+  'safety.anaphylacticStep': '« {step} » présente un risque de contamination croisée par {risk}. En cas d’allergie anaphylactique, ce risque ne peut pas être écarté, même en modifiant la préparation.',
+  'safety.anaphylacticNoStepChanges': 'Allergie anaphylactique : aucune modification de la préparation n’est acceptée',
+  'safety.modifyStep': 'Modifier l’étape « {step} » : {notes}',
+  'safety.modifyStepAskChef': 'Modifier l’étape « {step} » : demandez les détails au chef',
+  'safety.stepNotes': '{notes}',
+  'safety.stepModifiableAskChef': 'L’étape peut être modifiée ; demandez les détails au chef',
+  'safety.crossContactRisk': '{step} (risque : {risk})',
+  'safety.stepNotModifiableFor': 'L’étape est modifiable, mais pas pour {risk}',
+  'safety.stepNotModifiable': 'L’étape ne peut pas être modifiée',
+  'safety.styleUncertain': 'Le nom peut désigner {ingredientClass}, ce qui n’est pas {style}. Vérifiez auprès du personnel.',
+  'safety.styleAvoidCrossContact': 'Éviter la contamination croisée par {risk} ({style})',
+  'safety.styleLeaveOut': 'Retirer ou remplacer {ingredients} ({style})',
+  'safety.styleModifiable': 'Pas {style} tel que servi ; la cuisine peut l’adapter',
+  'safety.styleBlocks': 'Pas {style} : contient {ingredientClass}',
+  'style.vegetarian': 'végétarien',
+  'style.vegan': 'végan',
+  'style.pescatarian': 'pescétarien',
+  'style.kosher': 'casher',
+  'style.halal': 'halal',
+  'class.meat': 'viande',
+  'class.pork': 'porc',
+  'class.fish': 'poisson',
+  'class.shellfish': 'fruits de mer',
+  'class.dairy': 'produits laitiers',
+  'class.eggs': 'œufs',
+  'class.honey': 'miel',
+  'class.gelatin': 'gélatine',
+  'class.alcohol': 'alcool',
+  'class.meatWithDairy': 'viande avec produits laitiers',
+  'rule.descriptionAllergen': 'Allergène dans la description',
+  'rule.ingredientNameUncertain': 'Correspondance possible dans le nom',
+  'rule.ingredientAnaphylactic': 'Ingrédient (anaphylaxie)',
+  'rule.ingredientRemovable': 'Ingrédient retirable',
+  'rule.ingredientSubstitutable': 'Ingrédient remplaçable',
+  'rule.ingredientNoSafeSubstitute': 'Aucun remplacement sûr',
+  'rule.ingredientPolicyRemovable': 'Politique de modification',
+  'rule.ingredientNotModifiable': 'Ingrédient fixe',
+  'rule.crossContactAnaphylactic': 'Contamination croisée (anaphylaxie)',
+  'rule.crossContactModifiable': 'Contamination croisée évitable',
+  'rule.crossContact': 'Contamination croisée',
+  'rule.dietaryStyle': 'Régime alimentaire',
+  'evidence.none': 'Aucune règle ne correspond aux allergènes sélectionnés.',
+  'evidence.matches': 'correspond à {allergen}',
+  'evidence.mayMatch': 'peut correspondre à {allergen}',
+  'evidence.via': '(via « {term} »)',
+
+  'nutrition.title': 'Informations nutritionnelles',
+  'nutrition.partlyEstimated': 'En partie estimées',
+  'nutrition.calories': 'Calories',
+  'nutrition.macronutrients': 'Macronutriments',
+  'nutrition.protein': 'Protéines',
+  'nutrition.carbs': 'Glucides',
+  'nutrition.fiber': 'Fibres alimentaires',
+  'nutrition.sugars': 'Sucres',
+  'nutrition.addedSugars': 'Sucres ajoutés',
+  'nutrition.fat': 'Matières grasses',
+  'nutrition.saturatedFat': 'Acides gras saturés',
+  'nutrition.transFat': 'Acides gras trans',
+  'nutrition.polyunsaturatedFat': 'Acides gras polyinsaturés',
+  'nutrition.monounsaturatedFat': 'Acides gras monoinsaturés',
+  'nutrition.other': 'Autres',
+  'nutrition.cholesterol': 'Cholestérol',
+  'nutrition.sodium': 'Sodium',
+
+  'card.button': 'Afficher la carte pour le chef',
+  'card.title': 'Carte pour le chef',
+  'card.language': 'Langue de la carte',
+  'card.intro': 'J’ai les allergies et besoins alimentaires ci-dessous. Merci de préparer mon repas sans ces aliments, y compris les traces dues aux surfaces, à l’huile et aux ustensiles partagés.',
+  'card.restrictions': 'Mes allergies et besoins alimentaires',
+  'card.ordering': 'Je souhaite commander',
+  'card.modifications': 'Merci d’apporter ces modifications',
+  'card.noModifications': 'Ce plat ne nécessite aucune modification pour mes restrictions. Merci de rester attentif à la contamination croisée.',
+  'card.unsafe': 'Ce plat contient mes allergènes et ne peut pas être rendu sûr. Merci de me proposer un autre plat.',
+  'card.unverified': 'Le menu ne détaille pas entièrement ce plat. Merci de vérifier chaque ingrédient et sa préparation en tenant compte de mes allergies.',
+  'card.warnings': 'Important',
+  'card.crossContact': 'Risques de contamination croisée',
+  'card.scan': 'Cuisine : scannez pour tous les détails',
+  'card.thanks': 'Merci !',
+  'card.print': 'Imprimer',
+  'card.share': 'Partager',
+  'card.linkCopied': 'Lien copié',
+  'card.loading': 'Chargement de la carte...',
+  'card.notFound': 'Cette carte n’est plus disponible.',
+};
+
+const de: Record<MessageKey, string> = {
+  'app.name': 'Safe Dining',
+  'app.language': 'Sprache',
+  'app.loading': 'Wird geladen...',
+
+  'landing.tagline': 'Allergeninformationen zu Ihrem Essen auf einen Blick',
+  'landing.featureMenu': 'Ganze Speisekarte',
+  'landing.featureAlerts': 'Allergenwarnungen',
+  'landing.featureModifications': 'Änderungen',
+  'landing.enterCode': 'Restaurantcode eingeben',
+  'landing.codeHint': 'Fragen Sie Ihre Bedienung nach dem 4-stelligen Code',
+  'landing.codeIncomplete': 'Bitte geben Sie einen 4-stelligen Code ein',
+  'landing.notFound': 'Restaurant nicht gefunden. Bitte prüfen Sie den Code.',
+  'landing.error': 'Etwas ist schiefgelaufen. Bitte versuchen Sie es erneut.',
+  'landing.offline': 'Sie sind offline und auf diesem Gerät ist keine Speisekarte mit diesem Code gespeichert. Versuchen Sie es mit Empfang erneut.',
+  'landing.finding': 'Restaurant wird gesucht...',
+  'landing.viewMenu': 'Speisekarte ansehen',
+  'landing.ownerSignIn': 'Restaurantbetreiber? Hier anmelden',
+
+  'profile.subtitle': 'Ernährungsprofil einrichten',
+  'profile.title': 'Ihr Ernährungsprofil',
+  'profile.titleFor': 'Ernährungsprofil von {name}',
+  'profile.intro': 'Wählen Sie Ihre Ernährungsanforderungen für persönliche Empfehlungen',
+  'profile.groupAllergies': 'Allergien',
+  'profile.groupPreferences': 'Ernährungsvorlieben',
+  'profile.groupLifestyle': 'Lebensstil',
+  'profile.groupOther': 'Sonstiges',
+  'profile.additionalAllergens': 'Weitere Allergene',
+  'profile.additionalHint': 'Fügen Sie weitere Zutaten hinzu, die Sie meiden müssen',
+  'profile.additionalPlaceholder': 'z. B. Koriander, Pilze, Paprika',
+  'profile.additionalSeparator': 'Mehrere Zutaten mit Kommas trennen',
+  'profile.selections': 'Ihre Auswahl',
+  'profile.severityHint': 'Wie schwer ist jede davon? Bei anaphylaktischen Allergien wird ein Gericht nie als sicher mit Änderungen angezeigt.',
+  'profile.saving': 'Wird gespeichert...',
+  'profile.continue': 'Weiter zur Speisekarte',
+  'profile.skip': 'Überspringen',
+  'profile.offline': 'Sie sind offline, daher kann Ihr Ernährungsprofil gerade nicht geladen oder geändert werden. Die Speisekarte verwendet das auf diesem Gerät gespeicherte Profil, falls vorhanden.',
+  'profile.saveFailed': 'Ihr Profil konnte nicht gespeichert werden. Prüfen Sie Ihre Verbindung und versuchen Sie es erneut.',
+
+  'severity.preference': 'Vorliebe',
+  'severity.preference.description': 'Ich meide es lieber',
+  'severity.intolerance': 'Unverträglichkeit',
+  'severity.intolerance.description': 'Verursacht Beschwerden',
+  'severity.allergy': 'Allergie',
+  'severity.allergy.description': 'Löst eine allergische Reaktion aus',
+  'severity.anaphylactic': 'Anaphylaktisch',
+  'severity.anaphylactic.description': 'Lebensbedrohlich, schon in Spuren',
+
+  'menu.loading': 'Speisekarte wird geladen...',
+  'menu.notFound': 'Restaurant nicht gefunden',
+  'menu.offlineNotSaved': 'Sie sind offline und diese Speisekarte ist auf diesem Gerät noch nicht gespeichert. Öffnen Sie sie einmal mit Empfang, um sie offline zu nutzen.',
+  'menu.settings': 'Einstellungen',
+  'menu.settingsTitle': 'Ernährungseinstellungen',
+  'menu.exit': 'Beenden',
+  'menu.table': 'Tisch {table}',
+  'menu.exitTitle': 'Speisekarte verlassen',
+  'menu.offline': 'Offline.',
+  'menu.lastSynced': 'Speisekarte zuletzt synchronisiert am {date}',
+  'menu.offlineUnavailable': 'Anfragen an die Küche, Mitessende und Profiländerungen brauchen eine Verbindung.',
+  'menu.offlineNoProfile': 'Ihr Ernährungsprofil ist auf diesem Gerät nicht gespeichert, daher werden die Gerichte nicht danach geprüft.',
+  'menu.filteringFor': 'Gefiltert nach:',
+  'menu.edit': 'Bearbeiten',
+  'menu.changedOne': 'Dieses Gericht hat sich seit Ihrem letzten Besuch geändert',
+  'menu.changedMany': 'Diese Gerichte haben sich seit Ihrem letzten Besuch geändert',
+  'menu.nowContains': 'enthält jetzt {allergens}',
+  'menu.changedBadge': 'Seit Ihrem letzten Besuch geändert',
+  'menu.chefRequests': 'Ihre Anfragen an die Küche',
+  'menu.dish': 'Gericht',
+  'menu.requestPending': 'Wartet auf die Küche',
+  'menu.requestApproved': 'Angenommen',
+  'menu.requestDeclined': 'Abgelehnt',
+  'menu.chef': 'Küche:',
+  'menu.allItems': 'Alle',
+  'menu.otherCategory': 'Sonstiges',
+  'menu.noItems': 'Keine Gerichte verfügbar',
+  'menu.calories': '{count} kcal',
+
+  'group.title': 'Gemeinsam essen',
+  'group.hint': 'Sie bestellen für andere mit? Fügen Sie sie hinzu, um zu sehen, welche Gerichte für wen passen.',
+  'group.you': 'Sie',
+  'group.add': 'Person hinzufügen',
+  'group.namePlaceholder': 'Name',
+  'group.noAllergies': 'Keine Allergien',
+  'group.edit': 'Allergien von {name} bearbeiten',
+  'group.remove': '{name} entfernen',
+  'group.safeForEveryone': 'Für alle sicher',
+  'group.noneSafe': 'Kein Gericht auf dieser Karte passt für den ganzen Tisch.',
+  'group.excludes': 'Zum Teilen, nicht für {names}',
+
+  'badge.safe': 'Sicher',
+  'badge.modifiable': 'Anpassbar',
+  'badge.unsafe': 'Enthält Allergene',
+  'badge.unverified': 'Beim Personal nachfragen',
+
+  'status.safe': 'Sicher für Sie',
+  'status.safe.description': 'Dieses Gericht enthält keines Ihrer angegebenen Allergene.',
+  'status.safe.noProfile': 'In Ihrem Profil sind keine Allergene angegeben.',
+  'status.modifiable': 'Sicher mit Änderungen',
+  'status.modifiable.description': 'Dieses Gericht kann mit einigen Anpassungen sicher zubereitet werden.',
+  'status.unsafe': 'Enthält Allergene',
+  'status.unsafe.description': 'Dieses Gericht enthält Zutaten, die eine allergische Reaktion auslösen können.',
+  'status.unverified': 'Nicht genügend Angaben',
+  'status.unverified.description': 'Das Restaurant hat noch nicht vollständig angegeben, was in diesem Gericht steckt. Wir können daher nicht bestätigen, dass es für Sie sicher ist. Bitte fragen Sie Ihre Bedienung.',
+  'gap.noIngredients': 'Keine Zutaten angegeben',
+  'gap.aiOnlyAllergens': 'Allergene nur aus der Beschreibung erkannt',
+  'gap.noCookingSteps': 'Keine Zubereitungsschritte angegeben',
+  'status.checkWithStaff': 'Beim Personal nachfragen',
+  'status.checkWithStaff.description': 'Der Name einer Zutat deutet darauf hin, dass sie eines Ihrer Allergene enthalten könnte, sie ist aber nicht als Allergen gekennzeichnet. Bitte fragen Sie vor der Bestellung Ihre Bedienung.',
+  'gap.uncertainIngredient': 'Mögliches Allergen: {ingredient}',
+
+  'dish.recipeChanged': 'Rezept geändert am {date}',
+  'dish.nowContains': 'Enthält jetzt:',
+  'dish.safeFor': 'Sicher bei',
+  'dish.contains': 'Enthält',
+  'dish.fromDescription': 'In der Beschreibung des Gerichts erkannt',
+  'dish.fromDescriptionTag': '(Beschr.)',
+  'dish.anaphylaxis': 'Anaphylaktische Allergie – keine Änderungen',
+  'plan.title': 'So bestellen',
+  'plan.hint': 'Sagen Sie Ihrem Servicepersonal, dass Sie alle diese Änderungen zusammen brauchen:',
+  'plan.remove': 'Ohne {ingredient}',
+  'plan.substitute': '{substitute} statt {ingredient}',
+  'plan.alternatives': 'oder: {alternatives}',
+  'plan.modifyStep': 'Schritt {number} geändert: {notes}',
+  'plan.askChef': 'fragen Sie den Küchenchef, wie',
+  'dish.suggestedModifications': 'Vorgeschlagene Änderungen',
+  'dish.crossContact': 'Risiko von Kreuzkontakt',
+  'dish.whyRating': 'Warum diese Bewertung?',
+  'dish.modificationOptions': 'Änderungsmöglichkeiten',
+  'dish.removableCount': '{count} weglassbar',
+  'dish.substitutableCount': '{count} ersetzbar',
+  'dish.canBeRemoved': 'Kann weggelassen werden',
+  'dish.removeHint': 'Bitten Sie Ihre Bedienung, diese Zutaten wegzulassen.',
+  'dish.canBeSubstituted': 'Kann ersetzt werden',
+  'dish.availableSubstitutes': 'Mögliche Alternativen:',
+  'dish.substituteHint': 'Tippen Sie auf eine Zutat, um Alternativen zu sehen. Fragen Sie Ihre Bedienung danach.',
+  'dish.cookingModifications': 'Mögliche Änderungen bei der Zubereitung',
+  'dish.cookingModificationsHint': 'Diese Zubereitungsschritte können an Ihre Ernährungsbedürfnisse angepasst werden.',
+  'dish.step': 'Schritt {number}: {description}',
+  'dish.canAvoid': 'Vermeidbar: {allergen}',
+  'dish.cookingAskServer': 'Fragen Sie Ihre Bedienung nach Änderungen an diesen Schritten.',
+  'dish.viewPhoto': 'Foto ansehen',
+
+  'safety.term': '{allergen}',
+  'safety.ingredient': '{ingredient}',
+  'safety.risk': '{risk}',
+  'safety.riskFrom': '{risk} aus {equipment}',
+  'safety.ingredientClass': '{ingredientClass}',
+  'safety.descriptionAllergen': 'Die Beschreibung des Gerichts nennt {allergen}; das lässt sich nicht weglassen',
+  'safety.nameUncertain': 'Der Name kann auf {allergen} hinweisen, die Zutat ist aber nicht so gekennzeichnet. Bitte beim Personal nachfragen.',
+  'safety.anaphylacticIngredient': '{ingredient} enthält {allergen}. Auch weggelassen oder ersetzt können Spuren auf dem Teller bleiben, was bei einer anaphylaktischen Allergie nicht sicher ist.',
+  'safety.anaphylacticNoModifications': 'Anaphylaktische Allergie: Änderungen sind nicht möglich',
+  'safety.remove': '{ingredient} weglassen',
+  'safety.canBeRemoved': 'Kann weggelassen werden: {ingredient} weglassen',
+  'safety.substitute': '{ingredient} durch {substitutes} ersetzen',
+  'safety.safeSubstitutes': 'Sichere Alternativen: {substitutes}',
+  'safety.noSafeSubstitute': 'Keine der Alternativen ({substitutes}) ist für Sie sicher',
+  'safety.noSubstitutes': 'Als ersetzbar markiert, aber keine Alternativen hinterlegt',
+  'safety.policyAllows': 'Die Änderungsregel des Gerichts erlaubt Anpassungen: „{policy}“',
+  'safety.notModifiable': 'Weder weglassbar noch ersetzbar',
+  'safety.anaphylacticStep': '„{step}“ birgt ein Kreuzkontaktrisiko durch {risk}. Bei einer anaphylaktischen Allergie lässt sich das nicht sicher machen, auch nicht mit geänderter Zubereitung.',
+  'safety.anaphylacticNoStepChanges': 'Anaphylaktische Allergie: Änderungen an der Zubereitung sind nicht möglich',
+  'safety.modifyStep': 'Zubereitungsschritt „{step}“ ändern: {notes}',
+  'safety.modifyStepAskChef': 'Zubereitungsschritt „{step}“ ändern: Details beim Küchenchef erfragen',
+  'safety.stepNotes': '{notes}',
+  'safety.stepModifiableAskChef': 'Der Schritt kann geändert werden; Details beim Küchenchef erfragen',
+  'safety.crossContactRisk': '{step} (Risiko: {risk})',
+  'safety.stepNotModifiableFor': 'Der Schritt ist änderbar, aber nicht für {risk}',
+  'safety.stepNotModifiable': 'Der Schritt kann nicht geändert werden',
+  'safety.styleUncertain': 'Der Name kann auf {ingredientClass} hinweisen, was nicht {style} ist. Bitte beim Personal nachfragen.',
+  'safety.styleAvoidCrossContact': 'Kreuzkontakt mit {risk} vermeiden ({style})',
+  'safety.styleLeaveOut': '{ingredients} weglassen oder ersetzen ({style})',
+  'safety.styleModifiable': 'So serviert nicht {style}; die Küche kann es anpassen',
+  'safety.styleBlocks': 'Nicht {style}: enthält {ingredientClass}',
+  'style.vegetarian': 'vegetarisch',
+  'style.vegan': 'vegan',
+  'style.pescatarian': 'pescetarisch',
+  'style.kosher': 'koscher',
+  'style.halal': 'halal',
+  'class.meat': 'Fleisch',
+  'class.pork': 'Schweinefleisch',
+  'class.fish': 'Fisch',
+  'class.shellfish': 'Meeresfrüchte',
+  'class.dairy': 'Milchprodukte',
+  'class.eggs': 'Eier',
+  'class.honey': 'Honig',
+  'class.gelatin': 'Gelatine',
+  'class.alcohol': 'Alkohol',
+  'class.meatWithDairy': 'Fleisch mit Milchprodukten',
+  'rule.descriptionAllergen': 'Allergen in der Beschreibung',
+  'rule.ingredientNameUncertain': 'Möglicher Treffer im Namen',
+  'rule.ingredientAnaphylactic': 'Zutat (Anaphylaxie)',
+  'rule.ingredientRemovable': 'Weglassbare Zutat',
+  'rule.ingredientSubstitutable': 'Ersetzbare Zutat',
+  'rule.ingredientNoSafeSubstitute': 'Keine sichere Alternative',
+  'rule.ingredientPolicyRemovable': 'Änderungsregel',
+  'rule.ingredientNotModifiable': 'Feste Zutat',
+  'rule.crossContactAnaphylactic': 'Kreuzkontakt (Anaphylaxie)',
+  'rule.crossContactModifiable': 'Vermeidbarer Kreuzkontakt',
+  'rule.crossContact': 'Kreuzkontakt',
+  'rule.dietaryStyle': 'Ernährungsweise',
+  'evidence.none': 'Keine Regel trifft auf die gewählten Allergene zu.',
+  'evidence.matches': 'trifft auf {allergen} zu',
+  'evidence.mayMatch': 'trifft evtl. auf {allergen} zu',
+  'evidence.via': '(über „{term}“)',
+
+  'nutrition.title': 'Nährwertangaben',
+  'nutrition.partlyEstimated': 'Teilweise geschätzt',
+  'nutrition.calories': 'Kalorien',
+  'nutrition.macronutrients': 'Makronährstoffe',
+  'nutrition.protein': 'Eiweiß',
+  'nutrition.carbs': 'Kohlenhydrate',
+  'nutrition.fiber': 'Ballaststoffe',
+  'nutrition.sugars': 'Zucker',
+  'nutrition.addedSugars': 'Zugesetzter Zucker',
+  'nutrition.fat': 'Fett',
+  'nutrition.saturatedFat': 'Gesättigte Fettsäuren',
+  'nutrition.transFat': 'Transfettsäuren',
+  'nutrition.polyunsaturatedFat': 'Mehrfach ungesättigte Fettsäuren',
+  'nutrition.monounsaturatedFat': 'Einfach ungesättigte Fettsäuren',
+  'nutrition.other': 'Sonstiges',
+  'nutrition.cholesterol': 'Cholesterin',
+  'nutrition.sodium': 'Natrium',
+
+  'card.button': 'Allergiekarte für die Küche zeigen',
+  'card.title': 'Allergiekarte',
+  'card.language': 'Sprache der Karte',
+  'card.intro': 'Ich habe die unten genannten Allergien und Ernährungsbedürfnisse. Bitte bereiten Sie mein Essen ohne diese zu, auch ohne Spuren von gemeinsam genutzten Flächen, Öl und Utensilien.',
+  'card.restrictions': 'Meine Allergien und Ernährungsbedürfnisse',
+  'card.ordering': 'Ich möchte bestellen',
+  'card.modifications': 'Bitte mit diesen Änderungen',
+  'card.noModifications': 'Dieses Gericht braucht für meine Einschränkungen keine Änderungen. Bitte achten Sie trotzdem auf Kreuzkontakt.',
+  'card.unsafe': 'Dieses Gericht enthält meine Allergene und kann nicht sicher zubereitet werden. Bitte empfehlen Sie mir ein anderes Gericht.',
+  'card.unverified': 'Die Speisekarte führt nicht alles auf, was in diesem Gericht steckt. Bitte prüfen Sie jede Zutat und die Zubereitung auf meine Allergien.',
+  'card.warnings': 'Wichtig',
+  'card.crossContact': 'Risiko von Kreuzkontakt',
+  'card.scan': 'Küche: für alle Details scannen',
+  'card.thanks': 'Vielen Dank!',
+  'card.print': 'Drucken',
+  'card.share': 'Teilen',
+  'card.linkCopied': 'Link kopiert',
+  'card.loading': 'Allergiekarte wird geladen...',
+  'card.notFound': 'Diese Allergiekarte ist nicht mehr verfügbar.',
+};
+
+const MESSAGES: Record<Language, Record<MessageKey, string>> = { en, es, fr, de };
+
+// Names and descriptions of the seeded dietary_restrictions rows; the row's own English
+// text is shown for anything else
+const RESTRICTIONS: Record<Exclude<Language, 'en'>, Record<string, [name: string, description: string]>> = {
+  es: {
+    'Gluten-Free': ['Sin gluten', 'Evitar los cereales con gluten'],
+    'Dairy-Free': ['Sin lácteos', 'Evitar todos los productos lácteos'],
+    'Nut Allergy': ['Alergia a los frutos secos', 'Alergia grave a los frutos secos'],
+    'Shellfish Allergy': ['Alergia al marisco', 'Alergia a crustáceos y moluscos'],
+    'Egg-Free': ['Sin huevo', 'Evitar el huevo y los productos con huevo'],
+    'Soy-Free': ['Sin soja', 'Evitar los productos de soja'],
+    'Fish Allergy': ['Alergia al pescado', 'Alergia al pescado'],
+    'Sesame Allergy': ['Alergia al sésamo', 'Alergia a las semillas de sésamo'],
+    Vegan: ['Vegano', 'Dieta basada en plantas'],
+    Vegetarian: ['Vegetariano', 'Sin carne ni pescado'],
+    Kosher: ['Kosher', 'Normas alimentarias kosher: sin cerdo ni marisco'],
+    Halal: ['Halal', 'Normas alimentarias halal: sin cerdo ni alcohol'],
+  },
+  fr: {
+    'Gluten-Free': ['Sans gluten', 'Éviter les céréales contenant du gluten'],
+    'Dairy-Free': ['Sans produits laitiers', 'Éviter tous les produits laitiers'],
+    'Nut Allergy': ['Allergie aux fruits à coque', 'Allergie sévère aux fruits à coque'],
+    'Shellfish Allergy': ['Allergie aux fruits de mer', 'Allergie aux crustacés et aux mollusques'],
+    'Egg-Free': ['Sans œuf', 'Éviter les œufs et les produits à base d’œuf'],
+    'Soy-Free': ['Sans soja', 'Éviter les produits à base de soja'],
+    'Fish Allergy': ['Allergie au poisson', 'Allergie au poisson'],
+    'Sesame Allergy': ['Allergie au sésame', 'Allergie aux graines de sésame'],
+    Vegan: ['Végan', 'Alimentation végétale'],
+    Vegetarian: ['Végétarien', 'Ni viande ni poisson'],
+    Kosher: ['Casher', 'Règles alimentaires casher : ni porc ni fruits de mer'],
+    Halal: ['Halal', 'Règles alimentaires halal : ni porc ni alcool'],
+  },
+  de: {
+    'Gluten-Free': ['Glutenfrei', 'Glutenhaltiges Getreide meiden'],
+    'Dairy-Free': ['Milchfrei', 'Alle Milchprodukte meiden'],
+    'Nut Allergy': ['Nussallergie', 'Schwere Nussallergie'],
+    'Shellfish Allergy': ['Schalentierallergie', 'Allergie gegen Krebs- und Weichtiere'],
+    'Egg-Free': ['Eifrei', 'Eier und Eiprodukte meiden'],
+    'Soy-Free': ['Sojafrei', 'Sojaprodukte meiden'],
+    'Fish Allergy': ['Fischallergie', 'Allergie gegen Fisch'],
+    'Sesame Allergy': ['Sesamallergie', 'Allergie gegen Sesamsamen'],
+    Vegan: ['Vegan', 'Rein pflanzliche Ernährung'],
+    Vegetarian: ['Vegetarisch', 'Kein Fleisch und kein Fisch'],
+    Kosher: ['Koscher', 'Koschere Speisegesetze: kein Schwein, keine Meeresfrüchte'],
+    Halal: ['Halal', 'Halal-Speisegesetze: kein Schwein, kein Alkohol'],
+  },
+};
+
+function isLanguage(value: string | null | undefined): value is Language {
+  return SUPPORTED_LANGUAGES.some(l => l.code === value);
+}
+
+// The guest's earlier choice, else the browser language, else English
+export function detectLanguage(): Language {
+  const stored = localStorage.getItem(LANGUAGE_KEY);
+  if (isLanguage(stored)) return stored;
+
+  const browserLanguage = navigator.language?.slice(0, 2).toLowerCase();
+  return isLanguage(browserLanguage) ? browserLanguage : 'en';
+}
+
+export function storeLanguage(language: Language): void {
+  localStorage.setItem(LANGUAGE_KEY, language);
+}
+
+/**
+ * UI string in the given language with {placeholders} filled in.
+ */
+export function translate(
+  language: Language,
+  key: MessageKey,
+  params: Record<string, string | number> = {}
+): string {
+  const message = MESSAGES[language][key] ?? en[key];
+  return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+export function translateSeverity(language: Language, severity: AllergenSeverity): { label: string; description: string } {
+  return {
+    label: translate(language, `severity.${severity}`),
+    description: translate(language, `severity.${severity}.description`),
+  };
+}
+
+export function translateRestriction(
+  language: Language,
+  restriction: { name: string; description: string | null }
+): { name: string; description: string | null } {
+  if (language === 'en') return restriction;
+  const [name, description] = RESTRICTIONS[language][restriction.name] ?? [restriction.name, restriction.description];
+  return { name, description };
+}
+
+/**
+ * A dish's name and description in the guest's language, falling back to the English
+ * text field by field when the owner hasn't translated it.
+ */
+export function localizeDish(
+  dish: { name: string; description: string | null; translations?: { language: string; name: string; description: string | null }[] },
+  language: Language
+): { name: string; description: string | null } {
+  const translation = language === 'en' ? undefined : dish.translations?.find(t => t.language === language);
+  return {
+    name: translation?.name || dish.name,
+    description: translation?.description || dish.description,
+  };
+}
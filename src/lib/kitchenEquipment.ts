@@ -0,0 +1,125 @@
+import { supabase, Database, KitchenEquipmentKind } from './supabase';
+
+export type KitchenEquipment = Database['public']['Tables']['kitchen_equipment']['Row'];
+
+export const EQUIPMENT_KIND_LABELS: Record<KitchenEquipmentKind, string> = {
+  fryer: 'Fryer',
+  grill: 'Grill',
+  wok: 'Wok',
+  prep_station: 'Prep station',
+  other: 'Other',
+};
+
+export type StepEquipment = Pick<KitchenEquipment, 'id' | 'name' | 'exposed_allergens'>;
+
+// A cooking step with its equipment rows resolved from equipment_ids; see attachEquipment
+export interface CookingStepExposure {
+  cross_contact_risk: string[] | null;
+  equipment?: StepEquipment[];
+}
+
+/**
+ * Resolve each step's equipment_ids against the restaurant's equipment. Ids of
+ * equipment that no longer exists are skipped.
+ */
+export function attachEquipment<T extends { equipment_ids?: string[] | null }>(
+  steps: T[],
+  equipment: KitchenEquipment[]
+): (T & { equipment: KitchenEquipment[] })[] {
+  const byId = new Map(equipment.map(e => [e.id, e]));
+  return steps.map(step => ({
+    ...step,
+    equipment: (step.equipment_ids || [])
+      .map(id => byId.get(id))
+      .filter((e): e is KitchenEquipment => !!e),
+  }));
+}
+
+/**
+ * Every cross-contact risk of a step: the ones typed on the step, then the allergens
+ * its equipment is exposed to that the step doesn't already list.
+ */
+export function stepCrossContactRisks(step: CookingStepExposure): string[] {
+  const risks = [...(step.cross_contact_risk || [])];
+  for (const equipment of step.equipment || []) {
+    for (const allergen of equipment.exposed_allergens) {
+      if (!risks.some(r => r.toLowerCase() === allergen.toLowerCase())) risks.push(allergen);
+    }
+  }
+  return risks;
+}
+
+// Names of the step's equipment that carries this risk, for telling guests where it comes from
+export function equipmentExposedTo(step: CookingStepExposure, risk: string): string[] {
+  return (step.equipment || [])
+    .filter(e => e.exposed_allergens.some(a => a.toLowerCase() === risk.toLowerCase()))
+    .map(e => e.name);
+}
+
+export async function loadKitchenEquipment(
+  restaurantId: string
+): Promise<{ equipment: KitchenEquipment[]; error: string | null }> {
+  const { data, error } = await supabase
+    .from('kitchen_equipment')
+    .select('*')
+    .eq('restaurant_id', restaurantId)
+    .order('created_at');
+
+  if (error) return { equipment: [], error: error.message };
+  return { equipment: (data || []) as KitchenEquipment[], error: null };
+}
+
+export interface KitchenEquipmentFields {
+  name: string;
+  kind: KitchenEquipmentKind;
+  exposed_allergens: string[];
+}
+
+function equipmentError(error: { code?: string; message: string } | null, name: string, fallback: string): string {
+  // unique_violation on (restaurant_id, name)
+  if (error?.code === '23505') return `${name} already exists`;
+  return error?.message || fallback;
+}
+
+export async function addKitchenEquipment(
+  restaurantId: string,
+  fields: KitchenEquipmentFields
+): Promise<{ equipment: KitchenEquipment | null; error: string | null }> {
+  const name = fields.name.trim();
+  if (!name) return { equipment: null, error: 'Enter a name, e.g. Fryer 2' };
+
+  const { data, error } = await supabase
+    .from('kitchen_equipment')
+    .insert({ restaurant_id: restaurantId, ...fields, name })
+    .select('*')
+    .single();
+
+  if (error || !data) return { equipment: null, error: equipmentError(error, name, 'Could not add equipment') };
+  return { equipment: data as KitchenEquipment, error: null };
+}
+
+// The database records a revision of every dish using the equipment and, for new
+// allergens, flags published dishes so returning guests are warned
+export async function updateKitchenEquipment(
+  equipmentId: string,
+  fields: KitchenEquipmentFields
+): Promise<{ equipment: KitchenEquipment | null; error: string | null }> {
+  const name = fields.name.trim();
+  if (!name) return { equipment: null, error: 'Enter a name, e.g. Fryer 2' };
+
+  const { data, error } = await supabase
+    .from('kitchen_equipment')
+    .update({ ...fields, name })
+    .eq('id', equipmentId)
+    .select('*')
+    .single();
+
+  if (error || !data) return { equipment: null, error: equipmentError(error, name, 'Could not save equipment') };
+  return { equipment: data as KitchenEquipment, error: null };
+}
+
+// The database takes the equipment off every cooking step that used it
+export async function deleteKitchenEquipment(equipmentId: string): Promise<{ error: string | null }> {
+  const { error } = await supabase.from('kitchen_equipment').delete().eq('id', equipmentId);
+  return { error: error?.message ?? null };
+}
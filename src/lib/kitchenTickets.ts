@@ -0,0 +1,142 @@
+import { supabase, Database } from './supabase';
+import { ChefRequest } from './chefRequests';
+import { CustomerAllergenProfile, CustomerRestriction, resolveCustomerAllergens } from './customerProfile';
+import { loadMenuGraph, MenuGraphItem } from './menuGraph';
+import { analyzeDishSafety, describeSafetyMessage, SafetyStatus } from './safetyAnalysis';
+import { getDietaryStyles } from './dietaryStyles';
+
+type CustomerProfile = Database['public']['Tables']['customer_profiles']['Row'];
+
+export interface KitchenTicketStep {
+  stepNumber: number;
+  description: string;
+  // cooking_steps.modification_notes, exactly as the owner entered them
+  notes: string;
+}
+
+// One allergy order on the kitchen display: a chef request that hasn't been marked prepared
+export interface KitchenTicket {
+  request: ChefRequest;
+  dishName: string;
+  tableLabel: string | null;
+  restrictions: CustomerRestriction[];
+  // What the guest asked for, then the removals and swaps of the guest's modification plan
+  substitutions: string[];
+  note: string | null;
+  // Cooking steps that have to be done differently for this guest's allergens
+  modifiedSteps: KitchenTicketStep[];
+  status: SafetyStatus | null;
+  anaphylaxisWarnings: string[];
+  crossContactRisks: string[];
+}
+
+interface ChefRequestWithProfile extends ChefRequest {
+  customer_profile: (CustomerProfile & { table: { label: string } | null }) | null;
+}
+
+function requestedChanges(request: ChefRequest): string[] {
+  const modifications = request.modifications;
+  if (!modifications) return [];
+
+  return [
+    ...modifications.remove.map(r => `Remove ${r.name}`),
+    ...modifications.substitute.map(s =>
+      s.substitute_name ? `Swap ${s.name} for ${s.substitute_name}` : `Swap ${s.name} (chef's choice)`
+    ),
+  ];
+}
+
+function buildKitchenTicket(
+  request: ChefRequestWithProfile,
+  dish: MenuGraphItem | undefined,
+  allergenProfile: CustomerAllergenProfile | null
+): KitchenTicket {
+  const substitutions = requestedChanges(request);
+  const ticket: KitchenTicket = {
+    request,
+    dishName: dish?.name || 'Dish no longer on the menu',
+    // Requests sent without a table fall back to the table the guest's QR code seated them at
+    tableLabel: request.table_label || request.customer_profile?.table?.label || null,
+    restrictions: allergenProfile?.restrictions || [],
+    substitutions,
+    // Requests sent before modifications was stored only have the free-text summary
+    note: request.modifications ? request.modifications.note || null : request.request_details,
+    modifiedSteps: [],
+    status: null,
+    anaphylaxisWarnings: [],
+    crossContactRisks: [],
+  };
+
+  if (!dish || !allergenProfile) return ticket;
+
+  const analysis = analyzeDishSafety(dish, dish.ingredients, dish.cookingSteps, allergenProfile.allergens, {
+    severities: allergenProfile.severities,
+    dietaryStyles: getDietaryStyles(allergenProfile.restrictions),
+  });
+
+  // The plan the guest's order card shows, so the kitchen makes exactly that. Step
+  // changes are listed with their step numbers below, not as substitutions.
+  const plan = analysis.modificationPlan || [];
+  for (const change of plan) {
+    if (change.kind === 'modify-step') continue;
+    const text = change.kind === 'remove'
+      ? `Remove ${change.ingredient}`
+      : `Swap ${change.ingredient} for ${change.substitute}`;
+    if (!substitutions.some(s => s.toLowerCase() === text.toLowerCase())) {
+      substitutions.push(text);
+    }
+  }
+
+  return {
+    ...ticket,
+    modifiedSteps: plan.flatMap(change =>
+      change.kind === 'modify-step'
+        ? [{ stepNumber: change.stepNumber, description: change.description, notes: change.notes || 'Ask the chef for details' }]
+        : []
+    ),
+    status: analysis.status,
+    anaphylaxisWarnings: (analysis.anaphylaxisWarnings || []).map(m => describeSafetyMessage('en', m)),
+    crossContactRisks: (analysis.crossContactRisks || []).map(m => describeSafetyMessage('en', m)),
+  };
+}
+
+/**
+ * Open allergy orders for the kitchen display, oldest first: pending and approved chef
+ * requests that haven't been marked prepared. Declined requests never reach the line.
+ */
+export async function loadKitchenTickets(
+  restaurantId: string
+): Promise<{ tickets: KitchenTicket[]; error: string | null }> {
+  const { data, error } = await supabase
+    .from('chef_requests')
+    .select('*, customer_profile:customer_profiles(*, table:restaurant_tables(label))')
+    .eq('restaurant_id', restaurantId)
+    .in('status', ['pending', 'approved'])
+    .is('prepared_at', null)
+    .order('created_at', { ascending: true });
+
+  if (error) return { tickets: [], error: error.message };
+
+  const { items, error: menuError } = await loadMenuGraph(restaurantId);
+  if (menuError) return { tickets: [], error: menuError };
+
+  const requests = (data || []) as ChefRequestWithProfile[];
+
+  // A table often orders several dishes for the same guest; resolve each profile once
+  const allergenProfiles = new Map<string, CustomerAllergenProfile>();
+
+  try {
+    const tickets: KitchenTicket[] = [];
+    for (const request of requests) {
+      const profile = request.customer_profile;
+      if (profile && !allergenProfiles.has(profile.id)) {
+        allergenProfiles.set(profile.id, await resolveCustomerAllergens(profile));
+      }
+      const dish = items.find(item => item.id === request.menu_item_id);
+      tickets.push(buildKitchenTicket(request, dish, profile ? allergenProfiles.get(profile.id) ?? null : null));
+    }
+    return { tickets, error: null };
+  } catch (err) {
+    return { tickets: [], error: err instanceof Error ? err.message : String(err) };
+  }
+}
@@ -0,0 +1,167 @@
+import { supabase, Database, WeightUnit } from './supabase';
+import { attachEquipment, KitchenEquipment, loadKitchenEquipment } from './kitchenEquipment';
+
+type MenuItem = Database['public']['Tables']['menu_items']['Row'];
+type Ingredient = Database['public']['Tables']['ingredients']['Row'];
+type MenuItemIngredient = Database['public']['Tables']['menu_item_ingredients']['Row'];
+type CookingStep = Database['public']['Tables']['cooking_steps']['Row'];
+type MenuItemTranslation = Database['public']['Tables']['menu_item_translations']['Row'];
+
+export type MenuGraphTranslation = Pick<MenuItemTranslation, 'language' | 'name' | 'description'>;
+
+export interface MenuGraphSubstitute {
+  id: string;
+  name: string;
+  allergens: string[];
+}
+
+// The ingredient row plus how this dish uses it; id is the ingredient's id
+export interface MenuGraphIngredient extends Ingredient {
+  menuItemIngredientId: string;
+  amount_value: number | null;
+  amount_unit: WeightUnit | null;
+  is_removable: boolean;
+  is_substitutable: boolean;
+  substitutes: MenuGraphSubstitute[];
+}
+
+// The step row plus the equipment its equipment_ids point at
+export interface MenuGraphCookingStep extends CookingStep {
+  equipment: KitchenEquipment[];
+}
+
+export interface MenuGraphItem extends MenuItem {
+  photo_url?: string | null;
+  ingredients: MenuGraphIngredient[];
+  cookingSteps: MenuGraphCookingStep[];
+  // Owner-written names and descriptions in languages other than English
+  translations: MenuGraphTranslation[];
+}
+
+// Shape of the nested select below
+interface MenuGraphRow extends MenuItem {
+  menu_item_ingredients: (MenuItemIngredient & {
+    ingredient: Ingredient | null;
+    ingredient_substitutes: {
+      substitute_ingredient_id: string;
+      created_at: string;
+      substitute: Pick<Ingredient, 'id' | 'name' | 'contains_allergens'> | null;
+    }[];
+  })[];
+  cooking_steps: CookingStep[];
+  menu_item_translations: MenuGraphTranslation[];
+}
+
+const MENU_GRAPH_SELECT = `
+  *,
+  menu_item_ingredients (
+    *,
+    ingredient:ingredients (*),
+    ingredient_substitutes (
+      substitute_ingredient_id,
+      created_at,
+      substitute:ingredients (id, name, contains_allergens)
+    )
+  ),
+  cooking_steps (*),
+  menu_item_translations (language, name, description)
+`;
+
+// Guests keep a menu open for a whole meal, so owner edits made elsewhere show up
+// after this long even without an invalidation
+const CACHE_MAX_AGE_MS = 60 * 1000;
+
+interface CacheEntry {
+  loadedAt: number;
+  result: Promise<{ items: MenuGraphItem[]; error: string | null }>;
+}
+
+const cache = new Map<string, CacheEntry>();
+
+function byCreatedAt(a: { created_at: string }, b: { created_at: string }): number {
+  return a.created_at.localeCompare(b.created_at);
+}
+
+function toMenuGraphItem(
+  { menu_item_ingredients, cooking_steps, menu_item_translations, ...item }: MenuGraphRow,
+  equipment: KitchenEquipment[]
+): MenuGraphItem {
+  const ingredients = [...(menu_item_ingredients || [])]
+    .sort(byCreatedAt)
+    .filter(mii => mii.ingredient)
+    .map(mii => ({
+      ...(mii.ingredient as Ingredient),
+      contains_allergens: mii.ingredient?.contains_allergens || [],
+      menuItemIngredientId: mii.id,
+      amount_value: mii.amount_value,
+      amount_unit: mii.amount_unit,
+      is_removable: mii.is_removable || false,
+      is_substitutable: mii.is_substitutable || false,
+      substitutes: [...(mii.ingredient_substitutes || [])]
+        .sort(byCreatedAt)
+        .map(s => ({
+          id: s.substitute_ingredient_id,
+          name: s.substitute?.name || '',
+          allergens: s.substitute?.contains_allergens || [],
+        })),
+    }));
+
+  return {
+    ...item,
+    ingredients,
+    cookingSteps: attachEquipment([...(cooking_steps || [])].sort((a, b) => a.step_number - b.step_number), equipment),
+    translations: menu_item_translations || [],
+  };
+}
+
+async function fetchMenuGraph(restaurantId: string): Promise<{ items: MenuGraphItem[]; error: string | null }> {
+  // Equipment is shared between dishes, so it's loaded once rather than per step
+  const [{ data, error }, { equipment, error: equipmentError }] = await Promise.all([
+    supabase
+      .from('menu_items')
+      .select(MENU_GRAPH_SELECT)
+      .eq('restaurant_id', restaurantId)
+      .order('category')
+      .order('created_at'),
+    loadKitchenEquipment(restaurantId),
+  ]);
+
+  if (error) return { items: [], error: error.message };
+  if (equipmentError) return { items: [], error: equipmentError };
+  return { items: ((data || []) as MenuGraphRow[]).map(row => toMenuGraphItem(row, equipment)), error: null };
+}
+
+/**
+ * Every dish of a restaurant with its ingredients, substitutes, cooking steps (with
+ * their kitchen equipment) and translations, loaded together and cached per
+ * restaurant. Dishes come ordered by category, then creation; ingredients in the order
+ * they were added and steps by step number.
+ */
+export async function loadMenuGraph(
+  restaurantId: string,
+  options: { activeOnly?: boolean; refresh?: boolean } = {}
+): Promise<{ items: MenuGraphItem[]; error: string | null }> {
+  let entry = cache.get(restaurantId);
+
+  if (!entry || options.refresh || Date.now() - entry.loadedAt > CACHE_MAX_AGE_MS) {
+    const created: CacheEntry = { loadedAt: Date.now(), result: fetchMenuGraph(restaurantId) };
+    cache.set(restaurantId, created);
+    // Don't keep serving a failed load
+    created.result.then(({ error }) => {
+      if (error && cache.get(restaurantId) === created) cache.delete(restaurantId);
+    });
+    entry = created;
+  }
+
+  const { items, error } = await entry.result;
+  return { items: options.activeOnly ? items.filter(item => item.is_active) : items, error };
+}
+
+// Call after writing a dish, its ingredients, steps or kitchen equipment; without an id every restaurant is dropped
+export function invalidateMenuGraph(restaurantId?: string): void {
+  if (restaurantId) {
+    cache.delete(restaurantId);
+  } else {
+    cache.clear();
+  }
+}
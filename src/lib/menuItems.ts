@@ -0,0 +1,377 @@
+import { supabase, Database, MenuItemSnapshot, WeightUnit, formatAmount } from './supabase';
+import { normalizeAmount } from './units';
+import { invalidateMenuGraph } from './menuGraph';
+import { attachEquipment, KitchenEquipment, stepCrossContactRisks, StepEquipment } from './kitchenEquipment';
+
+type MenuItemUpdate = Database['public']['Tables']['menu_items']['Update'];
+export type MenuItemRevision = Database['public']['Tables']['menu_item_revisions']['Row'];
+export type MenuItemTranslation = Database['public']['Tables']['menu_item_translations']['Row'];
+
+// Columns save_menu_item writes; on update, omitted columns keep their stored value
+export type MenuItemFields = Omit<
+  MenuItemUpdate,
+  'id' | 'restaurant_id' | 'created_at' | 'updated_at' | 'allergens_changed_at' | 'allergens_added'
+> & {
+  photo_url?: string | null;
+};
+
+export interface MenuItemSubstituteInput {
+  // Omitted for new ingredients; they are matched by name or created
+  ingredientId?: string;
+  name: string;
+  allergens: string[];
+}
+
+export interface MenuItemIngredientInput {
+  ingredientId?: string;
+  name: string;
+  allergens: string[];
+  amountValue: number | null;
+  amountUnit: WeightUnit | null;
+  isRemovable: boolean;
+  isSubstitutable: boolean;
+  substitutes: MenuItemSubstituteInput[];
+}
+
+export interface MenuItemStepInput {
+  step_number: number;
+  description: string;
+  cross_contact_risk: string[];
+  is_modifiable: boolean;
+  modifiable_allergens: string[];
+  modification_notes: string | null;
+  // Kitchen equipment the step uses; its allergens add to cross_contact_risk
+  equipment_ids: string[];
+}
+
+export interface MenuItemGraph {
+  item: MenuItemFields;
+  ingredients: MenuItemIngredientInput[];
+  steps: MenuItemStepInput[];
+}
+
+/**
+ * Save a dish with its ingredients, substitutes and cooking steps in one transaction
+ * (the save_menu_item RPC). Creates the item when menuItemId is null, otherwise replaces
+ * its ingredients and steps. Blank ingredients and steps are dropped before sending.
+ */
+export async function saveMenuItem(
+  restaurantId: string,
+  menuItemId: string | null,
+  { item, ingredients, steps }: MenuItemGraph
+): Promise<{ menuItemId: string | null; error: string | null }> {
+  const ingredientRows = ingredients
+    .filter(ing => ing.name.trim())
+    .map(ing => {
+      const amount = normalizeAmount(ing.amountValue, ing.amountUnit);
+      return {
+        ingredient_id: ing.ingredientId ?? null,
+        name: ing.name.trim(),
+        allergens: ing.allergens,
+        amount_value: amount.value,
+        amount_unit: amount.unit,
+        is_removable: ing.isRemovable,
+        is_substitutable: ing.isSubstitutable,
+        substitutes: ing.substitutes
+          .filter(sub => sub.name.trim())
+          .map(sub => ({
+            ingredient_id: sub.ingredientId ?? null,
+            name: sub.name.trim(),
+            allergens: sub.allergens,
+          })),
+      };
+    });
+
+  const stepRows = steps
+    .filter(step => step.description.trim())
+    .map(step => ({ ...step, description: step.description.trim() }));
+
+  const { data, error } = await supabase.rpc('save_menu_item', {
+    p_restaurant_id: restaurantId,
+    p_menu_item_id: menuItemId,
+    p_item: item,
+    p_ingredients: ingredientRows,
+    p_steps: stepRows,
+  });
+
+  if (error) return { menuItemId: null, error: error.message };
+  invalidateMenuGraph(restaurantId);
+  return { menuItemId: data as string, error: null };
+}
+
+/**
+ * Every allergen a guest is exposed to when ordering the dish unmodified: ingredients,
+ * cross-contact risks from the cooking steps and their equipment, and allergens named
+ * in the description. Mirrors menu_item_allergens() in the database.
+ */
+export function collectDishAllergens(
+  descriptionAllergens: string[],
+  ingredients: { name: string; allergens: string[] }[],
+  steps: { description: string; cross_contact_risk: string[]; equipment?: StepEquipment[] }[]
+): string[] {
+  const allergens = new Set(descriptionAllergens);
+  ingredients.filter(ing => ing.name.trim()).forEach(ing => ing.allergens.forEach(a => allergens.add(a)));
+  steps.filter(step => step.description.trim()).forEach(step => stepCrossContactRisks(step).forEach(a => allergens.add(a)));
+  return [...allergens].sort();
+}
+
+/**
+ * Allergens that saving the graph would add to a dish guests can already see. Empty for
+ * new and hidden dishes. save_menu_item stamps the dish on its own; this is for asking
+ * the owner first.
+ */
+export async function findAddedAllergens(
+  menuItemId: string,
+  { item, ingredients, steps }: MenuItemGraph
+): Promise<{ added: string[]; error: string | null }> {
+  const { data, error } = await supabase.rpc('menu_item_snapshot', { p_menu_item_id: menuItemId });
+
+  if (error) return { added: [], error: error.message };
+  const current = data as MenuItemSnapshot | null;
+  if (!current || !current.item.is_active) return { added: [], error: null };
+
+  // Equipment of the stored steps and of the edited ones
+  const equipmentIds = [...new Set([...current.steps, ...steps].flatMap(step => step.equipment_ids || []))];
+  let equipment: KitchenEquipment[] = [];
+  if (equipmentIds.length > 0) {
+    const { data: equipmentData, error: equipmentError } = await supabase
+      .from('kitchen_equipment')
+      .select('*')
+      .in('id', equipmentIds);
+    if (equipmentError) return { added: [], error: equipmentError.message };
+    equipment = (equipmentData || []) as KitchenEquipment[];
+  }
+
+  const before = collectDishAllergens(
+    current.item.description_allergens,
+    current.ingredients,
+    attachEquipment(current.steps, equipment)
+  );
+  // Omitted description allergens keep their stored value
+  const after = collectDishAllergens(
+    item.description_allergens ?? current.item.description_allergens,
+    ingredients,
+    attachEquipment(steps, equipment)
+  );
+
+  return { added: after.filter(a => !before.includes(a)), error: null };
+}
+
+// Confirmation shown to the owner before saving a published dish that gains allergens
+export function addedAllergensWarning(dishName: string, added: string[]): string {
+  return `Saving adds ${added.join(', ')} to "${dishName}", which guests can already see on your menu. `
+    + 'The dish will be marked as changed, and guests whose allergy profile includes these allergens '
+    + 'will be told the recipe changed since their last visit. Save anyway?';
+}
+
+// Newest first
+export async function loadMenuItemRevisions(
+  menuItemId: string
+): Promise<{ revisions: MenuItemRevision[]; error: string | null }> {
+  const { data, error } = await supabase
+    .from('menu_item_revisions')
+    .select('*')
+    .eq('menu_item_id', menuItemId)
+    .order('revision_number', { ascending: false });
+
+  if (error) return { revisions: [], error: error.message };
+  return { revisions: (data || []) as MenuItemRevision[], error: null };
+}
+
+// Saves the revision's snapshot as the dish's newest version (recorded as a 'restore' revision)
+export async function restoreMenuItemRevision(
+  revisionId: string
+): Promise<{ menuItemId: string | null; error: string | null }> {
+  const { data, error } = await supabase.rpc('restore_menu_item_revision', {
+    p_revision_id: revisionId,
+  });
+
+  if (error) return { menuItemId: null, error: error.message };
+  invalidateMenuGraph();
+  return { menuItemId: data as string, error: null };
+}
+
+export async function loadMenuItemTranslations(
+  menuItemId: string
+): Promise<{ translations: MenuItemTranslation[]; error: string | null }> {
+  const { data, error } = await supabase
+    .from('menu_item_translations')
+    .select('*')
+    .eq('menu_item_id', menuItemId);
+
+  if (error) return { translations: [], error: error.message };
+  return { translations: (data || []) as MenuItemTranslation[], error: null };
+}
+
+/**
+ * Replace a dish's translations. Languages without a name are removed, so clearing
+ * the fields falls the dish back to its English text.
+ */
+export async function saveMenuItemTranslations(
+  menuItem: { id: string; restaurant_id: string },
+  translations: { language: string; name: string; description: string }[]
+): Promise<{ error: string | null }> {
+  const kept = translations
+    .map(t => ({ language: t.language, name: t.name.trim(), description: t.description.trim() || null }))
+    .filter(t => t.name);
+  const removed = translations.filter(t => !t.name.trim()).map(t => t.language);
+
+  if (kept.length > 0) {
+    const { error } = await supabase
+      .from('menu_item_translations')
+      .upsert(kept.map(t => ({ ...t, menu_item_id: menuItem.id })), { onConflict: 'menu_item_id,language' });
+    if (error) return { error: error.message };
+  }
+
+  if (removed.length > 0) {
+    const { error } = await supabase
+      .from('menu_item_translations')
+      .delete()
+      .eq('menu_item_id', menuItem.id)
+      .in('language', removed);
+    if (error) return { error: error.message };
+  }
+
+  invalidateMenuGraph(menuItem.restaurant_id);
+  return { error: null };
+}
+
+export interface MenuItemChange {
+  section: 'dish' | 'ingredient' | 'step';
+  // What changed, e.g. "Price" or "Parmesan: allergens"
+  label: string;
+  kind: 'added' | 'removed' | 'changed';
+  before: string | null;
+  after: string | null;
+}
+
+const DISH_FIELDS: { key: keyof MenuItemSnapshot['item']; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'description', label: 'Description' },
+  { key: 'description_allergens', label: 'Allergens in description' },
+  { key: 'category', label: 'Category' },
+  { key: 'price', label: 'Price' },
+  { key: 'preparation', label: 'Preparation' },
+  { key: 'is_active', label: 'Shown on menu' },
+  { key: 'calories', label: 'Calories' },
+  { key: 'protein_g', label: 'Protein (g)' },
+  { key: 'carbs_g', label: 'Carbs (g)' },
+  { key: 'fat_g', label: 'Fat (g)' },
+  { key: 'sodium_mg', label: 'Sodium (mg)' },
+  { key: 'cholesterol_mg', label: 'Cholesterol (mg)' },
+];
+
+function formatValue(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : null;
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+}
+
+function pushIfChanged(changes: MenuItemChange[], section: MenuItemChange['section'], label: string, before: unknown, after: unknown) {
+  const beforeText = formatValue(before);
+  const afterText = formatValue(after);
+  if (beforeText !== afterText) {
+    changes.push({ section, label, kind: 'changed', before: beforeText, after: afterText });
+  }
+}
+
+type SnapshotIngredient = MenuItemSnapshot['ingredients'][number];
+type SnapshotStep = MenuItemSnapshot['steps'][number];
+
+function describeIngredient(ing: SnapshotIngredient): string {
+  const parts = [formatAmount(ing.amount_value, ing.amount_unit)];
+  parts.push(ing.allergens.length > 0 ? `contains ${ing.allergens.join(', ')}` : 'no allergens');
+  if (ing.is_removable) parts.push('removable');
+  if (ing.is_substitutable) parts.push('substitutable');
+  return parts.filter(Boolean).join(' · ');
+}
+
+function describeStep(step: SnapshotStep): string {
+  return step.cross_contact_risk.length > 0
+    ? `${step.description} (cross-contact: ${step.cross_contact_risk.join(', ')})`
+    : step.description;
+}
+
+// A step's equipment with what each piece was exposed to at the time. Older snapshots
+// only have ids, which are named from the current equipment.
+function describeStepEquipment(step: SnapshotStep, equipmentNames: Record<string, string>): string[] {
+  if (step.equipment) {
+    return step.equipment.map(e =>
+      e.exposed_allergens.length > 0 ? `${e.name} (${[...e.exposed_allergens].sort().join(', ')})` : e.name
+    );
+  }
+  return (step.equipment_ids || []).map(id => equipmentNames[id] ?? 'Deleted equipment');
+}
+
+/**
+ * Everything that differs between two snapshots of the same dish. Ingredients are
+ * matched by name and steps by step number. equipmentNames maps kitchen equipment ids
+ * to names for snapshots saved before they recorded the equipment itself; equipment
+ * deleted since shows as such.
+ */
+export function diffMenuItemSnapshots(
+  before: MenuItemSnapshot,
+  after: MenuItemSnapshot,
+  equipmentNames: Record<string, string> = {}
+): MenuItemChange[] {
+  const changes: MenuItemChange[] = [];
+
+  for (const { key, label } of DISH_FIELDS) {
+    pushIfChanged(changes, 'dish', label, before.item[key], after.item[key]);
+  }
+
+  const beforeIngredients = new Map(before.ingredients.map(ing => [ing.name.toLowerCase(), ing]));
+  const afterIngredients = new Map(after.ingredients.map(ing => [ing.name.toLowerCase(), ing]));
+
+  for (const [key, ing] of beforeIngredients) {
+    if (!afterIngredients.has(key)) {
+      changes.push({ section: 'ingredient', label: ing.name, kind: 'removed', before: describeIngredient(ing), after: null });
+    }
+  }
+  for (const [key, ing] of afterIngredients) {
+    const old = beforeIngredients.get(key);
+    if (!old) {
+      changes.push({ section: 'ingredient', label: ing.name, kind: 'added', before: null, after: describeIngredient(ing) });
+      continue;
+    }
+    pushIfChanged(changes, 'ingredient', `${ing.name}: allergens`, [...old.allergens].sort(), [...ing.allergens].sort());
+    pushIfChanged(
+      changes, 'ingredient', `${ing.name}: amount`,
+      formatAmount(old.amount_value, old.amount_unit), formatAmount(ing.amount_value, ing.amount_unit)
+    );
+    pushIfChanged(changes, 'ingredient', `${ing.name}: removable`, old.is_removable, ing.is_removable);
+    pushIfChanged(changes, 'ingredient', `${ing.name}: substitutable`, old.is_substitutable, ing.is_substitutable);
+    pushIfChanged(
+      changes, 'ingredient', `${ing.name}: substitutes`,
+      old.substitutes.map(sub => sub.name), ing.substitutes.map(sub => sub.name)
+    );
+  }
+
+  const beforeSteps = new Map(before.steps.map(step => [step.step_number, step]));
+  const afterSteps = new Map(after.steps.map(step => [step.step_number, step]));
+
+  for (const [number, step] of beforeSteps) {
+    if (!afterSteps.has(number)) {
+      changes.push({ section: 'step', label: `Step ${number}`, kind: 'removed', before: describeStep(step), after: null });
+    }
+  }
+  for (const [number, step] of afterSteps) {
+    const old = beforeSteps.get(number);
+    if (!old) {
+      changes.push({ section: 'step', label: `Step ${number}`, kind: 'added', before: null, after: describeStep(step) });
+      continue;
+    }
+    pushIfChanged(changes, 'step', `Step ${number}`, old.description, step.description);
+    pushIfChanged(changes, 'step', `Step ${number}: cross-contact`, old.cross_contact_risk, step.cross_contact_risk);
+    pushIfChanged(changes, 'step', `Step ${number}: avoidable allergens`, old.modifiable_allergens, step.modifiable_allergens);
+    pushIfChanged(changes, 'step', `Step ${number}: modification notes`, old.modification_notes, step.modification_notes);
+    pushIfChanged(
+      changes, 'step', `Step ${number}: equipment`,
+      describeStepEquipment(old, equipmentNames),
+      describeStepEquipment(step, equipmentNames)
+    );
+  }
+
+  return changes;
+}
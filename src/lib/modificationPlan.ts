@@ -0,0 +1,262 @@
+// Turns a "safe with modifications" verdict into one concrete order: which ingredients
+// to leave out, which substitute to ask for, and which cooking steps to change. The
+// plan is checked as a whole, so a substitute that brings its own allergen (or breaks a
+// dietary style) is never picked.
+
+import { matchAllergen, matchesAllergen } from './allergenOntology';
+import {
+  DIETARY_STYLE_RULES,
+  DietaryDish,
+  DietaryIngredient,
+  DietaryStyle,
+  evaluateDietaryStyle,
+} from './dietaryStyles';
+import { CookingStepExposure, stepCrossContactRisks } from './kitchenEquipment';
+
+export type ModificationChange =
+  | { kind: 'remove'; ingredient: string }
+  // alternatives: other substitutes that would work just as well in this plan
+  | { kind: 'substitute'; ingredient: string; substitute: string; alternatives: string[] }
+  | { kind: 'modify-step'; stepNumber: number; description: string; notes: string | null };
+
+export interface ModificationPlanResult {
+  // null when no combination of changes makes the dish safe
+  plan: ModificationChange[] | null;
+  // Why there is no plan
+  blockers: string[];
+}
+
+interface SubstituteSource {
+  name: string;
+  allergens: string[];
+}
+
+interface IngredientSource {
+  id: string;
+  name: string;
+  contains_allergens: string[];
+  is_removable?: boolean;
+  is_substitutable?: boolean;
+  substitutes?: SubstituteSource[];
+}
+
+interface CookingStepSource extends CookingStepExposure {
+  id: string;
+  step_number: number;
+  description: string;
+  is_modifiable: boolean;
+  modifiable_allergens?: string[] | null;
+  modification_notes?: string | null;
+}
+
+interface DishSource {
+  modification_policy?: string | null;
+}
+
+// Options tried before giving up, so a dish with many substitutable ingredients stays cheap
+const MAX_COMBINATIONS = 256;
+
+// Older dishes describe their flexibility in free text instead of per-ingredient flags
+export function allowsRemovalByPolicy(policy: string | null | undefined): boolean {
+  const text = (policy || '').toLowerCase();
+  return text.includes('remove') || text.includes('optional') || text.includes('substitute');
+}
+
+function matchesCustomerAllergen(text: string, allergens: string[]): boolean {
+  return allergens.some(allergen => matchAllergen(text, allergen) !== null);
+}
+
+/**
+ * Whether an ingredient (or substitute) is safe to have on the plate by itself. Any
+ * match counts here, partial ones included: a substitute has to be clearly safe.
+ * analyzeDishSafety uses the same check, so its evidence names the substitutes the plan can pick.
+ */
+export function isClearOf(name: string, tags: string[], allergens: string[], styles: DietaryStyle[]): boolean {
+  if (matchesCustomerAllergen(name, allergens)) return false;
+  if (tags.some(tag => matchesCustomerAllergen(tag, allergens))) return false;
+
+  const alone: DietaryDish = {
+    ingredients: [{ name, allergens: tags, modifiable: false }],
+    descriptionAllergens: [],
+    crossContactRisks: [],
+    modifiableCrossContactRisks: [],
+  };
+  return styles.every(style => evaluateDietaryStyle(style, alone).violations.length === 0);
+}
+
+/**
+ * The fewest changes that make the dish safe for these allergens and dietary styles:
+ * each ingredient that has to go is removed where the kitchen allows it and otherwise
+ * swapped for a safe substitute, and each cooking step with a matching cross-contact
+ * risk is modified. Substitutes are cooked through the same steps, so they're only safe
+ * once those steps are modified too; the plan is rejected if any risk is left.
+ */
+export function solveModificationPlan(
+  menuItem: DishSource,
+  ingredients: IngredientSource[],
+  cookingSteps: CookingStepSource[],
+  customerAllergens: string[],
+  dietaryStyles: DietaryStyle[] = []
+): ModificationPlanResult {
+  const allergens = customerAllergens.map(a => a.toLowerCase().trim());
+  const blockers: string[] = [];
+  const policyRemovable = allowsRemovalByPolicy(menuItem.modification_policy);
+
+  // Ingredients that can't stay on the plate as they are
+  const mustChange = new Set<IngredientSource>();
+  for (const ing of ingredients) {
+    const nameMatch = allergens.some(a => matchAllergen(ing.name, a) === 'high');
+    const tagMatch = ing.contains_allergens.some(tag => allergens.some(a => matchesAllergen(tag, a)));
+    if (nameMatch || tagMatch) mustChange.add(ing);
+  }
+
+  const currentDish: DietaryDish = {
+    ingredients: ingredients.map(ing => ({
+      name: ing.name,
+      allergens: ing.contains_allergens,
+      modifiable: !!(ing.is_removable || ing.is_substitutable),
+    })),
+    descriptionAllergens: [],
+    crossContactRisks: [],
+    modifiableCrossContactRisks: [],
+  };
+  for (const style of dietaryStyles) {
+    for (const violation of evaluateDietaryStyle(style, currentDish).violations) {
+      // Kosher meat-with-dairy lists the side to take off; other classes name one ingredient
+      const names = violation.ingredientClass === 'meat-with-dairy' ? violation.fixableBy : [violation.sourceLabel];
+      for (const ing of ingredients) {
+        if (names.includes(ing.name)) mustChange.add(ing);
+      }
+    }
+  }
+
+  // Every way to change each ingredient, the simplest first
+  const options: ModificationChange[][] = [];
+  for (const ing of mustChange) {
+    const ingOptions: ModificationChange[] = [];
+    if (ing.is_removable || (!ing.is_substitutable && policyRemovable)) {
+      ingOptions.push({ kind: 'remove', ingredient: ing.name });
+    }
+    if (ing.is_substitutable) {
+      for (const sub of ing.substitutes || []) {
+        if (isClearOf(sub.name, sub.allergens, allergens, dietaryStyles)) {
+          ingOptions.push({ kind: 'substitute', ingredient: ing.name, substitute: sub.name, alternatives: [] });
+        }
+      }
+    }
+
+    if (ingOptions.length === 0) {
+      blockers.push(
+        ing.is_substitutable && (ing.substitutes || []).length > 0
+          ? `No safe substitute for ${ing.name}`
+          : `${ing.name} can't be left out or substituted`
+      );
+    }
+    options.push(ingOptions);
+  }
+
+  const stepChanges: ModificationChange[] = [];
+  for (const step of cookingSteps) {
+    const modifiableAllergens = step.modifiable_allergens || [];
+    let needsChange = false;
+
+    for (const risk of stepCrossContactRisks(step)) {
+      const allergenRisks = allergens.filter(a => matchAllergen(risk, a) !== null);
+      const styleRisk = dietaryStyles.some(style =>
+        evaluateDietaryStyle(style, { ...currentDish, ingredients: [], crossContactRisks: [risk] }).violations.length > 0
+      );
+      if (allergenRisks.length === 0 && !styleRisk) continue;
+
+      // Same reading of modifiable_allergens as analyzeDishSafety and toDietaryDish
+      const covered = step.is_modifiable && allergenRisks.every(a => modifiableAllergens.some(ma => matchesAllergen(ma, a))) && (
+        !styleRisk || modifiableAllergens.length === 0 || modifiableAllergens.some(ma => ma.toLowerCase() === risk.toLowerCase())
+      );
+      if (!covered) {
+        blockers.push(`Step ${step.step_number} can't be changed to avoid ${risk}`);
+      }
+      needsChange = true;
+    }
+
+    if (needsChange) {
+      stepChanges.push({
+        kind: 'modify-step',
+        stepNumber: step.step_number,
+        description: step.description,
+        notes: step.modification_notes || null,
+      });
+    }
+  }
+
+  if (blockers.length > 0) return { plan: null, blockers };
+
+  // The plate after a set of ingredient changes, checked as one dish so substitutes
+  // can't reintroduce a problem between them (kosher meat with dairy)
+  const plateIsSafe = (choice: ModificationChange[]): boolean => {
+    const plate: DietaryIngredient[] = [];
+    for (const ing of ingredients) {
+      const change = choice.find(c => c.kind !== 'modify-step' && c.ingredient === ing.name);
+      if (change?.kind === 'remove') continue;
+      if (change?.kind === 'substitute') {
+        const sub = (ing.substitutes || []).find(s => s.name === change.substitute);
+        plate.push({ name: change.substitute, allergens: sub?.allergens || [], modifiable: false });
+        continue;
+      }
+      plate.push({ name: ing.name, allergens: ing.contains_allergens, modifiable: false });
+    }
+
+    if (plate.some(ing => matchesCustomerAllergen(ing.name, allergens) || ing.allergens.some(tag => matchesCustomerAllergen(tag, allergens)))) {
+      return false;
+    }
+    const dish: DietaryDish = { ingredients: plate, descriptionAllergens: [], crossContactRisks: [], modifiableCrossContactRisks: [] };
+    return dietaryStyles.every(style => evaluateDietaryStyle(style, dish).violations.length === 0);
+  };
+
+  // Depth-first over the options, simplest first, so the first safe plate is the plan
+  let tried = 0;
+  const search = (index: number, chosen: ModificationChange[]): ModificationChange[] | null => {
+    if (index === options.length) {
+      tried++;
+      return plateIsSafe(chosen) ? chosen : null;
+    }
+    for (const option of options[index]) {
+      if (tried >= MAX_COMBINATIONS) return null;
+      const found = search(index + 1, [...chosen, option]);
+      if (found) return found;
+    }
+    return null;
+  };
+
+  const ingredientChanges = search(0, []);
+  if (!ingredientChanges) {
+    const styleLabels = dietaryStyles.map(style => DIETARY_STYLE_RULES[style].label.toLowerCase());
+    return {
+      plan: null,
+      blockers: [`No combination of changes makes this dish safe${styleLabels.length > 0 ? ` and ${styleLabels.join(', ')}` : ''}`],
+    };
+  }
+
+  // Other substitutes that fit the same plan, so the guest has a fallback
+  const plan = ingredientChanges.map((change, i) => {
+    if (change.kind !== 'substitute') return change;
+    const alternatives = options[i]
+      .filter((option): option is Extract<ModificationChange, { kind: 'substitute' }> =>
+        option.kind === 'substitute' && option.substitute !== change.substitute
+      )
+      .filter(option => plateIsSafe(ingredientChanges.map((c, j) => (j === i ? option : c))))
+      .map(option => option.substitute);
+    return { ...change, alternatives };
+  });
+
+  return { plan: [...plan, ...stepChanges], blockers: [] };
+}
+
+export function describeModificationChange(change: ModificationChange): string {
+  switch (change.kind) {
+    case 'remove':
+      return `No ${change.ingredient}`;
+    case 'substitute':
+      return `${change.substitute} instead of ${change.ingredient}`;
+    case 'modify-step':
+      return `Step ${change.stepNumber}: ${change.notes || 'Ask the chef for details'}`;
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Offline nutrient reference table. Values are per 100 g of the edible portion,
+ * rounded from USDA FoodData Central (SR Legacy / Foundation) entries. Grains and
+ * legumes are listed cooked, since that is how dish amounts are usually entered.
+ */
+export interface NutrientProfile {
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  carbs_fiber_g: number;
+  carbs_sugar_g: number;
+  carbs_added_sugar_g: number;
+  fat_g: number;
+  fat_saturated_g: number;
+  fat_trans_g: number;
+  fat_polyunsaturated_g: number;
+  fat_monounsaturated_g: number;
+  sodium_mg: number;
+  cholesterol_mg: number;
+}
+
+// Positional helper keeps the table readable: same column order as NutrientProfile
+function per100g(
+  calories: number, protein_g: number,
+  carbs_g: number, carbs_fiber_g: number, carbs_sugar_g: number, carbs_added_sugar_g: number,
+  fat_g: number, fat_saturated_g: number, fat_trans_g: number, fat_polyunsaturated_g: number, fat_monounsaturated_g: number,
+  sodium_mg: number, cholesterol_mg: number
+): NutrientProfile {
+  return {
+    calories, protein_g,
+    carbs_g, carbs_fiber_g, carbs_sugar_g, carbs_added_sugar_g,
+    fat_g, fat_saturated_g, fat_trans_g, fat_polyunsaturated_g, fat_monounsaturated_g,
+    sodium_mg, cholesterol_mg,
+  };
+}
+
+export const NUTRIENT_DATABASE: Record<string, NutrientProfile> = {
+  // Meat and poultry (raw)
+  'chicken breast': per100g(120, 22.5, 0, 0, 0, 0, 2.6, 0.6, 0, 0.4, 0.7, 45, 73),
+  'chicken thigh': per100g(121, 19.7, 0, 0, 0, 0, 4.1, 1.0, 0, 0.9, 1.5, 95, 94),
+  chicken: per100g(120, 22.5, 0, 0, 0, 0, 2.6, 0.6, 0, 0.4, 0.7, 45, 73),
+  turkey: per100g(114, 23.7, 0, 0, 0, 0, 1.5, 0.4, 0, 0.4, 0.3, 113, 62),
+  'ground beef': per100g(215, 18.6, 0, 0, 0, 0, 15.0, 5.9, 0.9, 0.4, 6.6, 66, 68),
+  beef: per100g(198, 19.4, 0, 0, 0, 0, 12.7, 5.1, 0.6, 0.5, 5.4, 60, 70),
+  steak: per100g(187, 20.4, 0, 0, 0, 0, 11.1, 4.5, 0.5, 0.4, 4.7, 56, 69),
+  pork: per100g(198, 19.5, 0, 0, 0, 0, 12.6, 4.4, 0.1, 1.2, 5.6, 56, 68),
+  bacon: per100g(417, 13.0, 1.4, 0, 0, 0, 39.7, 13.3, 0, 4.3, 17.6, 833, 66),
+  ham: per100g(145, 21.0, 1.5, 0, 0, 0, 5.5, 1.8, 0, 0.6, 2.7, 1200, 53),
+  sausage: per100g(301, 14.0, 1.4, 0, 0, 0, 26.0, 9.0, 0, 3.2, 11.5, 750, 72),
+  lamb: per100g(282, 16.6, 0, 0, 0, 0, 23.4, 10.2, 1.0, 1.8, 9.6, 59, 73),
+
+  // Fish and shellfish (raw)
+  salmon: per100g(208, 20.4, 0, 0, 0, 0, 13.4, 3.1, 0, 3.9, 3.8, 59, 55),
+  tuna: per100g(109, 24.4, 0, 0, 0, 0, 0.5, 0.2, 0, 0.1, 0.1, 45, 39),
+  cod: per100g(82, 17.8, 0, 0, 0, 0, 0.7, 0.1, 0, 0.2, 0.1, 54, 43),
+  halibut: per100g(91, 18.6, 0, 0, 0, 0, 1.3, 0.3, 0, 0.4, 0.4, 68, 49),
+  shrimp: per100g(85, 20.1, 0.9, 0, 0, 0, 0.5, 0.1, 0, 0.2, 0.1, 119, 161),
+  crab: per100g(87, 18.1, 0, 0, 0, 0, 1.1, 0.2, 0, 0.4, 0.2, 293, 78),
+  lobster: per100g(77, 16.5, 0, 0, 0, 0, 0.8, 0.2, 0, 0.1, 0.2, 423, 127),
+  scallop: per100g(69, 12.1, 3.2, 0, 0, 0, 0.5, 0.1, 0, 0.1, 0.1, 392, 24),
+
+  // Eggs and dairy
+  egg: per100g(143, 12.6, 0.7, 0, 0.4, 0, 9.5, 3.1, 0, 1.9, 3.7, 142, 372),
+  milk: per100g(61, 3.2, 4.8, 0, 5.1, 0, 3.3, 1.9, 0.1, 0.2, 0.8, 43, 10),
+  'heavy cream': per100g(340, 2.8, 2.7, 0, 2.9, 0, 36.1, 23.0, 1.1, 1.3, 10.4, 27, 113),
+  cream: per100g(340, 2.8, 2.7, 0, 2.9, 0, 36.1, 23.0, 1.1, 1.3, 10.4, 27, 113),
+  'sour cream': per100g(198, 2.4, 4.6, 0, 3.4, 0, 19.4, 10.1, 0, 0.8, 5.0, 31, 59),
+  'cream cheese': per100g(342, 5.9, 4.1, 0, 3.2, 0, 34.2, 19.3, 0, 1.5, 8.9, 321, 110),
+  butter: per100g(717, 0.9, 0.1, 0, 0.1, 0, 81.1, 51.4, 3.3, 3.0, 21.0, 643, 215),
+  yogurt: per100g(61, 3.5, 4.7, 0, 4.7, 0, 3.3, 2.1, 0, 0.1, 0.9, 46, 13),
+  cheese: per100g(403, 24.9, 1.3, 0, 0.5, 0, 33.1, 21.1, 1.0, 0.9, 9.4, 621, 105),
+  cheddar: per100g(403, 24.9, 1.3, 0, 0.5, 0, 33.1, 21.1, 1.0, 0.9, 9.4, 621, 105),
+  parmesan: per100g(431, 38.5, 4.1, 0, 0.9, 0, 28.6, 17.3, 0, 1.2, 8.4, 1529, 88),
+  mozzarella: per100g(300, 22.2, 2.2, 0, 1.0, 0, 22.4, 13.2, 0, 0.8, 6.6, 627, 79),
+  feta: per100g(264, 14.2, 4.1, 0, 4.1, 0, 21.3, 14.9, 0, 0.6, 4.6, 917, 89),
+
+  // Fats and oils
+  'olive oil': per100g(884, 0, 0, 0, 0, 0, 100, 13.8, 0, 10.5, 73.0, 2, 0),
+  'sesame oil': per100g(884, 0, 0, 0, 0, 0, 100, 14.2, 0, 41.7, 39.7, 0, 0),
+  oil: per100g(884, 0, 0, 0, 0, 0, 100, 14.4, 0, 57.7, 22.8, 0, 0),
+  mayonnaise: per100g(680, 1.0, 0.6, 0, 0.6, 0, 74.9, 11.7, 0, 45.0, 17.0, 635, 42),
+
+  // Grains and starches
+  flour: per100g(364, 10.3, 76.3, 2.7, 0.3, 0, 1.0, 0.2, 0, 0.4, 0.1, 2, 0),
+  bread: per100g(265, 9.0, 49.0, 2.7, 5.0, 4.0, 3.2, 0.7, 0, 1.4, 0.6, 491, 0),
+  bun: per100g(279, 9.7, 49.6, 2.1, 5.8, 4.6, 4.3, 1.0, 0, 1.9, 1.1, 480, 0),
+  tortilla: per100g(304, 8.0, 50.0, 3.5, 3.7, 2.0, 8.0, 3.0, 0, 1.5, 3.0, 736, 0),
+  pasta: per100g(158, 5.8, 30.9, 1.8, 0.6, 0, 0.9, 0.2, 0, 0.3, 0.1, 1, 0),
+  noodle: per100g(138, 4.5, 25.2, 1.2, 0.4, 0, 2.1, 0.4, 0, 0.6, 0.6, 5, 29),
+  rice: per100g(130, 2.7, 28.2, 0.4, 0.1, 0, 0.3, 0.1, 0, 0.1, 0.1, 1, 0),
+  quinoa: per100g(120, 4.4, 21.3, 2.8, 0.9, 0, 1.9, 0.2, 0, 1.1, 0.5, 7, 0),
+  oats: per100g(389, 16.9, 66.3, 10.6, 0, 0, 6.9, 1.2, 0, 2.5, 2.2, 2, 0),
+  potato: per100g(77, 2.0, 17.5, 2.2, 0.8, 0, 0.1, 0, 0, 0, 0, 6, 0),
+  'sweet potato': per100g(86, 1.6, 20.1, 3.0, 4.2, 0, 0.1, 0, 0, 0, 0, 55, 0),
+  corn: per100g(86, 3.3, 18.7, 2.0, 6.3, 0, 1.4, 0.3, 0, 0.6, 0.4, 15, 0),
+
+  // Legumes, nuts and seeds
+  'black beans': per100g(132, 8.9, 23.7, 8.7, 0.3, 0, 0.5, 0.1, 0, 0.2, 0, 1, 0),
+  beans: per100g(127, 8.7, 22.8, 6.4, 0.3, 0, 0.5, 0.1, 0, 0.3, 0, 2, 0),
+  chickpeas: per100g(164, 8.9, 27.4, 7.6, 4.8, 0, 2.6, 0.3, 0, 1.2, 0.6, 7, 0),
+  lentils: per100g(116, 9.0, 20.1, 7.9, 1.8, 0, 0.4, 0.1, 0, 0.2, 0.1, 2, 0),
+  tofu: per100g(76, 8.1, 1.9, 0.3, 0.6, 0, 4.8, 0.7, 0, 2.7, 1.1, 7, 0),
+  peanuts: per100g(567, 25.8, 16.1, 8.5, 4.7, 0, 49.2, 6.3, 0, 15.6, 24.4, 18, 0),
+  'peanut butter': per100g(588, 25.1, 20.0, 6.0, 9.2, 6.0, 50.4, 10.3, 0, 14.2, 23.8, 459, 0),
+  almonds: per100g(579, 21.2, 21.6, 12.5, 4.4, 0, 49.9, 3.8, 0, 12.3, 31.6, 1, 0),
+  walnuts: per100g(654, 15.2, 13.7, 6.7, 2.6, 0, 65.2, 6.1, 0, 47.2, 8.9, 2, 0),
+  cashews: per100g(553, 18.2, 30.2, 3.3, 5.9, 0, 43.9, 7.8, 0, 7.8, 23.8, 12, 0),
+  'sesame seeds': per100g(573, 17.7, 23.4, 11.8, 0.3, 0, 49.7, 7.0, 0, 21.8, 18.8, 11, 0),
+  tahini: per100g(595, 17.0, 21.2, 9.3, 0.5, 0, 53.8, 7.5, 0, 23.6, 20.3, 115, 0),
+
+  // Vegetables and fruit
+  onion: per100g(40, 1.1, 9.3, 1.7, 4.2, 0, 0.1, 0, 0, 0, 0, 4, 0),
+  garlic: per100g(149, 6.4, 33.1, 2.1, 1.0, 0, 0.5, 0.1, 0, 0.2, 0, 17, 0),
+  tomato: per100g(18, 0.9, 3.9, 1.2, 2.6, 0, 0.2, 0, 0, 0.1, 0, 5, 0),
+  lettuce: per100g(15, 1.4, 2.9, 1.3, 0.8, 0, 0.2, 0, 0, 0.1, 0, 28, 0),
+  spinach: per100g(23, 2.9, 3.6, 2.2, 0.4, 0, 0.4, 0.1, 0, 0.2, 0, 79, 0),
+  carrot: per100g(41, 0.9, 9.6, 2.8, 4.7, 0, 0.2, 0, 0, 0.1, 0, 69, 0),
+  'bell pepper': per100g(31, 1.0, 6.0, 2.1, 4.2, 0, 0.3, 0, 0, 0.1, 0, 4, 0),
+  mushroom: per100g(22, 3.1, 3.3, 1.0, 2.0, 0, 0.3, 0, 0, 0.2, 0, 5, 0),
+  broccoli: per100g(34, 2.8, 6.6, 2.6, 1.7, 0, 0.4, 0, 0, 0, 0, 33, 0),
+  cucumber: per100g(15, 0.7, 3.6, 0.5, 1.7, 0, 0.1, 0, 0, 0, 0, 2, 0),
+  avocado: per100g(160, 2.0, 8.5, 6.7, 0.7, 0, 14.7, 2.1, 0, 1.8, 9.8, 7, 0),
+  'lemon juice': per100g(22, 0.4, 6.9, 0.3, 2.5, 0, 0.2, 0, 0, 0, 0, 1, 0),
+  'lime juice': per100g(25, 0.4, 8.4, 0.4, 1.7, 0, 0.1, 0, 0, 0, 0, 2, 0),
+  lemon: per100g(29, 1.1, 9.3, 2.8, 2.5, 0, 0.3, 0, 0, 0.1, 0, 2, 0),
+  lime: per100g(30, 0.7, 10.5, 2.8, 1.7, 0, 0.2, 0, 0, 0, 0, 2, 0),
+  apple: per100g(52, 0.3, 13.8, 2.4, 10.4, 0, 0.2, 0, 0, 0.1, 0, 1, 0),
+  basil: per100g(23, 3.2, 2.7, 1.6, 0.3, 0, 0.6, 0, 0, 0.4, 0.1, 4, 0),
+  cilantro: per100g(23, 2.1, 3.7, 2.8, 0.9, 0, 0.5, 0, 0, 0, 0.3, 46, 0),
+  parsley: per100g(36, 3.0, 6.3, 3.3, 0.9, 0, 0.8, 0.1, 0, 0.1, 0.3, 56, 0),
+  'coconut milk': per100g(230, 2.3, 5.5, 2.2, 3.3, 0, 23.8, 21.1, 0, 0.3, 1.0, 15, 0),
+
+  // Sweeteners
+  sugar: per100g(387, 0, 100, 0, 100, 100, 0, 0, 0, 0, 0, 1, 0),
+  'brown sugar': per100g(380, 0.1, 98.1, 0, 97.0, 97.0, 0, 0, 0, 0, 0, 28, 0),
+  honey: per100g(304, 0.3, 82.4, 0.2, 82.1, 82.1, 0, 0, 0, 0, 0, 4, 0),
+  'maple syrup': per100g(260, 0, 67.0, 0, 60.5, 60.5, 0.1, 0, 0, 0, 0, 12, 0),
+  'dark chocolate': per100g(546, 4.9, 61.2, 7.0, 48.0, 48.0, 31.3, 18.5, 0, 1.1, 9.5, 24, 8),
+
+  // Condiments, seasonings and liquids
+  salt: per100g(0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 38758, 0),
+  'black pepper': per100g(251, 10.4, 64.0, 25.3, 0.6, 0, 3.3, 1.4, 0, 1.0, 0.7, 20, 0),
+  'soy sauce': per100g(53, 8.1, 4.9, 0.8, 0.4, 0, 0.6, 0.1, 0, 0.2, 0.1, 5493, 0),
+  'fish sauce': per100g(35, 5.1, 3.6, 0, 3.6, 0, 0, 0, 0, 0, 0, 7851, 0),
+  vinegar: per100g(18, 0, 0.1, 0, 0, 0, 0, 0, 0, 0, 0, 2, 0),
+  ketchup: per100g(101, 1.0, 27.4, 0.3, 21.3, 20.0, 0.1, 0, 0, 0, 0, 907, 0),
+  mustard: per100g(60, 3.7, 5.8, 4.0, 0.9, 0, 3.3, 0.2, 0, 0.6, 2.2, 1104, 0),
+  broth: per100g(6, 0.6, 0.4, 0, 0.3, 0, 0.2, 0.1, 0, 0, 0.1, 343, 0),
+  stock: per100g(6, 0.6, 0.4, 0, 0.3, 0, 0.2, 0.1, 0, 0, 0.1, 343, 0),
+  wine: per100g(83, 0.1, 2.6, 0, 0.6, 0, 0, 0, 0, 0, 0, 4, 0),
+  water: per100g(0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0),
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word match on each key, allowing a plural ending ("eggs", "tomatoes")
+const KEY_PATTERNS = Object.keys(NUTRIENT_DATABASE)
+  .sort((a, b) => b.length - a.length)
+  .map(key => ({ key, pattern: new RegExp(`\\b${escapeRegExp(key)}(s|es)?\\b`) }));
+
+/**
+ * Reference entry for an ingredient name. The most specific key wins, so
+ * "extra virgin olive oil" resolves to olive oil rather than oil.
+ */
+export function findNutrientProfile(ingredientName: string): { key: string; profile: NutrientProfile } | null {
+  const name = ingredientName.toLowerCase().trim();
+  if (NUTRIENT_DATABASE[name]) return { key: name, profile: NUTRIENT_DATABASE[name] };
+
+  const match = KEY_PATTERNS.find(({ pattern }) => pattern.test(name));
+  return match ? { key: match.key, profile: NUTRIENT_DATABASE[match.key] } : null;
+}
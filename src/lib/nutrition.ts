@@ -0,0 +1,135 @@
+import { NutritionSource } from './supabase';
+import { NutrientProfile, findNutrientProfile } from './nutrientDatabase';
+import { parseUnit, toGrams } from './units';
+import { estimateNutrition, IngredientForNutrition, NutritionEstimate } from './openai';
+import { AIUnavailableError } from './aiProvider';
+
+export interface NutritionCalculation {
+  nutrition: NutritionEstimate;
+  // null when no ingredient could be accounted for
+  source: NutritionSource | null;
+  // Ingredients the nutrient database could not account for (unknown name, or no amount,
+  // unit or conversion to grams)
+  unmatchedIngredients: string[];
+  // Unmatched ingredients whose values came from the AI fallback
+  estimatedIngredients: string[];
+  // True when unmatched ingredients are left out because the AI fallback failed
+  aiUnavailable: boolean;
+}
+
+const NUTRIENT_KEYS = [
+  'calories',
+  'protein_g',
+  'carbs_g',
+  'carbs_fiber_g',
+  'carbs_sugar_g',
+  'carbs_added_sugar_g',
+  'fat_g',
+  'fat_saturated_g',
+  'fat_trans_g',
+  'fat_polyunsaturated_g',
+  'fat_monounsaturated_g',
+  'sodium_mg',
+  'cholesterol_mg',
+] as const;
+
+// Columns saved as integers on menu_items
+const WHOLE_NUMBER_KEYS = new Set<keyof NutrientProfile>(['calories', 'sodium_mg', 'cholesterol_mg']);
+
+function emptyTotals(): NutrientProfile {
+  return Object.fromEntries(NUTRIENT_KEYS.map(key => [key, 0])) as unknown as NutrientProfile;
+}
+
+function toEstimate(totals: NutrientProfile): NutritionEstimate {
+  return Object.fromEntries(
+    NUTRIENT_KEYS.map(key => [
+      key,
+      WHOLE_NUMBER_KEYS.has(key) ? Math.round(totals[key]) : Math.round(totals[key] * 10) / 10,
+    ])
+  ) as unknown as NutritionEstimate;
+}
+
+/**
+ * Sum per-100g reference values over the ingredient amounts. Deterministic and offline;
+ * ingredients that are unknown, have no amount or unit, or whose amount has no mass are
+ * returned as unmatched. A bare "2" is not read as 2 g.
+ */
+export function calculateNutrition(ingredients: IngredientForNutrition[]): {
+  totals: NutrientProfile;
+  matchedCount: number;
+  unmatched: IngredientForNutrition[];
+} {
+  const totals = emptyTotals();
+  const unmatched: IngredientForNutrition[] = [];
+  let matchedCount = 0;
+
+  for (const ing of ingredients) {
+    const reference = findNutrientProfile(ing.name);
+    const unit = parseUnit(ing.unit);
+    const grams = ing.amount && ing.amount > 0 && unit ? toGrams(ing.amount, unit, ing.name) : null;
+
+    if (!reference || grams === null) {
+      unmatched.push(ing);
+      continue;
+    }
+
+    for (const key of NUTRIENT_KEYS) {
+      totals[key] += (reference.profile[key] * grams) / 100;
+    }
+    matchedCount++;
+  }
+
+  return { totals, matchedCount, unmatched };
+}
+
+/**
+ * Nutrition for a dish from its ingredient amounts. The offline database is the source
+ * of truth; the AI is only asked about ingredients it does not cover. The result is
+ * 'calculated' only when the database covered every ingredient; an AI contribution, or
+ * ingredients left out because the AI failed, make it 'estimated'.
+ */
+export async function calculateDishNutrition(
+  dishName: string,
+  ingredients: IngredientForNutrition[]
+): Promise<NutritionCalculation> {
+  const { totals, matchedCount, unmatched } = calculateNutrition(ingredients);
+  const unmatchedIngredients = unmatched.map(ing => ing.name);
+  let estimatedIngredients: string[] = [];
+  let aiUnavailable = false;
+
+  if (unmatched.length > 0) {
+    let fallback: NutritionEstimate | null = null;
+    try {
+      fallback = await estimateNutrition(dishName, unmatched);
+    } catch (error) {
+      if (!(error instanceof AIUnavailableError)) throw error;
+      console.error('[calculateDishNutrition] AI fallback failed:', error);
+      aiUnavailable = true;
+    }
+    if (fallback && fallback.calories !== null) {
+      for (const key of NUTRIENT_KEYS) {
+        totals[key] += fallback[key] ?? 0;
+      }
+      estimatedIngredients = unmatchedIngredients;
+    }
+  }
+
+  // Nothing known and nothing estimated: leave the fields empty rather than showing zeros
+  if (matchedCount === 0 && estimatedIngredients.length === 0) {
+    return {
+      nutrition: Object.fromEntries(NUTRIENT_KEYS.map(key => [key, null])) as unknown as NutritionEstimate,
+      source: null,
+      unmatchedIngredients,
+      estimatedIngredients,
+      aiUnavailable,
+    };
+  }
+
+  return {
+    nutrition: toEstimate(totals),
+    source: unmatchedIngredients.length > 0 ? 'estimated' : 'calculated',
+    unmatchedIngredients,
+    estimatedIngredients,
+    aiUnavailable,
+  };
+}
@@ -0,0 +1,108 @@
+import { Database, AllergenSeverity } from './supabase';
+import { MenuGraphItem } from './menuGraph';
+import { CustomerRestriction } from './customerProfile';
+import { Diner } from './groupDining';
+
+type Restaurant = Database['public']['Tables']['restaurants']['Row'];
+
+// Last menu and allergy profile the guest loaded online, so CustomerMenu can still show
+// safety badges without signal. The app shell itself is cached by public/sw.js.
+
+const DB_NAME = 'safe-dining-offline';
+const DB_VERSION = 1;
+const MENUS = 'menus';
+const PROFILES = 'profiles';
+
+export interface OfflineMenu {
+  qrCode: string;
+  restaurant: Restaurant;
+  items: MenuGraphItem[];
+  syncedAt: string;
+}
+
+export interface OfflineProfile {
+  sessionId: string;
+  profileId: string;
+  allergens: string[];
+  severities: Record<string, AllergenSeverity>;
+  // Missing from profiles cached before chef cards existed
+  restrictions?: CustomerRestriction[];
+  // Diners added for group dining; missing from profiles cached before it existed
+  companions?: Diner[];
+  syncedAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(MENUS, { keyPath: 'qrCode' });
+        request.result.createObjectStore(PROFILES, { keyPath: 'sessionId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let the next call retry, e.g. after private browsing blocked the first open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function runRequest<T>(storeName: string, mode: IDBTransactionMode, build: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = build(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// The offline copy is best effort: a failed write or read never blocks the live menu
+async function readRecord<T>(storeName: string, key: string): Promise<T | null> {
+  try {
+    return (await runRequest<T | undefined>(storeName, 'readonly', store => store.get(key))) ?? null;
+  } catch (err) {
+    console.error(`Error reading offline ${storeName}:`, err);
+    return null;
+  }
+}
+
+async function writeRecord<T>(storeName: string, value: T): Promise<void> {
+  try {
+    await runRequest(storeName, 'readwrite', store => store.put(value));
+  } catch (err) {
+    console.error(`Error saving offline ${storeName}:`, err);
+  }
+}
+
+export function saveOfflineMenu(menu: OfflineMenu): Promise<void> {
+  return writeRecord(MENUS, menu);
+}
+
+export function loadOfflineMenu(qrCode: string): Promise<OfflineMenu | null> {
+  return readRecord<OfflineMenu>(MENUS, qrCode);
+}
+
+// The 4-digit restaurant code is looked up in Supabase; offline, any saved menu will do
+export async function findOfflineMenuByRestaurantCode(restaurantCode: string): Promise<OfflineMenu | null> {
+  try {
+    const menus = await runRequest<OfflineMenu[]>(MENUS, 'readonly', store => store.getAll());
+    return menus.find(menu => menu.restaurant.restaurant_code === restaurantCode) ?? null;
+  } catch (err) {
+    console.error(`Error reading offline ${MENUS}:`, err);
+    return null;
+  }
+}
+
+export function saveOfflineProfile(profile: OfflineProfile): Promise<void> {
+  return writeRecord(PROFILES, profile);
+}
+
+export function loadOfflineProfile(sessionId: string): Promise<OfflineProfile | null> {
+  return readRecord<OfflineProfile>(PROFILES, sessionId);
+}
@@ -1,6 +1,8 @@
 import { ScannedDish } from '../pages/RestaurantOnboarding';
+import { ALLERGEN_TAGS, AllergenId, getAllergenLabel, matchesAllergen, matchesAnyAllergen } from './allergenOntology';
+import { parseUnit, toGrams, roundAmount } from './units';
+import { AIUnavailableError, runAITask } from './aiProvider';
 
-const OPENAI_API_KEY = import.meta.env.VITE_OPENAI_API_KEY;
 
 // Return type for enhanced cross-contact risk detection
 export interface CrossContactAnalysis {
@@ -15,108 +17,8 @@ const EMPTY_CROSS_CONTACT_ANALYSIS: CrossContactAnalysis = {
   modification_notes: '',
 };
 
-// Common allergens list for reference (FDA Big 9 + EU allergens)
-export const COMMON_ALLERGENS = [
-  'Milk',
-  'Eggs',
-  'Fish',
-  'Shellfish',
-  'Tree Nuts',
-  'Peanuts',
-  'Wheat',
-  'Soy',
-  'Sesame',
-  'Gluten',
-  'Mustard',
-  'Celery',
-  'Lupin',
-  'Mollusks',
-  'Sulfites',
-  'Onion',
-  'Garlic',
-] as const;
-
-// Comprehensive allergen mapping reference for AI prompts
-export const ALLERGEN_MAPPING_REFERENCE = `
-ALLERGEN CATEGORY MAPPINGS - Use these to correctly identify allergens:
-
-MILK/DAIRY:
-- Direct: milk, cream, butter, cheese, yogurt, ice cream, whey, casein, lactose, ghee
-- Hidden: many breads, baked goods, chocolate, caramel, nougat, ranch dressing, cream sauces
-
-EGGS:
-- Direct: eggs, egg whites, egg yolks, mayonnaise (mayo = eggs + oil + salt, NOT milk), meringue, custard, aioli
-- Hidden: pasta (some), baked goods, marshmallows, some sauces, tempura batter
-- IMPORTANT: Mayonnaise/mayo does NOT contain milk/dairy - it is made from eggs, oil, and acid (lemon/vinegar). Only tag as "Eggs", never "Milk"
-
-FISH:
-- Direct: salmon, tuna, cod, halibut, bass, trout, tilapia, anchovy, sardine, mackerel
-- Hidden: Worcestershire sauce, Caesar dressing, fish sauce, some Asian sauces
-
-SHELLFISH (Crustaceans):
-- Crustaceans: shrimp, prawns, crab, lobster, crayfish/crawfish, langoustine
-- This is different from Mollusks - keep them separate
-
-MOLLUSKS:
-- Direct: clams, mussels, oysters, scallops, squid/calamari, octopus, snails/escargot
-
-TREE NUTS:
-- Direct: almonds, walnuts, cashews, pecans, pistachios, macadamia, hazelnuts/filberts, Brazil nuts, pine nuts, chestnuts
-- Hidden: pesto (pine nuts), marzipan (almonds), praline, nougat, some oils
-- Note: Coconut is NOT a tree nut (FDA classifies as fruit)
-
-PEANUTS (Legume, not a nut):
-- Direct: peanuts, peanut butter, peanut oil, peanut flour
-- Hidden: many Asian dishes, African dishes, some chili recipes, satay sauce
-
-WHEAT:
-- Direct: wheat flour, bread, pasta, couscous, bulgur, semolina, durum, spelt, farina
-- Hidden: soy sauce (most contain wheat), many sauces, breaded items, beer
-
-GLUTEN (Protein in certain grains):
-- Contains gluten: wheat, barley, rye, triticale, spelt, kamut, farro
-- Hidden: soy sauce, malt, beer, some oats (cross-contamination), seitan
-
-SOY:
-- Direct: soybeans, edamame, tofu, tempeh, miso, soy sauce, soy milk, soy protein
-- Hidden: vegetable oil (often soybean), lecithin (soy-based), many processed foods
-- Note: Chickpeas, lentils, other beans are NOT soy (they're different legumes)
-
-SESAME:
-- Direct: sesame seeds, tahini, sesame oil, hummus (contains tahini), halvah
-- Hidden: many Middle Eastern foods, some breads, bagels, Asian dishes
-
-MUSTARD:
-- Direct: mustard seeds, mustard powder, prepared mustard, mustard oil
-- Hidden: many sauces, dressings, marinades, curry powder, pickles
-
-CELERY:
-- Direct: celery stalks, celery root/celeriac, celery seeds, celery salt
-- Hidden: stocks, soups, spice blends, Bloody Mary mix
-
-LUPIN/LUPINE:
-- Direct: lupin beans, lupin flour, lupin seeds
-- Hidden: some gluten-free products, European breads and pastries
-
-SULFITES:
-- Direct: sulfur dioxide, sodium sulfite, sodium bisulfite
-- Found in: wine, dried fruits, some seafood, pickled foods, grape juice
-
-ONION:
-- Direct: onion, onion powder, dried onion, shallots, scallions/green onions, leeks, chives
-- Hidden: many soups, stocks, sauces, seasonings, French onion dip, onion rings
-
-GARLIC:
-- Direct: garlic, garlic powder, garlic salt, minced garlic, roasted garlic
-- Hidden: many sauces, marinades, seasoning blends, garlic bread, aioli, pesto
-
-SPECIAL NOTES:
-- Nightshades (tomatoes, peppers, eggplant, potatoes) are not major allergens but some people are sensitive
-- Corn is not a major allergen but can cause reactions in some people
-`;
-
-// Concise allergen list for prompts
-const ALLERGEN_CATEGORIES = COMMON_ALLERGENS.join(', ');
+// Common allergens list for reference (FDA Big 9 + EU allergens), owned by the allergen ontology
+export const COMMON_ALLERGENS = ALLERGEN_TAGS;
 
 export interface IngredientWithAllergens {
   name: string;
@@ -151,268 +53,52 @@ function isValidAllergen(value: string): value is AllergenCategory {
   return COMMON_ALLERGENS.includes(value as AllergenCategory);
 }
 
-// Types for OpenAI API response parsing
-interface RawScannedDish {
-  name?: string;
-  category?: string;
-  price?: string | number;
-  description?: string;
-}
-
-interface RawIngredientWithAllergens {
-  name?: string;
-  allergens?: string[];
-}
-
-interface RawSuggestedIngredient {
-  name?: string;
-  allergens?: string[];
-  confidence?: number;
-  isExisting?: boolean;
-}
-
-interface RawCrossContaminationAnalysis {
-  crossContaminationRisks?: Array<{
-    allergen?: string;
-    reason?: string;
-  }>;
-  warnings?: string[];
-  safetyNotes?: string[];
+// A vendor rejecting the upload gets a clearer hint than the raw vendor message
+function toImageError(error: unknown): unknown {
+  if (error instanceof AIUnavailableError && error.status === 502 && error.reason.includes('image')) {
+    return new AIUnavailableError('the image could not be processed. Please try a different image format (JPEG, PNG, GIF, or WebP).', error.status);
+  }
+  return error;
 }
 
 export async function analyzeMenuImage(imageBase64: string): Promise<ScannedDish[]> {
-  if (!OPENAI_API_KEY || OPENAI_API_KEY === 'your-openai-api-key-here') {
-    throw new Error('OpenAI API key not configured. Please set VITE_OPENAI_API_KEY in your .env file.');
-  }
-
   // Ensure the image is in the correct data URL format
   const imageUrl = imageBase64.startsWith('data:')
     ? imageBase64
     : `data:image/jpeg;base64,${imageBase64}`;
 
+  let dishes;
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini', // Cost-effective vision model
-        messages: [
-          {
-            role: 'system',
-            content: `You are a menu analysis assistant. Extract dish information from menu images.
-Return ONLY valid JSON array with this exact structure, no markdown code blocks or extra text:
-[{"name": "Dish Name", "category": "Category", "price": "00.00", "description": "Brief description"}]
-
-Rules:
-- Categories: Appetizers, Main Courses, Sides, Desserts, Beverages, or Other
-- Price: numbers only (e.g., "12.99" not "$12.99")
-- If price is not visible, use "0.00"
-- Extract ALL dishes you can see clearly
-- Keep descriptions brief (under 100 characters)`,
-          },
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: 'Analyze this menu image and extract all dishes with their names, categories, prices, and descriptions. Return only the JSON array.',
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: imageUrl,
-                  detail: 'high', // Use high detail for better text recognition
-                },
-              },
-            ],
-          },
-        ],
-        max_tokens: 4096,
-        temperature: 0.1, // Low temperature for more consistent output
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      const errorMessage = errorData.error?.message || `API request failed with status ${response.status}`;
-
-      if (response.status === 401) {
-        throw new Error('Invalid OpenAI API key. Please check your VITE_OPENAI_API_KEY in .env file.');
-      }
-      if (response.status === 429) {
-        throw new Error('OpenAI rate limit exceeded. Please wait a moment and try again.');
-      }
-      if (response.status === 400 && errorMessage.includes('image')) {
-        throw new Error('Image could not be processed. Please try a different image format (JPEG, PNG, GIF, or WebP).');
-      }
-
-      throw new Error(errorMessage);
-    }
-
-    const data = await response.json();
-    const content = data.choices[0]?.message?.content;
-
-    if (!content) {
-      throw new Error('No response from OpenAI. Please try again.');
-    }
-
-    // Parse the JSON response - handle potential markdown code blocks
-    let jsonString = content;
-
-    // Remove markdown code blocks if present
-    const codeBlockMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/);
-    if (codeBlockMatch) {
-      jsonString = codeBlockMatch[1].trim();
-    }
-
-    // Find JSON array in the content
-    const jsonMatch = jsonString.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) {
-      console.error('Could not find JSON array in response:', content);
-      throw new Error('Could not parse menu data. The AI response was not in the expected format.');
-    }
-
-    const dishes: RawScannedDish[] = JSON.parse(jsonMatch[0]);
-
-    if (!Array.isArray(dishes) || dishes.length === 0) {
-      throw new Error('No dishes detected in the image. Please ensure the menu text is clearly visible.');
-    }
-
-    // Transform to ScannedDish format with IDs
-    return dishes.map((dish: RawScannedDish, index: number): ScannedDish => ({
-      id: `dish-${Date.now()}-${index}`,
-      name: String(dish.name || 'Unknown Dish').trim(),
-      category: String(dish.category || 'Other').trim(),
-      price: String(dish.price || '0.00').replace(/[^0-9.]/g, '') || '0.00',
-      description: String(dish.description || '').trim(),
-    }));
+    dishes = await runAITask('menu-scan', { image: imageUrl });
   } catch (error) {
-    if (error instanceof SyntaxError) {
-      console.error('JSON parse error:', error);
-      throw new Error('Failed to parse menu data. Please try again with a clearer image.');
-    }
-    throw error;
+    throw toImageError(error);
+  }
+
+  if (dishes.length === 0) {
+    throw new Error('No dishes detected in the image. Please ensure the menu text is clearly visible.');
   }
+
+  // Transform to ScannedDish format with IDs
+  return dishes.map((dish, index): ScannedDish => ({
+    id: `dish-${Date.now()}-${index}`,
+    name: String(dish.name || 'Unknown Dish').trim(),
+    category: String(dish.category || 'Other').trim(),
+    price: String(dish.price || '0.00').replace(/[^0-9.]/g, '') || '0.00',
+    description: String(dish.description || '').trim(),
+  }));
 }
 
 /**
  * Detect common allergens for a single ingredient
  * Uses comprehensive allergen mapping to correctly identify allergen categories
+ * Throws AIUnavailableError rather than reporting "no allergens" when the AI fails
  */
 export async function detectAllergens(ingredientName: string): Promise<string[]> {
   console.log('[detectAllergens] Called for ingredient:', ingredientName);
-  if (!OPENAI_API_KEY || OPENAI_API_KEY === 'your-openai-api-key-here') {
-    console.log('[detectAllergens] No API key set, returning []');
-    return [];
-  }
-
-  try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a food allergen expert. Your task is to identify which ALLERGEN CATEGORIES an ingredient belongs to.
-
-IMPORTANT: You must map ingredients to their correct allergen CATEGORY, not just repeat the ingredient name.
-
-VALID ALLERGEN CATEGORIES (only use these exact names):
-${ALLERGEN_CATEGORIES}
-
-${ALLERGEN_MAPPING_REFERENCE}
-
-CRITICAL RULES:
-1. Map ingredients to their allergen CATEGORY (e.g., "shrimp" -> "Shellfish", NOT "Shrimp")
-2. "Celery" IS a valid allergen category - celery stalks, celery salt, celeriac all map to "Celery"
-3. Multiple categories can apply (e.g., "soy sauce" -> ["Soy", "Wheat", "Gluten"])
-4. If no major allergens apply, return empty array []
-5. Chickpeas, lentils, black beans are legumes but NOT "Soy" - only soybeans are "Soy"
-
-EXAMPLES:
-- "shrimp" -> ["Shellfish"]
-- "crab" -> ["Shellfish"]
-- "squid" -> ["Mollusks"]
-- "butter" -> ["Milk"]
-- "parmesan cheese" -> ["Milk"]
-- "soy sauce" -> ["Soy", "Wheat", "Gluten"]
-- "tofu" -> ["Soy"]
-- "edamame" -> ["Soy"]
-- "bread crumbs" -> ["Wheat", "Gluten"]
-- "pesto" -> ["Tree Nuts", "Milk"]
-- "tahini" -> ["Sesame"]
-- "hummus" -> ["Sesame"]
-- "celery" -> ["Celery"]
-- "celery salt" -> ["Celery"]
-- "almonds" -> ["Tree Nuts"]
-- "peanut butter" -> ["Peanuts"]
-- "Worcestershire sauce" -> ["Fish"]
-- "fish sauce" -> ["Fish"]
-- "mayonnaise" -> ["Eggs"] (NOT Milk - mayo is eggs + oil + salt)
-- "mayo" -> ["Eggs"] (NOT Milk)
-- "aioli" -> ["Eggs"] (garlic mayo, NOT Milk)
-- "olive oil" -> []
-- "garlic" -> ["Garlic"]
-- "onion" -> ["Onion"]
-- "shallots" -> ["Onion"]
-- "leek" -> ["Onion"]
-- "scallion" -> ["Onion"]
-- "chickpeas" -> []
-- "black beans" -> []
-- "rice" -> []
-- "tomato" -> []
-
-Return ONLY a JSON array of allergen category names. No explanation.`,
-          },
-          {
-            role: 'user',
-            content: `Ingredient: "${ingredientName}"
-
-What allergen categories does this ingredient belong to? Return only the JSON array.`,
-          },
-        ],
-        max_tokens: 150,
-        temperature: 0.1,
-      }),
-    });
-
-    if (!response.ok) {
-      console.error('Failed to detect allergens:', response.status);
-      return [];
-    }
 
-    const data = await response.json();
-    const content: string = data.choices[0]?.message?.content || '[]';
-    console.log('[detectAllergens] AI raw response for "' + ingredientName + '":', content);
-
-    // Parse JSON array
-    const jsonMatch = content.match(/\[[\s\S]*?\]/);
-    if (jsonMatch) {
-      const allergens: string[] = JSON.parse(jsonMatch[0]);
-      console.log('[detectAllergens] Parsed allergens:', allergens);
-      // Validate that returned allergens are from our valid list
-      if (Array.isArray(allergens)) {
-        const validated = allergens
-          .filter((a): a is string => typeof a === 'string')
-          .filter(isValidAllergen);
-        console.log('[detectAllergens] After validation:', validated);
-        return validated;
-      }
-    }
-    console.log('[detectAllergens] No valid JSON match found, returning []');
-    return [];
-  } catch (error) {
-    console.error('Error detecting allergens:', error);
-    return [];
-  }
+  const allergens = await runAITask('ingredient-allergens', { ingredientName }, ingredientName);
+  console.log('[detectAllergens] Allergens for "' + ingredientName + '":', allergens);
+  return allergens;
 }
 
 /**
@@ -422,87 +108,11 @@ What allergen categories does this ingredient belong to? Return only the JSON ar
 export async function detectAllergensForIngredients(
   ingredientNames: string[]
 ): Promise<IngredientWithAllergens[]> {
-  if (!OPENAI_API_KEY || OPENAI_API_KEY === 'your-openai-api-key-here' || ingredientNames.length === 0) {
-    return ingredientNames.map(name => ({ name, allergens: [] }));
+  if (ingredientNames.length === 0) {
+    return [];
   }
 
-  try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a food allergen expert. Your task is to identify which ALLERGEN CATEGORIES each ingredient belongs to.
-
-IMPORTANT: You must map ingredients to their correct allergen CATEGORY, not just repeat the ingredient name.
-
-VALID ALLERGEN CATEGORIES (only use these exact names):
-${ALLERGEN_CATEGORIES}
-
-${ALLERGEN_MAPPING_REFERENCE}
-
-CRITICAL RULES:
-1. Map ingredients to their allergen CATEGORY (e.g., "shrimp" -> "Shellfish", NOT "Shrimp")
-2. "Celery" IS a valid allergen category - celery stalks, celery salt, celeriac all map to "Celery"
-3. Multiple categories can apply (e.g., "soy sauce" -> ["Soy", "Wheat", "Gluten"])
-4. If no major allergens apply, use empty array []
-5. Chickpeas, lentils, black beans are legumes but NOT "Soy" - only soybeans are "Soy"
-
-Return ONLY a JSON array with this exact structure:
-[{"name": "ingredient name", "allergens": ["AllergenCategory1", "AllergenCategory2"]}]`,
-          },
-          {
-            role: 'user',
-            content: `Identify allergen categories for each ingredient:
-${ingredientNames.map((n, i) => `${i + 1}. ${n}`).join('\n')}
-
-Return the JSON array.`,
-          },
-        ],
-        max_tokens: 1500,
-        temperature: 0.1,
-      }),
-    });
-
-    if (!response.ok) {
-      console.error('Failed to detect allergens:', response.status);
-      return ingredientNames.map(name => ({ name, allergens: [] }));
-    }
-
-    const data = await response.json();
-    const content: string = data.choices[0]?.message?.content || '[]';
-
-    // Parse JSON array
-    let jsonString = content;
-    const codeBlockMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/);
-    if (codeBlockMatch) {
-      jsonString = codeBlockMatch[1].trim();
-    }
-
-    const jsonMatch = jsonString.match(/\[[\s\S]*\]/);
-    if (jsonMatch) {
-      const results: RawIngredientWithAllergens[] = JSON.parse(jsonMatch[0]);
-      if (Array.isArray(results)) {
-        return results.map((r: RawIngredientWithAllergens): IngredientWithAllergens => ({
-          name: String(r.name || ''),
-          // Validate that returned allergens are from our valid list
-          allergens: Array.isArray(r.allergens)
-            ? r.allergens.filter((a): a is string => typeof a === 'string').filter(isValidAllergen)
-            : [],
-        }));
-      }
-    }
-    return ingredientNames.map(name => ({ name, allergens: [] }));
-  } catch (error) {
-    console.error('Error detecting allergens:', error);
-    return ingredientNames.map(name => ({ name, allergens: [] }));
-  }
+  return runAITask('ingredient-list-allergens', { ingredientNames });
 }
 
 /**
@@ -514,104 +124,29 @@ export async function suggestIngredientsForDish(
   dishDescription: string,
   existingIngredients: { id: string; name: string; allergens: string[] }[]
 ): Promise<SuggestedIngredient[]> {
-  if (!OPENAI_API_KEY || OPENAI_API_KEY === 'your-openai-api-key-here') {
-    return [];
-  }
-
-  const existingNames = existingIngredients.map(i => i.name);
-
-  try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a culinary and allergen expert. Given a dish name and description, suggest the ACTUAL ingredients that would be used in THIS specific dish.
-
-IMPORTANT: Suggest ingredients based ONLY on what this specific dish would contain. Do NOT blindly suggest ingredients just because they exist in the database. Only mark "isExisting" as true if an ingredient you would genuinely suggest for this dish happens to match one already in the database.
-
-Existing ingredients in database (for matching only, NOT for suggestion): ${existingNames.length > 0 ? existingNames.join(', ') : 'None yet'}
-
-VALID ALLERGEN CATEGORIES (only use these exact names for allergens):
-${ALLERGEN_CATEGORIES}
-
-${ALLERGEN_MAPPING_REFERENCE}
-
-Return ONLY a JSON array with this structure:
-[{"name": "Ingredient Name", "allergens": ["AllergenCategory1"], "confidence": 90, "isExisting": true}]
-
-CRITICAL RULES:
-- Suggest ingredients that are ACTUALLY used in this dish, not random ingredients from the database
-- "allergens" must contain CATEGORY names, not ingredient names (e.g., "Shellfish" not "shrimp")
-- "confidence" is 0-100, how likely this ingredient is in THIS specific dish
-- "isExisting" is true ONLY if an ingredient you'd genuinely suggest matches one from the existing database (case-insensitive)
-- Include 5-15 most likely ingredients for THIS dish
-- Sort by confidence (highest first)
-- Be specific (e.g., "Olive Oil" not just "Oil")
-- For each ingredient, correctly identify all applicable allergen categories`,
-          },
-          {
-            role: 'user',
-            content: `Suggest ingredients for: "${dishName}"${dishDescription ? `\nDescription: ${dishDescription}` : ''}`,
-          },
-        ],
-        max_tokens: 1500,
-        temperature: 0.3,
-      }),
-    });
-
-    if (!response.ok) {
-      console.error('Failed to suggest ingredients:', response.status);
-      return [];
-    }
-
-    const data = await response.json();
-    const content: string = data.choices[0]?.message?.content || '[]';
+  const results = await runAITask('ingredient-suggestions', {
+    dishName,
+    dishDescription,
+    existingIngredientNames: existingIngredients.map(i => i.name),
+  }, dishName);
+
+  return results.map((r): SuggestedIngredient => {
+    const name = r.name.trim();
+    // Check if this matches an existing ingredient (case-insensitive)
+    const existingMatch = existingIngredients.find(
+      e => e.name.toLowerCase() === name.toLowerCase()
+    );
 
-    // Parse JSON array
-    let jsonString = content;
-    const codeBlockMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/);
-    if (codeBlockMatch) {
-      jsonString = codeBlockMatch[1].trim();
-    }
+    // Existing ingredients keep their stored allergens when the reply has none
+    const allergens = r.allergens ?? (existingMatch?.allergens || []).filter(isValidAllergen);
 
-    const jsonMatch = jsonString.match(/\[[\s\S]*\]/);
-    if (jsonMatch) {
-      const results: RawSuggestedIngredient[] = JSON.parse(jsonMatch[0]);
-      if (Array.isArray(results)) {
-        return results.map((r: RawSuggestedIngredient): SuggestedIngredient => {
-          const name = String(r.name || '').trim();
-          // Check if this matches an existing ingredient (case-insensitive)
-          const existingMatch = existingIngredients.find(
-            e => e.name.toLowerCase() === name.toLowerCase()
-          );
-
-          // Validate allergens against COMMON_ALLERGENS list
-          const rawAllergens: string[] = Array.isArray(r.allergens) ? r.allergens : (existingMatch?.allergens || []);
-          const validatedAllergens = rawAllergens
-            .filter((a): a is string => typeof a === 'string')
-            .filter(isValidAllergen);
-
-          return {
-            name,
-            existingId: existingMatch?.id,
-            allergens: validatedAllergens,
-            confidence: typeof r.confidence === 'number' ? r.confidence : 50,
-          };
-        }).sort((a, b) => b.confidence - a.confidence);
-      }
-    }
-    return [];
-  } catch (error) {
-    console.error('Error suggesting ingredients:', error);
-    return [];
-  }
+    return {
+      name,
+      existingId: existingMatch?.id,
+      allergens,
+      confidence: r.confidence ?? 50,
+    };
+  }).filter(r => r.name.length > 0).sort((a, b) => b.confidence - a.confidence);
 }
 
 /**
@@ -629,7 +164,7 @@ export async function analyzeMenuItemAllergens(
     new Set(ingredients.flatMap(ing => ing.allergens))
   ).filter(isValidAllergen);
 
-  // Default result if API call fails
+  // Result when there is no preparation text to analyze
   const defaultResult: MenuItemAllergenAnalysis = {
     directAllergens,
     crossContaminationRisks: [],
@@ -640,136 +175,37 @@ export async function analyzeMenuItemAllergens(
     safetyNotes: [],
   };
 
-  if (!OPENAI_API_KEY || OPENAI_API_KEY === 'your-openai-api-key-here' || !preparationText.trim()) {
+  if (!preparationText.trim()) {
     return defaultResult;
   }
 
-  try {
-    const ingredientsList = ingredients.map(i =>
-      `${i.name}${i.allergens.length > 0 ? ` (contains: ${i.allergens.join(', ')})` : ''}`
-    ).join('\n- ');
-
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a food safety and allergen expert. Analyze the preparation process for potential cross-contamination risks.
-
-VALID ALLERGEN CATEGORIES (only use these exact names):
-${ALLERGEN_CATEGORIES}
-
-${ALLERGEN_MAPPING_REFERENCE}
-
-Your task:
-1. Identify cross-contamination risks from the preparation description
-2. Look for mentions of: shared fryers, grills, surfaces, utensils, oils used for other foods
-3. Consider cooking methods that might introduce allergens (e.g., "fried in peanut oil", "cooked on shared grill")
-4. Generate clear warnings for customers with allergies
-
-Return ONLY valid JSON with this exact structure:
-{
-  "crossContaminationRisks": [
-    {"allergen": "AllergenCategoryName", "reason": "Brief explanation of the risk"}
-  ],
-  "warnings": ["Human-readable warning message 1", "Warning 2"],
-  "safetyNotes": ["Additional safety note if relevant"]
-}
-
-CRITICAL RULES:
-- Use ALLERGEN CATEGORY names only (e.g., "Shellfish" not "shrimp", "Tree Nuts" not "almonds")
-- Only include risks that are actually mentioned or strongly implied in the preparation text
-- Be specific about the source of contamination risk
-- Keep warnings concise but clear
-- If no cross-contamination risks are found, return empty arrays`,
-          },
-          {
-            role: 'user',
-            content: `Analyze this dish for cross-contamination risks:
-
-DISH: ${dishName}
-
-INGREDIENTS:
-- ${ingredientsList || 'No ingredients listed'}
-
-PREPARATION PROCESS:
-${preparationText}
-
-Identify any cross-contamination risks from the preparation method.`,
-          },
-        ],
-        max_tokens: 500,
-        temperature: 0.2,
-      }),
-    });
-
-    if (!response.ok) {
-      console.error('Failed to analyze allergens:', response.status);
-      return defaultResult;
-    }
-
-    const data = await response.json();
-    const content: string = data.choices[0]?.message?.content || '{}';
-
-    // Parse JSON response
-    let jsonString = content;
-    const codeBlockMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/);
-    if (codeBlockMatch) {
-      jsonString = codeBlockMatch[1].trim();
-    }
+  const result = await runAITask('menu-item-allergens', { dishName, ingredients, preparationText }, dishName);
 
-    const jsonMatch = jsonString.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      const result: RawCrossContaminationAnalysis = JSON.parse(jsonMatch[0]);
-
-      // Validate and filter cross-contamination risks to only include valid allergen categories
-      const crossContaminationRisks: CrossContaminationRisk[] = Array.isArray(result.crossContaminationRisks)
-        ? result.crossContaminationRisks
-            .filter((r): r is { allergen: string; reason: string } =>
-              typeof r.allergen === 'string' &&
-              typeof r.reason === 'string' &&
-              isValidAllergen(r.allergen)
-            )
-        : [];
-
-      const crossContaminationAllergens: string[] = crossContaminationRisks.map(r => r.allergen);
-      const allAllergens = Array.from(new Set([...directAllergens, ...crossContaminationAllergens]))
-        .filter(isValidAllergen);
-
-      // Build comprehensive warnings
-      const warnings: string[] = [];
-      if (directAllergens.length > 0) {
-        warnings.push(`Contains: ${directAllergens.join(', ')}`);
-      }
-      if (crossContaminationRisks.length > 0) {
-        warnings.push(`Cross-contamination risk: ${crossContaminationAllergens.join(', ')}`);
-      }
-      if (Array.isArray(result.warnings)) {
-        warnings.push(...result.warnings.filter((w): w is string => typeof w === 'string'));
-      }
+  // Only risks naming a valid allergen category are kept
+  const crossContaminationRisks: CrossContaminationRisk[] = result.crossContaminationRisks
+    .filter(r => isValidAllergen(r.allergen));
 
-      return {
-        directAllergens,
-        crossContaminationRisks,
-        allAllergens,
-        warnings: Array.from(new Set(warnings)),
-        safetyNotes: Array.isArray(result.safetyNotes)
-          ? result.safetyNotes.filter((n): n is string => typeof n === 'string')
-          : [],
-      };
-    }
+  const crossContaminationAllergens: string[] = crossContaminationRisks.map(r => r.allergen);
+  const allAllergens = Array.from(new Set([...directAllergens, ...crossContaminationAllergens]))
+    .filter(isValidAllergen);
 
-    return defaultResult;
-  } catch (error) {
-    console.error('Error analyzing allergens:', error);
-    return defaultResult;
+  // Build comprehensive warnings
+  const warnings: string[] = [];
+  if (directAllergens.length > 0) {
+    warnings.push(`Contains: ${directAllergens.join(', ')}`);
   }
+  if (crossContaminationRisks.length > 0) {
+    warnings.push(`Cross-contamination risk: ${crossContaminationAllergens.join(', ')}`);
+  }
+  warnings.push(...result.warnings);
+
+  return {
+    directAllergens,
+    crossContaminationRisks,
+    allAllergens,
+    warnings: Array.from(new Set(warnings)),
+    safetyNotes: result.safetyNotes,
+  };
 }
 
 /**
@@ -778,106 +214,11 @@ Identify any cross-contamination risks from the preparation method.`,
  * Returns a CrossContactAnalysis object with risks, modifiable allergens, and modification notes.
  */
 export async function detectCrossContactRisks(stepDescription: string): Promise<CrossContactAnalysis> {
-  if (!OPENAI_API_KEY || OPENAI_API_KEY === 'your-openai-api-key-here' || !stepDescription.trim()) {
+  if (!stepDescription.trim()) {
     return EMPTY_CROSS_CONTACT_ANALYSIS;
   }
 
-  try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a food safety expert. Analyze cooking step descriptions for:
-1. Cross-contamination risks (shared equipment, oils, surfaces, utensils)
-2. Which allergens can be AVOIDED or MODIFIED based on what the chef describes
-
-VALID ALLERGEN CATEGORIES (only use these exact names):
-${ALLERGEN_CATEGORIES}
-
-${ALLERGEN_MAPPING_REFERENCE}
-
-Your tasks:
-- Identify cross-contamination risks mentioned or implied in the cooking step
-- Look for: shared equipment (fryers, grills, pans), cooking oils, shared surfaces, utensils
-- Also identify which allergens the chef indicates CAN BE MODIFIED or AVOIDED. Look for language like:
-  - "can be changed to gluten free" → that allergen is modifiable
-  - "can be removed" → that allergen is modifiable
-  - "is a garnish" or "optional" → that allergen is modifiable
-  - "substitute available" or "alternative available" → that allergen is modifiable
-  - "use separate fryer/pan" → that allergen is modifiable
-- Summarize HOW the modification works based on the chef's words
-
-Return ONLY a JSON object with this exact structure:
-{
-  "cross_contact_risks": ["Allergen1", "Allergen2"],
-  "modifiable_allergens": ["Allergen1"],
-  "modification_notes": "Brief description of how to modify based on chef's words"
-}
-
-Rules:
-- "cross_contact_risks" = ALL allergens present (from cross-contact OR mentioned allergen-containing ingredients in the step)
-- "modifiable_allergens" = subset of cross_contact_risks that the chef says CAN be avoided/changed/removed
-- "modification_notes" = empty string if no modifications described
-- If no risks at all, return: {"cross_contact_risks":[],"modifiable_allergens":[],"modification_notes":""}
-
-Examples:
-- "fried in same oil as shrimp" → {"cross_contact_risks":["Shellfish"],"modifiable_allergens":[],"modification_notes":""}
-- "bread can be changed for gluten free and almond is a garnish that can be removed" → {"cross_contact_risks":["Gluten","Wheat","Tree Nuts"],"modifiable_allergens":["Gluten","Wheat","Tree Nuts"],"modification_notes":"Bread can be substituted with gluten-free option; almonds can be removed as they are a garnish"}
-- "grilled on shared surface, can use separate pan on request" → {"cross_contact_risks":["Fish"],"modifiable_allergens":["Fish"],"modification_notes":"Can use separate pan on request"}`,
-          },
-          {
-            role: 'user',
-            content: `Cooking step: "${stepDescription}"
-
-Analyze for cross-contamination risks and modification possibilities. Return only the JSON object.`,
-          },
-        ],
-        max_tokens: 300,
-        temperature: 0.1,
-      }),
-    });
-
-    if (!response.ok) {
-      console.error('Failed to detect cross-contact risks:', response.status);
-      return EMPTY_CROSS_CONTACT_ANALYSIS;
-    }
-
-    const data = await response.json();
-    let content: string = data.choices[0]?.message?.content || '{}';
-
-    // Strip markdown code blocks if present
-    const codeBlockMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/);
-    if (codeBlockMatch) {
-      content = codeBlockMatch[1].trim();
-    }
-
-    // Parse JSON object
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]);
-      return {
-        cross_contact_risks: (parsed.cross_contact_risks || [])
-          .filter((a: unknown): a is string => typeof a === 'string')
-          .filter(isValidAllergen),
-        modifiable_allergens: (parsed.modifiable_allergens || [])
-          .filter((a: unknown): a is string => typeof a === 'string')
-          .filter(isValidAllergen),
-        modification_notes: typeof parsed.modification_notes === 'string'
-          ? parsed.modification_notes : '',
-      };
-    }
-    return EMPTY_CROSS_CONTACT_ANALYSIS;
-  } catch (error) {
-    console.error('Error detecting cross-contact risks:', error);
-    return EMPTY_CROSS_CONTACT_ANALYSIS;
-  }
+  return runAITask('cross-contact', { stepDescription }, stepDescription);
 }
 
 /**
@@ -885,79 +226,11 @@ Analyze for cross-contamination risks and modification possibilities. Return onl
  * Returns an array of allergen categories found in the description
  */
 export async function detectAllergensFromDescription(description: string): Promise<string[]> {
-  if (!OPENAI_API_KEY || OPENAI_API_KEY === 'your-openai-api-key-here' || !description.trim()) {
+  if (!description.trim()) {
     return [];
   }
 
-  try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a food allergen expert. Analyze dish descriptions to identify allergens that are explicitly mentioned or strongly implied.
-
-VALID ALLERGEN CATEGORIES (only use these exact names):
-${ALLERGEN_CATEGORIES}
-
-${ALLERGEN_MAPPING_REFERENCE}
-
-Your task:
-- Identify allergens that are EXPLICITLY mentioned in the description
-- Also identify allergens that are STRONGLY IMPLIED by ingredients/preparations mentioned
-- Examples:
-  - "served with a creamy peanut sauce" -> ["Peanuts", "Milk"]
-  - "topped with parmesan and walnuts" -> ["Milk", "Tree Nuts"]
-  - "breaded and deep fried" -> ["Wheat", "Gluten"]
-  - "made with our signature tahini dressing" -> ["Sesame"]
-  - "grilled salmon fillet" -> ["Fish"]
-  - "shrimp scampi in garlic butter" -> ["Shellfish", "Milk"]
-
-Return ONLY a JSON array of allergen category names found in the description.
-If no allergens are detected, return empty array [].
-Be conservative - only include allergens that are clearly indicated.`,
-          },
-          {
-            role: 'user',
-            content: `Dish description: "${description}"
-
-What allergens are mentioned or implied? Return only the JSON array.`,
-          },
-        ],
-        max_tokens: 200,
-        temperature: 0.1,
-      }),
-    });
-
-    if (!response.ok) {
-      console.error('Failed to detect allergens from description:', response.status);
-      return [];
-    }
-
-    const data = await response.json();
-    const content: string = data.choices[0]?.message?.content || '[]';
-
-    // Parse JSON array
-    const jsonMatch = content.match(/\[[\s\S]*?\]/);
-    if (jsonMatch) {
-      const allergens: string[] = JSON.parse(jsonMatch[0]);
-      if (Array.isArray(allergens)) {
-        return allergens
-          .filter((a): a is string => typeof a === 'string')
-          .filter(isValidAllergen);
-      }
-    }
-    return [];
-  } catch (error) {
-    console.error('Error detecting allergens from description:', error);
-    return [];
-  }
+  return runAITask('description-allergens', { description }, description);
 }
 
 /**
@@ -1045,112 +318,40 @@ export async function estimateNutrition(
   dishName: string,
   ingredients: IngredientForNutrition[]
 ): Promise<NutritionEstimate> {
-  if (!OPENAI_API_KEY || OPENAI_API_KEY === 'your-openai-api-key-here') {
-    return DEFAULT_NUTRITION;
-  }
-
   // Filter out ingredients without amounts
   const validIngredients = ingredients.filter(ing => ing.amount && ing.amount > 0);
   if (validIngredients.length === 0) {
     return DEFAULT_NUTRITION;
   }
 
-  const ingredientList = validIngredients
-    .map(ing => `- ${ing.name}: ${ing.amount} ${ing.unit || 'g'}`)
-    .join('\n');
-
-  try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a nutrition expert. Estimate the complete nutritional information for a dish based on its ingredients and amounts.
-
-Guidelines:
-- Use standard USDA nutritional values for each ingredient
-- Account for cooking methods (e.g., frying adds fat)
-- Round values appropriately (calories to nearest 5, grams to 1 decimal, mg to nearest integer)
-- Be conservative - slightly overestimate unhealthy nutrients
-- Consider typical serving sizes and preparation methods
-
-Return ONLY a valid JSON object with these exact keys (use null if unable to estimate):
-{
-  "calories": <integer>,
-  "protein_g": <number>,
-  "carbs_g": <number>,
-  "carbs_fiber_g": <number>,
-  "carbs_sugar_g": <number>,
-  "carbs_added_sugar_g": <number>,
-  "fat_g": <number>,
-  "fat_saturated_g": <number>,
-  "fat_trans_g": <number>,
-  "fat_polyunsaturated_g": <number>,
-  "fat_monounsaturated_g": <number>,
-  "sodium_mg": <integer>,
-  "cholesterol_mg": <integer>
-}
+  // Send grams wherever the amount converts so every line is in the same mass unit
+  const ingredientAmounts = validIngredients.map(ing => {
+    const unit = parseUnit(ing.unit) || 'g';
+    const grams = toGrams(ing.amount!, unit, ing.name);
+    return {
+      name: ing.name,
+      amount: grams !== null ? `${roundAmount(grams)} g` : `${ing.amount} ${ing.unit}`,
+    };
+  });
 
-Notes:
-- carbs_g is TOTAL carbs (includes fiber and sugars)
-- fat_g is TOTAL fat (includes all fat types)
-- carbs_added_sugar_g is sugars added during preparation (not naturally occurring)
-- Return ONLY the JSON, no explanation or markdown.`,
-          },
-          {
-            role: 'user',
-            content: `Dish: ${dishName}
-
-Ingredients:
-${ingredientList}
-
-Estimate the complete nutritional information for one serving. Return only the JSON object.`,
-          },
-        ],
-        max_tokens: 300,
-        temperature: 0.2,
-      }),
-    });
-
-    if (!response.ok) {
-      console.error('Failed to estimate nutrition:', response.status);
-      return DEFAULT_NUTRITION;
-    }
-
-    const data = await response.json();
-    const content: string = data.choices[0]?.message?.content || '{}';
-
-    // Parse JSON from response
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]);
-      return {
-        calories: typeof parsed.calories === 'number' ? Math.round(parsed.calories) : null,
-        protein_g: typeof parsed.protein_g === 'number' ? Math.round(parsed.protein_g * 10) / 10 : null,
-        carbs_g: typeof parsed.carbs_g === 'number' ? Math.round(parsed.carbs_g * 10) / 10 : null,
-        carbs_fiber_g: typeof parsed.carbs_fiber_g === 'number' ? Math.round(parsed.carbs_fiber_g * 10) / 10 : null,
-        carbs_sugar_g: typeof parsed.carbs_sugar_g === 'number' ? Math.round(parsed.carbs_sugar_g * 10) / 10 : null,
-        carbs_added_sugar_g: typeof parsed.carbs_added_sugar_g === 'number' ? Math.round(parsed.carbs_added_sugar_g * 10) / 10 : null,
-        fat_g: typeof parsed.fat_g === 'number' ? Math.round(parsed.fat_g * 10) / 10 : null,
-        fat_saturated_g: typeof parsed.fat_saturated_g === 'number' ? Math.round(parsed.fat_saturated_g * 10) / 10 : null,
-        fat_trans_g: typeof parsed.fat_trans_g === 'number' ? Math.round(parsed.fat_trans_g * 10) / 10 : null,
-        fat_polyunsaturated_g: typeof parsed.fat_polyunsaturated_g === 'number' ? Math.round(parsed.fat_polyunsaturated_g * 10) / 10 : null,
-        fat_monounsaturated_g: typeof parsed.fat_monounsaturated_g === 'number' ? Math.round(parsed.fat_monounsaturated_g * 10) / 10 : null,
-        sodium_mg: typeof parsed.sodium_mg === 'number' ? Math.round(parsed.sodium_mg) : null,
-        cholesterol_mg: typeof parsed.cholesterol_mg === 'number' ? Math.round(parsed.cholesterol_mg) : null,
-      };
-    }
-    return DEFAULT_NUTRITION;
-  } catch (error) {
-    console.error('Error estimating nutrition:', error);
-    return DEFAULT_NUTRITION;
-  }
+  const parsed = await runAITask('nutrition', { dishName, ingredients: ingredientAmounts }, dishName);
+  const round = (value: number | null, factor: number) =>
+    value === null ? null : Math.round(value * factor) / factor;
+  return {
+    calories: round(parsed.calories, 1),
+    protein_g: round(parsed.protein_g, 10),
+    carbs_g: round(parsed.carbs_g, 10),
+    carbs_fiber_g: round(parsed.carbs_fiber_g, 10),
+    carbs_sugar_g: round(parsed.carbs_sugar_g, 10),
+    carbs_added_sugar_g: round(parsed.carbs_added_sugar_g, 10),
+    fat_g: round(parsed.fat_g, 10),
+    fat_saturated_g: round(parsed.fat_saturated_g, 10),
+    fat_trans_g: round(parsed.fat_trans_g, 10),
+    fat_polyunsaturated_g: round(parsed.fat_polyunsaturated_g, 10),
+    fat_monounsaturated_g: round(parsed.fat_monounsaturated_g, 10),
+    sodium_mg: round(parsed.sodium_mg, 1),
+    cholesterol_mg: round(parsed.cholesterol_mg, 1),
+  };
 }
 
 /**
@@ -1223,21 +424,23 @@ export interface DietaryMenuAnalysisResult {
 }
 
 /**
- * Map dietary category to allergens to avoid
+ * Map dietary category to the ontology allergen to avoid
  */
+const ALLERGEN_FREE_CATEGORY_ALLERGENS: Record<string, AllergenId> = {
+  'shellfish-free': 'shellfish',
+  'nut-free': 'tree_nuts',
+  'peanut-free': 'peanuts',
+  'dairy-free': 'milk',
+  'gluten-free': 'gluten',
+  'egg-free': 'eggs',
+  'soy-free': 'soy',
+  'fish-free': 'fish',
+  'sesame-free': 'sesame',
+};
+
 function getAllergensForCategory(categoryId: string): string[] {
-  switch (categoryId) {
-    case 'shellfish-free': return ['Shellfish'];
-    case 'nut-free': return ['Tree Nuts'];
-    case 'peanut-free': return ['Peanuts'];
-    case 'dairy-free': return ['Milk'];
-    case 'gluten-free': return ['Gluten', 'Wheat'];
-    case 'egg-free': return ['Eggs'];
-    case 'soy-free': return ['Soy'];
-    case 'fish-free': return ['Fish'];
-    case 'sesame-free': return ['Sesame'];
-    default: return [];
-  }
+  const allergenId = ALLERGEN_FREE_CATEGORY_ALLERGENS[categoryId];
+  return allergenId ? [getAllergenLabel(allergenId)] : [];
 }
 
 /**
@@ -1247,15 +450,13 @@ function analyzeDishForAllergenFree(
   dish: DishForDietaryAnalysis,
   allergensToAvoid: string[]
 ): { safe: boolean; requiresModification: boolean; modifications: string[]; blockers: string[] } {
-  const allergensLower = allergensToAvoid.map(a => a.toLowerCase());
   const modifications: string[] = [];
   const blockers: string[] = [];
   let hasBlockingAllergen = false;
 
   // Check description allergens
   for (const descAllergen of dish.description_allergens) {
-    const descLower = descAllergen.toLowerCase();
-    if (allergensLower.some(a => descLower.includes(a) || a.includes(descLower))) {
+    if (matchesAnyAllergen(descAllergen, allergensToAvoid)) {
       blockers.push(`Mentioned in description: ${descAllergen}`);
       hasBlockingAllergen = true;
     }
@@ -1263,9 +464,8 @@ function analyzeDishForAllergenFree(
 
   // Check ingredients
   for (const ing of dish.ingredients) {
-    const ingAllergensLower = ing.allergens.map(a => a.toLowerCase());
-    const hasAllergen = allergensLower.some(a =>
-      ingAllergensLower.includes(a) || ing.name.toLowerCase().includes(a)
+    const hasAllergen = allergensToAvoid.some(a =>
+      matchesAllergen(ing.name, a) || ing.allergens.some(ia => matchesAllergen(ia, a))
     );
 
     if (hasAllergen) {
@@ -1273,10 +473,9 @@ function analyzeDishForAllergenFree(
         modifications.push(`Remove ${ing.name}`);
       } else if (ing.is_substitutable) {
         // Check if any substitute is safe
-        const safeSubstitutes = ing.substitutes.filter(sub => {
-          const subAllergensLower = sub.allergens.map(a => a.toLowerCase());
-          return !allergensLower.some(a => subAllergensLower.includes(a));
-        });
+        const safeSubstitutes = ing.substitutes.filter(sub =>
+          !sub.allergens.some(sa => matchesAnyAllergen(sa, allergensToAvoid))
+        );
         if (safeSubstitutes.length > 0) {
           modifications.push(`Substitute ${ing.name} with ${safeSubstitutes.map(s => s.name).join(' or ')}`);
         } else {
@@ -1293,8 +492,7 @@ function analyzeDishForAllergenFree(
   // Check cooking steps for cross-contamination
   for (const step of dish.cookingSteps) {
     for (const risk of step.cross_contact_risk) {
-      const riskLower = risk.toLowerCase();
-      if (allergensLower.some(a => riskLower.includes(a))) {
+      if (matchesAnyAllergen(risk, allergensToAvoid)) {
         blockers.push(`Cross-contamination risk: ${risk}`);
         hasBlockingAllergen = true;
       }
@@ -1310,16 +508,12 @@ function analyzeDishForAllergenFree(
 }
 
 /**
- * Analyze dietary menu possibilities using OpenAI for complex dietary styles
+ * Analyze dietary menu possibilities using the AI provider for complex dietary styles
  */
 export async function analyzeDietaryMenuWithAI(
   dishes: DishForDietaryAnalysis[],
   categoryId: string
 ): Promise<{ dishes: { id: string; name: string; safe: boolean; requiresModification: boolean; modifications: string[]; reason?: string }[] }> {
-  if (!OPENAI_API_KEY || OPENAI_API_KEY === 'your-openai-api-key-here') {
-    return { dishes: [] };
-  }
-
   const dishList = dishes.map(d => ({
     id: d.id,
     name: d.name,
@@ -1334,123 +528,7 @@ export async function analyzeDietaryMenuWithAI(
     sodium_mg: d.sodium_mg,
   }));
 
-  let categoryDescription = '';
-  switch (categoryId) {
-    case 'vegetarian':
-      categoryDescription = 'VEGETARIAN: No meat (beef, pork, lamb, poultry, game), no fish, no seafood. Eggs and dairy ARE allowed. Gelatin is NOT vegetarian.';
-      break;
-    case 'vegan':
-      categoryDescription = 'VEGAN: No animal products at all - no meat, fish, seafood, dairy, eggs, honey, gelatin, or any animal-derived ingredients.';
-      break;
-    case 'low-carb':
-      categoryDescription = 'LOW-CARB: Less than 20g net carbs per serving. Focus on proteins, fats, and non-starchy vegetables. No bread, pasta, rice, potatoes, sugar.';
-      break;
-    case 'pescatarian':
-      categoryDescription = 'PESCATARIAN: No meat or poultry (beef, pork, lamb, chicken, turkey, game). Fish and seafood ARE allowed. Dairy and eggs ARE allowed. Gelatin from animals is NOT pescatarian.';
-      break;
-    case 'kosher':
-      categoryDescription = 'KOSHER: No pork or pork products (bacon, ham, lard). No shellfish (shrimp, crab, lobster, clams, mussels). No mixing of meat and dairy in the same dish. Gelatin from non-kosher animals is NOT kosher. Fish with fins and scales ARE allowed.';
-      break;
-    case 'halal':
-      categoryDescription = 'HALAL: No pork or pork products (bacon, ham, lard, gelatin from pork). No alcohol or alcohol-based ingredients (wine, beer, rum, vanilla extract with alcohol). All meat must be halal-slaughtered — if meat source is unknown, mark as not halal. Fish and seafood ARE generally allowed.';
-      break;
-    case 'low-sodium':
-      categoryDescription = 'LOW-SODIUM: Less than 600mg sodium per serving. Avoid processed foods, soy sauce, pickled items, cured meats, high-sodium seasonings.';
-      break;
-  }
-
-  try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a dietary expert. Analyze menu items to determine if they can be served for a specific dietary requirement.
-
-${categoryDescription}
-
-For each dish, determine:
-1. Is it naturally compliant with the diet?
-2. Can it become compliant by removing or substituting ingredients?
-3. What modifications are needed?
-
-IMPORTANT:
-- Be strict about the dietary requirements
-- Consider hidden ingredients (e.g., butter in sauces, chicken broth, etc.)
-- If an ingredient is marked as "removable", it CAN be removed
-- If an ingredient is marked as "substitutable", check the substitutes list
-- For low-carb/low-sodium, use the provided nutrition values if available
-
-Return ONLY a JSON object with this structure:
-{
-  "dishes": [
-    {
-      "id": "dish-id",
-      "name": "Dish Name",
-      "safe": true/false,
-      "requiresModification": true/false,
-      "modifications": ["Remove X", "Substitute Y with Z"],
-      "reason": "Brief explanation if not safe"
-    }
-  ]
-}`,
-          },
-          {
-            role: 'user',
-            content: `Analyze these dishes for ${categoryDescription.split(':')[0]} diet:
-
-${JSON.stringify(dishList, null, 2)}
-
-Return the JSON analysis.`,
-          },
-        ],
-        max_tokens: 3000,
-        temperature: 0.2,
-      }),
-    });
-
-    if (!response.ok) {
-      console.error('Failed to analyze dietary menu:', response.status);
-      return { dishes: [] };
-    }
-
-    const data = await response.json();
-    const content: string = data.choices[0]?.message?.content || '{}';
-
-    // Parse JSON from response
-    let jsonString = content;
-    const codeBlockMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/);
-    if (codeBlockMatch) {
-      jsonString = codeBlockMatch[1].trim();
-    }
-
-    const jsonMatch = jsonString.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]);
-      if (parsed.dishes && Array.isArray(parsed.dishes)) {
-        return {
-          dishes: parsed.dishes.map((d: { id?: string; name?: string; safe?: boolean; requiresModification?: boolean; modifications?: string[]; reason?: string }) => ({
-            id: String(d.id || ''),
-            name: String(d.name || ''),
-            safe: d.safe === true,
-            requiresModification: d.requiresModification === true,
-            modifications: Array.isArray(d.modifications) ? d.modifications : [],
-            reason: d.reason || undefined,
-          })),
-        };
-      }
-    }
-    return { dishes: [] };
-  } catch (error) {
-    console.error('Error analyzing dietary menu:', error);
-    return { dishes: [] };
-  }
+  return runAITask('dietary-menu', { categoryId, dishes: dishList }, categoryId);
 }
 
 /**
@@ -1568,162 +646,37 @@ export interface MenuPhotoAnalysisResult {
 }
 
 /**
- * Analyze a menu photo using OpenAI Vision to extract dish names and approximate positions
+ * Analyze a menu photo with the AI provider's vision model to extract dish names and approximate positions
  */
 export async function analyzeMenuPhoto(
   imageBase64: string
 ): Promise<MenuPhotoAnalysisResult> {
-  if (!OPENAI_API_KEY || OPENAI_API_KEY === 'your-openai-api-key-here') {
-    console.error('OpenAI API key not configured for menu photo analysis');
-    throw new Error('OpenAI API key not configured. Please add VITE_OPENAI_API_KEY to your .env file.');
-  }
-
   // Ensure the image is in the correct data URL format
   const imageUrl = imageBase64.startsWith('data:')
     ? imageBase64
     : `data:image/jpeg;base64,${imageBase64}`;
 
+  let parsed;
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a menu OCR expert. Extract dish names with ACCURATE pixel-level positions.
-
-CRITICAL TASK: Read the menu and provide the EXACT location of each dish name.
-
-For EACH dish found, you MUST provide:
-1. name: Dish name as written
-2. boundingBox: The ACTUAL position of this specific dish name on the menu
-   - x: How far from the LEFT edge (as % of image width, 0-100) - WHERE DOES THIS TEXT START?
-   - y: How far from the TOP edge (as % of image height, 0-100) - WHAT ROW IS THIS TEXT ON?
-   - width/height: Approximate size of text
-3. confidence: 0-100
-4. price: If visible
-
-POSITION ACCURACY IS CRITICAL:
-- Each dish has a UNIQUE y position based on which LINE it's on
-- Do NOT use evenly spaced values - measure ACTUAL positions
-- First item might be at y=12, next at y=18, then y=31, etc. - NOT evenly spaced!
-- Look at WHERE each dish name actually appears on the menu
-- If dishes are close together, their y values will be close (e.g., y=25 and y=28)
-- If there's a gap, y values will have a gap too
-
-EXAMPLE for a menu with items at different spacings:
-- "Soup of the Day" at top-left: x=8, y=15
-- "House Salad" right below it: x=8, y=19
-- "Caesar Salad" with gap after: x=8, y=24
-- "Grilled Salmon" in new section: x=8, y=38
-- "Pasta Primavera" below that: x=8, y=43
-
-Return ONLY valid JSON:
-{
-  "items": [
-    {"name": "Dish Name", "boundingBox": {"x": 8, "y": 15, "width": 20, "height": 3}, "confidence": 95, "price": "$12.99"}
-  ]
-}`,
-          },
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: 'Read this menu and extract all dish names with their EXACT positions. Each dish appears at a specific location - provide the actual x,y coordinates where each dish name appears. Do NOT use evenly-spaced positions.',
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: imageUrl,
-                  detail: 'high', // High detail for better text recognition
-                },
-              },
-            ],
-          },
-        ],
-        max_tokens: 3000,
-        temperature: 0.1, // Low temperature for more consistent output
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      const errorMessage = errorData.error?.message || `API request failed with status ${response.status}`;
-      console.error('Failed to analyze menu photo:', errorMessage);
-
-      if (response.status === 401) {
-        throw new Error('Invalid OpenAI API key. Please check your VITE_OPENAI_API_KEY.');
-      }
-      if (response.status === 429) {
-        throw new Error('OpenAI rate limit exceeded. Please wait a moment and try again.');
-      }
-
-      throw new Error(errorMessage);
-    }
-
-    const data = await response.json();
-    const content: string = data.choices[0]?.message?.content || '{}';
-
-    console.log('OpenAI menu analysis response:', content);
-
-    // Parse JSON from response
-    let jsonString = content;
-    const codeBlockMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/);
-    if (codeBlockMatch) {
-      jsonString = codeBlockMatch[1].trim();
-    }
-
-    const jsonMatch = jsonString.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]);
-      if (parsed.items && Array.isArray(parsed.items)) {
-        const detectedItems: DetectedMenuItem[] = parsed.items
-          .filter((item: { name?: string }) => item.name && String(item.name).trim().length > 0)
-          .map((item: {
-            name?: string;
-            boundingBox?: { x?: number; y?: number; width?: number; height?: number };
-            confidence?: number;
-            price?: string;
-          }) => {
-            // Log each item's raw position data for debugging
-            console.log(`Item: "${item.name}" - Raw position:`, item.boundingBox);
-
-            return {
-              name: String(item.name || '').trim(),
-              boundingBox: {
-                // Use exact positions from OpenAI - no fallback grid pattern
-                x: typeof item.boundingBox?.x === 'number' ? item.boundingBox.x : 5,
-                y: typeof item.boundingBox?.y === 'number' ? item.boundingBox.y : 5,
-                width: typeof item.boundingBox?.width === 'number' ? item.boundingBox.width : 30,
-                height: typeof item.boundingBox?.height === 'number' ? item.boundingBox.height : 4,
-              },
-              confidence: typeof item.confidence === 'number' ? item.confidence : 70,
-              price: item.price,
-            };
-          });
-
-        console.log(`Detected ${detectedItems.length} menu items with positions:`,
-          detectedItems.map(d => ({ name: d.name, x: d.boundingBox.x, y: d.boundingBox.y })));
-
-        return {
-          detectedItems,
-          totalItems: detectedItems.length,
-        };
-      }
-    }
-
-    console.warn('Could not parse menu items from response');
-    return { detectedItems: [], totalItems: 0 };
+    parsed = await runAITask('menu-photo', { image: imageUrl });
   } catch (error) {
     console.error('Error analyzing menu photo:', error);
-    throw error; // Re-throw to let caller handle it
+    // Re-throw to let caller handle it
+    throw toImageError(error);
   }
+
+  // Positions are used exactly as returned; the schema fills in any that are missing
+  const detectedItems: DetectedMenuItem[] = parsed.items
+    .map(item => ({ ...item, name: item.name.trim() }))
+    .filter(item => item.name.length > 0);
+
+  console.log(`Detected ${detectedItems.length} menu items with positions:`,
+    detectedItems.map(d => ({ name: d.name, x: d.boundingBox.x, y: d.boundingBox.y })));
+
+  return {
+    detectedItems,
+    totalItems: detectedItems.length,
+  };
 }
 
 /**
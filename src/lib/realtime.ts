@@ -0,0 +1,143 @@
+import { supabase } from './supabase';
+import { getOrCreateSessionId } from './customerSession';
+import type { ChefRequest } from './chefRequests';
+
+export type ChefRequestChangeType = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface ChefRequestChange {
+  type: ChefRequestChangeType;
+  request: ChefRequest;
+}
+
+// Staff subscribe by restaurant; a guest session subscribes by its customer profile
+export type ChefRequestFilter =
+  | { restaurantId: string; customerProfileId?: undefined }
+  | { customerProfileId: string; restaurantId?: undefined };
+
+export interface RealtimeClient {
+  subscribeToChefRequests(filter: ChefRequestFilter, onChange: (change: ChefRequestChange) => void): () => void;
+  // Announce a change made by this client. Supabase broadcasts table changes by itself,
+  // the local stub needs to be told.
+  publishChefRequestChange(change: ChefRequestChange): void;
+}
+
+function matchesFilter(filter: ChefRequestFilter, request: ChefRequest): boolean {
+  if (filter.restaurantId) return request.restaurant_id === filter.restaurantId;
+  return request.customer_profile_id === filter.customerProfileId;
+}
+
+let channelCounter = 0;
+
+// How often a guest session checks for the chef's responses
+const GUEST_POLL_INTERVAL_MS = 10 * 1000;
+
+/**
+ * Guests can't read chef_requests directly, and Supabase only streams rows the
+ * subscriber may select, so a guest session polls guest_chef_requests() and reports
+ * each request that is new or has changed since the last poll.
+ */
+function pollGuestChefRequests(
+  customerProfileId: string,
+  onChange: (change: ChefRequestChange) => void
+): () => void {
+  const seen = new Map<string, string>();
+  let stopped = false;
+
+  const poll = async () => {
+    const { data } = await supabase.rpc('guest_chef_requests', { p_session_id: getOrCreateSessionId() });
+    if (stopped) return;
+    for (const request of (data || []) as ChefRequest[]) {
+      if (request.customer_profile_id !== customerProfileId) continue;
+      const previous = seen.get(request.id);
+      if (previous === request.updated_at) continue;
+      seen.set(request.id, request.updated_at);
+      onChange({ type: previous === undefined ? 'INSERT' : 'UPDATE', request });
+    }
+  };
+
+  poll();
+  const interval = setInterval(poll, GUEST_POLL_INTERVAL_MS);
+  return () => {
+    stopped = true;
+    clearInterval(interval);
+  };
+}
+
+export function createSupabaseRealtimeClient(): RealtimeClient {
+  return {
+    subscribeToChefRequests(filter, onChange) {
+      if (filter.customerProfileId) return pollGuestChefRequests(filter.customerProfileId, onChange);
+
+      const column = filter.restaurantId ? 'restaurant_id' : 'customer_profile_id';
+      const value = filter.restaurantId ?? filter.customerProfileId;
+
+      const channel = supabase
+        .channel(`chef_requests:${column}:${value}:${++channelCounter}`)
+        .on(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: 'chef_requests', filter: `${column}=eq.${value}` },
+          (payload) => {
+            const type = payload.eventType as ChefRequestChangeType;
+            const request = (type === 'DELETE' ? payload.old : payload.new) as ChefRequest;
+            onChange({ type, request });
+          }
+        )
+        .subscribe();
+
+      return () => {
+        supabase.removeChannel(channel);
+      };
+    },
+    publishChefRequestChange() {
+      // Postgres changes are pushed to staff by Supabase Realtime and polled by guests
+    },
+  };
+}
+
+const LOCAL_CHANNEL_NAME = 'safedining-realtime';
+
+/**
+ * In-memory realtime client for offline development and tests. Changes are delivered to
+ * subscribers in this tab and, where BroadcastChannel exists, to other tabs of the app
+ * (e.g. an admin tab and a guest tab side by side).
+ */
+export function createLocalRealtimeClient(): RealtimeClient {
+  const listeners = new Set<{ filter: ChefRequestFilter; onChange: (change: ChefRequestChange) => void }>();
+  const broadcast = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(LOCAL_CHANNEL_NAME) : null;
+
+  const deliver = (change: ChefRequestChange) => {
+    for (const listener of listeners) {
+      if (matchesFilter(listener.filter, change.request)) {
+        listener.onChange(change);
+      }
+    }
+  };
+
+  broadcast?.addEventListener('message', (event: MessageEvent<ChefRequestChange>) => deliver(event.data));
+
+  return {
+    subscribeToChefRequests(filter, onChange) {
+      const listener = { filter, onChange };
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    publishChefRequestChange(change) {
+      deliver(change);
+      broadcast?.postMessage(change);
+    },
+  };
+}
+
+let realtimeClient: RealtimeClient = import.meta.env.VITE_REALTIME_CLIENT === 'local'
+  ? createLocalRealtimeClient()
+  : createSupabaseRealtimeClient();
+
+export function getRealtimeClient(): RealtimeClient {
+  return realtimeClient;
+}
+
+export function setRealtimeClient(client: RealtimeClient): void {
+  realtimeClient = client;
+}
@@ -0,0 +1,78 @@
+import { supabase, Database } from './supabase';
+import { getOrCreateSessionId, storeTableLabel } from './customerSession';
+import { getCustomerProfileId } from './chefRequests';
+
+export type RestaurantTable = Database['public']['Tables']['restaurant_tables']['Row'];
+
+// Link printed on a table's QR code: the restaurant's menu with the table label attached
+export function tableMenuUrl(qrCode: string, label: string): string {
+  return `${window.location.origin}/menu/${qrCode}?table=${encodeURIComponent(label)}`;
+}
+
+export async function loadRestaurantTables(
+  restaurantId: string
+): Promise<{ tables: RestaurantTable[]; error: string | null }> {
+  const { data, error } = await supabase
+    .from('restaurant_tables')
+    .select('*')
+    .eq('restaurant_id', restaurantId)
+    .order('created_at');
+
+  if (error) return { tables: [], error: error.message };
+  return { tables: (data || []) as RestaurantTable[], error: null };
+}
+
+export async function addRestaurantTable(
+  restaurantId: string,
+  label: string
+): Promise<{ table: RestaurantTable | null; error: string | null }> {
+  const trimmed = label.trim();
+  if (!trimmed) return { table: null, error: 'Enter a table number or name' };
+
+  const { data, error } = await supabase
+    .from('restaurant_tables')
+    .insert({ restaurant_id: restaurantId, label: trimmed })
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    // unique_violation on (restaurant_id, label)
+    if (error?.code === '23505') return { table: null, error: `Table ${trimmed} already exists` };
+    return { table: null, error: error?.message || 'Could not add table' };
+  }
+  return { table: data as RestaurantTable, error: null };
+}
+
+export async function deleteRestaurantTable(tableId: string): Promise<{ error: string | null }> {
+  const { error } = await supabase.from('restaurant_tables').delete().eq('id', tableId);
+  return { error: error?.message ?? null };
+}
+
+/**
+ * Seat this guest session at a table from a table QR code. The label is kept on the
+ * device even when the table can't be found, since it's what the guest is sitting at;
+ * the guest's profile and the diners they added are linked to the table when it exists.
+ */
+export async function joinTable(restaurantId: string, label: string): Promise<{ error: string | null }> {
+  storeTableLabel(restaurantId, label);
+
+  const { data: table, error } = await supabase
+    .from('restaurant_tables')
+    .select('id')
+    .eq('restaurant_id', restaurantId)
+    .eq('label', label.trim())
+    .maybeSingle();
+
+  if (error) return { error: error.message };
+  if (!table) return { error: null };
+
+  const customerProfileId = await getCustomerProfileId();
+  if (!customerProfileId) return { error: null };
+
+  const { error: updateError } = await supabase
+    .from('customer_profiles')
+    .update({ table_id: table.id })
+    .or(`id.eq.${customerProfileId},group_session_id.eq.${getOrCreateSessionId()}`);
+
+  return { error: updateError?.message ?? null };
+}
@@ -1,8 +1,23 @@
-import { Database } from './supabase';
+import { Database, AllergenSeverity } from './supabase';
+import { allergensOverlap, findAllergenMatches, findAllergens, getAllergenLabel, matchAllergen, matchesAllergen } from './allergenOntology';
+import { MatchConfidence } from './termMatcher';
+import {
+  DIETARY_STYLE_RULES,
+  DietaryStyle,
+  DietaryViolation,
+  evaluateDietaryStyle,
+  getIngredientClassLabel,
+  toDietaryDish,
+} from './dietaryStyles';
+import { allowsRemovalByPolicy, isClearOf, ModificationChange, solveModificationPlan } from './modificationPlan';
+import { CookingStepExposure, equipmentExposedTo, stepCrossContactRisks } from './kitchenEquipment';
+import { Language, MessageKey, translate } from './i18n';
+import { translateAllergen } from './allergenTranslations';
 
 type MenuItem = Database['public']['Tables']['menu_items']['Row'];
 type Ingredient = Database['public']['Tables']['ingredients']['Row'];
-type CookingStep = Database['public']['Tables']['cooking_steps']['Row'];
+// Steps from the menu graph carry their kitchen equipment, whose allergens count as cross-contact risks
+type CookingStep = Database['public']['Tables']['cooking_steps']['Row'] & Pick<CookingStepExposure, 'equipment'>;
 
 // Extended ingredient type with modification fields
 interface IngredientWithModifications extends Ingredient {
@@ -11,13 +26,96 @@ interface IngredientWithModifications extends Ingredient {
   substitutes?: { id: string; name: string; allergens: string[] }[];
 }
 
-export type SafetyStatus = 'safe' | 'safe-with-modifications' | 'unsafe';
+export type SafetyStatus = 'safe' | 'safe-with-modifications' | 'unsafe' | 'unverified';
+
+// Missing dish data that stops a clean result from being trusted as safe
+export type DataGap = 'no-ingredients' | 'ai-only-allergens' | 'no-cooking-steps';
+
+// Each rule analyzeDishSafety can apply when a dish term matches a customer allergen
+export type SafetyRuleId =
+  | 'description-allergen'
+  | 'ingredient-name-uncertain'
+  | 'ingredient-anaphylactic'
+  | 'ingredient-removable'
+  | 'ingredient-substitutable'
+  | 'ingredient-no-safe-substitute'
+  | 'ingredient-policy-removable'
+  | 'ingredient-not-modifiable'
+  | 'cross-contact-anaphylactic'
+  | 'cross-contact-modifiable'
+  | 'cross-contact'
+  | 'dietary-style';
+
+// Values filled into a SafetyMessage. Owner-entered text (ingredient names, step
+// descriptions, notes, the modification policy) is shown as written; allergen terms,
+// dietary styles and ingredient classes are translated by describeSafetyMessage.
+export interface SafetyMessageParams {
+  ingredient?: string;
+  ingredients?: string;
+  substitutes?: string;
+  step?: string;
+  notes?: string;
+  policy?: string;
+  allergen?: string;
+  risk?: string;
+  // Shared equipment a cross-contact risk comes from: "shrimp from Fryer 2"
+  equipment?: string;
+  style?: DietaryStyle;
+  ingredientClass?: DietaryViolation['ingredientClass'];
+}
+
+// Engine text as an i18n key, so guests read warnings and evidence in their own language
+export interface SafetyMessage {
+  key: MessageKey;
+  params?: SafetyMessageParams;
+}
+
+export interface SafetyEvidence {
+  rule: SafetyRuleId;
+  // 'blocks' keeps the dish unsafe; 'modifiable' can be resolved by the kitchen;
+  // 'uncertain' needs a check with staff
+  effect: 'blocks' | 'modifiable' | 'uncertain';
+  source: 'ingredient' | 'cooking-step' | 'description';
+  // Ingredient or cooking step id; description allergens have none
+  sourceId?: string;
+  // Ingredient name, cooking step description, or description allergen
+  sourceLabel: string;
+  // Set when sourceLabel is a cooking step's description
+  stepNumber?: number;
+  // The dish-side term that matched (ingredient name, contains_allergens entry, cross-contact
+  // risk, with the equipment it comes from)
+  matchedTerm: SafetyMessage;
+  customerAllergen: string;
+  // What matchedTerm was matched as, by ontology label ("Milk" for a guest's "butter");
+  // see matchedAllergenName. Dietary-style evidence has none
+  allergen?: string;
+  // How surely matchedTerm names the customer allergen
+  confidence: MatchConfidence;
+  detail: SafetyMessage;
+}
 
 export interface SafetyAnalysis {
   status: SafetyStatus;
   reasons: string[];
-  modificationSuggestions?: string[];
-  crossContactRisks?: string[];
+  modificationSuggestions?: SafetyMessage[];
+  crossContactRisks?: SafetyMessage[];
+  // Why a dish that could otherwise be modified is unsafe for an anaphylactic allergen
+  anaphylaxisWarnings?: SafetyMessage[];
+  // Every rule that fired, in evaluation order
+  evidence: SafetyEvidence[];
+  // Missing dish data behind an 'unverified' status
+  dataGaps?: DataGap[];
+  // Untagged ingredients whose name only partly matches an allergen ("cheesecake")
+  uncertainIngredients?: string[];
+  // The one way to order a 'safe-with-modifications' dish; see solveModificationPlan
+  modificationPlan?: ModificationChange[];
+}
+
+export interface SafetyAnalysisOptions {
+  // Severity per customer allergen term (lowercase); missing terms are treated as 'allergy'
+  severities?: Record<string, AllergenSeverity>;
+  // Vegan, Kosher, ... from the guest's restrictions; see getDietaryStyles
+  dietaryStyles?: DietaryStyle[];
 }
 
 // Extended MenuItem type to include optional description_allergens
@@ -25,27 +123,108 @@ interface MenuItemWithDescriptionAllergens extends Omit<MenuItem, 'description_a
   description_allergens?: string[];
 }
 
+const STYLE_KEYS: Record<DietaryStyle, MessageKey> = {
+  vegetarian: 'style.vegetarian',
+  vegan: 'style.vegan',
+  pescatarian: 'style.pescatarian',
+  kosher: 'style.kosher',
+  halal: 'style.halal',
+};
+
+const CLASS_KEYS: Record<DietaryViolation['ingredientClass'], MessageKey> = {
+  meat: 'class.meat',
+  pork: 'class.pork',
+  fish: 'class.fish',
+  shellfish: 'class.shellfish',
+  dairy: 'class.dairy',
+  eggs: 'class.eggs',
+  honey: 'class.honey',
+  gelatin: 'class.gelatin',
+  alcohol: 'class.alcohol',
+  'meat-with-dairy': 'class.meatWithDairy',
+};
+
+/**
+ * The allergen a dish term (ingredient name, allergen tag) was matched as, named by its
+ * ontology label: "Cheese" against a guest's "butter" is Milk, not butter. Terms outside
+ * the ontology keep the guest's own wording.
+ */
+export function matchedAllergenName(term: string, allergen: string): string {
+  const allergenIds = findAllergens(allergen);
+  const match = findAllergenMatches(term).find(m => allergenIds.some(a => allergensOverlap(m.id, a)));
+  return match ? getAllergenLabel(match.id) : allergen;
+}
+
+/**
+ * A SafetyMessage in the given language. Kitchen and owner screens pass 'en'.
+ */
+export function describeSafetyMessage(language: Language, { key, params = {} }: SafetyMessage): string {
+  const { allergen, risk, equipment, style, ingredientClass, ...text } = params;
+  const values: Record<string, string> = {};
+  for (const [name, value] of Object.entries(text)) {
+    if (value !== undefined) values[name] = value;
+  }
+  if (allergen) values.allergen = translateAllergen(allergen, language);
+  if (risk) {
+    const translatedRisk = translateAllergen(risk, language);
+    values.risk = equipment ? translate(language, 'safety.riskFrom', { risk: translatedRisk, equipment }) : translatedRisk;
+  }
+  if (style) values.style = translate(language, STYLE_KEYS[style]);
+  if (ingredientClass) values.ingredientClass = translate(language, CLASS_KEYS[ingredientClass]);
+  return translate(language, key, values);
+}
+
+/**
+ * What the dish is missing before a verdict can be trusted. A dish without ingredients
+ * has only its AI-tagged description allergens to go on, if any; without cooking steps
+ * there's nothing to check cross-contact against.
+ */
+export function findDataGaps(
+  menuItem: MenuItem | MenuItemWithDescriptionAllergens,
+  ingredients: (Ingredient | IngredientWithModifications)[],
+  cookingSteps: CookingStep[]
+): DataGap[] {
+  const gaps: DataGap[] = [];
+  if (ingredients.length === 0) {
+    gaps.push(menuItem.description_allergens?.length ? 'ai-only-allergens' : 'no-ingredients');
+  }
+  if (cookingSteps.length === 0) {
+    gaps.push('no-cooking-steps');
+  }
+  return gaps;
+}
+
 export function analyzeDishSafety(
   menuItem: MenuItem | MenuItemWithDescriptionAllergens,
   ingredients: (Ingredient | IngredientWithModifications)[],
   cookingSteps: CookingStep[],
-  customerAllergens: string[]
+  customerAllergens: string[],
+  options: SafetyAnalysisOptions = {}
 ): SafetyAnalysis {
   const isDev = import.meta.env.VITE_ENV === 'development';
   const log = (...args: any[]) => { if (isDev) console.log('[SafetyAnalysis]', ...args); };
 
   const reasons: string[] = [];
-  const modificationSuggestions: string[] = [];
-  const crossContactRisks: string[] = [];
+  const modificationSuggestions: SafetyMessage[] = [];
+  const english = (message: SafetyMessage) => describeSafetyMessage('en', message);
+  const crossContactRisks: SafetyMessage[] = [];
+  // Once per step and risk, however many of the guest's terms the risk matched
+  const addCrossContactRisk = (message: SafetyMessage) => {
+    if (!crossContactRisks.some(m => english(m) === english(message))) crossContactRisks.push(message);
+  };
+  const evidence: SafetyEvidence[] = [];
 
   log(`\n========== Analyzing: "${menuItem.name}" ==========`);
   log(`Customer allergens:`, customerAllergens);
 
-  if (customerAllergens.length === 0) {
+  const dietaryStyles = options.dietaryStyles || [];
+
+  if (customerAllergens.length === 0 && dietaryStyles.length === 0) {
     log(`No customer allergens → SAFE`);
     return {
       status: 'safe',
       reasons: ['No dietary restrictions specified'],
+      evidence,
     };
   }
 
@@ -54,18 +233,38 @@ export function analyzeDishSafety(
   const removableAllergens = new Set<string>();
   const substitutableAllergens = new Set<string>();
   const descriptionAllergenMatches = new Set<string>();
+  const uncertainIngredients = new Set<string>();
+
+  // Anaphylactic allergens never accept modifications or modified cooking steps
+  const severities = options.severities || {};
+  const isAnaphylactic = (allergen: string) => severities[allergen] === 'anaphylactic';
+  const anaphylacticBlockers = new Set<string>();
+  // Keyed by the English text, which is also what dedupes them
+  const anaphylaxisWarnings = new Map<string, SafetyMessage>();
+  const addAnaphylaxisWarning = (message: SafetyMessage) => anaphylaxisWarnings.set(english(message), message);
+  log(`Severities:`, severities);
 
   // Check description allergens first
   const itemWithDescAllergens = menuItem as MenuItemWithDescriptionAllergens;
   if (itemWithDescAllergens.description_allergens && itemWithDescAllergens.description_allergens.length > 0) {
     log(`Description allergens:`, itemWithDescAllergens.description_allergens);
     for (const descAllergen of itemWithDescAllergens.description_allergens) {
-      const descAllergenLower = descAllergen.toLowerCase();
       for (const customerAllergen of allergenSet) {
-        if (descAllergenLower.includes(customerAllergen) || customerAllergen.includes(descAllergenLower)) {
+        if (matchesAllergen(descAllergen, customerAllergen)) {
           log(`  ⛔ Description allergen MATCH: "${descAllergen}" ↔ customer "${customerAllergen}" → BLOCKER`);
           descriptionAllergenMatches.add(descAllergen);
           foundAllergens.add(descAllergen);
+          evidence.push({
+            rule: 'description-allergen',
+            effect: 'blocks',
+            source: 'description',
+            sourceLabel: descAllergen,
+            matchedTerm: { key: 'safety.term', params: { allergen: descAllergen } },
+            customerAllergen,
+            allergen: matchedAllergenName(descAllergen, customerAllergen),
+            confidence: matchAllergen(descAllergen, customerAllergen) ?? 'high',
+            detail: { key: 'safety.descriptionAllergen', params: { allergen: descAllergen } },
+          });
         }
       }
     }
@@ -73,50 +272,111 @@ export function analyzeDishSafety(
 
   log(`\nChecking ${ingredients.length} ingredients:`);
   for (const ingredient of ingredients) {
-    const ingredientName = ingredient.name.toLowerCase();
-    const ingredientAllergens = ingredient.contains_allergens.map(a => a.toLowerCase());
     const ingWithMods = ingredient as IngredientWithModifications;
 
     for (const allergen of allergenSet) {
-      if (ingredientName.includes(allergen) || ingredientAllergens.includes(allergen)) {
+      const nameMatch = matchAllergen(ingredient.name, allergen);
+      const taggedAs = ingredient.contains_allergens.find(a => matchesAllergen(a, allergen));
+
+      // Only part of the name matches and the tags don't back it up: ask, don't guess
+      if (nameMatch === 'low' && !taggedAs) {
+        log(`  ❔ Ingredient "${ingredient.name}" only partly matches "${allergen}" → CHECK WITH STAFF`);
+        uncertainIngredients.add(ingredient.name);
+        evidence.push({
+          rule: 'ingredient-name-uncertain',
+          effect: 'uncertain',
+          source: 'ingredient',
+          sourceId: ingredient.id,
+          sourceLabel: ingredient.name,
+          matchedTerm: { key: 'safety.ingredient', params: { ingredient: ingredient.name } },
+          customerAllergen: allergen,
+          allergen: matchedAllergenName(ingredient.name, allergen),
+          confidence: 'low',
+          detail: { key: 'safety.nameUncertain', params: { allergen } },
+        });
+        continue;
+      }
+
+      const matchedTerm: SafetyMessage | undefined = nameMatch === 'high'
+        ? { key: 'safety.ingredient', params: { ingredient: ingredient.name } }
+        : taggedAs ? { key: 'safety.term', params: { allergen: taggedAs } } : undefined;
+
+      if (matchedTerm) {
+        const addEvidence = (rule: SafetyRuleId, effect: SafetyEvidence['effect'], detail: SafetyMessage) => {
+          evidence.push({
+            rule,
+            effect,
+            source: 'ingredient',
+            sourceId: ingredient.id,
+            sourceLabel: ingredient.name,
+            matchedTerm,
+            customerAllergen: allergen,
+            allergen: matchedAllergenName(taggedAs ?? ingredient.name, allergen),
+            confidence: 'high',
+            detail,
+          });
+        };
+
         log(`  🔍 Ingredient "${ingredient.name}" matches allergen "${allergen}"`);
         log(`     contains_allergens: [${ingredient.contains_allergens.join(', ')}]`);
         log(`     is_removable: ${ingWithMods.is_removable}, is_substitutable: ${ingWithMods.is_substitutable}`);
         foundAllergens.add(ingredient.name);
 
+        if (isAnaphylactic(allergen)) {
+          log(`     ⛔ "${allergen}" is ANAPHYLACTIC → modifications not accepted`);
+          anaphylacticBlockers.add(ingredient.name);
+          // One warning per ingredient and allergen, however many of the guest's terms matched it
+          if (ingWithMods.is_removable || ingWithMods.is_substitutable) {
+            addAnaphylaxisWarning({
+              key: 'safety.anaphylacticIngredient',
+              params: { ingredient: ingredient.name, allergen: matchedAllergenName(taggedAs ?? ingredient.name, allergen) },
+            });
+          }
+          addEvidence('ingredient-anaphylactic', 'blocks', { key: 'safety.anaphylacticNoModifications' });
+          continue;
+        }
+
         // Check structured modification flags first
         if (ingWithMods.is_removable) {
           log(`     ✅ Ingredient is REMOVABLE → added to removableAllergens as "${ingredient.name}"`);
           removableAllergens.add(ingredient.name);
-          modificationSuggestions.push(`Remove ${ingredient.name}`);
+          modificationSuggestions.push({ key: 'safety.remove', params: { ingredient: ingredient.name } });
+          addEvidence('ingredient-removable', 'modifiable', { key: 'safety.canBeRemoved', params: { ingredient: ingredient.name } });
         } else if (ingWithMods.is_substitutable) {
-          // Check if any substitutes are safe for the customer
-          const safeSubstitutes = (ingWithMods.substitutes || []).filter(sub => {
-            const subAllergens = sub.allergens.map(a => a.toLowerCase());
-            return !subAllergens.some(sa => allergenSet.has(sa));
-          });
+          // Check if any substitutes are safe for the customer, by name as well as tags
+          const safeSubstitutes = (ingWithMods.substitutes || []).filter(sub =>
+            isClearOf(sub.name, sub.allergens, [...allergenSet], dietaryStyles)
+          );
 
           if (safeSubstitutes.length > 0) {
             log(`     ✅ Ingredient is SUBSTITUTABLE with safe options: [${safeSubstitutes.map(s => s.name).join(', ')}]`);
             substitutableAllergens.add(ingredient.name);
-            modificationSuggestions.push(
-              `Substitute ${ingredient.name} with ${safeSubstitutes.map(s => s.name).join(' or ')}`
-            );
+            const substitutes = safeSubstitutes.map(s => s.name).join(', ');
+            modificationSuggestions.push({ key: 'safety.substitute', params: { ingredient: ingredient.name, substitutes } });
+            addEvidence('ingredient-substitutable', 'modifiable', { key: 'safety.safeSubstitutes', params: { substitutes } });
           } else {
             log(`     ⚠️ Ingredient is substitutable but NO safe substitutes found`);
+            addEvidence(
+              'ingredient-no-safe-substitute',
+              'blocks',
+              (ingWithMods.substitutes || []).length > 0
+                ? { key: 'safety.noSafeSubstitute', params: { substitutes: (ingWithMods.substitutes || []).map(s => s.name).join(', ') } }
+                : { key: 'safety.noSubstitutes' }
+            );
           }
-        } else if (
+        } else if (allowsRemovalByPolicy(menuItem.modification_policy)) {
           // Fallback to text-based modification_policy for backwards compatibility
-          menuItem.modification_policy &&
-          (menuItem.modification_policy.toLowerCase().includes('remove') ||
-          menuItem.modification_policy.toLowerCase().includes('optional') ||
-          menuItem.modification_policy.toLowerCase().includes('substitute'))
-        ) {
           log(`     ✅ Matched via modification_policy text fallback → added to removableAllergens`);
           removableAllergens.add(ingredient.name);
-          modificationSuggestions.push(`Remove ${ingredient.name}`);
+          modificationSuggestions.push({ key: 'safety.remove', params: { ingredient: ingredient.name } });
+          addEvidence(
+            'ingredient-policy-removable',
+            'modifiable',
+            { key: 'safety.policyAllows', params: { policy: menuItem.modification_policy ?? '' } }
+          );
         } else {
           log(`     ❌ NOT modifiable → stays as non-removable foundAllergen "${ingredient.name}"`);
+          addEvidence('ingredient-not-modifiable', 'blocks', { key: 'safety.notModifiable' });
         }
       }
     }
@@ -124,25 +384,61 @@ export function analyzeDishSafety(
 
   log(`\nChecking ${cookingSteps.length} cooking steps:`);
   for (const step of cookingSteps) {
+    const stepRisks = stepCrossContactRisks(step);
     log(`  Step: "${step.description}"`);
-    log(`    cross_contact_risk: [${step.cross_contact_risk.join(', ')}]`);
+    log(`    cross_contact_risk: [${step.cross_contact_risk.join(', ')}], with equipment: [${stepRisks.join(', ')}]`);
     log(`    is_modifiable: ${step.is_modifiable}, modifiable_allergens: [${(step.modifiable_allergens || []).join(', ')}]`);
-    for (const risk of step.cross_contact_risk) {
-      const riskLower = risk.toLowerCase();
+    for (const risk of stepRisks) {
+      // "shrimp from Fryer 2" when the risk comes from shared equipment
+      const via = equipmentExposedTo(step, risk);
+      const riskParams: SafetyMessageParams = via.length > 0 ? { risk, equipment: via.join(', ') } : { risk };
       for (const allergen of allergenSet) {
-        if (riskLower.includes(allergen)) {
-          // Check if this cooking step can be modified to avoid this allergen
-          if (step.is_modifiable && step.modifiable_allergens?.some(
-            (ma: string) => ma.toLowerCase().includes(allergen)
+        const riskMatch = matchAllergen(risk, allergen);
+        if (riskMatch) {
+          const addEvidence = (rule: SafetyRuleId, effect: SafetyEvidence['effect'], detail: SafetyMessage) => {
+            evidence.push({
+              rule,
+              effect,
+              source: 'cooking-step',
+              sourceId: step.id,
+              sourceLabel: step.description,
+              stepNumber: step.step_number,
+              matchedTerm: { key: 'safety.risk', params: riskParams },
+              customerAllergen: allergen,
+              allergen: matchedAllergenName(risk, allergen),
+              confidence: riskMatch,
+              detail,
+            });
+          };
+
+          if (isAnaphylactic(allergen)) {
+            log(`    ⛔ Cross-contact "${risk}" with ANAPHYLACTIC "${allergen}" → added to crossContactRisks`);
+            anaphylacticBlockers.add(risk);
+            addCrossContactRisk({ key: 'safety.crossContactRisk', params: { step: step.description, ...riskParams } });
+            addAnaphylaxisWarning({ key: 'safety.anaphylacticStep', params: { step: step.description, ...riskParams } });
+            addEvidence('cross-contact-anaphylactic', 'blocks', { key: 'safety.anaphylacticNoStepChanges' });
+          } else if (step.is_modifiable && step.modifiable_allergens?.some(
+            (ma: string) => matchesAllergen(ma, allergen)
           )) {
+            // This cooking step can be modified to avoid this allergen
             log(`    ✅ Cross-contact "${risk}" is MODIFIABLE for "${allergen}" → added to removableAllergens as "${risk}"`);
-            modificationSuggestions.push(
-              `Modify cooking step "${step.description}": ${step.modification_notes || 'Ask chef for details'}`
+            modificationSuggestions.push(step.modification_notes
+              ? { key: 'safety.modifyStep', params: { step: step.description, notes: step.modification_notes } }
+              : { key: 'safety.modifyStepAskChef', params: { step: step.description } }
             );
             removableAllergens.add(risk);
+            addEvidence('cross-contact-modifiable', 'modifiable', step.modification_notes
+              ? { key: 'safety.stepNotes', params: { notes: step.modification_notes } }
+              : { key: 'safety.stepModifiableAskChef' }
+            );
           } else {
             log(`    ❌ Cross-contact "${risk}" is NOT modifiable for "${allergen}" → added to crossContactRisks`);
-            crossContactRisks.push(`${step.description} (risk: ${risk})`);
+            addCrossContactRisk({ key: 'safety.crossContactRisk', params: { step: step.description, ...riskParams } });
+            addEvidence(
+              'cross-contact',
+              'blocks',
+              step.is_modifiable ? { key: 'safety.stepNotModifiableFor', params: { risk } } : { key: 'safety.stepNotModifiable' }
+            );
           }
           foundAllergens.add(risk);
         }
@@ -150,18 +446,88 @@ export function analyzeDishSafety(
     }
   }
 
+  // Dietary styles are checked by rule (ingredient classes) rather than by allergen term
+  const styleViolations = new Set<string>();
+  const dietaryDish = toDietaryDish(itemWithDescAllergens, ingredients, cookingSteps);
+  for (const style of dietaryStyles) {
+    const { label } = DIETARY_STYLE_RULES[style];
+    const { violations } = evaluateDietaryStyle(style, dietaryDish);
+    log(`Dietary style ${label}:`, violations);
+
+    for (const violation of violations) {
+      const classLabel = getIngredientClassLabel(violation.ingredientClass);
+      const { ingredientClass } = violation;
+      const addEvidence = (effect: SafetyEvidence['effect'], detail: SafetyMessage) => {
+        evidence.push({
+          rule: 'dietary-style',
+          effect,
+          source: violation.source,
+          sourceLabel: violation.sourceLabel,
+          matchedTerm: { key: 'safety.ingredientClass', params: { ingredientClass } },
+          customerAllergen: label,
+          confidence: violation.confidence,
+          detail,
+        });
+      };
+
+      if (violation.confidence === 'low') {
+        uncertainIngredients.add(violation.sourceLabel);
+        addEvidence('uncertain', { key: 'safety.styleUncertain', params: { ingredientClass, style } });
+        continue;
+      }
+
+      const key = `${violation.sourceLabel} (${classLabel})`;
+      foundAllergens.add(key);
+      styleViolations.add(key);
+
+      if (violation.fixableBy.length > 0) {
+        removableAllergens.add(key);
+        const suggestion: SafetyMessage = violation.source === 'cooking-step'
+          ? { key: 'safety.styleAvoidCrossContact', params: { risk: violation.sourceLabel, style } }
+          : { key: 'safety.styleLeaveOut', params: { ingredients: violation.fixableBy.join(', '), style } };
+        if (!modificationSuggestions.some(m => english(m) === english(suggestion))) modificationSuggestions.push(suggestion);
+        addEvidence('modifiable', { key: 'safety.styleModifiable', params: { style } });
+      } else {
+        reasons.push(`Not ${label.toLowerCase()}: ${key}`);
+        addEvidence('blocks', { key: 'safety.styleBlocks', params: { ingredientClass, style } });
+      }
+    }
+  }
+
   log(`\n--- DECISION INPUTS ---`);
   log(`foundAllergens:`, Array.from(foundAllergens));
   log(`removableAllergens:`, Array.from(removableAllergens));
   log(`substitutableAllergens:`, Array.from(substitutableAllergens));
   log(`descriptionAllergenMatches:`, Array.from(descriptionAllergenMatches));
-  log(`crossContactRisks:`, crossContactRisks);
+  log(`crossContactRisks:`, crossContactRisks.map(english));
+
+  // A clean or modifiable result is only as good as the dish data behind it, and an
+  // ingredient that might hold the allergen has to be checked before it counts as safe
+  const dataGaps = findDataGaps(menuItem, ingredients, cookingSteps);
+  const unverified = (): SafetyAnalysis => ({
+    status: 'unverified',
+    reasons: [
+      ...dataGaps.map(getDataGapLabel),
+      ...(uncertainIngredients.size > 0
+        ? [`Check with staff: ${Array.from(uncertainIngredients).join(', ')}`]
+        : []),
+    ],
+    evidence,
+    dataGaps: dataGaps.length > 0 ? dataGaps : undefined,
+    uncertainIngredients: uncertainIngredients.size > 0 ? Array.from(uncertainIngredients) : undefined,
+  });
+  const needsCheck = dataGaps.length > 0 || uncertainIngredients.size > 0;
 
   if (foundAllergens.size === 0 && crossContactRisks.length === 0) {
+    if (needsCheck) {
+      log(`→ No allergens found but data is incomplete or uncertain → UNVERIFIED`, dataGaps, Array.from(uncertainIngredients));
+      return unverified();
+    }
     log(`→ No allergens found → SAFE`);
     return {
       status: 'safe',
       reasons: ['No allergens or cross-contact risks detected'],
+      evidence,
     };
   }
 
@@ -171,11 +537,18 @@ export function analyzeDishSafety(
   }
 
   if (crossContactRisks.length > 0) {
-    reasons.push(`Cross-contamination risk: ${Array.from(crossContactRisks).join(', ')}`);
+    reasons.push(`Cross-contamination risk: ${crossContactRisks.map(english).join(', ')}`);
   }
 
-  // Combine removable and substitutable allergens for "safe with modifications" check
-  const modifiableAllergens = new Set([...removableAllergens, ...substitutableAllergens]);
+  if (anaphylaxisWarnings.size > 0) {
+    reasons.push(...anaphylaxisWarnings.keys());
+  }
+
+  // Combine removable and substitutable allergens for "safe with modifications" check,
+  // leaving out anything that also touches an anaphylactic allergen
+  const modifiableAllergens = new Set(
+    [...removableAllergens, ...substitutableAllergens].filter(a => !anaphylacticBlockers.has(a))
+  );
 
   log(`modifiableAllergens (removable ∪ substitutable):`, Array.from(modifiableAllergens));
   log(`\n--- YELLOW CHECK ---`);
@@ -191,23 +564,38 @@ export function analyzeDishSafety(
   }
 
   if (foundAllergens.size > 0 && modifiableAllergens.size === foundAllergens.size && crossContactRisks.length === 0 && descriptionAllergenMatches.size === 0) {
-    log(`→ All allergens are modifiable → SAFE-WITH-MODIFICATIONS (YELLOW)`);
-    reasons.push(`Contains: ${Array.from(foundAllergens).join(', ')}`);
-    return {
-      status: 'safe-with-modifications',
-      reasons,
-      modificationSuggestions,
-    };
+    if (needsCheck) {
+      log(`→ All allergens are modifiable but data is incomplete or uncertain → UNVERIFIED`, dataGaps, Array.from(uncertainIngredients));
+      return unverified();
+    }
+    // Each change can be made on its own; check they add up to one safe plate
+    const { plan, blockers } = solveModificationPlan(menuItem, ingredients, cookingSteps, customerAllergens, dietaryStyles);
+    if (plan) {
+      log(`→ All allergens are modifiable → SAFE-WITH-MODIFICATIONS (YELLOW)`, plan);
+      reasons.push(`Contains: ${Array.from(foundAllergens).join(', ')}`);
+      return {
+        status: 'safe-with-modifications',
+        reasons,
+        modificationSuggestions,
+        evidence,
+        modificationPlan: plan,
+      };
+    }
+    log(`→ No combination of changes gives a safe plate → UNSAFE`, blockers);
+    reasons.push(...blockers);
   }
 
-  const nonModifiableAllergens = Array.from(foundAllergens).filter(a => !modifiableAllergens.has(a) && !descriptionAllergenMatches.has(a));
+  // Dietary-style blockers already have their own reasons
+  const nonModifiableAllergens = Array.from(foundAllergens).filter(a =>
+    !modifiableAllergens.has(a) && !descriptionAllergenMatches.has(a) && !styleViolations.has(a)
+  );
 
   if (nonModifiableAllergens.length > 0) {
     reasons.push(`Contains non-removable allergens: ${nonModifiableAllergens.join(', ')}`);
   }
 
   // Only show "Contains" for ingredient allergens not already mentioned
-  const ingredientAllergens = Array.from(foundAllergens).filter(a => !descriptionAllergenMatches.has(a));
+  const ingredientAllergens = Array.from(foundAllergens).filter(a => !descriptionAllergenMatches.has(a) && !styleViolations.has(a));
   if (ingredientAllergens.length > 0) {
     reasons.push(`Contains: ${ingredientAllergens.join(', ')}`);
   }
@@ -218,6 +606,8 @@ export function analyzeDishSafety(
     reasons,
     modificationSuggestions: modificationSuggestions.length > 0 ? modificationSuggestions : undefined,
     crossContactRisks: crossContactRisks.length > 0 ? crossContactRisks : undefined,
+    anaphylaxisWarnings: anaphylaxisWarnings.size > 0 ? Array.from(anaphylaxisWarnings.values()) : undefined,
+    evidence,
   };
 }
 
@@ -229,6 +619,8 @@ export function getStatusColor(status: SafetyStatus): string {
       return 'text-orange-600 bg-orange-50';
     case 'unsafe':
       return 'text-red-600 bg-red-50';
+    case 'unverified':
+      return 'text-slate-600 bg-slate-100';
   }
 }
 
@@ -240,6 +632,8 @@ export function getStatusIcon(status: SafetyStatus): string {
       return '🟠';
     case 'unsafe':
       return '🔴';
+    case 'unverified':
+      return '⚪';
   }
 }
 
@@ -251,5 +645,37 @@ export function getStatusLabel(status: SafetyStatus): string {
       return 'Safe with modifications';
     case 'unsafe':
       return 'Unsafe';
+    case 'unverified':
+      return 'Not enough data';
+  }
+}
+
+export function getDataGapLabel(gap: DataGap): string {
+  switch (gap) {
+    case 'no-ingredients':
+      return 'No ingredients listed';
+    case 'ai-only-allergens':
+      return 'Allergens only tagged from the description';
+    case 'no-cooking-steps':
+      return 'No cooking steps listed';
   }
 }
+
+const SAFETY_RULE_KEYS: Record<SafetyRuleId, MessageKey> = {
+  'description-allergen': 'rule.descriptionAllergen',
+  'ingredient-name-uncertain': 'rule.ingredientNameUncertain',
+  'ingredient-anaphylactic': 'rule.ingredientAnaphylactic',
+  'ingredient-removable': 'rule.ingredientRemovable',
+  'ingredient-substitutable': 'rule.ingredientSubstitutable',
+  'ingredient-no-safe-substitute': 'rule.ingredientNoSafeSubstitute',
+  'ingredient-policy-removable': 'rule.ingredientPolicyRemovable',
+  'ingredient-not-modifiable': 'rule.ingredientNotModifiable',
+  'cross-contact-anaphylactic': 'rule.crossContactAnaphylactic',
+  'cross-contact-modifiable': 'rule.crossContactModifiable',
+  'cross-contact': 'rule.crossContact',
+  'dietary-style': 'rule.dietaryStyle',
+};
+
+export function getSafetyRuleLabel(rule: SafetyRuleId, language: Language = 'en'): string {
+  return translate(language, SAFETY_RULE_KEYS[rule]);
+}
@@ -0,0 +1,11 @@
+// Registers public/sw.js. Skipped in development, where a cached app shell would hide
+// Vite's hot reloads.
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((err) => {
+      console.error('Service worker registration failed:', err);
+    });
+  });
+}
@@ -44,6 +44,66 @@ export function formatAmount(value: number | null, unit: WeightUnit | null): str
   }
 }
 
+// Where a dish's nutrition values came from: summed from the offline nutrient
+// database, or including AI estimates for ingredients the database does not know
+export type NutritionSource = 'calculated' | 'estimated';
+
+// How strongly a guest reacts to an allergen, lowest to highest
+export type AllergenSeverity = 'preference' | 'intolerance' | 'allergy' | 'anaphylactic';
+
+export const ALLERGEN_SEVERITIES: { value: AllergenSeverity; label: string; description: string }[] = [
+  { value: 'preference', label: 'Preference', description: 'I prefer to avoid it' },
+  { value: 'intolerance', label: 'Intolerance', description: 'Causes discomfort' },
+  { value: 'allergy', label: 'Allergy', description: 'Causes an allergic reaction' },
+  { value: 'anaphylactic', label: 'Anaphylactic', description: 'Life-threatening, even traces' },
+];
+
+// Structured guest modification request stored on chef_requests.modifications
+export interface ChefRequestModifications {
+  remove: { ingredient_id: string; name: string }[];
+  substitute: {
+    ingredient_id: string;
+    name: string;
+    substitute_id: string | null;
+    substitute_name: string | null;
+  }[];
+  note: string;
+}
+
+// Full state of a dish as stored on menu_item_revisions.snapshot; same shape as the
+// save_menu_item RPC input
+export interface MenuItemSnapshot {
+  item: Omit<Database['public']['Tables']['menu_items']['Row'], 'id' | 'restaurant_id' | 'created_at' | 'updated_at'> & {
+    photo_url?: string | null;
+  };
+  ingredients: {
+    ingredient_id: string | null;
+    name: string;
+    allergens: string[];
+    amount_value: number | null;
+    amount_unit: WeightUnit | null;
+    is_removable: boolean;
+    is_substitutable: boolean;
+    substitutes: { ingredient_id: string | null; name: string; allergens: string[] }[];
+  }[];
+  steps: {
+    step_number: number;
+    description: string;
+    cross_contact_risk: string[];
+    is_modifiable: boolean;
+    modifiable_allergens: string[];
+    modification_notes: string | null;
+    // Missing from revisions saved before kitchen equipment existed
+    equipment_ids?: string[];
+    // The equipment as it was when the revision was saved; missing before it was recorded
+    equipment?: { id: string; name: string; exposed_allergens: string[] }[];
+  }[];
+}
+
+export type KitchenEquipmentKind = 'fryer' | 'grill' | 'wok' | 'prep_station' | 'other';
+
+export type MenuItemRevisionAction = 'create' | 'update' | 'restore';
+
 if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing Supabase environment variables');
 }
@@ -106,10 +166,14 @@ export type Database = {
           fat_monounsaturated_g: number | null;
           sodium_mg: number | null;
           cholesterol_mg: number | null;
+          nutrition_source: NutritionSource | null;
           category: string | null;
           preparation: string | null;
           modification_policy: string;
           is_active: boolean;
+          // Set by save_menu_item when a published dish gains allergens
+          allergens_changed_at: string | null;
+          allergens_added: string[];
           created_at: string;
           updated_at: string;
         };
@@ -133,10 +197,13 @@ export type Database = {
           fat_monounsaturated_g?: number | null;
           sodium_mg?: number | null;
           cholesterol_mg?: number | null;
+          nutrition_source?: NutritionSource | null;
           category?: string | null;
           preparation?: string | null;
           modification_policy: string;
           is_active?: boolean;
+          allergens_changed_at?: string | null;
+          allergens_added?: string[];
           created_at?: string;
           updated_at?: string;
         };
@@ -160,10 +227,13 @@ export type Database = {
           fat_monounsaturated_g?: number | null;
           sodium_mg?: number | null;
           cholesterol_mg?: number | null;
+          nutrition_source?: NutritionSource | null;
           category?: string | null;
           preparation?: string | null;
           modification_policy?: string;
           is_active?: boolean;
+          allergens_changed_at?: string | null;
+          allergens_added?: string[];
           created_at?: string;
           updated_at?: string;
         };
@@ -253,6 +323,7 @@ export type Database = {
           is_modifiable: boolean;
           modifiable_allergens: string[];
           modification_notes: string | null;
+          equipment_ids: string[];
           created_at: string;
         };
         Insert: {
@@ -264,6 +335,7 @@ export type Database = {
           is_modifiable?: boolean;
           modifiable_allergens?: string[];
           modification_notes?: string | null;
+          equipment_ids?: string[];
           created_at?: string;
         };
         Update: {
@@ -275,6 +347,7 @@ export type Database = {
           is_modifiable?: boolean;
           modifiable_allergens?: string[];
           modification_notes?: string | null;
+          equipment_ids?: string[];
           created_at?: string;
         };
       };
@@ -293,6 +366,10 @@ export type Database = {
           session_id: string;
           dietary_restrictions: string[];
           custom_allergens: string[];
+          allergen_severities: Record<string, AllergenSeverity>;
+          table_id: string | null;
+          diner_name: string | null;
+          group_session_id: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -301,6 +378,10 @@ export type Database = {
           session_id: string;
           dietary_restrictions?: string[];
           custom_allergens?: string[];
+          allergen_severities?: Record<string, AllergenSeverity>;
+          table_id?: string | null;
+          diner_name?: string | null;
+          group_session_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -309,6 +390,10 @@ export type Database = {
           session_id?: string;
           dietary_restrictions?: string[];
           custom_allergens?: string[];
+          allergen_severities?: Record<string, AllergenSeverity>;
+          table_id?: string | null;
+          diner_name?: string | null;
+          group_session_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -320,8 +405,11 @@ export type Database = {
           menu_item_id: string;
           customer_profile_id: string;
           request_details: string;
+          modifications: ChefRequestModifications | null;
           status: 'pending' | 'approved' | 'declined';
           chef_response: string | null;
+          table_label: string | null;
+          prepared_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -331,8 +419,11 @@ export type Database = {
           menu_item_id: string;
           customer_profile_id: string;
           request_details: string;
+          modifications?: ChefRequestModifications | null;
           status?: 'pending' | 'approved' | 'declined';
           chef_response?: string | null;
+          table_label?: string | null;
+          prepared_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -342,12 +433,118 @@ export type Database = {
           menu_item_id?: string;
           customer_profile_id?: string;
           request_details?: string;
+          modifications?: ChefRequestModifications | null;
           status?: 'pending' | 'approved' | 'declined';
           chef_response?: string | null;
+          table_label?: string | null;
+          prepared_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      menu_item_revisions: {
+        Row: {
+          id: string;
+          menu_item_id: string;
+          restaurant_id: string;
+          revision_number: number;
+          action: MenuItemRevisionAction;
+          restored_from: string | null;
+          snapshot: MenuItemSnapshot;
+          changed_by: string | null;
+          changed_by_email: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          menu_item_id: string;
+          restaurant_id: string;
+          revision_number: number;
+          action: MenuItemRevisionAction;
+          restored_from?: string | null;
+          snapshot: MenuItemSnapshot;
+          changed_by?: string | null;
+          changed_by_email?: string | null;
+          created_at?: string;
+        };
+        // Revisions are append-only
+        Update: Record<string, never>;
+      };
+      menu_item_translations: {
+        Row: {
+          id: string;
+          menu_item_id: string;
+          language: string;
+          name: string;
+          description: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          menu_item_id: string;
+          language: string;
+          name: string;
+          description?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          menu_item_id?: string;
+          language?: string;
+          name?: string;
+          description?: string | null;
           created_at?: string;
           updated_at?: string;
         };
       };
+      kitchen_equipment: {
+        Row: {
+          id: string;
+          restaurant_id: string;
+          name: string;
+          kind: KitchenEquipmentKind;
+          exposed_allergens: string[];
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          restaurant_id: string;
+          name: string;
+          kind?: KitchenEquipmentKind;
+          exposed_allergens?: string[];
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          restaurant_id?: string;
+          name?: string;
+          kind?: KitchenEquipmentKind;
+          exposed_allergens?: string[];
+          created_at?: string;
+        };
+      };
+      restaurant_tables: {
+        Row: {
+          id: string;
+          restaurant_id: string;
+          label: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          restaurant_id: string;
+          label: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          restaurant_id?: string;
+          label?: string;
+          created_at?: string;
+        };
+      };
     };
   };
 };
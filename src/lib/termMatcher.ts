@@ -0,0 +1,113 @@
+// Word-aware matching of allergen and ingredient terms inside free text such as
+// ingredient names, so "eggplant" isn't read as egg or "coconut" as a nut.
+
+/**
+ * 'high': the term is a whole word of the text ("egg" in "fried eggs").
+ * 'low': the term only appears inside a word ("cheese" in "cheesecake"). It might be
+ * the allergen, so it's worth a question to staff, but it isn't proof. Known false
+ * friends ("wheat" in "buckwheat") aren't a match at all.
+ */
+export type MatchConfidence = 'high' | 'low';
+
+// Names that contain a term without containing what the term names, keyed by term
+const FALSE_FRIENDS: Record<string, string[]> = {
+  egg: ['eggplant', 'eggplants'],
+  nut: ['butternut', 'coconut', 'nutmeg', 'doughnut', 'donut', 'nutritional yeast'],
+  'tree nut': ['coconut', 'water chestnut'],
+  chestnut: ['water chestnut'],
+  butter: [
+    'peanut butter', 'almond butter', 'cashew butter', 'nut butter', 'seed butter', 'sunflower butter',
+    'cocoa butter', 'cacao butter', 'shea butter', 'apple butter', 'butternut', 'butterhead',
+    'butter bean', 'butter beans', 'butter lettuce',
+  ],
+  milk: [
+    'coconut milk', 'almond milk', 'oat milk', 'soy milk', 'soya milk', 'rice milk', 'cashew milk',
+    'hemp milk', 'milk thistle',
+  ],
+  cream: ['cream of tartar', 'coconut cream'],
+  oat: ['goat', 'goats'],
+  wheat: ['buckwheat'],
+  crab: ['crab apple', 'crabapple'],
+  ham: ['graham', 'champagne', 'champignon', 'champignons'],
+  goat: ['goat cheese', "goat's cheese", 'goat milk', "goat's milk"],
+  lamb: ["lamb's lettuce", 'lambs lettuce'],
+  rum: ['drumstick', 'drumsticks', 'crumb', 'crumbs', 'breadcrumb', 'breadcrumbs', 'crumble'],
+  honey: ['honeydew'],
+  meat: ['coconut meat'],
+  beef: ['beefsteak tomato', 'beefsteak mushroom', 'beefsteak plant'],
+  steak: ['beefsteak tomato', 'beefsteak mushroom', 'beefsteak plant'],
+  lard: ['collard', 'collards'],
+  oyster: ['oyster mushroom', 'oyster mushrooms'],
+};
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function tokenize(text: string): string[] {
+  return normalize(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+function singularize(word: string): string {
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('es') && /(sh|ch|s|x|z)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+// The same word, allowing for plurals ("eggs", "cheeses", "anchovies")
+function sameWord(word: string, termWord: string): boolean {
+  if (word === termWord) return true;
+  const stem = singularize(termWord);
+  return word === stem || word === `${stem}s` || word === `${stem}es` || singularize(word) === stem;
+}
+
+/**
+ * The text's words with every false friend of the term blanked out. Blanks stay in
+ * place so a multi-word term can't match across one.
+ */
+function wordsWithoutFalseFriends(text: string, term: string): string[] {
+  const words = tokenize(text);
+  const falseFriends = FALSE_FRIENDS[term] ?? FALSE_FRIENDS[singularize(term)] ?? [];
+
+  for (const phrase of falseFriends) {
+    const phraseWords = tokenize(phrase);
+    for (let i = 0; i + phraseWords.length <= words.length; i++) {
+      if (phraseWords.every((w, j) => sameWord(words[i + j], w))) {
+        words.fill('', i, i + phraseWords.length);
+      }
+    }
+  }
+  return words;
+}
+
+/**
+ * How surely a term (allergen synonym, dietary keyword) occurs in a piece of text,
+ * or null when it doesn't.
+ */
+export function matchTerm(text: string, term: string): MatchConfidence | null {
+  const termWords = tokenize(term);
+  if (termWords.length === 0) return null;
+
+  const words = wordsWithoutFalseFriends(text, normalize(term));
+
+  // "gluten-free bun", "dairy free" say the opposite
+  for (let i = 0; i + termWords.length < words.length; i++) {
+    if (words[i + termWords.length] === 'free' && termWords.every((w, j) => sameWord(words[i + j], w))) {
+      words.fill('', i, i + termWords.length + 1);
+    }
+  }
+
+  for (let i = 0; i + termWords.length <= words.length; i++) {
+    if (termWords.every((w, j) => sameWord(words[i + j], w))) return 'high';
+  }
+
+  // Inside a word or run together ("cheesecake", "walnutbread")
+  const joinedTerm = termWords.join('');
+  return words.some(word => word.includes(joinedTerm)) ? 'low' : null;
+}
+
+export function strongerMatch(a: MatchConfidence | null, b: MatchConfidence | null): MatchConfidence | null {
+  if (a === 'high' || b === 'high') return 'high';
+  return a ?? b;
+}
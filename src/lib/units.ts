@@ -0,0 +1,303 @@
+import { WeightUnit, WEIGHT_UNITS } from './supabase';
+
+export type UnitCategory = 'weight' | 'volume' | 'count';
+
+// Grams per unit
+const MASS_FACTORS: Partial<Record<WeightUnit, number>> = {
+  mg: 0.001,
+  g: 1,
+  kg: 1000,
+  oz: 28.349523125,
+  lb: 453.59237,
+};
+
+// Milliliters per unit (US customary for tsp/tbsp/cup)
+const VOLUME_FACTORS: Partial<Record<WeightUnit, number>> = {
+  ml: 1,
+  l: 1000,
+  tsp: 4.92892,
+  tbsp: 14.7868,
+  cup: 236.588,
+  // A pinch is conventionally 1/16 tsp
+  pinch: 0.308,
+};
+
+const UNIT_ALIASES: Record<string, WeightUnit> = {
+  g: 'g', gram: 'g', grams: 'g', gr: 'g',
+  mg: 'mg', milligram: 'mg', milligrams: 'mg',
+  kg: 'kg', kilo: 'kg', kilos: 'kg', kilogram: 'kg', kilograms: 'kg',
+  lb: 'lb', lbs: 'lb', pound: 'lb', pounds: 'lb',
+  oz: 'oz', ounce: 'oz', ounces: 'oz',
+  ml: 'ml', milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml',
+  l: 'l', liter: 'l', liters: 'l', litre: 'l', litres: 'l',
+  tsp: 'tsp', teaspoon: 'tsp', teaspoons: 'tsp',
+  tbsp: 'tbsp', tbs: 'tbsp', tablespoon: 'tbsp', tablespoons: 'tbsp',
+  cup: 'cup', cups: 'cup',
+  piece: 'piece', pieces: 'piece', pc: 'piece', pcs: 'piece', each: 'piece', whole: 'piece',
+  pinch: 'pinch', pinches: 'pinch',
+};
+
+/**
+ * Density in g/ml for volume↔weight conversion. Matched as a substring of the
+ * ingredient name; the longest matching key wins ("brown sugar" before "sugar").
+ */
+export const INGREDIENT_DENSITIES: Record<string, number> = {
+  water: 1.0,
+  stock: 1.0,
+  broth: 1.0,
+  milk: 1.03,
+  buttermilk: 1.03,
+  cream: 1.01,
+  'heavy cream': 0.99,
+  yogurt: 1.03,
+  'sour cream': 1.0,
+  butter: 0.911,
+  oil: 0.92,
+  'olive oil': 0.91,
+  honey: 1.42,
+  'maple syrup': 1.32,
+  syrup: 1.33,
+  molasses: 1.4,
+  vinegar: 1.01,
+  'soy sauce': 1.15,
+  'fish sauce': 1.2,
+  wine: 0.99,
+  'lemon juice': 1.03,
+  'lime juice': 1.03,
+  juice: 1.04,
+  flour: 0.53,
+  'almond flour': 0.41,
+  cornstarch: 0.54,
+  sugar: 0.85,
+  'brown sugar': 0.93,
+  'powdered sugar': 0.56,
+  salt: 1.22,
+  'kosher salt': 0.54,
+  'baking soda': 0.93,
+  'baking powder': 0.9,
+  rice: 0.85,
+  oats: 0.41,
+  breadcrumbs: 0.45,
+  panko: 0.21,
+  cocoa: 0.42,
+  parmesan: 0.42,
+  cheese: 0.45,
+  mayonnaise: 0.91,
+  ketchup: 1.14,
+  mustard: 1.05,
+  'peanut butter': 1.09,
+  tahini: 0.96,
+  'sesame seeds': 0.61,
+  nuts: 0.55,
+  almonds: 0.6,
+  walnuts: 0.47,
+  'chopped onion': 0.64,
+  herbs: 0.15,
+  parsley: 0.15,
+  cilantro: 0.15,
+  basil: 0.15,
+  spinach: 0.13,
+};
+
+// Liquids are the best guess for anything unknown measured by volume
+export const DEFAULT_DENSITY = 1.0;
+
+// Typical weight in grams of one piece, for count units
+export const PIECE_WEIGHTS: Record<string, number> = {
+  egg: 50,
+  'egg yolk': 17,
+  'egg white': 33,
+  garlic: 5,
+  'garlic clove': 5,
+  shallot: 30,
+  onion: 150,
+  'red onion': 150,
+  'green onion': 15,
+  scallion: 15,
+  lemon: 100,
+  lime: 65,
+  orange: 180,
+  tomato: 120,
+  'cherry tomato': 17,
+  potato: 200,
+  carrot: 60,
+  avocado: 150,
+  'bell pepper': 160,
+  jalapeno: 14,
+  apple: 180,
+  banana: 118,
+  tortilla: 45,
+  bun: 60,
+  'chicken breast': 200,
+  shrimp: 15,
+  scallop: 25,
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word match on each key, allowing a plural ending ("eggs", "tomatoes"), as
+// findNutrientProfile does: "eggplant" is not an egg, "butternut squash" not butter
+function findByLongestKey(table: Record<string, number>, ingredientName: string): number | null {
+  const lower = ingredientName.toLowerCase();
+  let best: string | null = null;
+  for (const key of Object.keys(table)) {
+    const pattern = new RegExp(`\\b${escapeRegExp(key)}(s|es)?\\b`);
+    if (pattern.test(lower) && (!best || key.length > best.length)) {
+      best = key;
+    }
+  }
+  return best ? table[best] : null;
+}
+
+export function getUnitCategory(unit: WeightUnit): UnitCategory {
+  return WEIGHT_UNITS.find(u => u.value === unit)?.category ?? 'count';
+}
+
+/**
+ * Resolve free-text units ("Tablespoons", "lbs", "pcs") to a WeightUnit, or null if unknown.
+ */
+export function parseUnit(unit: string | null | undefined): WeightUnit | null {
+  if (!unit) return null;
+  const key = unit.toLowerCase().trim().replace(/\.$/, '');
+  return UNIT_ALIASES[key] ?? null;
+}
+
+export function getDensity(ingredientName?: string): number {
+  return (ingredientName && findByLongestKey(INGREDIENT_DENSITIES, ingredientName)) || DEFAULT_DENSITY;
+}
+
+export function getPieceWeight(ingredientName?: string): number | null {
+  return ingredientName ? findByLongestKey(PIECE_WEIGHTS, ingredientName) : null;
+}
+
+/**
+ * Mass of an amount in grams. Volume uses the ingredient's density; pieces use
+ * PIECE_WEIGHTS. Returns null when the ingredient has no known piece weight.
+ */
+export function toGrams(value: number, unit: WeightUnit, ingredientName?: string): number | null {
+  const massFactor = MASS_FACTORS[unit];
+  if (massFactor !== undefined) return value * massFactor;
+
+  const volumeFactor = VOLUME_FACTORS[unit];
+  if (volumeFactor !== undefined) return value * volumeFactor * getDensity(ingredientName);
+
+  const pieceWeight = getPieceWeight(ingredientName);
+  return pieceWeight !== null ? value * pieceWeight : null;
+}
+
+/**
+ * Convert between any two units. Weight↔volume goes through the ingredient density;
+ * count units only convert when a piece weight is known. Returns null if not convertible.
+ */
+export function convertAmount(
+  value: number,
+  from: WeightUnit,
+  to: WeightUnit,
+  ingredientName?: string
+): number | null {
+  if (from === to) return value;
+
+  // Stay within the same system where possible so no density guess is involved
+  const fromVolume = VOLUME_FACTORS[from];
+  const toVolume = VOLUME_FACTORS[to];
+  if (fromVolume !== undefined && toVolume !== undefined) {
+    return (value * fromVolume) / toVolume;
+  }
+
+  const grams = toGrams(value, from, ingredientName);
+  if (grams === null) return null;
+
+  const toMass = MASS_FACTORS[to];
+  if (toMass !== undefined) return grams / toMass;
+
+  if (toVolume !== undefined) return grams / getDensity(ingredientName) / toVolume;
+
+  const pieceWeight = getPieceWeight(ingredientName);
+  return pieceWeight !== null ? grams / pieceWeight : null;
+}
+
+// Round to a precision that reads naturally in a recipe (0.25 tsp, 12.5 g, 340 g)
+export function roundAmount(value: number): number {
+  if (value >= 100) return Math.round(value);
+  if (value >= 10) return Math.round(value * 10) / 10;
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Canonical form of an amount before it is saved: invalid amounts become null and
+ * metric amounts move to the unit that reads best (1500 g → 1.5 kg, 0.25 l → 250 ml).
+ * Imperial and count units are kept as the chef entered them.
+ */
+export function normalizeAmount(
+  value: number | null,
+  unit: WeightUnit | null
+): { value: number | null; unit: WeightUnit | null } {
+  if (value === null || !Number.isFinite(value) || value <= 0) {
+    return { value: null, unit };
+  }
+
+  let normalizedValue = value;
+  let normalizedUnit = unit;
+
+  if (unit === 'mg' && value >= 1000) {
+    normalizedValue = value / 1000;
+    normalizedUnit = 'g';
+  }
+  if (normalizedUnit === 'g' && normalizedValue >= 1000) {
+    normalizedValue = normalizedValue / 1000;
+    normalizedUnit = 'kg';
+  } else if (unit === 'kg' && value < 1) {
+    normalizedValue = value * 1000;
+    normalizedUnit = 'g';
+  } else if (unit === 'ml' && value >= 1000) {
+    normalizedValue = value / 1000;
+    normalizedUnit = 'l';
+  } else if (unit === 'l' && value < 1) {
+    normalizedValue = value * 1000;
+    normalizedUnit = 'ml';
+  }
+
+  return { value: roundAmount(normalizedValue), unit: normalizedUnit };
+}
+
+export interface RecipeAmount {
+  name: string;
+  amountValue: number | null;
+  amountUnit: WeightUnit | null;
+}
+
+export interface ScaledAmount extends RecipeAmount {
+  // Mass of the scaled amount, null if it cannot be converted
+  grams: number | null;
+}
+
+/**
+ * Scale every amount by targetPortions / basePortions and total the recipe mass.
+ * Ingredients without an amount keep a null amount.
+ */
+export function scaleRecipe<T extends RecipeAmount>(
+  ingredients: T[],
+  basePortions: number,
+  targetPortions: number
+): { ingredients: (T & ScaledAmount)[]; totalGrams: number; unconvertedCount: number } {
+  const factor = basePortions > 0 ? targetPortions / basePortions : 1;
+  let totalGrams = 0;
+  let unconvertedCount = 0;
+
+  const scaled = ingredients.map((ing) => {
+    if (ing.amountValue === null || ing.amountUnit === null) {
+      return { ...ing, grams: null };
+    }
+
+    const amountValue = roundAmount(ing.amountValue * factor);
+    const grams = toGrams(ing.amountValue * factor, ing.amountUnit, ing.name);
+    if (grams === null) {
+      unconvertedCount++;
+    } else {
+      totalGrams += grams;
+    }
+    return { ...ing, amountValue, grams };
+  });
+
+  return { ingredients: scaled, totalGrams, unconvertedCount };
+}
@@ -1,12 +1,16 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
-import { LogOut, Plus, BarChart3, X, Copy, Check, FileSpreadsheet, Share2, Wrench, Loader2 } from 'lucide-react';
+import { LogOut, Plus, BarChart3, X, Copy, Check, FileSpreadsheet, Share2, Wrench, Loader2, MessageSquare, ChefHat, QrCode, CookingPot } from 'lucide-react';
 import { isImpersonating, exitImpersonation } from '../lib/devAuth';
+import { getRealtimeClient } from '../lib/realtime';
 import RestaurantSetup from '../components/admin/RestaurantSetup';
 import MenuManager from '../components/admin/MenuManager';
 import AccessibilityDashboard from '../components/admin/AccessibilityDashboard';
 import AllergenMatrixPreview from '../components/admin/AllergenMatrixPreview';
+import ChefRequests from '../components/admin/ChefRequests';
+import TableQrCodes from '../components/admin/TableQrCodes';
+import KitchenEquipmentManager from '../components/admin/KitchenEquipmentManager';
 
 type Restaurant = {
   id: string;
@@ -16,16 +20,17 @@ type Restaurant = {
   restaurant_code: string;
 };
 
-type Tab = 'menu' | 'dashboard';
+type Tab = 'menu' | 'dashboard' | 'requests';
 
 interface AdminDashboardProps {
   onBackToGuest?: () => void;
   onOpenDevPanel?: () => void;
+  onOpenKitchen?: () => void;
 }
 
 const isDev = import.meta.env.VITE_ENV === 'development';
 
-export default function AdminDashboard({ onBackToGuest, onOpenDevPanel }: AdminDashboardProps = {}) {
+export default function AdminDashboard({ onBackToGuest, onOpenDevPanel, onOpenKitchen }: AdminDashboardProps = {}) {
   const { user, signOut } = useAuth();
   const [restaurant, setRestaurant] = useState<Restaurant | null>(null);
   const [loading, setLoading] = useState(true);
@@ -33,7 +38,10 @@ export default function AdminDashboard({ onBackToGuest, onOpenDevPanel }: AdminD
   const [showShareModal, setShowShareModal] = useState(false);
   const [copied, setCopied] = useState(false);
   const [showAllergenMatrix, setShowAllergenMatrix] = useState(false);
+  const [showTableQrCodes, setShowTableQrCodes] = useState(false);
+  const [showKitchenEquipment, setShowKitchenEquipment] = useState(false);
   const [exitingImpersonation, setExitingImpersonation] = useState(false);
+  const [pendingRequestCount, setPendingRequestCount] = useState(0);
 
   const handleExitImpersonation = async () => {
     setExitingImpersonation(true);
@@ -56,6 +64,26 @@ export default function AdminDashboard({ onBackToGuest, onOpenDevPanel }: AdminD
     loadRestaurant();
   }, [user]);
 
+  const restaurantId = restaurant?.id;
+  useEffect(() => {
+    if (!restaurantId) return;
+
+    const loadPendingRequestCount = async () => {
+      const { count } = await supabase
+        .from('chef_requests')
+        .select('*', { count: 'exact', head: true })
+        .eq('restaurant_id', restaurantId)
+        .eq('status', 'pending');
+
+      setPendingRequestCount(count ?? 0);
+    };
+
+    loadPendingRequestCount();
+    return getRealtimeClient().subscribeToChefRequests({ restaurantId }, () => {
+      loadPendingRequestCount();
+    });
+  }, [restaurantId]);
+
   const handleCopyCode = () => {
     if (!restaurant) return;
     navigator.clipboard.writeText(restaurant.restaurant_code);
@@ -141,6 +169,22 @@ export default function AdminDashboard({ onBackToGuest, onOpenDevPanel }: AdminD
                 <Share2 className="w-4 h-4" />
                 Share Menu
               </button>
+              {onOpenKitchen && (
+                <button
+                  onClick={onOpenKitchen}
+                  className="flex items-center gap-2 px-4 py-2 bg-slate-700 text-slate-200 rounded-lg hover:bg-slate-600 transition-colors"
+                >
+                  <ChefHat className="w-4 h-4" />
+                  Kitchen Display
+                </button>
+              )}
+              <button
+                onClick={() => setShowKitchenEquipment(true)}
+                className="flex items-center gap-2 px-4 py-2 bg-slate-700 text-slate-200 rounded-lg hover:bg-slate-600 transition-colors"
+              >
+                <CookingPot className="w-4 h-4" />
+                Kitchen Equipment
+              </button>
               <button
                 onClick={handleOpenAllergenMatrix}
                 className="flex items-center gap-2 px-4 py-2 bg-slate-700 text-slate-200 rounded-lg hover:bg-slate-600 transition-colors"
@@ -198,6 +242,24 @@ export default function AdminDashboard({ onBackToGuest, onOpenDevPanel }: AdminD
                 Accessibility Dashboard
               </div>
             </button>
+            <button
+              onClick={() => setActiveTab('requests')}
+              className={`py-4 px-2 border-b-2 font-medium text-sm transition-colors ${
+                activeTab === 'requests'
+                  ? 'border-emerald-500 text-white'
+                  : 'border-transparent text-slate-400 hover:text-slate-200'
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                <MessageSquare className="w-4 h-4" />
+                Chef Requests
+                {pendingRequestCount > 0 && (
+                  <span className="min-w-[1.25rem] px-1.5 py-0.5 bg-amber-500 text-white text-xs font-bold rounded-full text-center">
+                    {pendingRequestCount}
+                  </span>
+                )}
+              </div>
+            </button>
           </div>
         </div>
       </nav>
@@ -205,6 +267,7 @@ export default function AdminDashboard({ onBackToGuest, onOpenDevPanel }: AdminD
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {activeTab === 'menu' && <MenuManager restaurantId={restaurant.id} />}
         {activeTab === 'dashboard' && <AccessibilityDashboard restaurantId={restaurant.id} />}
+        {activeTab === 'requests' && <ChefRequests restaurantId={restaurant.id} />}
       </main>
 
       {/* Share Menu Modal */}
@@ -257,10 +320,37 @@ export default function AdminDashboard({ onBackToGuest, onOpenDevPanel }: AdminD
                 </>
               )}
             </button>
+
+            <button
+              onClick={() => {
+                setShowShareModal(false);
+                setShowTableQrCodes(true);
+              }}
+              className="w-full mt-3 flex items-center justify-center gap-2 border border-slate-300 text-slate-700 py-3 rounded-lg font-semibold hover:bg-slate-50 transition-colors"
+            >
+              <QrCode className="w-5 h-5" />
+              Table QR Codes
+            </button>
           </div>
         </div>
       )}
 
+      {showTableQrCodes && (
+        <TableQrCodes
+          restaurantId={restaurant.id}
+          restaurantName={restaurant.name}
+          qrCode={restaurant.qr_code}
+          onClose={() => setShowTableQrCodes(false)}
+        />
+      )}
+
+      {showKitchenEquipment && (
+        <KitchenEquipmentManager
+          restaurantId={restaurant.id}
+          onClose={() => setShowKitchenEquipment(false)}
+        />
+      )}
+
       {/* Allergen Matrix Preview */}
       <AllergenMatrixPreview
         isOpen={showAllergenMatrix}
@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { ChefCard as ChefCardData, loadChefCard } from '../lib/chefCard';
+import { useLanguage } from '../contexts/LanguageContext';
+import ChefCard from '../components/customer/ChefCard';
+import LanguagePicker from '../components/common/LanguagePicker';
+
+interface ChefCardViewProps {
+  customerProfileId: string;
+  menuItemId: string;
+}
+
+// Opened from the QR code on a guest's chef card, usually on a kitchen device
+export default function ChefCardView({ customerProfileId, menuItemId }: ChefCardViewProps) {
+  const { language, t } = useLanguage();
+  const [card, setCard] = useState<ChefCardData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadChefCard(customerProfileId, menuItemId).then(({ card: loaded, error: loadError }) => {
+      setCard(loaded);
+      setError(loadError);
+      setLoading(false);
+    });
+  }, [customerProfileId, menuItemId]);
+
+  const guestBg = { background: 'linear-gradient(160deg, #e0f2f1 0%, #e8f4f8 40%, #fce8d8 100%)' } as const;
+
+  return (
+    <div className="min-h-screen p-4" style={guestBg}>
+      <div className="max-w-md mx-auto space-y-4">
+        <div className="flex justify-end">
+          <LanguagePicker />
+        </div>
+        {loading ? (
+          <p className="text-center text-slate-500">{t('card.loading')}</p>
+        ) : card ? (
+          <ChefCard card={card} language={language} />
+        ) : (
+          <div className="bg-white rounded-2xl p-8 text-center shadow-2xl">
+            <p className="text-slate-600">{error || t('card.notFound')}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
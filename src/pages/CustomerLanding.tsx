@@ -2,15 +2,22 @@ import { useState, useRef, useEffect } from 'react';
 import { AlertCircle, ArrowRight, ChefHat, Utensils } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import ShieldWithForkKnife from '../components/ShieldWithForkKnife';
+import LanguagePicker from '../components/common/LanguagePicker';
+import { useLanguage } from '../contexts/LanguageContext';
+import { MessageKey } from '../lib/i18n';
+import { findOfflineMenuByRestaurantCode } from '../lib/offlineMenu';
 
 interface CustomerLandingProps {
+  // E.g. a restaurant code link that couldn't be opened offline
+  initialError?: MessageKey | null;
   onQrCodeEntered: (qrCode: string) => void;
   onSwitchToRestaurantMode: () => void;
 }
 
-export default function CustomerLanding({ onQrCodeEntered, onSwitchToRestaurantMode }: CustomerLandingProps) {
+export default function CustomerLanding({ initialError = null, onQrCodeEntered, onSwitchToRestaurantMode }: CustomerLandingProps) {
+  const { t } = useLanguage();
   const [code, setCode] = useState(['', '', '', '']);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(initialError ? t(initialError) : null);
   const [loading, setLoading] = useState(false);
   const inputRefs = useRef<(HTMLInputElement | null)[]>([]);
 
@@ -44,7 +51,7 @@ export default function CustomerLanding({ onQrCodeEntered, onSwitchToRestaurantM
 
   const handleSubmit = async (restaurantCode?: string) => {
     const codeToCheck = restaurantCode || code.join('');
-    if (codeToCheck.length !== 4) { setError('Please enter a 4-digit code'); return; }
+    if (codeToCheck.length !== 4) { setError(t('landing.codeIncomplete')); return; }
     setLoading(true);
     setError(null);
     try {
@@ -53,16 +60,25 @@ export default function CustomerLanding({ onQrCodeEntered, onSwitchToRestaurantM
         .select('qr_code')
         .eq('restaurant_code', codeToCheck)
         .maybeSingle();
-      if (queryError) throw queryError;
+      if (queryError) {
+        // No signal: open the menu saved on the last visit, if there was one
+        const cached = await findOfflineMenuByRestaurantCode(codeToCheck);
+        if (cached) {
+          onQrCodeEntered(cached.qrCode);
+        } else {
+          setError(t('landing.offline'));
+        }
+        return;
+      }
       if (!restaurant) {
-        setError('Restaurant not found. Please check the code.');
+        setError(t('landing.notFound'));
         setCode(['', '', '', '']);
         inputRefs.current[0]?.focus();
         return;
       }
       onQrCodeEntered(restaurant.qr_code);
     } catch {
-      setError('Something went wrong. Please try again.');
+      setError(t('landing.error'));
     } finally {
       setLoading(false);
     }
@@ -76,13 +92,16 @@ export default function CustomerLanding({ onQrCodeEntered, onSwitchToRestaurantM
       style={{ background: 'linear-gradient(160deg, #e0f2f1 0%, #e8f4f8 40%, #fce8d8 100%)' }}
     >
       <div className="w-full max-w-sm flex flex-col gap-6">
+        <div className="flex justify-end">
+          <LanguagePicker />
+        </div>
 
         {/* Logo + Title row */}
         <div className="flex items-center gap-4">
           <ShieldWithForkKnife />
           <div>
-            <h1 className="text-3xl font-bold text-slate-800 leading-tight">Safe Dining</h1>
-            <p className="text-slate-500 text-sm mt-0.5">Instant allergen information for your meal</p>
+            <h1 className="text-3xl font-bold text-slate-800 leading-tight">{t('app.name')}</h1>
+            <p className="text-slate-500 text-sm mt-0.5">{t('landing.tagline')}</p>
           </div>
         </div>
 
@@ -92,7 +111,7 @@ export default function CustomerLanding({ onQrCodeEntered, onSwitchToRestaurantM
           <div className="flex flex-col items-center justify-between rounded-2xl p-4 shadow-md"
             style={{ background: 'linear-gradient(145deg, #f6c12b, #f5a623)', minHeight: 110 }}>
             <Utensils className="w-9 h-9 text-white" strokeWidth={2} />
-            <p className="text-white font-bold text-xs text-center leading-tight mt-2">Full Menu Info</p>
+            <p className="text-white font-bold text-xs text-center leading-tight mt-2">{t('landing.featureMenu')}</p>
           </div>
           {/* Allergen Alerts - orange-red */}
           <div className="flex flex-col items-center justify-between rounded-2xl p-4 shadow-md"
@@ -102,19 +121,19 @@ export default function CustomerLanding({ onQrCodeEntered, onSwitchToRestaurantM
               <line x1="24" y1="17" x2="24" y2="30" stroke="white" strokeWidth="3.5" strokeLinecap="round" />
               <circle cx="24" cy="36.5" r="2.2" fill="white" />
             </svg>
-            <p className="text-white font-bold text-xs text-center leading-tight mt-2">Allergen Alerts</p>
+            <p className="text-white font-bold text-xs text-center leading-tight mt-2">{t('landing.featureAlerts')}</p>
           </div>
           {/* Modifications - blue */}
           <div className="flex flex-col items-center justify-between rounded-2xl p-4 shadow-md"
             style={{ background: 'linear-gradient(145deg, #60a5fa, #6366f1)', minHeight: 110 }}>
             <ChefHat className="w-9 h-9 text-white" strokeWidth={2} />
-            <p className="text-white font-bold text-xs text-center leading-tight mt-2">Modifications</p>
+            <p className="text-white font-bold text-xs text-center leading-tight mt-2">{t('landing.featureModifications')}</p>
           </div>
         </div>
 
         {/* Code Input card */}
         <div className="bg-white rounded-2xl shadow-md px-5 py-4">
-          <p className="text-slate-600 text-sm font-medium mb-3">Enter Restaurant Code</p>
+          <p className="text-slate-600 text-sm font-medium mb-3">{t('landing.enterCode')}</p>
           <div className="flex justify-start gap-2" onPaste={handlePaste}>
             {code.map((digit, index) => (
               <input
@@ -131,7 +150,7 @@ export default function CustomerLanding({ onQrCodeEntered, onSwitchToRestaurantM
               />
             ))}
           </div>
-          <p className="text-xs text-slate-400 mt-2">Ask your server for the 4-digit code</p>
+          <p className="text-xs text-slate-400 mt-2">{t('landing.codeHint')}</p>
         </div>
 
         {error && (
@@ -148,8 +167,8 @@ export default function CustomerLanding({ onQrCodeEntered, onSwitchToRestaurantM
           className="w-full text-white py-4 rounded-full font-bold text-lg flex items-center justify-center gap-3 shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
           style={{ background: 'linear-gradient(90deg, #3b82f6, #0d9488)' }}
         >
-          {loading ? 'Finding Restaurant...' : (
-            <> View Menu <ArrowRight className="w-5 h-5" /> </>
+          {loading ? t('landing.finding') : (
+            <> {t('landing.viewMenu')} <ArrowRight className="w-5 h-5" /> </>
           )}
         </button>
       </div>
@@ -158,7 +177,7 @@ export default function CustomerLanding({ onQrCodeEntered, onSwitchToRestaurantM
         onClick={onSwitchToRestaurantMode}
         className="mt-8 text-sm text-slate-500 hover:text-slate-700 transition-colors"
       >
-        Restaurant Owner? Sign in here
+        {t('landing.ownerSignIn')}
       </button>
     </div>
   );
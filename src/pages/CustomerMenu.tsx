@@ -1,180 +1,299 @@
 import { useEffect, useState } from 'react';
-import { supabase, Database } from '../lib/supabase';
-import { getOrCreateSessionId } from '../lib/customerSession';
-import { Settings, ChevronRight, AlertCircle, CheckCircle, XCircle, LogOut } from 'lucide-react';
+import { supabase, Database, AllergenSeverity } from '../lib/supabase';
+import { getOrCreateSessionId, getStoredTableLabel, recordMenuVisit, storeTableLabel } from '../lib/customerSession';
+import { joinTable } from '../lib/restaurantTables';
+import { ChefRequest, loadGuestChefRequests, applyChefRequestChange } from '../lib/chefRequests';
+import { getRealtimeClient } from '../lib/realtime';
+import { loadMenuGraph, MenuGraphItem } from '../lib/menuGraph';
+import { loadOfflineMenu, loadOfflineProfile, saveOfflineMenu, saveOfflineProfile } from '../lib/offlineMenu';
+import { CustomerRestriction, resolveCustomerAllergens } from '../lib/customerProfile';
+import { matchesAnyAllergen } from '../lib/allergenOntology';
+import { Settings, ChevronRight, AlertCircle, CheckCircle, XCircle, HelpCircle, LogOut, ChefHat, Clock, History, WifiOff, RefreshCw } from 'lucide-react';
 import ShieldWithForkKnife from '../components/ShieldWithForkKnife';
 import BottomSheet from '../components/common/BottomSheet';
 import DishDetail from '../components/customer/DishDetail';
-import { analyzeDishSafety } from '../lib/safetyAnalysis';
+import DinerGroupBar from '../components/customer/DinerGroupBar';
+import LanguagePicker from '../components/common/LanguagePicker';
+import { analyzeDishSafety, SafetyStatus } from '../lib/safetyAnalysis';
+import {
+  Diner,
+  addCompanionDiner,
+  analyzeDishForDiners,
+  analyzeDishForEveryone,
+  isSharedPlate,
+  loadCompanionDiners,
+  removeCompanionDiner,
+} from '../lib/groupDining';
+import { useLanguage } from '../contexts/LanguageContext';
+import { localizeDish } from '../lib/i18n';
+import { translateAllergens, translateCustomerRestriction } from '../lib/allergenTranslations';
+import { dietaryStyleFor, getDietaryStyles } from '../lib/dietaryStyles';
 
-type MenuItem = Database['public']['Tables']['menu_items']['Row'];
-type Ingredient = Database['public']['Tables']['ingredients']['Row'];
-type CookingStep = Database['public']['Tables']['cooking_steps']['Row'];
 type Restaurant = Database['public']['Tables']['restaurants']['Row'];
 
-interface SubstituteInfo {
-  id: string;
-  name: string;
-  allergens: string[];
-}
-
-interface IngredientWithModifications extends Ingredient {
-  is_removable: boolean;
-  is_substitutable: boolean;
-  substitutes: SubstituteInfo[];
-}
-
-interface MenuItemWithData extends MenuItem {
-  ingredients: IngredientWithModifications[];
-  cookingSteps: CookingStep[];
-}
-
 interface CustomerMenuProps {
   qrCode: string;
-  onEditProfile: () => void;
+  // Label from a table's QR code, if the guest scanned one
+  tableLabel?: string;
+  // Without an id the guest edits their own profile, with one a diner they added
+  onEditProfile: (dinerProfileId?: string) => void;
   onExit?: () => void;
 }
 
-export default function CustomerMenu({ qrCode, onEditProfile, onExit }: CustomerMenuProps) {
+export default function CustomerMenu({ qrCode, tableLabel, onEditProfile, onExit }: CustomerMenuProps) {
+  const { language, t } = useLanguage();
   const [restaurant, setRestaurant] = useState<Restaurant | null>(null);
-  const [menuItems, setMenuItems] = useState<MenuItemWithData[]>([]);
+  const [menuItems, setMenuItems] = useState<MenuGraphItem[]>([]);
   const [customerAllergens, setCustomerAllergens] = useState<string[]>([]);
+  const [allergenSeverities, setAllergenSeverities] = useState<Record<string, AllergenSeverity>>({});
+  const [customerRestrictions, setCustomerRestrictions] = useState<CustomerRestriction[]>([]);
   const [loading, setLoading] = useState(true);
-  const [selectedDish, setSelectedDish] = useState<MenuItemWithData | null>(null);
+  const [selectedDish, setSelectedDish] = useState<MenuGraphItem | null>(null);
   const [filterCategory, setFilterCategory] = useState<string>('all');
+  const [chefRequests, setChefRequests] = useState<ChefRequest[]>([]);
+  const [customerProfileId, setCustomerProfileId] = useState<string | null>(null);
+  // When this device last opened the menu before the current visit
+  const [lastVisit, setLastVisit] = useState<string | null>(null);
+  // When the menu shown was loaded from Supabase; older than now while offline
+  const [syncedAt, setSyncedAt] = useState<string | null>(null);
+  const [offline, setOffline] = useState(false);
+  // Offline without a profile cached on this device: badges can't reflect the guest's allergies
+  const [offlineProfileMissing, setOfflineProfileMissing] = useState(false);
+  // Where this guest is sitting, carried into chef requests
+  const [seatedTable, setSeatedTable] = useState('');
+  // Diners the guest added for group dining; the guest themself isn't included
+  const [companions, setCompanions] = useState<Diner[]>([]);
+  const [safeForEveryone, setSafeForEveryone] = useState(false);
 
   useEffect(() => {
+    setLoading(true);
     loadData();
+
+    // Re-sync once the connection comes back
+    const handleOnline = () => loadData({ refresh: true });
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
   }, [qrCode]);
 
-  const loadData = async () => {
-    setLoading(true);
+  // Stream the chef's approve/decline responses into this session
+  useEffect(() => {
+    if (!customerProfileId) return;
+
+    return getRealtimeClient().subscribeToChefRequests({ customerProfileId }, (change) => {
+      setChefRequests((prev) => applyChefRequestChange(prev, change));
+    });
+  }, [customerProfileId]);
+
+  const restoreOfflineProfile = async (sessionId: string) => {
+    const cached = await loadOfflineProfile(sessionId);
+    setOfflineProfileMissing(!cached);
+    if (!cached) return;
+
+    setCustomerProfileId(cached.profileId);
+    setCustomerAllergens(cached.allergens);
+    setAllergenSeverities(cached.severities);
+    setCustomerRestrictions(cached.restrictions ?? []);
+    setCompanions(cached.companions ?? []);
+  };
+
+  // No signal: show the menu and profile saved on the last online visit
+  const showOfflineMenu = async (sessionId: string) => {
+    const cached = await loadOfflineMenu(qrCode);
+    if (cached) {
+      setRestaurant(cached.restaurant);
+      setLastVisit(recordMenuVisit(cached.restaurant.id));
+      if (tableLabel) storeTableLabel(cached.restaurant.id, tableLabel);
+      setSeatedTable(getStoredTableLabel(cached.restaurant.id));
+      setMenuItems(cached.items);
+      setSyncedAt(cached.syncedAt);
+    }
+    await restoreOfflineProfile(sessionId);
 
-    const { data: restaurantData } = await supabase
+    setOffline(true);
+    setLoading(false);
+  };
+
+  const loadData = async ({ refresh = false }: { refresh?: boolean } = {}) => {
+    const sessionId = getOrCreateSessionId();
+
+    const { data: restaurantData, error: restaurantError } = await supabase
       .from('restaurants')
       .select('*')
       .eq('qr_code', qrCode)
       .maybeSingle();
 
+    if (restaurantError) {
+      await showOfflineMenu(sessionId);
+      return;
+    }
+
     if (!restaurantData) {
-      alert('Restaurant not found');
+      alert(t('menu.notFound'));
       setLoading(false);
       return;
     }
 
-    setRestaurant(restaurantData);
+    const { items, error: menuError } = await loadMenuGraph(restaurantData.id, { activeOnly: true, refresh });
+    if (menuError) {
+      console.error('Error loading menu:', menuError);
+      await showOfflineMenu(sessionId);
+      return;
+    }
 
-    const { data: items } = await supabase
-      .from('menu_items')
-      .select('*')
-      .eq('restaurant_id', restaurantData.id)
-      .eq('is_active', true)
-      .order('category')
-      .order('created_at');
-
-    if (items) {
-      const itemsWithData = await Promise.all(
-        items.map(async (item) => {
-          // Load ingredients via junction table
-          const { data: menuItemIngredients } = await supabase
-            .from('menu_item_ingredients')
-            .select('*, ingredient:ingredients(*)')
-            .eq('menu_item_id', item.id);
-
-          // Get all menu_item_ingredient IDs to fetch substitutes
-          const miiIds = (menuItemIngredients || []).map((mii: any) => mii.id);
-
-          // Fetch substitutes for all menu_item_ingredients
-          const { data: substitutesData } = miiIds.length > 0 ? await supabase
-            .from('ingredient_substitutes')
-            .select('*, substitute:ingredients(*)')
-            .in('menu_item_ingredient_id', miiIds) : { data: [] };
-
-          const ingredients: IngredientWithModifications[] = (menuItemIngredients || []).map((mii: any) => {
-            // Find substitutes for this menu_item_ingredient
-            const subs = (substitutesData || [])
-              .filter((s: any) => s.menu_item_ingredient_id === mii.id)
-              .map((s: any) => ({
-                id: s.substitute_ingredient_id,
-                name: s.substitute?.name || '',
-                allergens: s.substitute?.contains_allergens || [],
-              }));
-
-            return {
-              ...mii.ingredient,
-              is_removable: mii.is_removable || false,
-              is_substitutable: mii.is_substitutable || false,
-              substitutes: subs,
-            };
-          });
-
-          const { data: cookingSteps } = await supabase
-            .from('cooking_steps')
-            .select('*')
-            .eq('menu_item_id', item.id)
-            .order('step_number');
-
-          return {
-            ...item,
-            ingredients,
-            cookingSteps: cookingSteps || [],
-          };
-        })
-      );
-
-      setMenuItems(itemsWithData);
+    const syncedNow = new Date().toISOString();
+    setRestaurant(restaurantData);
+    setLastVisit(recordMenuVisit(restaurantData.id));
+    setMenuItems(items);
+    setSyncedAt(syncedNow);
+    setOffline(false);
+    saveOfflineMenu({ qrCode, restaurant: restaurantData, items, syncedAt: syncedNow });
+
+    const { diners: loadedCompanions, error: companionsError } = await loadCompanionDiners();
+    if (companionsError) {
+      console.error('Error loading diners:', companionsError);
+    } else {
+      setCompanions(loadedCompanions);
     }
 
-    const sessionId = getOrCreateSessionId();
-    const { data: profile } = await supabase
+    const { data: profile, error: profileError } = await supabase
       .from('customer_profiles')
       .select('*')
       .eq('session_id', sessionId)
       .maybeSingle();
 
     if (profile) {
-      const { data: restrictions } = await supabase
-        .from('dietary_restrictions')
-        .select('allergens')
-        .in('name', profile.dietary_restrictions);
-
-      const allAllergens = [
-        ...profile.custom_allergens,
-        ...(restrictions?.flatMap((r) => r.allergens) || []),
-      ];
+      try {
+        const { allergens, severities, restrictions } = await resolveCustomerAllergens(profile);
+        setCustomerProfileId(profile.id);
+        setCustomerAllergens(allergens);
+        setAllergenSeverities(severities);
+        setCustomerRestrictions(restrictions);
+        saveOfflineProfile({
+          sessionId,
+          profileId: profile.id,
+          allergens,
+          severities,
+          restrictions,
+          companions: loadedCompanions,
+          syncedAt: syncedNow,
+        });
+      } catch (err) {
+        console.error('Error resolving allergy profile:', err);
+        await restoreOfflineProfile(sessionId);
+      }
+    } else if (profileError) {
+      await restoreOfflineProfile(sessionId);
+    }
 
-      setCustomerAllergens(allAllergens);
+    if (tableLabel) {
+      const { error: tableError } = await joinTable(restaurantData.id, tableLabel);
+      if (tableError) console.error('Error joining table:', tableError);
     }
+    setSeatedTable(getStoredTableLabel(restaurantData.id));
+
+    setChefRequests(await loadGuestChefRequests(restaurantData.id));
 
     setLoading(false);
   };
 
-  const getDishSafetyStatus = (item: MenuItemWithData) => {
-    const analysis = analyzeDishSafety(item, item.ingredients, item.cookingSteps, customerAllergens);
+  const handleChefRequestSent = (request: ChefRequest) => {
+    setChefRequests((prev) => applyChefRequestChange(prev, { type: 'INSERT', request }));
+    setCustomerProfileId(request.customer_profile_id);
+  };
+
+  const handleAddDiner = async (name: string) => {
+    const { profileId, error } = await addCompanionDiner(name);
+    if (!profileId) {
+      alert(error);
+      return;
+    }
+    // Straight to the new diner's allergies; the menu reloads them on the way back
+    onEditProfile(profileId);
+  };
+
+  const handleEditDiner = (diner: Diner) => {
+    if (diner.name !== null && diner.profileId) {
+      onEditProfile(diner.profileId);
+    } else {
+      onEditProfile();
+    }
+  };
+
+  const handleRemoveDiner = async (diner: Diner) => {
+    if (!diner.profileId) return;
+    const { error } = await removeCompanionDiner(diner.profileId);
+    if (error) {
+      alert(error);
+      return;
+    }
+    setCompanions((prev) => prev.filter((d) => d.profileId !== diner.profileId));
+  };
+
+  // Vegan, Kosher, ... add no allergen terms; the safety analysis checks them by rule
+  const dietaryStyles = getDietaryStyles(customerRestrictions);
+  const hasRestrictions = customerAllergens.length > 0 || dietaryStyles.length > 0;
+
+  const getDishSafetyStatus = (item: MenuGraphItem) => {
+    const analysis = analyzeDishSafety(item, item.ingredients, item.cookingSteps, customerAllergens, {
+      severities: allergenSeverities,
+      dietaryStyles,
+    });
     return analysis.status;
   };
 
-  const getSafetyBadge = (status: 'safe' | 'safe-with-modifications' | 'unsafe') => {
+  // Allergens from the guest's profile that the dish gained since their last visit
+  const getAllergensAddedSinceVisit = (item: MenuGraphItem): string[] => {
+    if (!lastVisit || !item.allergens_changed_at) return [];
+    if (Date.parse(item.allergens_changed_at) <= Date.parse(lastVisit)) return [];
+    return item.allergens_added.filter((allergen) => matchesAnyAllergen(allergen, customerAllergens));
+  };
+
+  const getDinerBadge = (diner: Diner, status: SafetyStatus) => {
+    const style = {
+      safe: { className: 'bg-green-100 text-green-700', icon: <CheckCircle className="w-3 h-3" /> },
+      'safe-with-modifications': { className: 'bg-amber-100 text-amber-700', icon: <AlertCircle className="w-3 h-3" /> },
+      unsafe: { className: 'bg-red-100 text-red-700', icon: <XCircle className="w-3 h-3" /> },
+      unverified: { className: 'bg-slate-100 text-slate-600', icon: <HelpCircle className="w-3 h-3" /> },
+    }[status];
+    return (
+      <span
+        key={diner.profileId ?? 'you'}
+        className={`flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full ${style.className}`}
+      >
+        {style.icon}
+        {diner.name ?? t('group.you')}
+      </span>
+    );
+  };
+
+  const getSafetyBadge = (status: SafetyStatus) => {
     switch (status) {
       case 'safe':
         return (
           <span className="flex items-center gap-1 px-2 py-1 bg-green-100 text-green-700 text-xs font-medium rounded-full">
             <CheckCircle className="w-3 h-3" />
-            Safe
+            {t('badge.safe')}
           </span>
         );
       case 'safe-with-modifications':
         return (
           <span className="flex items-center gap-1 px-2 py-1 bg-amber-100 text-amber-700 text-xs font-medium rounded-full">
             <AlertCircle className="w-3 h-3" />
-            Modifiable
+            {t('badge.modifiable')}
           </span>
         );
       case 'unsafe':
         return (
           <span className="flex items-center gap-1 px-2 py-1 bg-red-100 text-red-700 text-xs font-medium rounded-full">
             <XCircle className="w-3 h-3" />
-            Contains Allergens
+            {t('badge.unsafe')}
+          </span>
+        );
+      case 'unverified':
+        return (
+          <span className="flex items-center gap-1 px-2 py-1 bg-slate-100 text-slate-600 text-xs font-medium rounded-full">
+            <HelpCircle className="w-3 h-3" />
+            {t('badge.unverified')}
           </span>
         );
     }
@@ -185,7 +304,7 @@ export default function CustomerMenu({ qrCode, onEditProfile, onExit }: Customer
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center" style={guestBg}>
-        <div className="text-slate-500">Loading menu...</div>
+        <div className="text-slate-500">{t('menu.loading')}</div>
       </div>
     );
   }
@@ -194,16 +313,40 @@ export default function CustomerMenu({ qrCode, onEditProfile, onExit }: Customer
     return (
       <div className="min-h-screen flex items-center justify-center p-4" style={guestBg}>
         <div className="bg-white rounded-2xl p-8 text-center shadow-2xl">
-          <p className="text-slate-600">Restaurant not found</p>
+          <p className="text-slate-600">
+            {offline ? t('menu.offlineNotSaved') : t('menu.notFound')}
+          </p>
         </div>
       </div>
     );
   }
 
+  const changedDishes = menuItems
+    .map((item) => ({ item, allergens: getAllergensAddedSinceVisit(item) }))
+    .filter(({ allergens }) => allergens.length > 0);
+
   const categories = ['all', ...Array.from(new Set(menuItems.map((item) => item.category).filter(Boolean)))];
-  const filteredItems = filterCategory === 'all'
+  const diners: Diner[] = [
+    {
+      profileId: customerProfileId,
+      name: null,
+      allergens: customerAllergens,
+      severities: allergenSeverities,
+      restrictions: customerRestrictions,
+    },
+    ...companions,
+  ];
+  const grouped = companions.length > 0;
+
+  const filteredItems = (filterCategory === 'all'
     ? menuItems
-    : menuItems.filter((item) => item.category === filterCategory);
+    : menuItems.filter((item) => item.category === filterCategory)
+  ).filter((item) => {
+    if (!grouped || !safeForEveryone) return true;
+    // A dish with incomplete data can't be confirmed safe for anyone
+    const { status } = analyzeDishForEveryone(item, diners);
+    return status !== 'unsafe' && status !== 'unverified';
+  });
 
   return (
     <div className="min-h-screen" style={guestBg}>
@@ -218,25 +361,31 @@ export default function CustomerMenu({ qrCode, onEditProfile, onExit }: Customer
                 {restaurant.description && (
                   <p className="text-sm text-slate-500">{restaurant.description}</p>
                 )}
+                {seatedTable && (
+                  <span className="inline-block mt-1 px-2 py-0.5 bg-teal-100 text-teal-700 text-xs font-medium rounded-full">
+                    {t('menu.table', { table: seatedTable })}
+                  </span>
+                )}
               </div>
             </div>
             <div className="flex items-center gap-2">
+              <LanguagePicker />
               <button
-                onClick={onEditProfile}
+                onClick={() => onEditProfile()}
                 className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-50 transition-colors"
-                title="Dietary Settings"
+                title={t('menu.settingsTitle')}
               >
                 <Settings className="w-4 h-4" />
-                <span className="hidden sm:inline">Settings</span>
+                <span className="hidden sm:inline">{t('menu.settings')}</span>
               </button>
               {onExit && (
                 <button
                   onClick={onExit}
                   className="flex items-center gap-2 px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
-                  title="Exit Menu"
+                  title={t('menu.exitTitle')}
                 >
                   <LogOut className="w-4 h-4" />
-                  <span className="hidden sm:inline">Exit</span>
+                  <span className="hidden sm:inline">{t('menu.exit')}</span>
                 </button>
               )}
             </div>
@@ -246,28 +395,136 @@ export default function CustomerMenu({ qrCode, onEditProfile, onExit }: Customer
 
       {/* Menu Content */}
       <>
+        {syncedAt && (
+          <div className="max-w-4xl mx-auto px-4 pt-3">
+            <p className={`flex items-center gap-1.5 text-xs ${offline ? 'text-amber-700' : 'text-slate-500'}`}>
+              {offline ? <WifiOff className="w-3.5 h-3.5" /> : <RefreshCw className="w-3.5 h-3.5" />}
+              {offline && `${t('menu.offline')} `}
+              {t('menu.lastSynced', {
+                date: new Date(syncedAt).toLocaleString(language, { dateStyle: 'medium', timeStyle: 'short' }),
+              })}
+            </p>
+            {offline && (
+              <p className="mt-1 text-xs text-amber-700">
+                {t('menu.offlineUnavailable')}
+                {offlineProfileMissing && ` ${t('menu.offlineNoProfile')}`}
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Allergen Alert Banner */}
-          {customerAllergens.length > 0 && (
+          {hasRestrictions && (
             <div className="max-w-4xl mx-auto px-4 pt-4">
               <div className="bg-white border border-slate-200 rounded-xl p-4">
                 <div className="flex items-center gap-3">
                   <ShieldWithForkKnife size={28} />
                   <div className="flex-1">
                     <p className="text-sm text-slate-600">
-                      Filtering for: <span className="font-medium text-slate-800">{customerAllergens.join(', ')}</span>
+                      {t('menu.filteringFor')}{' '}
+                      <span className="font-medium text-slate-800">
+                        {[
+                          ...customerRestrictions
+                            .filter((r) => dietaryStyleFor(r.name))
+                            .map((r) => translateCustomerRestriction(r, language)),
+                          ...translateAllergens(customerAllergens, language),
+                        ].join(', ')}
+                      </span>
                     </p>
                   </div>
                   <button
-                    onClick={onEditProfile}
+                    onClick={() => onEditProfile()}
                     className="text-teal-600 text-sm font-medium hover:text-teal-700"
                   >
-                    Edit
+                    {t('menu.edit')}
                   </button>
                 </div>
               </div>
             </div>
           )}
 
+          {/* Dishes that changed since the last visit */}
+          {changedDishes.length > 0 && (
+            <div className="max-w-4xl mx-auto px-4 pt-4">
+              <div className="bg-amber-50 border border-amber-200 rounded-xl p-4">
+                <h2 className="text-sm font-semibold text-amber-900 flex items-center gap-2">
+                  <History className="w-4 h-4 text-amber-600" />
+                  {changedDishes.length === 1 ? t('menu.changedOne') : t('menu.changedMany')}
+                </h2>
+                <ul className="mt-2 space-y-1">
+                  {changedDishes.map(({ item, allergens }) => (
+                    <li key={item.id}>
+                      <button
+                        onClick={() => setSelectedDish(item)}
+                        className="text-sm text-amber-800 hover:underline text-left"
+                      >
+                        <span className="font-medium">{localizeDish(item, language).name}</span>{' '}
+                        {t('menu.nowContains', { allergens: translateAllergens(allergens, language).join(', ') })}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
+
+          {/* Group Dining */}
+          <div className="max-w-4xl mx-auto px-4 pt-4">
+            <DinerGroupBar
+              diners={diners}
+              safeForEveryone={safeForEveryone}
+              onSafeForEveryoneChange={setSafeForEveryone}
+              onAdd={handleAddDiner}
+              onEdit={handleEditDiner}
+              onRemove={handleRemoveDiner}
+            />
+          </div>
+
+          {/* Chef Request Responses */}
+          {chefRequests.length > 0 && (
+            <div className="max-w-4xl mx-auto px-4 pt-4">
+              <div className="bg-white border border-slate-200 rounded-xl p-4 space-y-3">
+                <h2 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+                  <ChefHat className="w-4 h-4 text-teal-600" />
+                  {t('menu.chefRequests')}
+                </h2>
+                {chefRequests.map((request) => {
+                  const dish = menuItems.find((item) => item.id === request.menu_item_id);
+                  return (
+                    <div key={request.id} className="border-t border-slate-100 pt-3 first:border-t-0 first:pt-0">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium text-slate-900">{dish ? localizeDish(dish, language).name : t('menu.dish')}</span>
+                        {request.status === 'pending' && (
+                          <span className="flex items-center gap-1 px-2 py-0.5 bg-yellow-100 text-yellow-700 text-xs font-medium rounded-full">
+                            <Clock className="w-3 h-3" />
+                            {t('menu.requestPending')}
+                          </span>
+                        )}
+                        {request.status === 'approved' && (
+                          <span className="flex items-center gap-1 px-2 py-0.5 bg-green-100 text-green-700 text-xs font-medium rounded-full">
+                            <CheckCircle className="w-3 h-3" />
+                            {t('menu.requestApproved')}
+                          </span>
+                        )}
+                        {request.status === 'declined' && (
+                          <span className="flex items-center gap-1 px-2 py-0.5 bg-red-100 text-red-700 text-xs font-medium rounded-full">
+                            <XCircle className="w-3 h-3" />
+                            {t('menu.requestDeclined')}
+                          </span>
+                        )}
+                      </div>
+                      {request.chef_response && (
+                        <p className="text-sm text-slate-600 mt-1">
+                          <span className="font-medium text-slate-700">{t('menu.chef')} </span>{request.chef_response}
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {/* Category Filter */}
           {categories.length > 2 && (
             <div className="bg-white/60 border-b border-slate-200">
@@ -283,7 +540,7 @@ export default function CustomerMenu({ qrCode, onEditProfile, onExit }: Customer
                           : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-50'
                       }`}
                     >
-                      {category === 'all' ? 'All Items' : category}
+                      {category === 'all' ? t('menu.allItems') : category}
                     </button>
                   ))}
                 </div>
@@ -295,13 +552,15 @@ export default function CustomerMenu({ qrCode, onEditProfile, onExit }: Customer
           <main className="max-w-4xl mx-auto px-4 py-6">
             {filteredItems.length === 0 ? (
               <div className="bg-white rounded-2xl border border-slate-200 p-12 text-center shadow-xl">
-                <p className="text-slate-600">No menu items available</p>
+                <p className="text-slate-600">
+                  {grouped && safeForEveryone && menuItems.length > 0 ? t('group.noneSafe') : t('menu.noItems')}
+                </p>
               </div>
             ) : (
               <div className="space-y-6">
                 {Object.entries(
                   filteredItems.reduce((acc, item) => {
-                    const cat = item.category || 'Other';
+                    const cat = item.category || t('menu.otherCategory');
                     if (!acc[cat]) acc[cat] = [];
                     acc[cat].push(item);
                     return acc;
@@ -313,7 +572,14 @@ export default function CustomerMenu({ qrCode, onEditProfile, onExit }: Customer
                     </div>
                     <div className="divide-y divide-slate-100">
                       {items.map((item) => {
-                        const safetyStatus = customerAllergens.length > 0 ? getDishSafetyStatus(item) : null;
+                        const safetyStatus = !grouped && hasRestrictions ? getDishSafetyStatus(item) : null;
+                        const verdicts = grouped ? analyzeDishForDiners(item, diners) : [];
+                        // Shared plates and sides go to the middle of the table, so name who can't eat them
+                        const excluded = isSharedPlate(item)
+                          ? verdicts.filter((v) => v.status === 'unsafe').map((v) => v.diner.name ?? t('group.you'))
+                          : [];
+                        const changedSinceVisit = changedDishes.some((changed) => changed.item.id === item.id);
+                        const { name, description } = localizeDish(item, language);
                         return (
                           <button
                             key={item.id}
@@ -323,14 +589,30 @@ export default function CustomerMenu({ qrCode, onEditProfile, onExit }: Customer
                             <div className="flex items-start justify-between gap-4">
                               <div className="flex-1 min-w-0">
                                 <div className="flex items-center gap-2 flex-wrap mb-1">
-                                  <h3 className="text-lg font-semibold text-slate-900">{item.name}</h3>
+                                  <h3 className="text-lg font-semibold text-slate-900">{name}</h3>
                                   {safetyStatus && getSafetyBadge(safetyStatus)}
+                                  {changedSinceVisit && (
+                                    <span className="flex items-center gap-1 px-2 py-1 bg-amber-100 text-amber-700 text-xs font-medium rounded-full">
+                                      <History className="w-3 h-3" />
+                                      {t('menu.changedBadge')}
+                                    </span>
+                                  )}
                                 </div>
-                                {item.description && (
-                                  <p className="text-sm text-slate-600 leading-relaxed line-clamp-2">{item.description}</p>
+                                {description && (
+                                  <p className="text-sm text-slate-600 leading-relaxed line-clamp-2">{description}</p>
+                                )}
+                                {verdicts.length > 0 && (
+                                  <div className="flex flex-wrap gap-1 mt-2">
+                                    {verdicts.map(({ diner, status }) => getDinerBadge(diner, status))}
+                                  </div>
+                                )}
+                                {excluded.length > 0 && (
+                                  <p className="text-xs font-medium text-red-700 mt-1">
+                                    {t('group.excludes', { names: excluded.join(', ') })}
+                                  </p>
                                 )}
                                 {item.calories && (
-                                  <p className="text-xs text-slate-400 mt-1">{item.calories} cal</p>
+                                  <p className="text-xs text-slate-400 mt-1">{t('menu.calories', { count: item.calories })}</p>
                                 )}
                               </div>
                               <div className="flex items-center gap-2">
@@ -356,13 +638,19 @@ export default function CustomerMenu({ qrCode, onEditProfile, onExit }: Customer
       <BottomSheet
         isOpen={!!selectedDish}
         onClose={() => setSelectedDish(null)}
-        title={selectedDish?.name}
+        title={selectedDish ? localizeDish(selectedDish, language).name : undefined}
       >
         {selectedDish && (
           <DishDetail
             dish={selectedDish}
             customerAllergens={customerAllergens}
+            allergenSeverities={allergenSeverities}
             restaurantId={restaurant.id}
+            restaurantName={restaurant.name}
+            customerProfileId={customerProfileId}
+            customerRestrictions={customerRestrictions}
+            chefRequests={chefRequests.filter((r) => r.menu_item_id === selectedDish.id)}
+            onChefRequestSent={handleChefRequestSent}
           />
         )}
       </BottomSheet>
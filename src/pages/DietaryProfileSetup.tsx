@@ -1,22 +1,40 @@
 import { useEffect, useState } from 'react';
-import { supabase, Database } from '../lib/supabase';
+import { supabase, Database, AllergenSeverity, ALLERGEN_SEVERITIES } from '../lib/supabase';
 import { getOrCreateSessionId } from '../lib/customerSession';
-import { Check, ChevronRight } from 'lucide-react';
+import { Check, ChevronRight, AlertTriangle } from 'lucide-react';
 import ShieldWithForkKnife from '../components/ShieldWithForkKnife';
 import { getDietaryIcon } from '../components/icons/DietaryIcons';
+import LanguagePicker from '../components/common/LanguagePicker';
+import { useLanguage } from '../contexts/LanguageContext';
+import { translateRestriction, translateSeverity } from '../lib/i18n';
 
 type DietaryRestriction = Database['public']['Tables']['dietary_restrictions']['Row'];
 
+const LIFESTYLE_RESTRICTIONS = ['Vegan', 'Vegetarian', 'Kosher', 'Halal'];
+
+// Lifestyle choices are preferences unless the guest says otherwise; everything else is treated as an allergy
+function getDefaultSeverity(name: string): AllergenSeverity {
+  return LIFESTYLE_RESTRICTIONS.includes(name) ? 'preference' : 'allergy';
+}
+
 interface DietaryProfileSetupProps {
+  // A diner the guest added for group dining; the guest's own profile when null
+  dinerProfileId?: string | null;
   onComplete: () => void;
 }
 
-export default function DietaryProfileSetup({ onComplete }: DietaryProfileSetupProps) {
+export default function DietaryProfileSetup({ dinerProfileId = null, onComplete }: DietaryProfileSetupProps) {
+  const { language, t } = useLanguage();
   const [restrictions, setRestrictions] = useState<DietaryRestriction[]>([]);
   const [selectedRestrictions, setSelectedRestrictions] = useState<string[]>([]);
   const [customAllergens, setCustomAllergens] = useState<string>('');
+  const [severities, setSeverities] = useState<Record<string, AllergenSeverity>>({});
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [dinerName, setDinerName] = useState<string | null>(null);
+  // Restrictions or the saved profile couldn't be loaded, usually for lack of signal
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
 
   useEffect(() => {
     loadRestrictions();
@@ -24,11 +42,12 @@ export default function DietaryProfileSetup({ onComplete }: DietaryProfileSetupP
   }, []);
 
   const loadRestrictions = async () => {
-    const { data } = await supabase
+    const { data, error } = await supabase
       .from('dietary_restrictions')
       .select('*')
       .order('name');
 
+    if (error) setLoadFailed(true);
     if (data) {
       setRestrictions(data);
     }
@@ -36,16 +55,18 @@ export default function DietaryProfileSetup({ onComplete }: DietaryProfileSetupP
   };
 
   const loadExistingProfile = async () => {
-    const sessionId = getOrCreateSessionId();
-    const { data } = await supabase
-      .from('customer_profiles')
-      .select('*')
-      .eq('session_id', sessionId)
-      .maybeSingle();
+    const query = supabase.from('customer_profiles').select('*');
+    const { data, error } = await (dinerProfileId
+      ? query.eq('id', dinerProfileId)
+      : query.eq('session_id', getOrCreateSessionId())
+    ).maybeSingle();
 
+    if (error) setLoadFailed(true);
     if (data) {
+      setDinerName(dinerProfileId ? data.diner_name : null);
       setSelectedRestrictions(data.dietary_restrictions);
       setCustomAllergens(data.custom_allergens.join(', '));
+      setSeverities(data.allergen_severities || {});
     }
   };
 
@@ -55,48 +76,79 @@ export default function DietaryProfileSetup({ onComplete }: DietaryProfileSetupP
     );
   };
 
+  const getSeverity = (name: string) => severities[name] || getDefaultSeverity(name);
+
+  const setSeverity = (name: string, severity: AllergenSeverity) => {
+    setSeverities((prev) => ({ ...prev, [name]: severity }));
+  };
+
+  const customAllergenNames = customAllergens
+    .split(',')
+    .map((a) => a.trim())
+    .filter(Boolean);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setSaving(true);
+    setSaveError(null);
 
     const sessionId = getOrCreateSessionId();
-    const customAllergensList = customAllergens
-      .split(',')
-      .map((a) => a.trim())
-      .filter(Boolean);
+    // Only keep severities for what is still selected
+    const allergenSeverities = Object.fromEntries(
+      [...selectedRestrictions, ...customAllergenNames].map((name) => [name, getSeverity(name)])
+    );
+
+    const { data: existing, error: lookupError } = dinerProfileId
+      ? { data: { id: dinerProfileId }, error: null }
+      : await supabase
+          .from('customer_profiles')
+          .select('id')
+          .eq('session_id', sessionId)
+          .maybeSingle();
 
-    const { data: existing } = await supabase
-      .from('customer_profiles')
-      .select('id')
-      .eq('session_id', sessionId)
-      .maybeSingle();
+    // Going on to the menu would show it checked against a profile that wasn't saved
+    const failed = () => {
+      setSaveError(t('profile.saveFailed'));
+      setSaving(false);
+    };
+    if (lookupError) return failed();
 
     if (existing) {
-      await supabase
+      const { error } = await supabase
         .from('customer_profiles')
         .update({
           dietary_restrictions: selectedRestrictions,
-          custom_allergens: customAllergensList,
+          custom_allergens: customAllergenNames,
+          allergen_severities: allergenSeverities,
         })
         .eq('id', existing.id);
+      if (error) return failed();
     } else {
-      await supabase.from('customer_profiles').insert({
+      const { error } = await supabase.from('customer_profiles').insert({
         session_id: sessionId,
         dietary_restrictions: selectedRestrictions,
-        custom_allergens: customAllergensList,
+        custom_allergens: customAllergenNames,
+        allergen_severities: allergenSeverities,
       });
+      if (error) return failed();
     }
 
     setSaving(false);
     onComplete();
   };
 
+  // Restriction names are translated; custom allergens are shown as the guest typed them
+  const getRestrictionName = (name: string) => {
+    const restriction = restrictions.find((r) => r.name === name);
+    return restriction ? translateRestriction(language, restriction).name : name;
+  };
+
   const guestBg = { background: 'linear-gradient(160deg, #e0f2f1 0%, #e8f4f8 40%, #fce8d8 100%)' } as const;
 
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center" style={guestBg}>
-        <div className="text-slate-500">Loading...</div>
+        <div className="text-slate-500">{t('app.loading')}</div>
       </div>
     );
   }
@@ -106,12 +158,15 @@ export default function DietaryProfileSetup({ onComplete }: DietaryProfileSetupP
       {/* Header */}
       <header className="bg-white/80 backdrop-blur-sm border-b border-slate-200 sticky top-0 z-10">
         <div className="max-w-2xl mx-auto px-4 py-4">
-          <div className="flex items-center gap-3">
-            <ShieldWithForkKnife size={36} />
-            <div>
-              <h1 className="text-xl font-bold text-slate-800">Safe Dining</h1>
-              <p className="text-sm text-slate-500">Dietary Profile Setup</p>
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <ShieldWithForkKnife size={36} />
+              <div>
+                <h1 className="text-xl font-bold text-slate-800">{t('app.name')}</h1>
+                <p className="text-sm text-slate-500">{t('profile.subtitle')}</p>
+              </div>
             </div>
+            <LanguagePicker />
           </div>
         </div>
       </header>
@@ -120,176 +175,231 @@ export default function DietaryProfileSetup({ onComplete }: DietaryProfileSetupP
         <div className="bg-white rounded-2xl shadow-2xl overflow-hidden">
           {/* Card Header */}
           <div className="px-6 py-5" style={{ background: 'linear-gradient(90deg, #3b82f6, #0d9488)' }}>
-            <h2 className="text-2xl font-bold text-white">Your Dietary Profile</h2>
+            <h2 className="text-2xl font-bold text-white">
+              {dinerName ? t('profile.titleFor', { name: dinerName }) : t('profile.title')}
+            </h2>
             <p className="text-blue-100 mt-1">
-              Select your dietary requirements for personalized menu recommendations
+              {t('profile.intro')}
             </p>
           </div>
 
           {/* Card Content */}
-          <form onSubmit={handleSubmit} className="p-6 space-y-6">
-            <div className="space-y-5">
-              {[
-                { label: 'Allergies', names: ['Nut Allergy', 'Shellfish Allergy', 'Fish Allergy', 'Sesame Allergy'] },
-                { label: 'Dietary Preferences', names: ['Gluten-Free', 'Dairy-Free', 'Egg-Free', 'Soy-Free'] },
-                { label: 'Lifestyle', names: ['Vegan', 'Vegetarian', 'Kosher', 'Halal'] },
-              ].map(({ label, names }) => {
-                const groupRestrictions = restrictions.filter(r => names.includes(r.name));
-                if (groupRestrictions.length === 0) return null;
-                return (
-                  <div key={label}>
-                    <label className="block text-sm font-semibold text-slate-700 mb-3 uppercase tracking-wide">
-                      {label}
-                    </label>
-                    <div className="grid grid-cols-2 gap-3">
-                      {groupRestrictions.map((restriction) => {
-                        const isSelected = selectedRestrictions.includes(restriction.name);
-                        return (
-                          <button
-                            key={restriction.id}
-                            type="button"
-                            onClick={() => toggleRestriction(restriction.name)}
-                            className={`relative p-4 border-2 rounded-xl text-left transition-all ${
-                              isSelected
-                                ? 'border-emerald-500 bg-emerald-50 shadow-md'
-                                : 'border-slate-200 hover:border-slate-300 hover:bg-slate-50'
-                            }`}
-                          >
-                            {isSelected && (
-                              <div className="absolute top-3 right-3">
-                                <div className="bg-emerald-500 text-white rounded-full p-1 shadow-sm">
-                                  <Check className="w-3 h-3" />
+          {loadFailed ? (
+            <div className="p-6 space-y-6">
+              <p className="flex items-start gap-2 text-slate-700">
+                <AlertTriangle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+                {t('profile.offline')}
+              </p>
+              <button
+                type="button"
+                onClick={onComplete}
+                className="w-full flex items-center justify-center gap-2 text-white py-4 rounded-xl font-semibold transition-all shadow-lg hover:shadow-xl"
+                style={{ background: 'linear-gradient(90deg, #3b82f6, #0d9488)' }}
+              >
+                {t('profile.continue')}
+                <ChevronRight className="w-5 h-5" />
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="p-6 space-y-6">
+              <div className="space-y-5">
+                {[
+                  { label: t('profile.groupAllergies'), names: ['Nut Allergy', 'Shellfish Allergy', 'Fish Allergy', 'Sesame Allergy'] },
+                  { label: t('profile.groupPreferences'), names: ['Gluten-Free', 'Dairy-Free', 'Egg-Free', 'Soy-Free'] },
+                  { label: t('profile.groupLifestyle'), names: LIFESTYLE_RESTRICTIONS },
+                ].map(({ label, names }) => {
+                  const groupRestrictions = restrictions.filter(r => names.includes(r.name));
+                  if (groupRestrictions.length === 0) return null;
+                  return (
+                    <div key={label}>
+                      <label className="block text-sm font-semibold text-slate-700 mb-3 uppercase tracking-wide">
+                        {label}
+                      </label>
+                      <div className="grid grid-cols-2 gap-3">
+                        {groupRestrictions.map((restriction) => {
+                          const isSelected = selectedRestrictions.includes(restriction.name);
+                          const translated = translateRestriction(language, restriction);
+                          return (
+                            <button
+                              key={restriction.id}
+                              type="button"
+                              onClick={() => toggleRestriction(restriction.name)}
+                              className={`relative p-4 border-2 rounded-xl text-left transition-all ${
+                                isSelected
+                                  ? 'border-emerald-500 bg-emerald-50 shadow-md'
+                                  : 'border-slate-200 hover:border-slate-300 hover:bg-slate-50'
+                              }`}
+                            >
+                              {isSelected && (
+                                <div className="absolute top-3 right-3">
+                                  <div className="bg-emerald-500 text-white rounded-full p-1 shadow-sm">
+                                    <Check className="w-3 h-3" />
+                                  </div>
                                 </div>
+                              )}
+                              <div className="flex items-center gap-3 mb-1">
+                                <div className={`p-2 rounded-lg ${isSelected ? 'bg-emerald-100 text-emerald-600' : 'bg-slate-100 text-slate-500'}`}>
+                                  {getDietaryIcon(restriction.name, 20)}
+                                </div>
+                                <div className="font-semibold text-slate-900">{translated.name}</div>
                               </div>
-                            )}
-                            <div className="flex items-center gap-3 mb-1">
-                              <div className={`p-2 rounded-lg ${isSelected ? 'bg-emerald-100 text-emerald-600' : 'bg-slate-100 text-slate-500'}`}>
-                                {getDietaryIcon(restriction.name, 20)}
-                              </div>
-                              <div className="font-semibold text-slate-900">{restriction.name}</div>
-                            </div>
-                            {restriction.description && (
-                              <div className="text-xs text-slate-500 ml-11">{restriction.description}</div>
-                            )}
-                          </button>
-                        );
-                      })}
+                              {translated.description && (
+                                <div className="text-xs text-slate-500 ml-11">{translated.description}</div>
+                              )}
+                            </button>
+                          );
+                        })}
+                      </div>
                     </div>
-                  </div>
-                );
-              })}
-              {/* Show any restrictions not in the predefined groups */}
-              {(() => {
-                const knownNames = ['Nut Allergy', 'Shellfish Allergy', 'Fish Allergy', 'Sesame Allergy', 'Gluten-Free', 'Dairy-Free', 'Egg-Free', 'Soy-Free', 'Vegan', 'Vegetarian', 'Kosher', 'Halal'];
-                const otherRestrictions = restrictions.filter(r => !knownNames.includes(r.name));
-                if (otherRestrictions.length === 0) return null;
-                return (
-                  <div>
-                    <label className="block text-sm font-semibold text-slate-700 mb-3 uppercase tracking-wide">
-                      Other
-                    </label>
-                    <div className="grid grid-cols-2 gap-3">
-                      {otherRestrictions.map((restriction) => {
-                        const isSelected = selectedRestrictions.includes(restriction.name);
-                        return (
-                          <button
-                            key={restriction.id}
-                            type="button"
-                            onClick={() => toggleRestriction(restriction.name)}
-                            className={`relative p-4 border-2 rounded-xl text-left transition-all ${
-                              isSelected
-                                ? 'border-emerald-500 bg-emerald-50 shadow-md'
-                                : 'border-slate-200 hover:border-slate-300 hover:bg-slate-50'
-                            }`}
-                          >
-                            {isSelected && (
-                              <div className="absolute top-3 right-3">
-                                <div className="bg-emerald-500 text-white rounded-full p-1 shadow-sm">
-                                  <Check className="w-3 h-3" />
+                  );
+                })}
+                {/* Show any restrictions not in the predefined groups */}
+                {(() => {
+                  const knownNames = ['Nut Allergy', 'Shellfish Allergy', 'Fish Allergy', 'Sesame Allergy', 'Gluten-Free', 'Dairy-Free', 'Egg-Free', 'Soy-Free', 'Vegan', 'Vegetarian', 'Kosher', 'Halal'];
+                  const otherRestrictions = restrictions.filter(r => !knownNames.includes(r.name));
+                  if (otherRestrictions.length === 0) return null;
+                  return (
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-700 mb-3 uppercase tracking-wide">
+                        {t('profile.groupOther')}
+                      </label>
+                      <div className="grid grid-cols-2 gap-3">
+                        {otherRestrictions.map((restriction) => {
+                          const isSelected = selectedRestrictions.includes(restriction.name);
+                          const translated = translateRestriction(language, restriction);
+                          return (
+                            <button
+                              key={restriction.id}
+                              type="button"
+                              onClick={() => toggleRestriction(restriction.name)}
+                              className={`relative p-4 border-2 rounded-xl text-left transition-all ${
+                                isSelected
+                                  ? 'border-emerald-500 bg-emerald-50 shadow-md'
+                                  : 'border-slate-200 hover:border-slate-300 hover:bg-slate-50'
+                              }`}
+                            >
+                              {isSelected && (
+                                <div className="absolute top-3 right-3">
+                                  <div className="bg-emerald-500 text-white rounded-full p-1 shadow-sm">
+                                    <Check className="w-3 h-3" />
+                                  </div>
                                 </div>
+                              )}
+                              <div className="flex items-center gap-3 mb-1">
+                                <div className={`p-2 rounded-lg ${isSelected ? 'bg-emerald-100 text-emerald-600' : 'bg-slate-100 text-slate-500'}`}>
+                                  {getDietaryIcon(restriction.name, 20)}
+                                </div>
+                                <div className="font-semibold text-slate-900">{translated.name}</div>
                               </div>
-                            )}
-                            <div className="flex items-center gap-3 mb-1">
-                              <div className={`p-2 rounded-lg ${isSelected ? 'bg-emerald-100 text-emerald-600' : 'bg-slate-100 text-slate-500'}`}>
-                                {getDietaryIcon(restriction.name, 20)}
-                              </div>
-                              <div className="font-semibold text-slate-900">{restriction.name}</div>
-                            </div>
-                            {restriction.description && (
-                              <div className="text-xs text-slate-500 ml-11">{restriction.description}</div>
-                            )}
-                          </button>
-                        );
-                      })}
+                              {translated.description && (
+                                <div className="text-xs text-slate-500 ml-11">{translated.description}</div>
+                              )}
+                            </button>
+                          );
+                        })}
+                      </div>
                     </div>
-                  </div>
-                );
-              })()}
-            </div>
+                  );
+                })()}
+              </div>
 
-            <div className="pt-2">
-              <label htmlFor="customAllergens" className="block text-sm font-semibold text-slate-700 mb-2 uppercase tracking-wide">
-                Additional Allergens
-              </label>
-              <p className="text-sm text-slate-500 mb-3">
-                Add any other ingredients you need to avoid
-              </p>
-              <input
-                id="customAllergens"
-                type="text"
-                value={customAllergens}
-                onChange={(e) => setCustomAllergens(e.target.value)}
-                className="w-full px-4 py-3 border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-                placeholder="e.g., cilantro, mushrooms, bell peppers"
-              />
-              <p className="text-xs text-slate-400 mt-2">Separate multiple items with commas</p>
-            </div>
+              <div className="pt-2">
+                <label htmlFor="customAllergens" className="block text-sm font-semibold text-slate-700 mb-2 uppercase tracking-wide">
+                  {t('profile.additionalAllergens')}
+                </label>
+                <p className="text-sm text-slate-500 mb-3">
+                  {t('profile.additionalHint')}
+                </p>
+                <input
+                  id="customAllergens"
+                  type="text"
+                  value={customAllergens}
+                  onChange={(e) => setCustomAllergens(e.target.value)}
+                  className="w-full px-4 py-3 border-2 border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  placeholder={t('profile.additionalPlaceholder')}
+                />
+                <p className="text-xs text-slate-400 mt-2">{t('profile.additionalSeparator')}</p>
+              </div>
 
-            {/* Summary */}
-            {(selectedRestrictions.length > 0 || customAllergens.trim()) && (
-              <div className="bg-slate-50 rounded-xl p-4 border border-slate-200">
-                <h4 className="text-sm font-semibold text-slate-700 mb-2">Your Selections</h4>
-                <div className="flex flex-wrap gap-2">
-                  {selectedRestrictions.map((name) => (
-                    <span
-                      key={name}
-                      className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-emerald-100 text-emerald-800 text-sm font-medium rounded-full"
-                    >
-                      {getDietaryIcon(name, 14)}
-                      {name}
-                    </span>
-                  ))}
-                  {customAllergens.split(',').filter(a => a.trim()).map((allergen) => (
-                    <span
-                      key={allergen.trim()}
-                      className="px-3 py-1.5 bg-slate-200 text-slate-700 text-sm font-medium rounded-full"
-                    >
-                      {allergen.trim()}
-                    </span>
-                  ))}
+              {/* Summary with per-item severity */}
+              {(selectedRestrictions.length > 0 || customAllergenNames.length > 0) && (
+                <div className="bg-slate-50 rounded-xl p-4 border border-slate-200">
+                  <h4 className="text-sm font-semibold text-slate-700 mb-1">{t('profile.selections')}</h4>
+                  <p className="text-xs text-slate-500 mb-3">
+                    {t('profile.severityHint')}
+                  </p>
+                  <div className="space-y-2">
+                    {[...selectedRestrictions, ...customAllergenNames].map((name) => {
+                      const severity = getSeverity(name);
+                      return (
+                        <div
+                          key={name}
+                          className={`flex flex-wrap items-center justify-between gap-2 bg-white rounded-lg border px-3 py-2 ${
+                            severity === 'anaphylactic' ? 'border-red-300' : 'border-slate-200'
+                          }`}
+                        >
+                          <span className="inline-flex items-center gap-1.5 text-sm font-medium text-slate-800">
+                            {getDietaryIcon(name, 14)}
+                            {getRestrictionName(name)}
+                            {severity === 'anaphylactic' && <AlertTriangle className="w-4 h-4 text-red-600" />}
+                          </span>
+                          <div className="flex gap-1">
+                            {ALLERGEN_SEVERITIES.map((option) => {
+                              const isActive = severity === option.value;
+                              const { label, description } = translateSeverity(language, option.value);
+                              return (
+                                <button
+                                  key={option.value}
+                                  type="button"
+                                  title={description}
+                                  onClick={() => setSeverity(name, option.value)}
+                                  className={`px-2.5 py-1 text-xs font-medium rounded-full transition-colors ${
+                                    isActive
+                                      ? option.value === 'anaphylactic'
+                                        ? 'bg-red-600 text-white'
+                                        : 'bg-emerald-500 text-white'
+                                      : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                                  }`}
+                                >
+                                  {label}
+                                </button>
+                              );
+                            })}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
                 </div>
-              </div>
-            )}
+              )}
 
-            <div className="flex gap-3 pt-4">
-              <button
-                type="submit"
-                disabled={saving}
-                className="flex-1 flex items-center justify-center gap-2 text-white py-4 rounded-xl font-semibold transition-all shadow-lg hover:shadow-xl disabled:opacity-50"
-                style={{ background: 'linear-gradient(90deg, #3b82f6, #0d9488)' }}
-              >
-                {saving ? 'Saving...' : 'Continue to Menu'}
-                {!saving && <ChevronRight className="w-5 h-5" />}
-              </button>
-              <button
-                type="button"
-                onClick={onComplete}
-                className="px-6 py-4 bg-slate-100 text-slate-700 rounded-xl font-semibold hover:bg-slate-200 transition-colors"
-              >
-                Skip
-              </button>
-            </div>
-          </form>
+              {saveError && (
+                <p className="flex items-center gap-2 text-sm text-red-600">
+                  <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                  {saveError}
+                </p>
+              )}
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="flex-1 flex items-center justify-center gap-2 text-white py-4 rounded-xl font-semibold transition-all shadow-lg hover:shadow-xl disabled:opacity-50"
+                  style={{ background: 'linear-gradient(90deg, #3b82f6, #0d9488)' }}
+                >
+                  {saving ? t('profile.saving') : t('profile.continue')}
+                  {!saving && <ChevronRight className="w-5 h-5" />}
+                </button>
+                <button
+                  type="button"
+                  onClick={onComplete}
+                  className="px-6 py-4 bg-slate-100 text-slate-700 rounded-xl font-semibold hover:bg-slate-200 transition-colors"
+                >
+                  {t('profile.skip')}
+                </button>
+              </div>
+            </form>
+          )}
         </div>
       </main>
     </div>
@@ -0,0 +1,244 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeft, AlertTriangle, CheckCircle, Clock, Loader2, ShieldCheck } from 'lucide-react';
+import { ALLERGEN_SEVERITIES } from '../lib/supabase';
+import { markChefRequestPrepared, respondToChefRequest } from '../lib/chefRequests';
+import { KitchenTicket, loadKitchenTickets } from '../lib/kitchenTickets';
+import { getRealtimeClient } from '../lib/realtime';
+import { severityRank } from '../lib/customerProfile';
+
+interface KitchenDisplayProps {
+  restaurantId: string;
+  onBack: () => void;
+}
+
+function severityLabel(severity: string): string {
+  return ALLERGEN_SEVERITIES.find(s => s.value === severity)?.label || severity;
+}
+
+/**
+ * Full-screen queue of open allergy orders for the line. New guest requests arrive
+ * through realtime; a ticket leaves the queue once it's marked prepared allergen-safe.
+ */
+export default function KitchenDisplay({ restaurantId, onBack }: KitchenDisplayProps) {
+  const [tickets, setTickets] = useState<KitchenTicket[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const { tickets: loaded, error: loadError } = await loadKitchenTickets(restaurantId);
+      setTickets(loaded);
+      setError(loadError);
+      setLoading(false);
+    };
+
+    load();
+    // Tickets combine the request with the dish and the guest profile, so rebuild on any change
+    return getRealtimeClient().subscribeToChefRequests({ restaurantId }, () => {
+      load();
+    });
+  }, [restaurantId]);
+
+  const handleApprove = async (ticket: KitchenTicket) => {
+    setUpdatingId(ticket.request.id);
+    const { error: updateError } = await respondToChefRequest(ticket.request.id, 'approved', null);
+    if (updateError) setError(updateError);
+    setUpdatingId(null);
+  };
+
+  const handlePrepared = async (ticket: KitchenTicket) => {
+    setUpdatingId(ticket.request.id);
+    const { error: updateError } = await markChefRequestPrepared(ticket.request.id);
+    if (updateError) {
+      setError(updateError);
+    } else {
+      setTickets(prev => prev.filter(t => t.request.id !== ticket.request.id));
+    }
+    setUpdatingId(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      <header className="bg-slate-800 border-b border-slate-700">
+        <div className="px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <button onClick={onBack} className="p-2 hover:bg-slate-700 rounded-lg transition-colors">
+              <ArrowLeft className="w-5 h-5 text-slate-400" />
+            </button>
+            <div>
+              <h1 className="text-2xl font-bold text-white">Kitchen Display</h1>
+              <p className="text-sm text-slate-400">Open allergy orders, oldest first</p>
+            </div>
+          </div>
+          <span className="px-3 py-1 bg-emerald-500/20 border border-emerald-500/30 rounded-full text-emerald-400 text-sm font-bold">
+            {tickets.length} open
+          </span>
+        </div>
+      </header>
+
+      <main className="px-4 sm:px-6 lg:px-8 py-6">
+        {error && (
+          <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-sm">{error}</div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-24">
+            <Loader2 className="w-8 h-8 animate-spin text-slate-400" />
+          </div>
+        ) : tickets.length === 0 ? (
+          <div className="text-center py-24 text-slate-400">
+            <ShieldCheck className="w-12 h-12 mx-auto mb-3 text-slate-500" />
+            No open allergy orders
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+            {tickets.map((ticket) => (
+              <KitchenTicketCard
+                key={ticket.request.id}
+                ticket={ticket}
+                updating={updatingId === ticket.request.id}
+                onApprove={() => handleApprove(ticket)}
+                onPrepared={() => handlePrepared(ticket)}
+              />
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
+
+interface KitchenTicketCardProps {
+  ticket: KitchenTicket;
+  updating: boolean;
+  onApprove: () => void;
+  onPrepared: () => void;
+}
+
+function KitchenTicketCard({ ticket, updating, onApprove, onPrepared }: KitchenTicketCardProps) {
+  const pending = ticket.request.status === 'pending';
+  const anaphylactic = ticket.restrictions.some(r => r.severity === 'anaphylactic');
+  const restrictions = [...ticket.restrictions].sort((a, b) => severityRank(b.severity) - severityRank(a.severity));
+
+  return (
+    <div className={`bg-white rounded-xl border-4 flex flex-col ${anaphylactic ? 'border-red-500' : 'border-amber-400'}`}>
+      <div className="px-4 py-3 border-b border-slate-200 flex items-start justify-between gap-3">
+        <div>
+          <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+            {ticket.tableLabel ? `Table ${ticket.tableLabel}` : 'No table given'}
+          </div>
+          <h2 className="text-xl font-bold text-slate-900">{ticket.dishName}</h2>
+        </div>
+        <div className="text-right flex-shrink-0">
+          <div className="flex items-center gap-1 text-xs text-slate-500">
+            <Clock className="w-3 h-3" />
+            {new Date(ticket.request.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </div>
+          {pending && (
+            <span className="inline-block mt-1 px-2 py-0.5 bg-yellow-100 text-yellow-700 text-xs font-medium rounded-full">
+              Awaiting approval
+            </span>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 px-4 py-3 space-y-4 text-sm">
+        <div>
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-1.5">Allergens</h3>
+          {restrictions.length > 0 ? (
+            <div className="flex flex-wrap gap-1.5">
+              {restrictions.map((restriction) => (
+                <span
+                  key={restriction.name}
+                  className={`px-2 py-1 rounded-full text-xs font-semibold ${
+                    restriction.severity === 'anaphylactic' ? 'bg-red-600 text-white' : 'bg-red-100 text-red-700'
+                  }`}
+                >
+                  {restriction.name} · {severityLabel(restriction.severity)}
+                </span>
+              ))}
+            </div>
+          ) : (
+            <p className="text-slate-500">No profile saved; check with the guest</p>
+          )}
+        </div>
+
+        {ticket.anaphylaxisWarnings.length > 0 && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg space-y-1 text-red-800">
+            {ticket.anaphylaxisWarnings.map((warning, index) => (
+              <p key={index} className="flex gap-2">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                {warning}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {ticket.substitutions.length > 0 && (
+          <div>
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-1.5">Substitutions</h3>
+            <ul className="space-y-1 list-disc list-inside text-slate-900 font-medium">
+              {ticket.substitutions.map((substitution) => (
+                <li key={substitution}>{substitution}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {ticket.modifiedSteps.length > 0 && (
+          <div>
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-1.5">Modified steps</h3>
+            <ol className="space-y-2">
+              {ticket.modifiedSteps.map((step) => (
+                <li key={step.stepNumber} className="p-2 bg-amber-50 border border-amber-200 rounded-lg">
+                  <div className="text-slate-600">Step {step.stepNumber}: {step.description}</div>
+                  <div className="font-semibold text-slate-900">{step.notes}</div>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        {ticket.crossContactRisks.length > 0 && (
+          <div>
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-1.5">Cross-contact risks</h3>
+            <ul className="space-y-1 list-disc list-inside text-slate-700">
+              {ticket.crossContactRisks.map((risk, index) => (
+                <li key={index}>{risk}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {ticket.note && (
+          <div className="p-3 bg-slate-50 rounded-lg text-slate-800 whitespace-pre-line">
+            <span className="font-semibold">Guest note: </span>{ticket.note}
+          </div>
+        )}
+      </div>
+
+      <div className="px-4 py-3 border-t border-slate-200">
+        {pending ? (
+          <button
+            onClick={onApprove}
+            disabled={updating}
+            className="w-full flex items-center justify-center gap-2 bg-emerald-600 text-white py-3 rounded-lg font-semibold hover:bg-emerald-700 transition-colors disabled:opacity-50"
+          >
+            {updating ? <Loader2 className="w-5 h-5 animate-spin" /> : <CheckCircle className="w-5 h-5" />}
+            Approve request
+          </button>
+        ) : (
+          <button
+            onClick={onPrepared}
+            disabled={updating}
+            className="w-full flex items-center justify-center gap-2 bg-teal-600 text-white py-3 rounded-lg font-semibold hover:bg-teal-700 transition-colors disabled:opacity-50"
+          >
+            {updating ? <Loader2 className="w-5 h-5 animate-spin" /> : <ShieldCheck className="w-5 h-5" />}
+            Prepared allergen-safe
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import "@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildPrompt, isAITask, PromptInputError, Repair } from "./prompts.ts";
+import { parseResponse, SchemaError } from "./schemas.ts";
+import { getProvider, ProviderError } from "./providers.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+// Requests per minute for one restaurant (or one user before their restaurant exists)
+const RATE_LIMIT_PER_MINUTE = Number(Deno.env.get("AI_RATE_LIMIT_PER_MINUTE") || 30);
+// Monthly quota for users without a restaurant yet; restaurants use ai_monthly_quota
+const DEFAULT_MONTHLY_QUOTA = Number(Deno.env.get("AI_DEFAULT_MONTHLY_QUOTA") || 200);
+// Calls to the vendor per request, including repair prompts and retries
+const MAX_ATTEMPTS = 3;
+
+type UsageStatus = "ok" | "invalid_response" | "provider_error";
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUser = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      { global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } } }
+    );
+    const { data: { user } } = await supabaseUser.auth.getUser();
+    if (!user) {
+      return jsonResponse({ error: "Please sign in to use AI features." }, 401);
+    }
+
+    const { task, input } = await req.json();
+    if (!isAITask(task)) {
+      return jsonResponse({ error: `Unknown AI task: ${task}` }, 400);
+    }
+
+    // Service role client for the usage log, which owners can read but not write
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    );
+
+    const { data: restaurant } = await supabaseAdmin
+      .from("restaurants")
+      .select("id, ai_monthly_quota")
+      .eq("owner_id", user.id)
+      .order("created_at")
+      .limit(1)
+      .maybeSingle();
+
+    // Limits are shared by everyone acting for a restaurant
+    const scopeColumn = restaurant ? "restaurant_id" : "user_id";
+    const scopeValue = restaurant ? restaurant.id : user.id;
+
+    const { count: lastMinute } = await supabaseAdmin
+      .from("ai_usage_log")
+      .select("id", { count: "exact", head: true })
+      .eq(scopeColumn, scopeValue)
+      .gte("created_at", new Date(Date.now() - 60_000).toISOString());
+
+    if ((lastMinute ?? 0) >= RATE_LIMIT_PER_MINUTE) {
+      return jsonResponse({ error: "AI rate limit exceeded. Please wait a moment and try again." }, 429);
+    }
+
+    const monthStart = new Date();
+    monthStart.setUTCDate(1);
+    monthStart.setUTCHours(0, 0, 0, 0);
+    const { count: thisMonth } = await supabaseAdmin
+      .from("ai_usage_log")
+      .select("id", { count: "exact", head: true })
+      .eq(scopeColumn, scopeValue)
+      .eq("status", "ok")
+      .gte("created_at", monthStart.toISOString());
+
+    const quota = restaurant?.ai_monthly_quota ?? DEFAULT_MONTHLY_QUOTA;
+    if ((thisMonth ?? 0) >= quota) {
+      return jsonResponse({ error: "Monthly AI quota reached. Contact support to raise it." }, 429);
+    }
+
+    const provider = getProvider();
+    if (!provider) {
+      return jsonResponse({ error: "AI is not configured on the server." }, 503);
+    }
+
+    let prompt;
+    try {
+      prompt = buildPrompt(task, input ?? {});
+    } catch (err) {
+      if (err instanceof PromptInputError) {
+        return jsonResponse({ error: err.message }, 400);
+      }
+      throw err;
+    }
+
+    const logUsage = (
+      status: UsageStatus,
+      attempt: number,
+      startedAt: number,
+      usage: { model?: string; inputTokens?: number | null; outputTokens?: number | null } = {}
+    ) => supabaseAdmin.from("ai_usage_log").insert({
+      restaurant_id: restaurant?.id ?? null,
+      user_id: user.id,
+      task,
+      provider: provider.name,
+      model: usage.model ?? null,
+      status,
+      attempt,
+      input_tokens: usage.inputTokens ?? null,
+      output_tokens: usage.outputTokens ?? null,
+      duration_ms: Date.now() - startedAt,
+    });
+
+    // Invalid replies are sent back to the model with the validation problem; vendor
+    // outages and rate limits are retried as-is
+    const repairs: Repair[] = [];
+    let lastError = "";
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      const startedAt = Date.now();
+
+      let completion;
+      try {
+        completion = await provider.complete(prompt, repairs);
+      } catch (err) {
+        await logUsage("provider_error", attempt, startedAt);
+        const status = err instanceof ProviderError ? err.status : null;
+        const message = err instanceof Error ? err.message : String(err);
+        const retryable = status === null || status === 429 || status >= 500;
+        if (!retryable || attempt === MAX_ATTEMPTS) {
+          return jsonResponse({ error: message, provider_status: status }, 502);
+        }
+        lastError = message;
+        continue;
+      }
+
+      try {
+        const result = parseResponse(task, completion.content);
+        await logUsage("ok", attempt, startedAt, completion);
+        return jsonResponse({ result, attempts: attempt });
+      } catch (err) {
+        if (!(err instanceof SchemaError)) throw err;
+        await logUsage("invalid_response", attempt, startedAt, completion);
+        repairs.push({ reply: completion.content, problem: err.message });
+        lastError = err.message;
+      }
+    }
+
+    return jsonResponse({ error: `AI response did not match the expected format: ${lastError}` }, 422);
+  } catch (err) {
+    return jsonResponse({ error: err instanceof Error ? err.message : String(err) }, 500);
+  }
+});
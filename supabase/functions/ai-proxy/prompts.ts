@@ -0,0 +1,626 @@
+// Prompts for every AI task. They live server-side so the browser only sends task inputs
+// and never sees the vendor key or the prompt text.
+
+// Keep in sync with ALLERGEN_TAGS in src/lib/allergenOntology.ts
+export const ALLERGEN_TAGS = [
+  "Milk",
+  "Eggs",
+  "Fish",
+  "Shellfish",
+  "Tree Nuts",
+  "Peanuts",
+  "Wheat",
+  "Soy",
+  "Sesame",
+  "Gluten",
+  "Mustard",
+  "Celery",
+  "Lupin",
+  "Mollusks",
+  "Sulfites",
+  "Onion",
+  "Garlic",
+];
+
+const ALLERGEN_CATEGORIES = ALLERGEN_TAGS.join(", ");
+
+// Comprehensive allergen mapping reference for AI prompts
+const ALLERGEN_MAPPING_REFERENCE = `
+ALLERGEN CATEGORY MAPPINGS - Use these to correctly identify allergens:
+
+MILK/DAIRY:
+- Direct: milk, cream, butter, cheese, yogurt, ice cream, whey, casein, lactose, ghee
+- Hidden: many breads, baked goods, chocolate, caramel, nougat, ranch dressing, cream sauces
+
+EGGS:
+- Direct: eggs, egg whites, egg yolks, mayonnaise (mayo = eggs + oil + salt, NOT milk), meringue, custard, aioli
+- Hidden: pasta (some), baked goods, marshmallows, some sauces, tempura batter
+- IMPORTANT: Mayonnaise/mayo does NOT contain milk/dairy - it is made from eggs, oil, and acid (lemon/vinegar). Only tag as "Eggs", never "Milk"
+
+FISH:
+- Direct: salmon, tuna, cod, halibut, bass, trout, tilapia, anchovy, sardine, mackerel
+- Hidden: Worcestershire sauce, Caesar dressing, fish sauce, some Asian sauces
+
+SHELLFISH (Crustaceans):
+- Crustaceans: shrimp, prawns, crab, lobster, crayfish/crawfish, langoustine
+- This is different from Mollusks - keep them separate
+
+MOLLUSKS:
+- Direct: clams, mussels, oysters, scallops, squid/calamari, octopus, snails/escargot
+
+TREE NUTS:
+- Direct: almonds, walnuts, cashews, pecans, pistachios, macadamia, hazelnuts/filberts, Brazil nuts, pine nuts, chestnuts
+- Hidden: pesto (pine nuts), marzipan (almonds), praline, nougat, some oils
+- Note: Coconut is NOT a tree nut (FDA classifies as fruit)
+
+PEANUTS (Legume, not a nut):
+- Direct: peanuts, peanut butter, peanut oil, peanut flour
+- Hidden: many Asian dishes, African dishes, some chili recipes, satay sauce
+
+WHEAT:
+- Direct: wheat flour, bread, pasta, couscous, bulgur, semolina, durum, spelt, farina
+- Hidden: soy sauce (most contain wheat), many sauces, breaded items, beer
+
+GLUTEN (Protein in certain grains):
+- Contains gluten: wheat, barley, rye, triticale, spelt, kamut, farro
+- Hidden: soy sauce, malt, beer, some oats (cross-contamination), seitan
+
+SOY:
+- Direct: soybeans, edamame, tofu, tempeh, miso, soy sauce, soy milk, soy protein
+- Hidden: vegetable oil (often soybean), lecithin (soy-based), many processed foods
+- Note: Chickpeas, lentils, other beans are NOT soy (they're different legumes)
+
+SESAME:
+- Direct: sesame seeds, tahini, sesame oil, hummus (contains tahini), halvah
+- Hidden: many Middle Eastern foods, some breads, bagels, Asian dishes
+
+MUSTARD:
+- Direct: mustard seeds, mustard powder, prepared mustard, mustard oil
+- Hidden: many sauces, dressings, marinades, curry powder, pickles
+
+CELERY:
+- Direct: celery stalks, celery root/celeriac, celery seeds, celery salt
+- Hidden: stocks, soups, spice blends, Bloody Mary mix
+
+LUPIN/LUPINE:
+- Direct: lupin beans, lupin flour, lupin seeds
+- Hidden: some gluten-free products, European breads and pastries
+
+SULFITES:
+- Direct: sulfur dioxide, sodium sulfite, sodium bisulfite
+- Found in: wine, dried fruits, some seafood, pickled foods, grape juice
+
+ONION:
+- Direct: onion, onion powder, dried onion, shallots, scallions/green onions, leeks, chives
+- Hidden: many soups, stocks, sauces, seasonings, French onion dip, onion rings
+
+GARLIC:
+- Direct: garlic, garlic powder, garlic salt, minced garlic, roasted garlic
+- Hidden: many sauces, marinades, seasoning blends, garlic bread, aioli, pesto
+
+SPECIAL NOTES:
+- Nightshades (tomatoes, peppers, eggplant, potatoes) are not major allergens but some people are sensitive
+- Corn is not a major allergen but can cause reactions in some people
+`;
+
+export const AI_TASKS = [
+  "menu-scan",
+  "menu-photo",
+  "ingredient-allergens",
+  "ingredient-list-allergens",
+  "ingredient-suggestions",
+  "menu-item-allergens",
+  "cross-contact",
+  "description-allergens",
+  "nutrition",
+  "dietary-menu",
+] as const;
+
+export type AITask = typeof AI_TASKS[number];
+
+export function isAITask(value: unknown): value is AITask {
+  return typeof value === "string" && (AI_TASKS as readonly string[]).includes(value);
+}
+
+export type PromptContent =
+  | string
+  | ({ type: "text"; text: string } | { type: "image"; dataUrl: string; detail?: "low" | "high" })[];
+
+export interface Prompt {
+  system: string;
+  user: PromptContent;
+  maxTokens: number;
+  temperature: number;
+  // "advanced" selects the vendor's stronger model, e.g. for positional OCR
+  tier: "standard" | "advanced";
+}
+
+type TaskInput = Record<string, unknown>;
+
+// Thrown for a malformed request body; the handler answers 400
+export class PromptInputError extends Error {}
+
+function requireString(input: TaskInput, key: string): string {
+  const value = input[key];
+  if (typeof value !== "string" || !value.trim()) {
+    throw new PromptInputError(`"${key}" must be a non-empty string`);
+  }
+  return value;
+}
+
+function optionalString(input: TaskInput, key: string): string {
+  const value = input[key];
+  return typeof value === "string" ? value : "";
+}
+
+function requireList<T>(input: TaskInput, key: string, isItem: (item: unknown) => item is T): T[] {
+  const value = input[key];
+  if (!Array.isArray(value) || !value.every(isItem)) {
+    throw new PromptInputError(`"${key}" has the wrong shape`);
+  }
+  return value;
+}
+
+const isString = (item: unknown): item is string => typeof item === "string";
+
+const isNamedAllergens = (item: unknown): item is { name: string; allergens: string[] } =>
+  typeof item === "object" && item !== null &&
+  typeof (item as { name?: unknown }).name === "string" &&
+  Array.isArray((item as { allergens?: unknown }).allergens);
+
+const isNamedAmount = (item: unknown): item is { name: string; amount: string } =>
+  typeof item === "object" && item !== null &&
+  typeof (item as { name?: unknown }).name === "string" &&
+  typeof (item as { amount?: unknown }).amount === "string";
+
+const isObject = (item: unknown): item is Record<string, unknown> => typeof item === "object" && item !== null;
+
+const DIETARY_CATEGORY_DESCRIPTIONS: Record<string, string> = {
+  "vegetarian": "VEGETARIAN: No meat (beef, pork, lamb, poultry, game), no fish, no seafood. Eggs and dairy ARE allowed. Gelatin is NOT vegetarian.",
+  "vegan": "VEGAN: No animal products at all - no meat, fish, seafood, dairy, eggs, honey, gelatin, or any animal-derived ingredients.",
+  "low-carb": "LOW-CARB: Less than 20g net carbs per serving. Focus on proteins, fats, and non-starchy vegetables. No bread, pasta, rice, potatoes, sugar.",
+  "pescatarian": "PESCATARIAN: No meat or poultry (beef, pork, lamb, chicken, turkey, game). Fish and seafood ARE allowed. Dairy and eggs ARE allowed. Gelatin from animals is NOT pescatarian.",
+  "kosher": "KOSHER: No pork or pork products (bacon, ham, lard). No shellfish (shrimp, crab, lobster, clams, mussels). No mixing of meat and dairy in the same dish. Gelatin from non-kosher animals is NOT kosher. Fish with fins and scales ARE allowed.",
+  "halal": "HALAL: No pork or pork products (bacon, ham, lard, gelatin from pork). No alcohol or alcohol-based ingredients (wine, beer, rum, vanilla extract with alcohol). All meat must be halal-slaughtered — if meat source is unknown, mark as not halal. Fish and seafood ARE generally allowed.",
+  "low-sodium": "LOW-SODIUM: Less than 600mg sodium per serving. Avoid processed foods, soy sauce, pickled items, cured meats, high-sodium seasonings.",
+};
+
+const PROMPTS: Record<AITask, (input: TaskInput) => Prompt> = {
+  "menu-scan": (input) => {
+    const image = requireString(input, "image");
+    return {
+      system: `You are a menu analysis assistant. Extract dish information from menu images.
+Return ONLY valid JSON array with this exact structure, no markdown code blocks or extra text:
+[{"name": "Dish Name", "category": "Category", "price": "00.00", "description": "Brief description"}]
+
+Rules:
+- Categories: Appetizers, Main Courses, Sides, Desserts, Beverages, or Other
+- Price: numbers only (e.g., "12.99" not "$12.99")
+- If price is not visible, use "0.00"
+- Extract ALL dishes you can see clearly
+- Keep descriptions brief (under 100 characters)`,
+      user: [
+        {
+          type: "text",
+          text: "Analyze this menu image and extract all dishes with their names, categories, prices, and descriptions. Return only the JSON array.",
+        },
+        // Use high detail for better text recognition
+        { type: "image", dataUrl: image, detail: "high" },
+      ],
+      maxTokens: 4096,
+      temperature: 0.1,
+      tier: "standard",
+    };
+  },
+  "menu-photo": (input) => {
+    const image = requireString(input, "image");
+    return {
+      system: `You are a menu OCR expert. Extract dish names with ACCURATE pixel-level positions.
+
+CRITICAL TASK: Read the menu and provide the EXACT location of each dish name.
+
+For EACH dish found, you MUST provide:
+1. name: Dish name as written
+2. boundingBox: The ACTUAL position of this specific dish name on the menu
+   - x: How far from the LEFT edge (as % of image width, 0-100) - WHERE DOES THIS TEXT START?
+   - y: How far from the TOP edge (as % of image height, 0-100) - WHAT ROW IS THIS TEXT ON?
+   - width/height: Approximate size of text
+3. confidence: 0-100
+4. price: If visible
+
+POSITION ACCURACY IS CRITICAL:
+- Each dish has a UNIQUE y position based on which LINE it's on
+- Do NOT use evenly spaced values - measure ACTUAL positions
+- First item might be at y=12, next at y=18, then y=31, etc. - NOT evenly spaced!
+- Look at WHERE each dish name actually appears on the menu
+- If dishes are close together, their y values will be close (e.g., y=25 and y=28)
+- If there's a gap, y values will have a gap too
+
+EXAMPLE for a menu with items at different spacings:
+- "Soup of the Day" at top-left: x=8, y=15
+- "House Salad" right below it: x=8, y=19
+- "Caesar Salad" with gap after: x=8, y=24
+- "Grilled Salmon" in new section: x=8, y=38
+- "Pasta Primavera" below that: x=8, y=43
+
+Return ONLY valid JSON:
+{
+  "items": [
+    {"name": "Dish Name", "boundingBox": {"x": 8, "y": 15, "width": 20, "height": 3}, "confidence": 95, "price": "$12.99"}
+  ]
+}`,
+      user: [
+        {
+          type: "text",
+          text: "Read this menu and extract all dish names with their EXACT positions. Each dish appears at a specific location - provide the actual x,y coordinates where each dish name appears. Do NOT use evenly-spaced positions.",
+        },
+        // High detail for better text recognition
+        { type: "image", dataUrl: image, detail: "high" },
+      ],
+      maxTokens: 3000,
+      temperature: 0.1,
+      tier: "advanced",
+    };
+  },
+  "ingredient-allergens": (input) => {
+    const ingredientName = requireString(input, "ingredientName");
+    return {
+      system: `You are a food allergen expert. Your task is to identify which ALLERGEN CATEGORIES an ingredient belongs to.
+
+IMPORTANT: You must map ingredients to their correct allergen CATEGORY, not just repeat the ingredient name.
+
+VALID ALLERGEN CATEGORIES (only use these exact names):
+${ALLERGEN_CATEGORIES}
+
+${ALLERGEN_MAPPING_REFERENCE}
+
+CRITICAL RULES:
+1. Map ingredients to their allergen CATEGORY (e.g., "shrimp" -> "Shellfish", NOT "Shrimp")
+2. "Celery" IS a valid allergen category - celery stalks, celery salt, celeriac all map to "Celery"
+3. Multiple categories can apply (e.g., "soy sauce" -> ["Soy", "Wheat", "Gluten"])
+4. If no major allergens apply, return empty array []
+5. Chickpeas, lentils, black beans are legumes but NOT "Soy" - only soybeans are "Soy"
+
+EXAMPLES:
+- "shrimp" -> ["Shellfish"]
+- "crab" -> ["Shellfish"]
+- "squid" -> ["Mollusks"]
+- "butter" -> ["Milk"]
+- "parmesan cheese" -> ["Milk"]
+- "soy sauce" -> ["Soy", "Wheat", "Gluten"]
+- "tofu" -> ["Soy"]
+- "edamame" -> ["Soy"]
+- "bread crumbs" -> ["Wheat", "Gluten"]
+- "pesto" -> ["Tree Nuts", "Milk"]
+- "tahini" -> ["Sesame"]
+- "hummus" -> ["Sesame"]
+- "celery" -> ["Celery"]
+- "celery salt" -> ["Celery"]
+- "almonds" -> ["Tree Nuts"]
+- "peanut butter" -> ["Peanuts"]
+- "Worcestershire sauce" -> ["Fish"]
+- "fish sauce" -> ["Fish"]
+- "mayonnaise" -> ["Eggs"] (NOT Milk - mayo is eggs + oil + salt)
+- "mayo" -> ["Eggs"] (NOT Milk)
+- "aioli" -> ["Eggs"] (garlic mayo, NOT Milk)
+- "olive oil" -> []
+- "garlic" -> ["Garlic"]
+- "onion" -> ["Onion"]
+- "shallots" -> ["Onion"]
+- "leek" -> ["Onion"]
+- "scallion" -> ["Onion"]
+- "chickpeas" -> []
+- "black beans" -> []
+- "rice" -> []
+- "tomato" -> []
+
+Return ONLY a JSON array of allergen category names. No explanation.`,
+      user: `Ingredient: "${ingredientName}"
+
+What allergen categories does this ingredient belong to? Return only the JSON array.`,
+      maxTokens: 150,
+      temperature: 0.1,
+      tier: "standard",
+    };
+  },
+  "ingredient-list-allergens": (input) => {
+    const ingredientNames = requireList(input, "ingredientNames", isString);
+    return {
+      system: `You are a food allergen expert. Your task is to identify which ALLERGEN CATEGORIES each ingredient belongs to.
+
+IMPORTANT: You must map ingredients to their correct allergen CATEGORY, not just repeat the ingredient name.
+
+VALID ALLERGEN CATEGORIES (only use these exact names):
+${ALLERGEN_CATEGORIES}
+
+${ALLERGEN_MAPPING_REFERENCE}
+
+CRITICAL RULES:
+1. Map ingredients to their allergen CATEGORY (e.g., "shrimp" -> "Shellfish", NOT "Shrimp")
+2. "Celery" IS a valid allergen category - celery stalks, celery salt, celeriac all map to "Celery"
+3. Multiple categories can apply (e.g., "soy sauce" -> ["Soy", "Wheat", "Gluten"])
+4. If no major allergens apply, use empty array []
+5. Chickpeas, lentils, black beans are legumes but NOT "Soy" - only soybeans are "Soy"
+
+Return ONLY a JSON array with this exact structure:
+[{"name": "ingredient name", "allergens": ["AllergenCategory1", "AllergenCategory2"]}]`,
+      user: `Identify allergen categories for each ingredient:
+${ingredientNames.map((n, i) => `${i + 1}. ${n}`).join("\n")}
+
+Return the JSON array.`,
+      maxTokens: 1500,
+      temperature: 0.1,
+      tier: "standard",
+    };
+  },
+  "ingredient-suggestions": (input) => {
+    const dishName = requireString(input, "dishName");
+    const dishDescription = optionalString(input, "dishDescription");
+    const existingNames = requireList(input, "existingIngredientNames", isString);
+    return {
+      system: `You are a culinary and allergen expert. Given a dish name and description, suggest the ACTUAL ingredients that would be used in THIS specific dish.
+
+IMPORTANT: Suggest ingredients based ONLY on what this specific dish would contain. Do NOT blindly suggest ingredients just because they exist in the database. Only mark "isExisting" as true if an ingredient you would genuinely suggest for this dish happens to match one already in the database.
+
+Existing ingredients in database (for matching only, NOT for suggestion): ${existingNames.length > 0 ? existingNames.join(', ') : 'None yet'}
+
+VALID ALLERGEN CATEGORIES (only use these exact names for allergens):
+${ALLERGEN_CATEGORIES}
+
+${ALLERGEN_MAPPING_REFERENCE}
+
+Return ONLY a JSON array with this structure:
+[{"name": "Ingredient Name", "allergens": ["AllergenCategory1"], "confidence": 90, "isExisting": true}]
+
+CRITICAL RULES:
+- Suggest ingredients that are ACTUALLY used in this dish, not random ingredients from the database
+- "allergens" must contain CATEGORY names, not ingredient names (e.g., "Shellfish" not "shrimp")
+- "confidence" is 0-100, how likely this ingredient is in THIS specific dish
+- "isExisting" is true ONLY if an ingredient you'd genuinely suggest matches one from the existing database (case-insensitive)
+- Include 5-15 most likely ingredients for THIS dish
+- Sort by confidence (highest first)
+- Be specific (e.g., "Olive Oil" not just "Oil")
+- For each ingredient, correctly identify all applicable allergen categories`,
+      user: `Suggest ingredients for: "${dishName}"${dishDescription ? `\nDescription: ${dishDescription}` : ""}`,
+      maxTokens: 1500,
+      temperature: 0.3,
+      tier: "standard",
+    };
+  },
+  "menu-item-allergens": (input) => {
+    const dishName = requireString(input, "dishName");
+    const preparationText = requireString(input, "preparationText");
+    const ingredientsList = requireList(input, "ingredients", isNamedAllergens).map(i =>
+      `${i.name}${i.allergens.length > 0 ? ` (contains: ${i.allergens.join(", ")})` : ""}`
+    ).join("\n- ");
+    return {
+      system: `You are a food safety and allergen expert. Analyze the preparation process for potential cross-contamination risks.
+
+VALID ALLERGEN CATEGORIES (only use these exact names):
+${ALLERGEN_CATEGORIES}
+
+${ALLERGEN_MAPPING_REFERENCE}
+
+Your task:
+1. Identify cross-contamination risks from the preparation description
+2. Look for mentions of: shared fryers, grills, surfaces, utensils, oils used for other foods
+3. Consider cooking methods that might introduce allergens (e.g., "fried in peanut oil", "cooked on shared grill")
+4. Generate clear warnings for customers with allergies
+
+Return ONLY valid JSON with this exact structure:
+{
+  "crossContaminationRisks": [
+    {"allergen": "AllergenCategoryName", "reason": "Brief explanation of the risk"}
+  ],
+  "warnings": ["Human-readable warning message 1", "Warning 2"],
+  "safetyNotes": ["Additional safety note if relevant"]
+}
+
+CRITICAL RULES:
+- Use ALLERGEN CATEGORY names only (e.g., "Shellfish" not "shrimp", "Tree Nuts" not "almonds")
+- Only include risks that are actually mentioned or strongly implied in the preparation text
+- Be specific about the source of contamination risk
+- Keep warnings concise but clear
+- If no cross-contamination risks are found, return empty arrays`,
+      user: `Analyze this dish for cross-contamination risks:
+
+DISH: ${dishName}
+
+INGREDIENTS:
+- ${ingredientsList || 'No ingredients listed'}
+
+PREPARATION PROCESS:
+${preparationText}
+
+Identify any cross-contamination risks from the preparation method.`,
+      maxTokens: 500,
+      temperature: 0.2,
+      tier: "standard",
+    };
+  },
+  "cross-contact": (input) => {
+    const stepDescription = requireString(input, "stepDescription");
+    return {
+      system: `You are a food safety expert. Analyze cooking step descriptions for:
+1. Cross-contamination risks (shared equipment, oils, surfaces, utensils)
+2. Which allergens can be AVOIDED or MODIFIED based on what the chef describes
+
+VALID ALLERGEN CATEGORIES (only use these exact names):
+${ALLERGEN_CATEGORIES}
+
+${ALLERGEN_MAPPING_REFERENCE}
+
+Your tasks:
+- Identify cross-contamination risks mentioned or implied in the cooking step
+- Look for: shared equipment (fryers, grills, pans), cooking oils, shared surfaces, utensils
+- Also identify which allergens the chef indicates CAN BE MODIFIED or AVOIDED. Look for language like:
+  - "can be changed to gluten free" → that allergen is modifiable
+  - "can be removed" → that allergen is modifiable
+  - "is a garnish" or "optional" → that allergen is modifiable
+  - "substitute available" or "alternative available" → that allergen is modifiable
+  - "use separate fryer/pan" → that allergen is modifiable
+- Summarize HOW the modification works based on the chef's words
+
+Return ONLY a JSON object with this exact structure:
+{
+  "cross_contact_risks": ["Allergen1", "Allergen2"],
+  "modifiable_allergens": ["Allergen1"],
+  "modification_notes": "Brief description of how to modify based on chef's words"
+}
+
+Rules:
+- "cross_contact_risks" = ALL allergens present (from cross-contact OR mentioned allergen-containing ingredients in the step)
+- "modifiable_allergens" = subset of cross_contact_risks that the chef says CAN be avoided/changed/removed
+- "modification_notes" = empty string if no modifications described
+- If no risks at all, return: {"cross_contact_risks":[],"modifiable_allergens":[],"modification_notes":""}
+
+Examples:
+- "fried in same oil as shrimp" → {"cross_contact_risks":["Shellfish"],"modifiable_allergens":[],"modification_notes":""}
+- "bread can be changed for gluten free and almond is a garnish that can be removed" → {"cross_contact_risks":["Gluten","Wheat","Tree Nuts"],"modifiable_allergens":["Gluten","Wheat","Tree Nuts"],"modification_notes":"Bread can be substituted with gluten-free option; almonds can be removed as they are a garnish"}
+- "grilled on shared surface, can use separate pan on request" → {"cross_contact_risks":["Fish"],"modifiable_allergens":["Fish"],"modification_notes":"Can use separate pan on request"}`,
+      user: `Cooking step: "${stepDescription}"
+
+Analyze for cross-contamination risks and modification possibilities. Return only the JSON object.`,
+      maxTokens: 300,
+      temperature: 0.1,
+      tier: "standard",
+    };
+  },
+  "description-allergens": (input) => {
+    const description = requireString(input, "description");
+    return {
+      system: `You are a food allergen expert. Analyze dish descriptions to identify allergens that are explicitly mentioned or strongly implied.
+
+VALID ALLERGEN CATEGORIES (only use these exact names):
+${ALLERGEN_CATEGORIES}
+
+${ALLERGEN_MAPPING_REFERENCE}
+
+Your task:
+- Identify allergens that are EXPLICITLY mentioned in the description
+- Also identify allergens that are STRONGLY IMPLIED by ingredients/preparations mentioned
+- Examples:
+  - "served with a creamy peanut sauce" -> ["Peanuts", "Milk"]
+  - "topped with parmesan and walnuts" -> ["Milk", "Tree Nuts"]
+  - "breaded and deep fried" -> ["Wheat", "Gluten"]
+  - "made with our signature tahini dressing" -> ["Sesame"]
+  - "grilled salmon fillet" -> ["Fish"]
+  - "shrimp scampi in garlic butter" -> ["Shellfish", "Milk"]
+
+Return ONLY a JSON array of allergen category names found in the description.
+If no allergens are detected, return empty array [].
+Be conservative - only include allergens that are clearly indicated.`,
+      user: `Dish description: "${description}"
+
+What allergens are mentioned or implied? Return only the JSON array.`,
+      maxTokens: 200,
+      temperature: 0.1,
+      tier: "standard",
+    };
+  },
+  "nutrition": (input) => {
+    const dishName = requireString(input, "dishName");
+    const ingredientList = requireList(input, "ingredients", isNamedAmount)
+      .map(ing => `- ${ing.name}: ${ing.amount}`)
+      .join("\n");
+    return {
+      system: `You are a nutrition expert. Estimate the complete nutritional information for a dish based on its ingredients and amounts.
+
+Guidelines:
+- Use standard USDA nutritional values for each ingredient
+- Account for cooking methods (e.g., frying adds fat)
+- Round values appropriately (calories to nearest 5, grams to 1 decimal, mg to nearest integer)
+- Be conservative - slightly overestimate unhealthy nutrients
+- Consider typical serving sizes and preparation methods
+
+Return ONLY a valid JSON object with these exact keys (use null if unable to estimate):
+{
+  "calories": <integer>,
+  "protein_g": <number>,
+  "carbs_g": <number>,
+  "carbs_fiber_g": <number>,
+  "carbs_sugar_g": <number>,
+  "carbs_added_sugar_g": <number>,
+  "fat_g": <number>,
+  "fat_saturated_g": <number>,
+  "fat_trans_g": <number>,
+  "fat_polyunsaturated_g": <number>,
+  "fat_monounsaturated_g": <number>,
+  "sodium_mg": <integer>,
+  "cholesterol_mg": <integer>
+}
+
+Notes:
+- carbs_g is TOTAL carbs (includes fiber and sugars)
+- fat_g is TOTAL fat (includes all fat types)
+- carbs_added_sugar_g is sugars added during preparation (not naturally occurring)
+- Return ONLY the JSON, no explanation or markdown.`,
+      user: `Dish: ${dishName}
+
+Ingredients:
+${ingredientList}
+
+Estimate the complete nutritional information for one serving. Return only the JSON object.`,
+      maxTokens: 300,
+      temperature: 0.2,
+      tier: "standard",
+    };
+  },
+  "dietary-menu": (input) => {
+    const categoryDescription = DIETARY_CATEGORY_DESCRIPTIONS[requireString(input, "categoryId")] ?? "";
+    const dishList = requireList(input, "dishes", isObject);
+    return {
+      system: `You are a dietary expert. Analyze menu items to determine if they can be served for a specific dietary requirement.
+
+${categoryDescription}
+
+For each dish, determine:
+1. Is it naturally compliant with the diet?
+2. Can it become compliant by removing or substituting ingredients?
+3. What modifications are needed?
+
+IMPORTANT:
+- Be strict about the dietary requirements
+- Consider hidden ingredients (e.g., butter in sauces, chicken broth, etc.)
+- If an ingredient is marked as "removable", it CAN be removed
+- If an ingredient is marked as "substitutable", check the substitutes list
+- For low-carb/low-sodium, use the provided nutrition values if available
+
+Return ONLY a JSON object with this structure:
+{
+  "dishes": [
+    {
+      "id": "dish-id",
+      "name": "Dish Name",
+      "safe": true/false,
+      "requiresModification": true/false,
+      "modifications": ["Remove X", "Substitute Y with Z"],
+      "reason": "Brief explanation if not safe"
+    }
+  ]
+}`,
+      user: `Analyze these dishes for ${categoryDescription.split(":")[0]} diet:
+
+${JSON.stringify(dishList, null, 2)}
+
+Return the JSON analysis.`,
+      maxTokens: 3000,
+      temperature: 0.2,
+      tier: "standard",
+    };
+  },
+};
+
+export function buildPrompt(task: AITask, input: TaskInput): Prompt {
+  return PROMPTS[task](input);
+}
+
+// A reply that failed validation, sent back to the model so it can correct itself
+export interface Repair {
+  reply: string;
+  problem: string;
+}
+
+export function buildRepairMessage(problem: string): string {
+  return `Your previous reply could not be used: ${problem}. Reply again with ONLY the JSON in the exact structure described above, with no explanation or markdown.`;
+}
@@ -0,0 +1,155 @@
+// Vendor adapters. The vendor is chosen with the AI_PROVIDER secret ("openai" by default
+// or "anthropic"); its API key never leaves the server.
+
+import { buildRepairMessage, Prompt, Repair } from "./prompts.ts";
+
+export interface Completion {
+  content: string;
+  model: string;
+  inputTokens: number | null;
+  outputTokens: number | null;
+}
+
+export interface Provider {
+  name: string;
+  // Repairs continue the conversation after replies that failed validation
+  complete(prompt: Prompt, repairs?: Repair[]): Promise<Completion>;
+}
+
+function repairTurns(repairs: Repair[]) {
+  return repairs.flatMap(repair => [
+    { role: "assistant", content: repair.reply },
+    { role: "user", content: buildRepairMessage(repair.problem) },
+  ]);
+}
+
+// Thrown for a non-2xx vendor response; status is the vendor's HTTP status
+export class ProviderError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+async function readErrorMessage(response: Response): Promise<string> {
+  const errorData = await response.json().catch(() => ({}));
+  return errorData.error?.message || `API request failed with status ${response.status}`;
+}
+
+const OPENAI_MODELS = { standard: "gpt-4o-mini", advanced: "gpt-4o" };
+
+function createOpenAIProvider(apiKey: string): Provider {
+  return {
+    name: "openai",
+    async complete(prompt, repairs = []) {
+      const model = OPENAI_MODELS[prompt.tier];
+      const userContent = typeof prompt.user === "string"
+        ? prompt.user
+        : prompt.user.map(part => part.type === "text"
+          ? part
+          : { type: "image_url", image_url: { url: part.dataUrl, detail: part.detail ?? "auto" } });
+
+      const response = await fetch("https://api.openai.com/v1/chat/completions", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: "system", content: prompt.system },
+            { role: "user", content: userContent },
+            ...repairTurns(repairs),
+          ],
+          max_tokens: prompt.maxTokens,
+          temperature: prompt.temperature,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new ProviderError(await readErrorMessage(response), response.status);
+      }
+
+      const data = await response.json();
+      return {
+        content: data.choices[0]?.message?.content || "",
+        model,
+        inputTokens: data.usage?.prompt_tokens ?? null,
+        outputTokens: data.usage?.completion_tokens ?? null,
+      };
+    },
+  };
+}
+
+const ANTHROPIC_MODELS = { standard: "claude-haiku-4-5", advanced: "claude-sonnet-4-5" };
+
+function toAnthropicImage(dataUrl: string) {
+  const match = dataUrl.match(/^data:([^;]+);base64,(.*)$/);
+  return {
+    type: "image",
+    source: {
+      type: "base64",
+      media_type: match ? match[1] : "image/jpeg",
+      data: match ? match[2] : dataUrl,
+    },
+  };
+}
+
+function createAnthropicProvider(apiKey: string): Provider {
+  return {
+    name: "anthropic",
+    async complete(prompt, repairs = []) {
+      const model = ANTHROPIC_MODELS[prompt.tier];
+      const userContent = typeof prompt.user === "string"
+        ? prompt.user
+        : prompt.user.map(part => part.type === "text" ? part : toAnthropicImage(part.dataUrl));
+
+      const response = await fetch("https://api.anthropic.com/v1/messages", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": apiKey,
+          "anthropic-version": "2023-06-01",
+        },
+        body: JSON.stringify({
+          model,
+          system: prompt.system,
+          messages: [{ role: "user", content: userContent }, ...repairTurns(repairs)],
+          max_tokens: prompt.maxTokens,
+          temperature: prompt.temperature,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new ProviderError(await readErrorMessage(response), response.status);
+      }
+
+      const data: {
+        content?: { type: string; text?: string }[];
+        usage?: { input_tokens?: number; output_tokens?: number };
+      } = await response.json();
+      return {
+        content: (data.content || [])
+          .filter(block => block.type === "text")
+          .map(block => block.text || "")
+          .join(""),
+        model,
+        inputTokens: data.usage?.input_tokens ?? null,
+        outputTokens: data.usage?.output_tokens ?? null,
+      };
+    },
+  };
+}
+
+// null when the selected vendor has no API key set
+export function getProvider(): Provider | null {
+  if (Deno.env.get("AI_PROVIDER") === "anthropic") {
+    const apiKey = Deno.env.get("ANTHROPIC_API_KEY");
+    return apiKey ? createAnthropicProvider(apiKey) : null;
+  }
+  const apiKey = Deno.env.get("OPENAI_API_KEY");
+  return apiKey ? createOpenAIProvider(apiKey) : null;
+}
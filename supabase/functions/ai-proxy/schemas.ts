@@ -0,0 +1,159 @@
+// Response shapes for every AI task. Model output is parsed and checked here before it is
+// returned, so the client never receives free-form text.
+
+import { AITask, ALLERGEN_TAGS } from "./prompts.ts";
+
+// Thrown when model output does not match the task's shape; the handler answers 422
+export class SchemaError extends Error {}
+
+type Schema<T> = (value: unknown, path: string) => T;
+
+const string: Schema<string> = (value, path) => {
+  if (typeof value !== "string") throw new SchemaError(`${path} must be a string`);
+  return value;
+};
+
+const number: Schema<number> = (value, path) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) throw new SchemaError(`${path} must be a number`);
+  return value;
+};
+
+const boolean: Schema<boolean> = (value, path) => {
+  if (typeof value !== "boolean") throw new SchemaError(`${path} must be a boolean`);
+  return value;
+};
+
+// Prices come back as "12.99" or 12.99 depending on the model
+const stringOrNumber: Schema<string> = (value, path) =>
+  typeof value === "number" ? String(value) : string(value, path);
+
+function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path) => (value === undefined || value === null ? undefined : schema(value, path));
+}
+
+function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return (value, path) => (value === undefined || value === null ? null : schema(value, path));
+}
+
+function array<T>(schema: Schema<T>): Schema<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) throw new SchemaError(`${path} must be an array`);
+    return value.map((item, index) => schema(item, `${path}[${index}]`));
+  };
+}
+
+// Unknown keys are dropped
+function object<T extends Record<string, unknown>>(shape: { [K in keyof T]: Schema<T[K]> }): Schema<T> {
+  return (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new SchemaError(`${path} must be an object`);
+    }
+    const record = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      result[key] = shape[key](record[key], `${path}.${key}`);
+    }
+    return result as T;
+  };
+}
+
+// Models occasionally invent categories ("Shrimp", "Dairy"); those are dropped rather than failing the reply
+const allergenList: Schema<string[]> = (value, path) =>
+  array(string)(value, path).filter(allergen => ALLERGEN_TAGS.includes(allergen));
+
+const nutrient = optional(nullable(number));
+
+const RESPONSE_SCHEMAS: Record<AITask, Schema<unknown>> = {
+  "menu-scan": array(object({
+    name: string,
+    category: optional(string),
+    price: optional(stringOrNumber),
+    description: optional(string),
+  })),
+  "menu-photo": object({
+    items: array(object({
+      name: string,
+      boundingBox: optional(object({
+        x: optional(number),
+        y: optional(number),
+        width: optional(number),
+        height: optional(number),
+      })),
+      confidence: optional(number),
+      price: optional(stringOrNumber),
+    })),
+  }),
+  "ingredient-allergens": allergenList,
+  "ingredient-list-allergens": array(object({
+    name: string,
+    allergens: allergenList,
+  })),
+  "ingredient-suggestions": array(object({
+    name: string,
+    allergens: optional(allergenList),
+    confidence: optional(number),
+    isExisting: optional(boolean),
+  })),
+  "menu-item-allergens": object({
+    crossContaminationRisks: array(object({ allergen: string, reason: string })),
+    warnings: optional(array(string)),
+    safetyNotes: optional(array(string)),
+  }),
+  "cross-contact": object({
+    cross_contact_risks: allergenList,
+    modifiable_allergens: allergenList,
+    modification_notes: optional(string),
+  }),
+  "description-allergens": allergenList,
+  "nutrition": object({
+    calories: nutrient,
+    protein_g: nutrient,
+    carbs_g: nutrient,
+    carbs_fiber_g: nutrient,
+    carbs_sugar_g: nutrient,
+    carbs_added_sugar_g: nutrient,
+    fat_g: nutrient,
+    fat_saturated_g: nutrient,
+    fat_trans_g: nutrient,
+    fat_polyunsaturated_g: nutrient,
+    fat_monounsaturated_g: nutrient,
+    sodium_mg: nutrient,
+    cholesterol_mg: nutrient,
+  }),
+  "dietary-menu": object({
+    dishes: array(object({
+      id: string,
+      name: optional(string),
+      safe: boolean,
+      requiresModification: optional(boolean),
+      modifications: optional(array(string)),
+      reason: optional(string),
+    })),
+  }),
+};
+
+/**
+ * Pull the JSON value out of a model reply (which may be wrapped in a markdown code
+ * block or surrounded by prose) and check it against the task's schema.
+ */
+export function parseResponse(task: AITask, content: string): unknown {
+  let jsonString = content;
+  const codeBlockMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (codeBlockMatch) {
+    jsonString = codeBlockMatch[1].trim();
+  }
+
+  const jsonMatch = jsonString.match(/[[{][\s\S]*[\]}]/);
+  if (!jsonMatch) {
+    throw new SchemaError("Response contained no JSON");
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch {
+    throw new SchemaError("Response was not valid JSON");
+  }
+
+  return RESPONSE_SCHEMAS[task](parsed, "response");
+}